@@ -22,17 +22,21 @@ import { VideoProvider } from './components/VideoCall/VideoFrontend/components/V
 import ErrorDialog from './components/VideoCall/VideoFrontend/components/ErrorDialog/ErrorDialog';
 import theme from './components/VideoCall/VideoFrontend/theme';
 import { Callback } from './components/VideoCall/VideoFrontend/types';
-import Player, { ServerPlayer, UserLocation } from './classes/Player';
-import TownsServiceClient, { TownJoinResponse } from './classes/TownsServiceClient';
+import Player, { PlayerMovement, ServerPlayer, UserLocation } from './classes/Player';
+import TownsServiceClient, { TownJoinResponse, TownRole } from './classes/TownsServiceClient';
 import Video from './classes/Video/Video';
 import SpacesServiceClient, { CoveySpaceInfo } from './classes/SpacesServiceClient';
 
 type CoveyAppUpdate =
-  | { action: 'doConnect'; data: { userName: string, townFriendlyName: string, townID: string,townIsPubliclyListed:boolean, sessionToken: string, myPlayerID: string, socket: Socket, players: Player[], emitMovement: (location: UserLocation) => void } }
+  | { action: 'doConnect'; data: { userName: string, townFriendlyName: string, townID: string,townIsPubliclyListed:boolean, sessionToken: string, myPlayerID: string, socket: Socket, players: Player[], spaces: CoveySpaceInfo[], roles: Map<string, TownRole>, emitMovement: (location: UserLocation) => void } }
   | { action: 'addPlayer'; player: Player }
-  | { action: 'playerMoved'; player: Player }
+  | { action: 'playersMoved'; movements: PlayerMovement[] }
   | { action: 'playerDisconnect'; player: Player }
+  | { action: 'playerReconnecting'; playerID: string; isReconnecting: boolean }
+  | { action: 'sessionResumed'; data: { players: Player[], spaces: CoveySpaceInfo[], roles: Map<string, TownRole> } }
   | { action: 'weMoved'; location: UserLocation }
+  | { action: 'spaceUpdated'; space: CoveySpaceInfo }
+  | { action: 'roleChanged'; identity: string; role: TownRole }
   | { action: 'disconnect' }
   ;
 
@@ -54,6 +58,8 @@ function defaultAppState(): CoveyAppState {
     },
     apiClient: new TownsServiceClient(),
     spaceApiClient: new SpacesServiceClient(),
+    spaces: new Map(),
+    roles: new Map(),
   };
 }
 function appStateReducer(state: CoveyAppState, update: CoveyAppUpdate): CoveyAppState {
@@ -71,34 +77,34 @@ function appStateReducer(state: CoveyAppState, update: CoveyAppUpdate): CoveyApp
     emitMovement: state.emitMovement,
     apiClient: state.apiClient,
     spaceApiClient: state.spaceApiClient,
+    spaces: state.spaces,
+    roles: state.roles,
   };
 
-  function calculateNearbyPlayers(players: Player[], currentLocation: UserLocation) {
-      const playersInSameSpace: Player[] = []; // List of all players in the same space as this player
-      
-      // Existing code
-      const isWithinCallRadius = (p: Player, location: UserLocation) => {
-        if (p.location && location) {
-          const dx = p.location.x - location.x;
-          const dy = p.location.y - location.y;
-          const d = Math.sqrt(dx * dx + dy * dy);
-          return d < 80;
-        }
-        return false;
-      };
+  /**
+   * Players inside a space only see and hear the other players in the same space; players in the
+   * World only see and hear the players of the World that are within the call radius. The server
+   * enforces the same split on the video tracks that each player is subscribed to.
+   */
+  function isNearby(p: Player, currentLocation: UserLocation) {
+    const currentSpace = currentLocation.space || 'World';
+    const isInSameSpace = (p.location?.space || 'World') === currentSpace;
+    const isWithinCallRadius = () => {
+      if (p.location && currentLocation) {
+        const dx = p.location.x - currentLocation.x;
+        const dy = p.location.y - currentLocation.y;
+        const d = Math.sqrt(dx * dx + dy * dy);
+        return d < 80;
+      }
+      return false;
+    };
 
-      // Find all players in the same space as the current player
-      players.forEach(player => {
-        if(player.location && currentLocation.space !== 'World') {
-          if(player.location.space === currentLocation.space){
-            playersInSameSpace.push(player);
-          }
-        }
-      });
-      
-      // Return all players in the same space and whoever else may be nearby 
-      return { nearbyPlayers: playersInSameSpace.concat(players.filter((p) => isWithinCallRadius(p, currentLocation))) }
-    }
+    return isInSameSpace && (currentSpace !== 'World' || isWithinCallRadius());
+  }
+
+  function calculateNearbyPlayers(players: Player[], currentLocation: UserLocation) {
+    return { nearbyPlayers: players.filter((p) => isNearby(p, currentLocation)) };
+  }
 
   function samePlayers(a1: NearbyPlayers, a2: NearbyPlayers) {
     if (a1.nearbyPlayers.length !== a2.nearbyPlayers.length) return false;
@@ -111,6 +117,8 @@ function appStateReducer(state: CoveyAppState, update: CoveyAppUpdate): CoveyApp
   switch (update.action) {
     case 'doConnect':
       nextState.sessionToken = update.data.sessionToken;
+      nextState.apiClient = new TownsServiceClient(undefined, update.data.sessionToken);
+      nextState.spaceApiClient = new SpacesServiceClient(undefined, update.data.sessionToken);
       nextState.myPlayerID = update.data.myPlayerID;
       nextState.currentTownFriendlyName = update.data.townFriendlyName;
       nextState.currentTownID = update.data.townID;
@@ -119,23 +127,30 @@ function appStateReducer(state: CoveyAppState, update: CoveyAppUpdate): CoveyApp
       nextState.emitMovement = update.data.emitMovement;
       nextState.socket = update.data.socket;
       nextState.players = update.data.players;
+      nextState.spaces = new Map(update.data.spaces.map((space) => [space.coveySpaceID, space]));
+      nextState.roles = update.data.roles;
       break;
     case 'addPlayer':
       nextState.players = nextState.players.concat([update.player]);
       break;
-    case 'playerMoved':
-      updatePlayer = nextState.players.find((p) => p.id === update.player.id);
-      if (updatePlayer) {
-        updatePlayer.location = update.player.location;
-      } else {
-        nextState.players = nextState.players.concat([update.player]);
-      }
-      nextState.nearbyPlayers = calculateNearbyPlayers(nextState.players,
-        nextState.currentLocation);
-      if (samePlayers(nextState.nearbyPlayers, state.nearbyPlayers)) {
-        nextState.nearbyPlayers = state.nearbyPlayers;
+    case 'playersMoved': {
+      let nearbyPlayersChanged = false;
+      update.movements.forEach(({ playerID, location }) => {
+        // Players that joined are added when the server says so, not when they move
+        const movedPlayer = nextState.players.find((p) => p.id === playerID);
+        if (movedPlayer && playerID !== nextState.myPlayerID) {
+          movedPlayer.location = location;
+          // Only a player who comes into or goes out of range changes who is nearby
+          nearbyPlayersChanged = nearbyPlayersChanged || isNearby(movedPlayer, nextState.currentLocation)
+            !== state.nearbyPlayers.nearbyPlayers.some((p) => p.id === playerID);
+        }
+      });
+      if (nearbyPlayersChanged) {
+        nextState.nearbyPlayers = calculateNearbyPlayers(nextState.players,
+          nextState.currentLocation);
       }
       break;
+    }
     case 'weMoved':
       nextState.currentLocation = update.location;
       nextState.nearbyPlayers = calculateNearbyPlayers(nextState.players,
@@ -154,6 +169,33 @@ function appStateReducer(state: CoveyAppState, update: CoveyAppUpdate): CoveyApp
         nextState.nearbyPlayers = state.nearbyPlayers;
       }
       break;
+    case 'playerReconnecting':
+      updatePlayer = nextState.players.find((p) => p.id === update.playerID);
+      if (updatePlayer) {
+        updatePlayer.isReconnecting = update.isReconnecting;
+      }
+      break;
+    case 'sessionResumed':
+      nextState.players = update.data.players;
+      nextState.spaces = new Map(update.data.spaces.map((space) => [space.coveySpaceID, space]));
+      nextState.roles = update.data.roles;
+      nextState.nearbyPlayers = calculateNearbyPlayers(nextState.players,
+        nextState.currentLocation);
+      if (samePlayers(nextState.nearbyPlayers, state.nearbyPlayers)) {
+        nextState.nearbyPlayers = state.nearbyPlayers;
+      }
+      break;
+    case 'spaceUpdated':
+      nextState.spaces = new Map(state.spaces).set(update.space.coveySpaceID, update.space);
+      break;
+    case 'roleChanged':
+      nextState.roles = new Map(state.roles);
+      if (update.role === 'member') {
+        nextState.roles.delete(update.identity);
+      } else {
+        nextState.roles.set(update.identity, update.role);
+      }
+      break;
     case 'disconnect':
       state.socket?.disconnect();
       return defaultAppState();
@@ -176,6 +218,10 @@ async function GameController(initData: TownJoinResponse,
   const roomName = video.townFriendlyName;
   assert(roomName);
 
+  // Load the spaces before listening to their changes, which then keep them up to date
+  const { spaces } = await new SpacesServiceClient(undefined, sessionToken)
+    .listSpaces({ coveyTownID: video.coveyTownID });
+
   const socket = io(url, { auth: { token: sessionToken, coveyTownID: video.coveyTownID } });
   socket.on('newPlayer', (player: ServerPlayer) => {
     dispatchAppUpdate({
@@ -183,16 +229,45 @@ async function GameController(initData: TownJoinResponse,
       player: Player.fromServerPlayer(player),
     });
   });
-  socket.on('playerMoved', (player: ServerPlayer) => {
-    if (player._id !== gamePlayerID) {
-      dispatchAppUpdate({ action: 'playerMoved', player: Player.fromServerPlayer(player) });
-    }
+  // The server sends the movements of the players once per tick, all together
+  socket.on('playersMoved', (movements: PlayerMovement[]) => {
+    dispatchAppUpdate({ action: 'playersMoved', movements });
   });
   socket.on('playerDisconnect', (player: ServerPlayer) => {
     dispatchAppUpdate({ action: 'playerDisconnect', player: Player.fromServerPlayer(player) });
   });
-  socket.on('disconnect', () => {
-    dispatchAppUpdate({ action: 'disconnect' });
+  socket.on('playerReconnecting', (player: ServerPlayer) => {
+    dispatchAppUpdate({ action: 'playerReconnecting', playerID: player._id, isReconnecting: true });
+  });
+  socket.on('playerReconnected', (player: ServerPlayer) => {
+    dispatchAppUpdate({ action: 'playerReconnecting', playerID: player._id, isReconnecting: false });
+  });
+  socket.on('disconnect', (reason: Socket.DisconnectReason) => {
+    // When the connection is lost (rather than closed by either side), the socket reconnects by
+    // itself, and the server keeps our session for a while so that we resume where we were
+    if (reason === 'io server disconnect' || reason === 'io client disconnect') {
+      dispatchAppUpdate({ action: 'disconnect' });
+    }
+  });
+  // Once reconnected, catch up on what we missed while we were away
+  socket.on('sessionResumed', (townState: { currentPlayers: ServerPlayer[], spaces: CoveySpaceInfo[], roles: { [identity: string]: TownRole } }) => {
+    dispatchAppUpdate({
+      action: 'sessionResumed',
+      data: {
+        players: townState.currentPlayers.map((sp) => Player.fromServerPlayer(sp)),
+        spaces: townState.spaces,
+        roles: new Map(Object.entries(townState.roles)),
+      },
+    });
+  });
+  const updateSpace = (space: CoveySpaceInfo) => dispatchAppUpdate({ action: 'spaceUpdated', space });
+  socket.on('spaceUpdated', updateSpace);
+  socket.on('spaceDisbanded', updateSpace);
+  socket.on('presenterChanged', updateSpace);
+  socket.on('playerEnteredSpace', ({ space }: { space: CoveySpaceInfo }) => updateSpace(space));
+  socket.on('playerLeftSpace', ({ space }: { space: CoveySpaceInfo }) => updateSpace(space));
+  socket.on('roleChanged', ({ identity, role }: { identity: string, role: TownRole }) => {
+    dispatchAppUpdate({ action: 'roleChanged', identity, role });
   });
   const emitMovement = (location: UserLocation) => {
     socket.emit('playerMovement', location );
@@ -211,6 +286,8 @@ async function GameController(initData: TownJoinResponse,
       emitMovement,
       socket,
       players: initData.currentPlayers.map((sp) => Player.fromServerPlayer(sp)),
+      spaces,
+      roles: new Map(Object.entries(initData.roles)),
     },
   });
   return true;
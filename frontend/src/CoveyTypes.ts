@@ -1,7 +1,7 @@
 import { Socket } from 'socket.io-client';
 import Player, { UserLocation } from './classes/Player';
-import TownsServiceClient from './classes/TownsServiceClient';
-import SpacesServiceClient from './classes/SpacesServiceClient';
+import TownsServiceClient, { TownRole } from './classes/TownsServiceClient';
+import SpacesServiceClient, { CoveySpaceInfo } from './classes/SpacesServiceClient';
 
 export type CoveyEvent = 'playerMoved' | 'playerAdded' | 'playerRemoved';
 
@@ -16,6 +16,19 @@ export type UserProfile = {
 export type NearbyPlayers = {
   nearbyPlayers: Player[]
 };
+/**
+ * Who a chat message is for: `town` (everyone in the town), `space:<coveySpaceID>` (the members
+ * of the space) or `direct:<playerID>` (a single player)
+ */
+export type ChatScope = string;
+export type ChatMessage = {
+  messageID: string,
+  senderID: string,
+  senderName: string,
+  scope: ChatScope,
+  body: string,
+  timestamp: number
+};
 export type CoveyAppState = {
   sessionToken: string,
   userName: string,
@@ -30,4 +43,7 @@ export type CoveyAppState = {
   socket: Socket | null,
   apiClient: TownsServiceClient,
   spaceApiClient: SpacesServiceClient,
+  spaces: Map<string, CoveySpaceInfo>,
+  /** The role of each player (by identity) that is not a plain member of the town */
+  roles: Map<string, TownRole>,
 };
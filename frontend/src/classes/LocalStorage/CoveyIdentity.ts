@@ -0,0 +1,15 @@
+export default class CoveyIdentity {
+  private static readonly identityTokenKey = 'coveyIdentityToken';
+
+  static get identityToken(): string | null {
+    return localStorage.getItem(CoveyIdentity.identityTokenKey);
+  }
+
+  static set identityToken(value: string | null) {
+    if (value) {
+      localStorage.setItem(CoveyIdentity.identityTokenKey, value);
+    } else {
+      localStorage.removeItem(CoveyIdentity.identityTokenKey);
+    }
+  }
+}
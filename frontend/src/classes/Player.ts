@@ -5,14 +5,21 @@ export default class Player {
 
   private readonly _userName: string;
 
+  private readonly _identity: string;
+
   public sprite?: Phaser.GameObjects.Sprite;
 
   public label?: Phaser.GameObjects.Text;
 
-  constructor(id: string, userName: string, location: UserLocation) {
+  /** Whether the player lost their connection, and may still come back to where they were */
+  public isReconnecting: boolean;
+
+  constructor(id: string, userName: string, location: UserLocation, identity: string, isReconnecting = false) {
     this._id = id;
     this._userName = userName;
     this.location = location;
+    this._identity = identity;
+    this.isReconnecting = isReconnecting;
   }
 
   get userName(): string {
@@ -23,11 +30,20 @@ export default class Player {
     return this._id;
   }
 
+  /** The identity of the person playing, which whitelists refer to: it stays the same when they join again */
+  get identity(): string {
+    return this._identity;
+  }
+
   static fromServerPlayer(playerFromServer: ServerPlayer): Player {
-    return new Player(playerFromServer._id, playerFromServer._userName, playerFromServer.location);
+    return new Player(playerFromServer._id, playerFromServer._userName, playerFromServer.location,
+      playerFromServer._identity, playerFromServer._isReconnecting);
   }
 }
-export type ServerPlayer = { _id: string, _userName: string, location: UserLocation };
+/** Where a player is, as sent in the movement snapshots of a town */
+export type PlayerMovement = { playerID: string, location: UserLocation };
+
+export type ServerPlayer = { _id: string, _userName: string, _identity: string, _isReconnecting: boolean, location: UserLocation };
 
 export type Direction = 'front'|'back'|'left'|'right';
 
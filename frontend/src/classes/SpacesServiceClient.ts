@@ -15,6 +15,8 @@ import assert from 'assert';
  * Payload sent by client to claim a space within a Town in Covey.Town
  */
 export interface SpaceClaimRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
   /** The id for the space that is to be claimed* */
   coveySpaceID: string;
   /** The id for the player sending the request* */
@@ -27,6 +29,8 @@ export interface SpaceClaimRequest {
  * The format of a request to join a space within a Town in Covey.Town, as dispatched by the server middleware
  */
 export interface SpaceJoinRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
   /** the id for the player that would like to join * */
   playerID: string;
   /** ID of the space that the player would like to join * */
@@ -37,12 +41,56 @@ export interface SpaceJoinRequest {
  * The format of a request to leave a space within a Town in Covey.Town, as dispatched by the server middleware
  */
 export interface SpaceLeaveRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
   /** the id for the player that would like to join * */
   playerID: string;
   /** ID of the space that the player would like to join * */
   coveySpaceID: string;
 }
 
+/**
+ * The format of a request to knock on a private space, asking its host to be let in
+ */
+export interface SpaceKnockRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the player that would like to be let in * */
+  playerID: string;
+  /** ID of the space that the player would like to join * */
+  coveySpaceID: string;
+}
+
+/**
+ * Response from the server for a knock request
+ */
+export interface SpaceKnockResponse {
+  knock: SpaceKnock;
+}
+
+/**
+ * The format of a request from the host of a space to answer a knock
+ */
+export interface SpaceKnockAnswerRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the host answering the knock * */
+  playerID: string;
+  /** ID of the space that was knocked on * */
+  coveySpaceID: string;
+  /** the id for the player that knocked * */
+  knockerID: string;
+  /** Whether to let the player in (they are added to the whitelist) * */
+  accept: boolean;
+}
+
+/**
+ * Request to list the spaces of a town
+ */
+export interface SpaceListRequest {
+  coveyTownID: string;
+}
+
 /**
  * Response from the server for a space list request
  */
@@ -54,6 +102,8 @@ export interface SpaceListResponse {
  * Response to the server to get info on a space
  */
  export interface SpaceGetForPlayerRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
   playerID: string;
 }
 
@@ -68,20 +118,98 @@ export interface SpaceListResponse {
  * Payload sent by the client to delete a Town
  */
 export interface SpaceDisbandRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
   coveySpaceID: string;
   playerID: string;
   hostID: null;
 }
 
+/**
+ * Payload sent by the host of a space to remove a player from it
+ */
+export interface SpaceKickRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the host removing the player * */
+  playerID: string;
+  /** ID of the space to remove the player from * */
+  coveySpaceID: string;
+  /** the id for the player to remove * */
+  kickedPlayerID: string;
+}
+
+/**
+ * Payload sent by a player to reserve a space for a time window, which they host
+ */
+export interface SpaceReserveRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the player reserving the space * */
+  playerID: string;
+  /** ID of the space to reserve * */
+  coveySpaceID: string;
+  /** When the reservation starts and ends, in milliseconds since the epoch * */
+  start: number;
+  end: number;
+  /** The identities of the players allowed into the space during the reservation * */
+  whitelist?: string[];
+  /** The identity of the presenter during the reservation * */
+  presenterIdentity?: string | null;
+}
+
+/**
+ * Response from the server for a reservation request
+ */
+export interface SpaceReserveResponse {
+  reservation: SpaceReservation;
+}
+
+/**
+ * Request to list the reservations of the spaces of a town
+ */
+export interface ReservationListRequest {
+  coveyTownID: string;
+}
+
+/**
+ * Response from the server for a reservation list request
+ */
+export interface ReservationListResponse {
+  /** The reservations that have not ended yet, earliest first */
+  reservations: SpaceReservation[];
+}
+
+/**
+ * Payload sent by the client to cancel a reservation
+ */
+export interface ReservationCancelRequest {
+  coveyTownID: string;
+  /** the id for the player cancelling the reservation (who made it, or a town moderator) * */
+  playerID: string;
+  reservationID: string;
+}
+
 /**
  * Payload sent by the client to update a space.
  */
 export interface SpaceUpdateRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
   coveySpaceID: string;
   playerID: string;
   hostID: string | null;
   presenterID: string | null;
+  /** The identities of the players allowed into the space */
   whitelist: string[];
+  /** The user names to let into the space once they arrive */
+  invitedNames?: string[];
+  /** The maximum number of players in the space (null for no limit), only the host may set it */
+  capacity?: number | null;
+  /** The identities of the players that share the host's privileges, only the host may set them */
+  coHosts?: string[];
+  /** What happens to the space when its host leaves, only the host may set it */
+  successionPolicy?: HostSuccessionPolicy;
 }
 
 /**
@@ -97,10 +225,48 @@ export type CoveySpaceInfo = {
   coveySpaceID: string; 
   currentPlayers: string[]; 
   whitelist: string[]; 
+  invitedNames: string[];
   hostID: string | null; 
+  /** The identity of the host, who may be away (hostID is null then) */
+  hostIdentity: string | null;
+  coHosts: string[];
+  successionPolicy: HostSuccessionPolicy;
   presenterID: string | null;
+  capacity: number | null;
+  waitingLine: string[];
+  /** When the reservation that keeps the space private ends, if it is reserved right now */
+  reservedUntil: number | null;
 };
 
+/**
+ * A time window in which a space is private for the player who reserved it, with its whitelist
+ * and presenter (identities) set in advance; start and end are in milliseconds since the epoch
+ */
+export type SpaceReservation = {
+  reservationID: string;
+  coveySpaceID: string;
+  hostIdentity: string;
+  hostName: string;
+  start: number;
+  end: number;
+  whitelist: string[];
+  presenterIdentity: string | null;
+};
+
+/** What happens to a private space when its host leaves the town */
+export type HostSuccessionPolicy = 'promoteCoHost' | 'promoteLongestPresent' | 'publicizeAfterGracePeriod';
+
+/** A request from a player to be let into a private space, waiting for its host to answer */
+export type SpaceKnock = {
+  coveySpaceID: string;
+  playerID: string;
+  userName: string;
+  expiresAt: number;
+};
+
+/** How a knock ended: answered by the host, or left unanswered until it expired */
+export type KnockOutcome = 'accepted' | 'denied' | 'expired';
+
 export default class SpacesServiceClient {
   private _axios: AxiosInstance;
 
@@ -108,11 +274,22 @@ export default class SpacesServiceClient {
    * Construct a new Spaces Service API client. Specify a serviceURL for testing, or otherwise
    * defaults to the URL at the environmental variable REACT_APP_ROOMS_SERVICE_URL
    * @param serviceURL
+   * @param sessionToken the coveySessionToken returned when joining a town, sent with every request
    */
-  constructor(serviceURL?: string) {
+  constructor(serviceURL?: string, sessionToken?: string) {
     const baseURL = serviceURL || process.env.REACT_APP_TOWNS_SERVICE_URL;
     assert(baseURL);
     this._axios = axios.create({ baseURL });
+    if (sessionToken) {
+      this.sessionToken = sessionToken;
+    }
+  }
+
+  /**
+   * Sets the coveySessionToken that is sent to authenticate every following request
+   */
+  set sessionToken(token: string) {
+    this._axios.defaults.headers.common.Authorization = `Bearer ${token}`;
   }
 
   static unwrapOrThrowError<T>(response: AxiosResponse<ResponseEnvelope<T>>, ignoreResponse = false): T {
@@ -128,54 +305,108 @@ export default class SpacesServiceClient {
 
   async createSpace(requestData: SpaceCreateRequest): Promise<void> {
     const { coveyTownID, coveySpaceID } = requestData;
-    const responseWrapper = await this._axios.post<ResponseEnvelope<void>>(`/spaces/${coveyTownID}/${coveySpaceID}`, requestData);
+    const responseWrapper = await this._axios.post<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}`, requestData);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
   }
 
   async updateSpace(requestData: SpaceUpdateRequest): Promise<void> {
-    const { coveySpaceID } = requestData;
-    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/spaces/${coveySpaceID}`, requestData);
+    const { coveyTownID, coveySpaceID } = requestData;
+    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}`, requestData);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
   }
 
   async deleteSpace(requestData: SpaceDisbandRequest): Promise<void> {
-    const { coveySpaceID } = requestData;
-    const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(`/spaces/${coveySpaceID}`);
+    const { coveyTownID, coveySpaceID } = requestData;
+    const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}`);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
   }
 
-  async listSpaces(): Promise<SpaceListResponse> {
-    const responseWrapper = await this._axios.get<ResponseEnvelope<SpaceListResponse>>('/spaces');
+  async listSpaces(requestData: SpaceListRequest): Promise<SpaceListResponse> {
+    const responseWrapper = await this._axios.get<ResponseEnvelope<SpaceListResponse>>(`/towns/${requestData.coveyTownID}/spaces`);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
   }
 
   async joinSpace(requestData: SpaceJoinRequest): Promise<void> {
-    const { coveySpaceID, playerID } = requestData;
-    const responseWrapper = await this._axios.put(`/spaces/${coveySpaceID}/${playerID}`);
+    const { coveyTownID, coveySpaceID, playerID } = requestData;
+    const responseWrapper = await this._axios.put(`/towns/${coveyTownID}/spaces/${coveySpaceID}/${playerID}`);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
   }
 
   async leaveSpace(requestData: SpaceLeaveRequest): Promise<void> {
-    const { coveySpaceID, playerID } = requestData;
-    const responseWrapper = await this._axios.delete(`/spaces/${coveySpaceID}/${playerID}`);
+    const { coveyTownID, coveySpaceID, playerID } = requestData;
+    const responseWrapper = await this._axios.delete(`/towns/${coveyTownID}/spaces/${coveySpaceID}/${playerID}`);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
   }
 
   async claimSpace(requestData: SpaceClaimRequest): Promise<void> {
-    const { coveySpaceID } = requestData;
-    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/spaces/${coveySpaceID}`, requestData);
+    const { coveyTownID, coveySpaceID } = requestData;
+    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}`, requestData);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
   }
 
   async disbandSpace(requestData: SpaceDisbandRequest): Promise<void> {
-    const { coveySpaceID } = requestData;
-    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/spaces/${coveySpaceID}`, requestData);
+    const { coveyTownID, coveySpaceID } = requestData;
+    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}`, requestData);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
   } 
 
   async getSpaceForPlayer(requestData: SpaceGetForPlayerRequest): Promise<SpaceInfoResponse> {
-    const { playerID } = requestData;
-    const responseWrapper = await this._axios.get<ResponseEnvelope<SpaceInfoResponse>>(`/spaces/${playerID}`);
+    const { coveyTownID, playerID } = requestData;
+    const responseWrapper = await this._axios.get<ResponseEnvelope<SpaceInfoResponse>>(`/towns/${coveyTownID}/players/${playerID}/space`);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
-  } 
+  }
+
+  async knockOnSpace(requestData: SpaceKnockRequest): Promise<SpaceKnockResponse> {
+    const { coveyTownID, coveySpaceID } = requestData;
+    const responseWrapper = await this._axios.post<ResponseEnvelope<SpaceKnockResponse>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}/knocks`, requestData);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async answerKnock(requestData: SpaceKnockAnswerRequest): Promise<void> {
+    const { coveyTownID, coveySpaceID, knockerID } = requestData;
+    const responseWrapper = await this._axios.put<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}/knocks/${knockerID}`, requestData);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  /**
+   * Removes a player from a space that the player hosts
+   * @param requestData 
+   * @returns A void promise to remove the player
+   */
+  async kickFromSpace(requestData: SpaceKickRequest): Promise<void> {
+    const { coveyTownID, coveySpaceID } = requestData;
+    const responseWrapper = await this._axios.post<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}/kicks`, requestData);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  /**
+   * Reserves a space for a time window, which the player hosts
+   * @param requestData 
+   * @returns A promise of the reservation
+   */
+  async reserveSpace(requestData: SpaceReserveRequest): Promise<SpaceReserveResponse> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<SpaceReserveResponse>>(`/towns/${requestData.coveyTownID}/reservations`, requestData);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  /**
+   * Lists the reservations of the spaces of a town that have not ended yet
+   * @param requestData 
+   * @returns A ReservationListResponse promise
+   */
+  async listReservations(requestData: ReservationListRequest): Promise<ReservationListResponse> {
+    const responseWrapper = await this._axios.get<ResponseEnvelope<ReservationListResponse>>(`/towns/${requestData.coveyTownID}/reservations`);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  /**
+   * Cancels a reservation that the player made (or any reservation, for town moderators)
+   * @param requestData 
+   * @returns A void promise to cancel the reservation
+   */
+  async cancelReservation(requestData: ReservationCancelRequest): Promise<void> {
+    const { coveyTownID, reservationID, playerID } = requestData;
+    const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(`/towns/${coveyTownID}/reservations/${reservationID}/${playerID}`);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
 }
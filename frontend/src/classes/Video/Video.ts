@@ -1,5 +1,6 @@
 import DebugLogger from '../DebugLogger';
 import TownsServiceClient, { TownJoinResponse } from '../TownsServiceClient';
+import CoveyIdentity from '../LocalStorage/CoveyIdentity';
 
 export default class Video {
   private static video: Video | null = null;
@@ -20,17 +21,22 @@ export default class Video {
 
   private _coveyTownID: string;
 
+  private _waitingTicket?: string;
+
   private _townFriendlyName: string | undefined;
 
   private _isPubliclyListed: boolean | undefined;
 
+  private _mapID: string | undefined;
+
   pauseGame: () => void = ()=>{};
 
   unPauseGame: () => void = ()=>{};
 
-  constructor(userName: string, coveyTownID: string) {
+  constructor(userName: string, coveyTownID: string, waitingTicket?: string) {
     this._userName = userName;
     this._coveyTownID = coveyTownID;
+    this._waitingTicket = waitingTicket;
   }
 
   get isPubliclyListed(): boolean {
@@ -44,6 +50,11 @@ export default class Video {
     return this._townFriendlyName;
   }
 
+  // gets the map of the town (its ID in the map catalog), once joined
+  get mapID(): string | undefined {
+    return this._mapID;
+  }
+
   get userName(): string {
     return this._userName;
   }
@@ -59,12 +70,17 @@ export default class Video {
         this.townsServiceClient.joinTown({
           coveyTownID: this._coveyTownID,
           userName: this._userName,
+          waitingTicket: this._waitingTicket,
+          identityToken: CoveyIdentity.identityToken ?? undefined,
         })
           .then((result) => {
+            // Keep the identity, so that whitelists still let this player in next time
+            CoveyIdentity.identityToken = result.identityToken;
             this.sessionToken = result.coveySessionToken;
             this.videoToken = result.providerVideoToken;
             this._townFriendlyName = result.friendlyName;
             this._isPubliclyListed = result.isPubliclyListed;
+            this._mapID = result.mapID;
             resolve(result);
           })
           .catch((err) => {
@@ -98,11 +114,12 @@ export default class Video {
     return this.teardownPromise ?? Promise.resolve();
   }
 
-  public static async setup(username: string, coveyTownID: string): Promise<TownJoinResponse> {
+  public static async setup(username: string, coveyTownID: string,
+    waitingTicket?: string): Promise<TownJoinResponse> {
     let result = null;
 
     if (!Video.video) {
-      Video.video = new Video(username, coveyTownID);
+      Video.video = new Video(username, coveyTownID, waitingTicket);
     }
 
     try {
@@ -0,0 +1,129 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Flex,
+  Input,
+  Select,
+  Text,
+  useToast,
+} from '@chakra-ui/react';
+import useCoveyAppState from '../../hooks/useCoveyAppState';
+import useMaybeVideo from '../../hooks/useMaybeVideo';
+import { ChatMessage, ChatScope } from '../../CoveyTypes';
+
+/** How many messages of each conversation the panel keeps around */
+const MAX_MESSAGES_PER_CONVERSATION = 100;
+
+/**
+ * The chat panel, shown next to the menu bar: players can talk to the whole town, to the other
+ * members of the space they are in, or to a single player
+ */
+export default function ChatPanel(): JSX.Element {
+  const { socket, myPlayerID, players, currentLocation } = useCoveyAppState();
+  const video = useMaybeVideo();
+  const toast = useToast();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [scope, setScope] = useState<ChatScope>('town');
+  const [draft, setDraft] = useState<string>('');
+  const [conversations, setConversations] = useState<Map<ChatScope, ChatMessage[]>>(new Map());
+  const spaceScope = currentLocation.space && currentLocation.space !== 'World' ? `space:${currentLocation.space}` : undefined;
+
+  // The scope that a message shows up under: for direct messages, that is the other player
+  const conversationOf = useCallback((message: ChatMessage): ChatScope => {
+    if (message.scope.startsWith('direct:') && message.senderID !== myPlayerID) {
+      return `direct:${message.senderID}`;
+    }
+    return message.scope;
+  }, [myPlayerID]);
+
+  useEffect(() => {
+    const receiveMessage = (message: ChatMessage) => {
+      setConversations((current) => {
+        const conversation = conversationOf(message);
+        const messages = (current.get(conversation) || []).concat(message);
+        return new Map(current).set(conversation, messages.slice(-MAX_MESSAGES_PER_CONVERSATION));
+      });
+    };
+    socket?.on('chatMessage', receiveMessage);
+    return () => {
+      socket?.off('chatMessage', receiveMessage);
+    };
+  }, [socket, conversationOf]);
+
+  // Players that leave the space can no longer talk in it
+  useEffect(() => {
+    if (scope.startsWith('space:') && scope !== spaceScope) {
+      setScope('town');
+    }
+  }, [scope, spaceScope]);
+
+  // Catch up on what was said before we opened the conversation
+  useEffect(() => {
+    if (isOpen) {
+      socket?.emit('chatHistory', scope, (messages: ChatMessage[]) => {
+        setConversations((current) => new Map(current).set(scope, messages));
+      });
+    }
+  }, [socket, scope, isOpen]);
+
+  const sendMessage = () => {
+    if (draft.trim().length === 0) {
+      return;
+    }
+    socket?.emit('chatMessage', { scope, body: draft }, (response: { isOK: boolean, message?: string }) => {
+      if (!response.isOK) {
+        toast({
+          title: 'Unable to send message',
+          description: response.message,
+          status: 'error',
+        });
+      }
+    });
+    setDraft('');
+  };
+
+  if (!isOpen) {
+    return (
+      <Box position='absolute' bottom='90px' right='20px' zIndex={10}>
+        <Button data-testid='openChatButton' colorScheme='blue' onClick={() => setIsOpen(true)}>Chat</Button>
+      </Box>
+    );
+  }
+
+  return (
+    <Box position='absolute' bottom='90px' right='20px' zIndex={10} width='320px' bg='white' borderWidth='1px' borderRadius='md' p={2}>
+      <Flex mb={2}>
+        <Select size='sm' aria-label='Send to' value={scope} onChange={(e) => setScope(e.target.value)}>
+          <option value='town'>Everyone in the town</option>
+          {spaceScope && <option value={spaceScope}>This space</option>}
+          {players.filter((player) => player.id !== myPlayerID).map((player) => (
+            <option key={player.id} value={`direct:${player.id}`}>{player.userName}</option>
+          ))}
+        </Select>
+        <Button size='sm' ml={2} onClick={() => setIsOpen(false)}>Hide</Button>
+      </Flex>
+      <Box height='200px' overflowY='auto' mb={2}>
+        {(conversations.get(scope) || []).map((message) => (
+          <Text key={message.messageID} fontSize='sm'>
+            <b>{message.senderID === myPlayerID ? 'You' : message.senderName}:</b> {message.body}
+          </Text>
+        ))}
+      </Box>
+      <form onSubmit={(ev) => { ev.preventDefault(); sendMessage(); }}>
+        <Flex>
+          <Input
+            size='sm'
+            placeholder='Message'
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            // Keep the game from moving the player while typing
+            onFocus={() => video?.pauseGame()}
+            onBlur={() => video?.unPauseGame()}
+          />
+          <Button size='sm' ml={2} type='submit' colorScheme='blue'>Send</Button>
+        </Flex>
+      </form>
+    </Box>
+  );
+}
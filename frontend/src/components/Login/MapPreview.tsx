@@ -0,0 +1,105 @@
+import React, { useEffect, useRef } from 'react';
+import { Image } from '@chakra-ui/react';
+import { CoveyMapInfo } from '../../classes/TownsServiceClient';
+
+/** How wide the preview of a map is drawn, in pixels */
+const PREVIEW_WIDTH = 240;
+
+/** Tiled keeps whether a tile is flipped in the top 3 bits of the tile ID */
+const FLIP_FLAGS = 2 ** 29;
+
+/**
+ * The subset of the Tiled JSON map format that is needed to draw a map
+ */
+type TiledTileset = {
+  name: string, firstgid: number, columns: number, tilewidth: number, tileheight: number,
+  margin: number, spacing: number,
+};
+type TiledLayer = { type: string, visible: boolean, width: number, data?: number[] };
+type TiledMap = {
+  width: number, height: number, tilewidth: number, tileheight: number, layers: TiledLayer[],
+  tilesets: TiledTileset[],
+};
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new window.Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = url;
+  });
+}
+
+// How much a tilemap is scaled down to fit the width of the preview
+function previewScale(tilemap: TiledMap): number {
+  return PREVIEW_WIDTH / (tilemap.width * tilemap.tilewidth);
+}
+
+/**
+ * Draws every visible tile layer of a tilemap, scaled down to fit the preview
+ */
+function drawTilemap(context: CanvasRenderingContext2D, tilemap: TiledMap, images: HTMLImageElement[]) {
+  const scale = previewScale(tilemap);
+  context.scale(scale, scale);
+  tilemap.layers.forEach(layer => {
+    if (layer.type !== 'tilelayer' || !layer.visible || !layer.data) {
+      return;
+    }
+    layer.data.forEach((gid, index) => {
+      const tileID = gid % FLIP_FLAGS;
+      // The tile belongs to the last tileset that starts at or before its ID
+      const tilesetIndex = tilemap.tilesets.reduce((found, tileset, i) => (
+        tileset.firstgid <= tileID ? i : found), -1);
+      if (tileID === 0 || tilesetIndex < 0) {
+        return;
+      }
+      const tileset = tilemap.tilesets[tilesetIndex];
+      const tileIndex = tileID - tileset.firstgid;
+      context.drawImage(images[tilesetIndex],
+        tileset.margin + (tileIndex % tileset.columns) * (tileset.tilewidth + tileset.spacing),
+        tileset.margin + Math.floor(tileIndex / tileset.columns) * (tileset.tileheight + tileset.spacing),
+        tileset.tilewidth, tileset.tileheight,
+        (index % layer.width) * tilemap.tilewidth, Math.floor(index / layer.width) * tilemap.tileheight,
+        tileset.tilewidth, tileset.tileheight);
+    });
+  });
+}
+
+/**
+ * Shows what a map of the catalog looks like: its thumbnail if it has one, otherwise the map
+ * itself, drawn from its tilemap and tilesets
+ */
+export default function MapPreview({ map }: { map: CoveyMapInfo }): JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (map.thumbnailURL) {
+      return undefined;
+    }
+    let isCurrent = true;
+    const drawPreview = async () => {
+      const tilemap: TiledMap = await (await fetch(map.tilemapURL)).json();
+      const images = await Promise.all(tilemap.tilesets.map(tileset => loadImage(
+        map.tilesets.find(catalogTileset => catalogTileset.name === tileset.name)?.imageURL ?? '')));
+      const canvas = canvasRef.current;
+      if (isCurrent && canvas) {
+        canvas.height = Math.ceil(tilemap.height * tilemap.tileheight * previewScale(tilemap));
+        const context = canvas.getContext('2d');
+        if (context) {
+          drawTilemap(context, tilemap, images);
+        }
+      }
+    };
+    // The preview stays blank if the map cannot be loaded
+    drawPreview().catch(() => {});
+    return () => {
+      isCurrent = false;
+    };
+  }, [map]);
+
+  if (map.thumbnailURL) {
+    return <Image src={map.thumbnailURL} alt={`Preview of ${map.name}`} width={`${PREVIEW_WIDTH}px`}/>;
+  }
+  return <canvas ref={canvasRef} aria-label={`Preview of ${map.name}`} width={PREVIEW_WIDTH}
+                 height={PREVIEW_WIDTH}/>;
+}
@@ -0,0 +1,219 @@
+import React, { useCallback, useState } from 'react';
+
+import {
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  FormControl,
+  FormLabel,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  NumberInput,
+  NumberInputField,
+  Select,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Th,
+  Thead,
+  Tr,
+  useDisclosure,
+  useToast
+} from '@chakra-ui/react';
+import MenuItem from '@material-ui/core/MenuItem';
+import Typography from '@material-ui/core/Typography';
+import useCoveyAppState from '../../hooks/useCoveyAppState';
+import useMaybeVideo from '../../hooks/useMaybeVideo';
+import useMyTownRole from '../../hooks/useMyTownRole';
+import { SpaceReservation } from '../../classes/SpacesServiceClient';
+
+// Formats a time the way the browser shows it, without the seconds
+function formatTime(time: number): string {
+  return new Date(time).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+const SpaceReservations: React.FunctionComponent = () => {
+  const {isOpen, onOpen, onClose} = useDisclosure()
+  const video = useMaybeVideo()
+  const {spaceApiClient, currentTownID, players, myPlayerID, spaces} = useCoveyAppState();
+  // Owners and moderators may cancel any reservation, everyone else only their own
+  const myRole = useMyTownRole();
+  const myIdentity = players.find(player => player.id === myPlayerID)?.identity;
+  const [reservations, setReservations] = useState<SpaceReservation[]>([]);
+  const [spaceID, setSpaceID] = useState<string>('');
+  // When the reservation starts, as the value of a datetime-local input
+  const [start, setStart] = useState<string>('');
+  const [durationMinutes, setDurationMinutes] = useState<string>('60');
+  // The identities of the players allowed in during the reservation
+  const [whitelist, setWhitelist] = useState<string[]>([]);
+  const [presenterIdentity, setPresenterIdentity] = useState<string>('');
+
+  const toast = useToast()
+  const refreshReservations = useCallback(async () => {
+    try {
+      const { reservations: current } = await spaceApiClient.listReservations({ coveyTownID: currentTownID });
+      setReservations(current);
+    } catch (err) {
+      toast({
+        title: 'Unable to list reservations',
+        description: err.toString(),
+        status: 'error'
+      });
+    }
+  }, [spaceApiClient, currentTownID, toast]);
+
+  const openReservations = useCallback(()=>{
+    onOpen();
+    video?.pauseGame();
+    refreshReservations();
+  }, [onOpen, video, refreshReservations]);
+
+  const closeReservations = useCallback(()=>{
+    onClose();
+    video?.unPauseGame();
+  }, [onClose, video]);
+
+  const reserveSpace = async () =>{
+    const startTime = new Date(start).getTime();
+    try {
+      await spaceApiClient.reserveSpace({
+        coveyTownID: currentTownID,
+        playerID: myPlayerID,
+        coveySpaceID: spaceID,
+        start: startTime,
+        end: startTime + Number(durationMinutes) * 60 * 1000,
+        whitelist,
+        presenterIdentity: presenterIdentity.length > 0 ? presenterIdentity : null,
+      });
+      toast({
+        title: `${spaceID} reserved`,
+        status: 'success'
+      })
+      await refreshReservations();
+    }catch(err){
+      toast({
+        title: 'Unable to reserve the space',
+        description: err.toString(),
+        status: 'error'
+      });
+    }
+  };
+
+  const cancelReservation = async (reservation: SpaceReservation) =>{
+    try {
+      await spaceApiClient.cancelReservation({
+        coveyTownID: currentTownID,
+        playerID: myPlayerID,
+        reservationID: reservation.reservationID,
+      });
+      toast({
+        title: 'Reservation cancelled',
+        status: 'success'
+      })
+      await refreshReservations();
+    }catch(err){
+      toast({
+        title: 'Unable to cancel the reservation',
+        description: err.toString(),
+        status: 'error'
+      });
+    }
+  };
+
+  const otherPlayers = players.filter(player => player.id !== myPlayerID);
+
+  return <>
+    <MenuItem data-testid='openReservationsButton' onClick={openReservations}>
+      <Typography variant="body1">Reservations</Typography>
+    </MenuItem>
+    <Modal isOpen={isOpen} onClose={closeReservations} size='xl'>
+      <ModalOverlay/>
+      <ModalContent>
+        <ModalHeader>Space reservations</ModalHeader>
+        <ModalCloseButton/>
+        <form onSubmit={(ev)=>{ev.preventDefault(); reserveSpace()}}>
+          <ModalBody pb={6}>
+            <Table size='sm'>
+              <Thead>
+                <Tr>
+                  <Th>Space</Th>
+                  <Th>Host</Th>
+                  <Th>From</Th>
+                  <Th>Until</Th>
+                  <Th />
+                </Tr>
+              </Thead>
+              <Tbody>
+                {reservations.map(reservation => (
+                  <Tr key={reservation.reservationID}>
+                    <Td>{reservation.coveySpaceID}</Td>
+                    <Td>{reservation.hostName}</Td>
+                    <Td>{formatTime(reservation.start)}</Td>
+                    <Td>{formatTime(reservation.end)}</Td>
+                    <Td>
+                      {reservation.hostIdentity === myIdentity || myRole !== 'member' ?
+                        <Button size='sm' onClick={() => cancelReservation(reservation)}>Cancel</Button> : null}
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+            <FormControl mt={4} isRequired>
+              <FormLabel htmlFor='reservedSpace'>Space</FormLabel>
+              <Select id='reservedSpace' placeholder='Select space' value={spaceID} onChange={(e)=>setSpaceID(e.target.value)}>
+                {Array.from(spaces.keys()).filter(id => id !== 'World').map(id => (
+                  <option key={id} value={id}>{id}</option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl mt={4} isRequired>
+              <FormLabel htmlFor='reservationStart'>Starts at</FormLabel>
+              <Input id='reservationStart' type='datetime-local' value={start} onChange={(e)=>setStart(e.target.value)} />
+            </FormControl>
+            <FormControl mt={4} isRequired>
+              <FormLabel htmlFor='reservationDuration'>Duration (minutes, up to 8 hours)</FormLabel>
+              <NumberInput id='reservationDuration' min={1} max={480} value={durationMinutes} onChange={(value)=>setDurationMinutes(value)}>
+                <NumberInputField />
+              </NumberInput>
+            </FormControl>
+            <FormControl mt={4}>
+              <FormLabel>Players allowed in</FormLabel>
+              <CheckboxGroup value={whitelist} onChange={(value)=>setWhitelist(value as string[])}>
+                <Stack>
+                  {otherPlayers.map(player => (
+                    <Checkbox key={player.id} value={player.identity}>{player.userName}</Checkbox>
+                  ))}
+                </Stack>
+              </CheckboxGroup>
+            </FormControl>
+            <FormControl mt={4}>
+              <FormLabel htmlFor='reservationPresenter'>Presenter</FormLabel>
+              <Select id='reservationPresenter' placeholder='No presenter' value={presenterIdentity} onChange={(e)=>setPresenterIdentity(e.target.value)}>
+                {players.filter(player => player.id === myPlayerID || whitelist.includes(player.identity)).map(player => (
+                  <option key={player.id} value={player.identity}>{player.userName}</option>
+                ))}
+              </Select>
+            </FormControl>
+          </ModalBody>
+
+          <ModalFooter>
+            <Button data-testid='reservebutton' colorScheme='blue' mr={3} isDisabled={spaceID === '' || start === ''} onClick={reserveSpace}>
+              Reserve
+            </Button>
+            <Button onClick={closeReservations}>Close</Button>
+          </ModalFooter>
+        </form>
+      </ModalContent>
+    </Modal>
+  </>
+}
+
+
+export default SpaceReservations;
@@ -0,0 +1,161 @@
+import React, { useCallback, useState } from 'react';
+
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  NumberInput,
+  NumberInputField,
+  Select,
+  useDisclosure,
+  useToast
+} from '@chakra-ui/react';
+import MenuItem from '@material-ui/core/MenuItem';
+import Typography from '@material-ui/core/Typography';
+import useCoveyAppState from '../../hooks/useCoveyAppState';
+import useMaybeVideo from '../../hooks/useMaybeVideo';
+import useMyTownRole from '../../hooks/useMyTownRole';
+import { TownRole } from '../../classes/TownsServiceClient';
+
+const TownModeration: React.FunctionComponent = () => {
+  const {isOpen, onOpen, onClose} = useDisclosure()
+  const video = useMaybeVideo()
+  const {apiClient, currentTownID, currentTownFriendlyName, players, myPlayerID, roles} = useCoveyAppState();
+  // Owners and moderators moderate with their session, everyone else needs the password
+  const myRole = useMyTownRole();
+  const [roomUpdatePassword, setRoomUpdatePassword] = useState<string>('');
+  const [kickedPlayerID, setKickedPlayerID] = useState<string>('');
+  const [reason, setReason] = useState<string>('');
+  // How long the player may not come back (they may come back right away, if empty)
+  const [banMinutes, setBanMinutes] = useState<string>('');
+  const [newRole, setNewRole] = useState<TownRole>('member');
+
+  const openModeration = useCallback(()=>{
+    onOpen();
+    video?.pauseGame();
+  }, [onOpen, video]);
+
+  const closeModeration = useCallback(()=>{
+    onClose();
+    video?.unPauseGame();
+  }, [onClose, video]);
+
+  const toast = useToast()
+  const kickPlayer = async () =>{
+    try {
+      await apiClient.kickPlayer({
+        coveyTownID: currentTownID,
+        coveyTownPassword: myRole === 'member' ? roomUpdatePassword : undefined,
+        playerID: kickedPlayerID,
+        reason: reason.length > 0 ? reason : undefined,
+        banMinutes: banMinutes.length > 0 ? Number(banMinutes) : undefined,
+      });
+      toast({
+        title: banMinutes.length > 0 ? 'Player banned' : 'Player removed',
+        status: 'success'
+      })
+      setKickedPlayerID('');
+      closeModeration();
+    }catch(err){
+      toast({
+        title: 'Unable to remove player',
+        description: err.toString(),
+        status: 'error'
+      });
+    }
+  };
+
+  const assignRole = async () =>{
+    try {
+      await apiClient.assignRole({
+        coveyTownID: currentTownID,
+        playerID: kickedPlayerID,
+        role: newRole,
+      });
+      toast({
+        title: 'Role changed',
+        status: 'success'
+      })
+    }catch(err){
+      toast({
+        title: 'Unable to change role',
+        description: err.toString(),
+        status: 'error'
+      });
+    }
+  };
+
+  const selectPlayer = (playerID: string) => {
+    setKickedPlayerID(playerID);
+    const identity = players.find(player => player.id === playerID)?.identity;
+    setNewRole((identity !== undefined && roles.get(identity)) || 'member');
+  };
+
+  return <>
+    <MenuItem data-testid='openModerationButton' onClick={openModeration}>
+      <Typography variant="body1">Moderation</Typography>
+    </MenuItem>
+    <Modal isOpen={isOpen} onClose={closeModeration}>
+      <ModalOverlay/>
+      <ModalContent>
+        <ModalHeader>Remove a player from {currentTownFriendlyName} ({currentTownID})</ModalHeader>
+        <ModalCloseButton/>
+        <form onSubmit={(ev)=>{ev.preventDefault(); kickPlayer()}}>
+          <ModalBody pb={6}>
+            <FormControl isRequired>
+              <FormLabel htmlFor='kickedPlayer'>Player</FormLabel>
+              <Select id='kickedPlayer' placeholder='Select player' value={kickedPlayerID} onChange={(e)=>selectPlayer(e.target.value)}>
+                {players.filter(player => player.id !== myPlayerID).map(player => (
+                  <option key={player.id} value={player.id}>{player.userName}</option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl mt={4}>
+              <FormLabel htmlFor='kickReason'>Reason</FormLabel>
+              <Input id='kickReason' placeholder='Shown to the player' value={reason} onChange={(e)=>setReason(e.target.value)} />
+            </FormControl>
+            <FormControl mt={4}>
+              <FormLabel htmlFor='banMinutes'>Ban for (minutes)</FormLabel>
+              <NumberInput id='banMinutes' min={1} value={banMinutes} onChange={(value)=>setBanMinutes(value)}>
+                <NumberInputField placeholder='Not banned: they may join again right away' />
+              </NumberInput>
+            </FormControl>
+            {myRole === 'member' ? <FormControl mt={4} isRequired>
+              <FormLabel htmlFor='moderationPassword'>Town Update Password</FormLabel>
+              <Input data-testid='moderationPassword' id='moderationPassword' placeholder='Password' name='password' type='password' value={roomUpdatePassword} onChange={(e)=>setRoomUpdatePassword(e.target.value)} />
+            </FormControl> : null}
+            {myRole === 'owner' ? <FormControl mt={4}>
+              <FormLabel htmlFor='townRole'>Role</FormLabel>
+              <Select id='townRole' value={newRole} onChange={(e)=>setNewRole(e.target.value as TownRole)}>
+                <option value='member'>Member</option>
+                <option value='moderator'>Moderator: may remove players and manage every space</option>
+                <option value='owner'>Owner: may also change the town and the roles of players</option>
+              </Select>
+            </FormControl> : null}
+          </ModalBody>
+
+          <ModalFooter>
+            <Button data-testid='kickbutton' colorScheme='red' mr={3} isDisabled={kickedPlayerID === ''} onClick={kickPlayer}>
+              {banMinutes.length > 0 ? 'Ban' : 'Kick'}
+            </Button>
+            {myRole === 'owner' ? <Button data-testid='rolebutton' colorScheme='blue' mr={3} isDisabled={kickedPlayerID === ''} onClick={assignRole}>
+              Change role
+            </Button> : null}
+            <Button onClick={closeModeration}>Cancel</Button>
+          </ModalFooter>
+        </form>
+      </ModalContent>
+    </Modal>
+  </>
+}
+
+
+export default TownModeration;
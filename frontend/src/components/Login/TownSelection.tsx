@@ -1,5 +1,6 @@
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import assert from "assert";
+import { io } from 'socket.io-client';
 import {
   Box,
   Button,
@@ -9,6 +10,9 @@ import {
   FormLabel,
   Heading,
   Input,
+  NumberInput,
+  NumberInputField,
+  Select,
   Stack,
   Table,
   TableCaption,
@@ -16,13 +20,22 @@ import {
   Td,
   Th,
   Thead,
+  Text,
   Tr,
   useToast
 } from '@chakra-ui/react';
 import useVideoContext from '../VideoCall/VideoFrontend/hooks/useVideoContext/useVideoContext';
 import Video from '../../classes/Video/Video';
-import { CoveyTownInfo, TownJoinResponse, } from '../../classes/TownsServiceClient';
+import CoveyIdentity from '../../classes/LocalStorage/CoveyIdentity';
+import { CoveyMapInfo, CoveyTownInfo, TOWN_FULL_MESSAGE, TownJoinResponse, } from '../../classes/TownsServiceClient';
 import useCoveyAppState from '../../hooks/useCoveyAppState';
+import MapPreview from './MapPreview';
+
+/** The town that the player is waiting in line to join */
+type WaitingInLine = {
+  coveyTownID: string;
+  waitingTicket: string;
+};
 
 interface TownSelectionProps {
   doLogin: (initData: TownJoinResponse) => Promise<boolean>
@@ -32,8 +45,15 @@ export default function TownSelection({ doLogin }: TownSelectionProps): JSX.Elem
   const [userName, setUserName] = useState<string>(Video.instance()?.userName || '');
   const [newTownName, setNewTownName] = useState<string>('');
   const [newTownIsPublic, setNewTownIsPublic] = useState<boolean>(true);
+  const [newTownCapacity, setNewTownCapacity] = useState<string>('');
+  const [mapCatalog, setMapCatalog] = useState<CoveyMapInfo[]>([]);
+  // The map of the new town ('' until the catalog is loaded, for the server's default map)
+  const [newTownMapID, setNewTownMapID] = useState<string>('');
   const [townIDToJoin, setTownIDToJoin] = useState<string>('');
   const [currentPublicTowns, setCurrentPublicTowns] = useState<CoveyTownInfo[]>();
+  const [waitingInLine, setWaitingInLine] = useState<WaitingInLine>();
+  const [queuePosition, setQueuePosition] = useState<number>();
+  const [fullTownID, setFullTownID] = useState<string>();
   const { connect } = useVideoContext();
   const { apiClient } = useCoveyAppState();
   const toast = useToast();
@@ -54,7 +74,26 @@ export default function TownSelection({ doLogin }: TownSelectionProps): JSX.Elem
     };
   }, [updateTownListings]);
 
-  const handleJoin = useCallback(async (coveyRoomID: string) => {
+  useEffect(() => {
+    let isCurrent = true;
+    const loadMapCatalog = async () => {
+      try {
+        const { maps } = await apiClient.listMaps();
+        if (isCurrent && maps.length > 0) {
+          setMapCatalog(maps);
+          setNewTownMapID(maps[0].mapID);
+        }
+      } catch (err) {
+        // Towns can still be created, with the server's default map
+      }
+    };
+    loadMapCatalog();
+    return () => {
+      isCurrent = false;
+    };
+  }, [apiClient]);
+
+  const handleJoin = useCallback(async (coveyRoomID: string, waitingTicket?: string) => {
     try {
       if (!userName || userName.length === 0) {
         toast({
@@ -72,7 +111,9 @@ export default function TownSelection({ doLogin }: TownSelectionProps): JSX.Elem
         });
         return;
       }
-      const initData = await Video.setup(userName, coveyRoomID);
+      const initData = await (waitingTicket === undefined
+        ? Video.setup(userName, coveyRoomID)
+        : Video.setup(userName, coveyRoomID, waitingTicket));
 
       const loggedIn = await doLogin(initData);
       if (loggedIn) {
@@ -80,6 +121,9 @@ export default function TownSelection({ doLogin }: TownSelectionProps): JSX.Elem
         await connect(initData.providerVideoToken);
       }
     } catch (err) {
+      if (err.message?.includes(TOWN_FULL_MESSAGE)) {
+        setFullTownID(coveyRoomID);
+      }
       toast({
         title: 'Unable to connect to Towns Service',
         description: err.toString(),
@@ -88,6 +132,62 @@ export default function TownSelection({ doLogin }: TownSelectionProps): JSX.Elem
     }
   }, [doLogin, userName, connect, toast]);
 
+  const handleWaitInLine = useCallback(async (coveyTownID: string) => {
+    if (!userName || userName.length === 0) {
+      toast({
+        title: 'Unable to join town',
+        description: 'Please select a username',
+        status: 'error',
+      });
+      return;
+    }
+    try {
+      const { waitingTicket, queuePosition: position } = await apiClient.joinTownQueue({ coveyTownID });
+      if (position === 0) {
+        await handleJoin(coveyTownID, waitingTicket);
+        return;
+      }
+      setQueuePosition(position);
+      setWaitingInLine({ coveyTownID, waitingTicket });
+    } catch (err) {
+      toast({
+        title: 'Unable to connect to Towns Service',
+        description: err.toString(),
+        status: 'error'
+      })
+    }
+  }, [apiClient, handleJoin, userName, toast]);
+
+  // Follows the line over a socket until a slot is set aside, then joins with the ticket. The
+  // latest handleJoin is kept in a ref, so that editing the username does not lose our place.
+  const handleJoinRef = useRef(handleJoin);
+  handleJoinRef.current = handleJoin;
+  useEffect(() => {
+    if (!waitingInLine) {
+      return undefined;
+    }
+    const url = process.env.REACT_APP_TOWNS_SERVICE_URL;
+    assert(url);
+    const socket = io(url, { auth: waitingInLine });
+    socket.on('queuePosition', (position: number) => setQueuePosition(position));
+    socket.on('slotAvailable', () => {
+      socket.disconnect();
+      setWaitingInLine(undefined);
+      handleJoinRef.current(waitingInLine.coveyTownID, waitingInLine.waitingTicket);
+    });
+    socket.on('townClosing', () => {
+      setWaitingInLine(undefined);
+      toast({
+        title: 'Unable to join town',
+        description: 'The town was closed',
+        status: 'error',
+      });
+    });
+    return () => {
+      socket.disconnect();
+    };
+  }, [waitingInLine, toast]);
+
   const handleCreate = async () => {
     if (!userName || userName.length === 0) {
       toast({
@@ -105,11 +205,27 @@ export default function TownSelection({ doLogin }: TownSelectionProps): JSX.Elem
       });
       return;
     }
+    const capacity = newTownCapacity.length > 0 ? Number(newTownCapacity) : undefined;
+    if (capacity !== undefined && !(Number.isInteger(capacity) && capacity > 0)) {
+      toast({
+        title: 'Unable to create town',
+        description: 'Capacity must be a positive whole number',
+        status: 'error',
+      });
+      return;
+    }
     try {
       const newTownInfo = await apiClient.createTown({
         friendlyName: newTownName,
-        isPubliclyListed: newTownIsPublic
+        isPubliclyListed: newTownIsPublic,
+        capacity,
+        mapID: newTownMapID.length > 0 ? newTownMapID : undefined,
+        identityToken: CoveyIdentity.identityToken ?? undefined,
       });
+      // The town is owned by whoever joins it with this identity
+      if (newTownInfo.identityToken) {
+        CoveyIdentity.identityToken = newTownInfo.identityToken;
+      }
 
       let privateMessage = <></>;
       if (!newTownIsPublic) {
@@ -172,10 +288,38 @@ export default function TownSelection({ doLogin }: TownSelectionProps): JSX.Elem
                           }}/>
               </FormControl>
             </Box>
+              <Box>
+                <FormControl>
+                  <FormLabel htmlFor="capacity">Capacity</FormLabel>
+                  <NumberInput id="capacity" name="capacity" min={1} value={newTownCapacity}
+                               onChange={(value) => setNewTownCapacity(value)}>
+                    <NumberInputField placeholder="50"/>
+                  </NumberInput>
+                </FormControl>
+              </Box>
               <Box>
                 <Button data-testid="newTownButton" onClick={handleCreate}>Create</Button>
               </Box>
             </Flex>
+            {mapCatalog.length > 0 &&
+            <Flex p="4">
+              <Box flex="1">
+                <FormControl>
+                  <FormLabel htmlFor="townMap">Map</FormLabel>
+                  <Select id="townMap" name="townMap" value={newTownMapID}
+                          onChange={event => setNewTownMapID(event.target.value)}>
+                    {mapCatalog.map(map => (
+                      <option key={map.mapID} value={map.mapID}>{map.name}</option>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
+              <Box pl="4">
+                {mapCatalog.filter(map => map.mapID === newTownMapID).map(map => (
+                  <MapPreview key={map.mapID} map={map}/>
+                ))}
+              </Box>
+            </Flex>}
           </Box>
           <Heading p="4" as="h2" size="lg">-or-</Heading>
 
@@ -190,7 +334,14 @@ export default function TownSelection({ doLogin }: TownSelectionProps): JSX.Elem
               </FormControl>
                 <Button data-testid='joinTownByIDButton'
                         onClick={() => handleJoin(townIDToJoin)}>Connect</Button>
+                {fullTownID !== undefined && fullTownID === townIDToJoin &&
+                <Button onClick={() => handleWaitInLine(townIDToJoin)}
+                        isDisabled={waitingInLine !== undefined}>Wait in line</Button>}
               </Flex>
+              {waitingInLine &&
+              <Text px="4" pb="4" data-testid="queuePosition">
+                Town {waitingInLine.coveyTownID} is full, you are number {queuePosition} in line
+              </Text>}
 
             </Box>
 
@@ -204,8 +355,14 @@ export default function TownSelection({ doLogin }: TownSelectionProps): JSX.Elem
                     <Tr key={town.coveyTownID}><Td role='cell'>{town.friendlyName}</Td><Td
                       role='cell'>{town.coveyTownID}</Td>
                       <Td role='cell'>{town.currentOccupancy}/{town.maximumOccupancy}
-                        <Button onClick={() => handleJoin(town.coveyTownID)}
-                                disabled={town.currentOccupancy >= town.maximumOccupancy}>Connect</Button></Td></Tr>
+                        {town.currentOccupancy >= town.maximumOccupancy
+                          ? <>
+                            <Text as="span" px="2" color="red.500">full</Text>
+                            <Button onClick={() => handleWaitInLine(town.coveyTownID)}
+                                    isDisabled={waitingInLine !== undefined}>Wait in line</Button>
+                          </>
+                          : <Button onClick={() => handleJoin(town.coveyTownID)}>Connect</Button>}
+                      </Td></Tr>
                   ))}
                 </Tbody>
               </Table>
@@ -103,6 +103,8 @@ function wrappedTownSelection() {
     },
     apiClient: new TownsServiceClient(),
     spaceApiClient: new SpacesServiceClient(),
+    spaces: new Map(),
+    roles: new Map(),
   }}>
     <TownSelection doLogin={doLoginMock}/></CoveyAppContext.Provider></ChakraProvider>;
 }
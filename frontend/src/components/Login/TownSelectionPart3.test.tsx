@@ -32,9 +32,11 @@ jest.mock("@chakra-ui/react", () => {
 const doLoginMock = jest.fn();
 const mocklistTowns = jest.fn();
 const mockCreateTown = jest.fn();
+const mockListMaps = jest.fn();
 const mockVideoSetup = jest.fn();
 TownsServiceClient.prototype.listTowns = mocklistTowns;
 TownsServiceClient.prototype.createTown = mockCreateTown;
+TownsServiceClient.prototype.listMaps = mockListMaps;
 Video.setup = mockVideoSetup;
 const listTowns = (suffix: string) => Promise.resolve({
   towns: [
@@ -104,6 +106,8 @@ function wrappedTownSelection() {
     },
     apiClient: new TownsServiceClient(),
     spaceApiClient: new SpacesServiceClient(),
+    spaces: new Map(),
+    roles: new Map(),
   }}>
     <TownSelection doLogin={doLoginMock}/></CoveyAppContext.Provider></ChakraProvider>;
 }
@@ -313,3 +317,35 @@ describe('Town Selection - depends on Part 1 passing', () => {
 
 });
 
+describe('Town Selection - choosing a map', () => {
+  const maps = [
+    { mapID: 'town', name: 'Town', tilemapURL: '/town.json', tilesets: [], thumbnailURL: '/town.png' },
+    { mapID: 'beach', name: 'Beach', tilemapURL: '/beach.json', tilesets: [], thumbnailURL: '/beach.png' },
+  ];
+  it('offers the maps of the catalog with their previews, and creates the town with the chosen one', async () => {
+    mocklistTowns.mockImplementation(() => listTowns(nanoid()));
+    mockListMaps.mockImplementation(() => Promise.resolve({ maps }));
+    mockCreateTown.mockReset();
+    mockCreateTown.mockRejectedValue(new Error('FAIL'));
+    const renderData = render(wrappedTownSelection());
+    const mapSelect = await waitFor(() => renderData.getByLabelText('Map')) as HTMLSelectElement;
+    expect(mapSelect.value)
+      .toBe('town');
+    expect(renderData.getByAltText('Preview of Town'))
+      .toBeInTheDocument();
+
+    fireEvent.change(mapSelect, { target: { value: 'beach' } });
+    await waitFor(() => expect(renderData.getByAltText('Preview of Beach'))
+      .toBeInTheDocument());
+    const townName = nanoid();
+    fireEvent.change(renderData.getByPlaceholderText('Your name'), { target: { value: nanoid() } });
+    fireEvent.change(renderData.getByPlaceholderText('New Town Name'), { target: { value: townName } });
+    userEvent.click(renderData.getByTestId('newTownButton'));
+    await waitFor(() => expect(mockCreateTown)
+      .toBeCalledWith({
+        friendlyName: townName,
+        isPubliclyListed: true,
+        mapID: 'beach',
+      }));
+  });
+});
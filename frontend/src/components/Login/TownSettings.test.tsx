@@ -36,6 +36,10 @@ TownsServiceClient.prototype.deleteTown = mockDeleteTown;
 mockUseCoveyAppState.apiClient = new TownsServiceClient();
 // @ts-ignore
 mockUseCoveyAppState.spaceApiClient = new SpacesServiceClient();
+// @ts-ignore
+mockUseCoveyAppState.players = [];
+// @ts-ignore
+mockUseCoveyAppState.roles = new Map();
 
 function wrappedTownSettings() {
   return <ChakraProvider><CoveyAppContext.Provider value={{
@@ -59,6 +63,8 @@ function wrappedTownSettings() {
     },
     apiClient: new TownsServiceClient(),
     spaceApiClient: new SpacesServiceClient(),
+    spaces: new Map(),
+    roles: new Map(),
   }}>
     <TownSettings/></CoveyAppContext.Provider></ChakraProvider>;
 }
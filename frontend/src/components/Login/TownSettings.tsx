@@ -13,6 +13,8 @@ import {
   ModalFooter,
   ModalHeader,
   ModalOverlay,
+  NumberInput,
+  NumberInputField,
   useDisclosure,
   useToast
 } from '@chakra-ui/react';
@@ -20,6 +22,7 @@ import MenuItem from '@material-ui/core/MenuItem';
 import Typography from '@material-ui/core/Typography';
 import useCoveyAppState from '../../hooks/useCoveyAppState';
 import useMaybeVideo from '../../hooks/useMaybeVideo';
+import useMyTownRole from '../../hooks/useMyTownRole';
 
 const TownSettings: React.FunctionComponent = () => {
   const {isOpen, onOpen, onClose} = useDisclosure()
@@ -28,6 +31,9 @@ const TownSettings: React.FunctionComponent = () => {
   const [friendlyName, setFriendlyName] = useState<string>(currentTownFriendlyName);
   const [isPubliclyListed, setIsPubliclyListed] = useState<boolean>(currentTownIsPubliclyListed);
   const [roomUpdatePassword, setRoomUpdatePassword] = useState<string>('');
+  const [capacity, setCapacity] = useState<string>('');
+  // The owner of the town manages it with their session, everyone else needs the password
+  const isOwner = useMyTownRole() === 'owner';
 
   const openSettings = useCallback(()=>{
     onOpen();
@@ -44,7 +50,7 @@ const TownSettings: React.FunctionComponent = () => {
     if(action === 'delete'){
       try{
         await apiClient.deleteTown({coveyTownID: currentTownID,
-          coveyTownPassword: roomUpdatePassword});
+          coveyTownPassword: isOwner ? undefined : roomUpdatePassword});
         toast({
           title: 'Town deleted',
           status: 'success'
@@ -61,9 +67,10 @@ const TownSettings: React.FunctionComponent = () => {
       try {
         await apiClient.updateTown({
           coveyTownID: currentTownID,
-          coveyTownPassword: roomUpdatePassword,
+          coveyTownPassword: isOwner ? undefined : roomUpdatePassword,
           friendlyName,
-          isPubliclyListed
+          isPubliclyListed,
+          capacity: capacity.length > 0 ? Number(capacity) : undefined,
         });
         toast({
           title: 'Town updated',
@@ -81,6 +88,25 @@ const TownSettings: React.FunctionComponent = () => {
     }
   };
 
+  // Downloads the configuration of the town, which POST /towns/import creates copies of the town from
+  const exportTown = async () =>{
+    try {
+      const townExport = await apiClient.exportTown({coveyTownID: currentTownID,
+        coveyTownPassword: isOwner ? undefined : roomUpdatePassword});
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([JSON.stringify(townExport, null, 2)], { type: 'application/json' }));
+      link.download = `${currentTownFriendlyName}.json`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    }catch(err){
+      toast({
+        title: 'Unable to export town',
+        description: err.toString(),
+        status: 'error'
+      });
+    }
+  };
+
   return <>
     <MenuItem data-testid='openMenuButton' onClick={openSettings}>
       <Typography variant="body1">Town Settings</Typography>
@@ -101,10 +127,16 @@ const TownSettings: React.FunctionComponent = () => {
               <FormLabel htmlFor='isPubliclyListed'>Publicly Listed</FormLabel>
               <Checkbox id="isPubliclyListed" name="isPubliclyListed"  isChecked={isPubliclyListed} onChange={(e)=>setIsPubliclyListed(e.target.checked)} />
             </FormControl>
-            <FormControl isRequired>
+            <FormControl mt={4}>
+              <FormLabel htmlFor='capacity'>Capacity</FormLabel>
+              <NumberInput id='capacity' name="capacity" min={1} value={capacity} onChange={(value)=>setCapacity(value)}>
+                <NumberInputField placeholder="Unchanged" />
+              </NumberInput>
+            </FormControl>
+            {isOwner ? null : <FormControl isRequired>
               <FormLabel htmlFor="updatePassword">Town Update Password</FormLabel>
               <Input data-testid="updatePassword" id="updatePassword" placeholder="Password" name="password" type="password" value={roomUpdatePassword} onChange={(e)=>setRoomUpdatePassword(e.target.value)} />
-            </FormControl>
+            </FormControl>}
           </ModalBody>
 
           <ModalFooter>
@@ -114,6 +146,9 @@ const TownSettings: React.FunctionComponent = () => {
             <Button data-testid='updatebutton' colorScheme="blue" mr={3} value="update" name='action2' onClick={()=>processUpdates('edit')}>
               Update
             </Button>
+            <Button data-testid='exportbutton' mr={3} onClick={exportTown}>
+              Export
+            </Button>
             <Button onClick={closeSettings}>Cancel</Button>
           </ModalFooter>
         </form>
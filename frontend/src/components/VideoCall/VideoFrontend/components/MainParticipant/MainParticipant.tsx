@@ -5,6 +5,7 @@ import useMainParticipant from '../../hooks/useMainParticipant/useMainParticipan
 import useSelectedParticipant from '../VideoProvider/useSelectedParticipant/useSelectedParticipant';
 import useScreenShareParticipant from '../../hooks/useScreenShareParticipant/useScreenShareParticipant';
 import useVideoContext from '../../hooks/useVideoContext/useVideoContext';
+import usePresenterParticipant from '../../hooks/usePresenterParticipant/usePresenterParticipant';
 
 export default function MainParticipant() {
   const mainParticipant = useMainParticipant();
@@ -13,8 +14,10 @@ export default function MainParticipant() {
   } = useVideoContext();
   const [selectedParticipant] = useSelectedParticipant();
   const screenShareParticipant = useScreenShareParticipant();
+  const presenterParticipant = usePresenterParticipant();
 
-  const videoPriority = (mainParticipant === selectedParticipant || mainParticipant === screenShareParticipant)
+  const videoPriority = (mainParticipant === selectedParticipant || mainParticipant === screenShareParticipant
+    || mainParticipant === presenterParticipant)
     && mainParticipant !== localParticipant
     ? 'high'
     : null;
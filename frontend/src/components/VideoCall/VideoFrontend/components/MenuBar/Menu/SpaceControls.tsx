@@ -2,8 +2,11 @@ import React, { useCallback, useEffect, useState } from 'react';
 
 import {
   Button,
+  Checkbox,
+  CheckboxGroup,
   FormControl,
   FormLabel,
+  Input,
   Modal,
   ModalBody,
   ModalCloseButton,
@@ -11,7 +14,11 @@ import {
   ModalFooter,
   ModalHeader,
   ModalOverlay,
+  NumberInput,
+  NumberInputField,
   Select,
+  Stack,
+  Text,
   useDisclosure,
   useToast
 } from '@chakra-ui/react';
@@ -21,39 +28,36 @@ import Typography from '@material-ui/core/Typography';
 import useCoveyAppState from '../../../../../../hooks/useCoveyAppState';
 import useMaybeVideo from '../../../../../../hooks/useMaybeVideo';
 import Player from '../../../../../../classes/Player';
+import { HostSuccessionPolicy, KnockOutcome, SpaceKnock } from '../../../../../../classes/SpacesServiceClient';
 import TransferList from '../Menu/TransferList';
 
 export default function SpaceControls () {
   const {isOpen, onOpen, onClose} = useDisclosure();
   const video = useMaybeVideo();
-  const { spaceApiClient, myPlayerID, players, currentLocation } = useCoveyAppState();
+  const { spaceApiClient, myPlayerID, players, currentLocation, currentTownID, spaces, socket } = useCoveyAppState();
+  // The identities of the players in the town that are allowed in
   const [whitelist, setWhitelist] = useState<string[]>([]);
+  // The identities of the players that are allowed in, but not in the town right now
+  const [awayWhitelist, setAwayWhitelist] = useState<string[]>([]);
+  // The user names to let in once they arrive, separated by commas
+  const [invitedNames, setInvitedNames] = useState<string>('');
   const [presenter, setPresenter] = useState<string>('');
+  const [capacity, setCapacity] = useState<string>('');
+  // The player to hand the space over to (the current host keeps it)
+  const [host, setHost] = useState<string>('');
+  // The identities of the players that share the host's privileges
+  const [coHosts, setCoHosts] = useState<string[]>([]);
+  const [successionPolicy, setSuccessionPolicy] = useState<HostSuccessionPolicy>('publicizeAfterGracePeriod');
+  // The players knocking on this space, waiting for an answer
+  const [knocks, setKnocks] = useState<SpaceKnock[]>([]);
+  const spaceInfo = spaces.get(currentLocation.space);
 
-  // Gets the current whitelist from the space
-  const getCurrentWhitelistAndPresenter = async () => {
-    const currentSpaceInfo = await spaceApiClient.getSpaceForPlayer({ playerID: myPlayerID });
-    const spaceInfo = currentSpaceInfo.space;
-
-    if (spaceInfo.presenterID === null) {
-      setPresenter('');
-    } else {
-      setPresenter(spaceInfo.presenterID);
-    }
-
-    setWhitelist(spaceInfo.whitelist);
-  }
-
-  useEffect(() => {
-    getCurrentWhitelistAndPresenter();
-  }, [players])
-
-  // Gets the names of the players in the whitelist by matching the IDs
+  // Gets the players in the whitelist by matching their identities
   function idListToPlayerList (idList: string[]): Player[] {
     const playerList: Player[] = [];
 
     idList.forEach(id => {
-      const playerWithID = players.find(player => player.id === id);
+      const playerWithID = players.find(player => player.identity === id);
       if (playerWithID !== undefined){
         playerList.push(playerWithID);
       }
@@ -76,10 +80,20 @@ export default function SpaceControls () {
   }
 
   const openControls = useCallback(()=>{
+    // Start editing from the current whitelist and presenter of the space
+    const currentWhitelist = spaceInfo?.whitelist || [];
+    setWhitelist(currentWhitelist.filter(identity => players.some(player => player.identity === identity)));
+    setAwayWhitelist(currentWhitelist.filter(identity => !players.some(player => player.identity === identity)));
+    setInvitedNames((spaceInfo?.invitedNames || []).join(', '));
+    setPresenter(spaceInfo?.presenterID || '');
+    setCapacity(spaceInfo?.capacity ? `${spaceInfo.capacity}` : '');
+    setHost(spaceInfo?.hostID || '');
+    setCoHosts(spaceInfo?.coHosts || []);
+    setSuccessionPolicy(spaceInfo?.successionPolicy || 'publicizeAfterGracePeriod');
     onOpen();
 
     video?.pauseGame();
-  }, [onOpen, video]);
+  }, [onOpen, video, spaceInfo, players]);
 
   const closeControls = useCallback(()=>{
     onClose();
@@ -88,10 +102,73 @@ export default function SpaceControls () {
   }, [onClose, video]);
 
   const toast = useToast()
+
+  useEffect(() => {
+    const receiveKnock = (knock: SpaceKnock) => {
+      setKnocks((current) => current.filter(k => k.playerID !== knock.playerID).concat(knock));
+      toast({
+        title: `${knock.userName} is knocking`,
+        description: 'You can let them in from the space controls',
+        status: 'info',
+        isClosable: true,
+      });
+    };
+    const knockAnswered = ({ knock }: { knock: SpaceKnock, outcome: KnockOutcome }) => {
+      setKnocks((current) => current.filter(k => k.playerID !== knock.playerID));
+    };
+    socket?.on('spaceKnock', receiveKnock);
+    socket?.on('spaceKnockAnswered', knockAnswered);
+    return () => {
+      socket?.off('spaceKnock', receiveKnock);
+      socket?.off('spaceKnockAnswered', knockAnswered);
+    };
+  }, [socket, toast]);
+
+  const kickFromSpace = async (player: Player) => {
+    try {
+      await spaceApiClient.kickFromSpace({
+        coveyTownID: currentTownID,
+        coveySpaceID: currentLocation.space,
+        playerID: myPlayerID,
+        kickedPlayerID: player.id,
+      });
+      toast({
+        title: `${player.userName} was removed from the space`,
+        status: 'success'
+      });
+    } catch (err) {
+      toast({
+        title: 'Unable to remove player',
+        description: err.toString(),
+        status: 'error'
+      });
+    }
+  };
+
+  const answerKnock = async (knock: SpaceKnock, accept: boolean) => {
+    try {
+      await spaceApiClient.answerKnock({
+        coveyTownID: currentTownID,
+        coveySpaceID: knock.coveySpaceID,
+        playerID: myPlayerID,
+        knockerID: knock.playerID,
+        accept,
+      });
+    } catch (err) {
+      // The knock may have expired in the meantime
+      setKnocks((current) => current.filter(k => k.playerID !== knock.playerID));
+      toast({
+        title: 'Unable to answer knock',
+        description: err.toString(),
+        status: 'error'
+      });
+    }
+  };
+
   const processUpdates = async (action: string) => {
     if (action === 'disband') {
       try {
-        await spaceApiClient.disbandSpace({ coveySpaceID: currentLocation.space, playerID: myPlayerID, hostID: null });
+        await spaceApiClient.disbandSpace({ coveyTownID: currentTownID, coveySpaceID: currentLocation.space, playerID: myPlayerID, hostID: null });
         toast({
           title: 'Space disbanded',
           status: 'success'
@@ -114,11 +191,18 @@ export default function SpaceControls () {
         }
 
         await spaceApiClient.updateSpace({
+          coveyTownID: currentTownID,
           coveySpaceID: currentLocation.space,
           playerID: myPlayerID,
-          hostID: myPlayerID,
+          // Names the current host, unless the space is handed over
+          hostID: host || spaceInfo?.hostID || myPlayerID,
           presenterID: presenterActual,
-          whitelist: whitelist,
+          whitelist: whitelist.concat(awayWhitelist),
+          invitedNames: invitedNames.split(','),
+          // No capacity means no limit
+          capacity: capacity === '' ? null : Number(capacity),
+          coHosts,
+          successionPolicy,
         });
 
         toast({
@@ -140,7 +224,7 @@ export default function SpaceControls () {
 
   return <>
     <MenuItem data-testid='openMenuButton' onClick={openControls}>
-      <Typography variant="body1">Space Controls</Typography>
+      <Typography variant="body1">Space Controls{knocks.length > 0 ? ` (${knocks.length} knocking)` : ''}</Typography>
     </MenuItem>
     <Modal isOpen={isOpen} onClose={closeControls} size='xl'>
       <ModalOverlay/>
@@ -149,15 +233,88 @@ export default function SpaceControls () {
         <ModalCloseButton/>
         <form onSubmit={(ev)=>{ev.preventDefault(); processUpdates('edit')}}>
           <ModalBody pb={6}>
+            {knocks.length > 0 ? (
+              <FormControl mb={4}>
+                <FormLabel>Knocking</FormLabel>
+                {knocks.map((knock) => (
+                  <Stack key={knock.playerID} direction='row' align='center' data-testid='knock'>
+                    <Text flex={1}>{knock.userName}</Text>
+                    <Button size='sm' colorScheme='green' onClick={() => answerKnock(knock, true)}>Accept</Button>
+                    <Button size='sm' onClick={() => answerKnock(knock, false)}>Deny</Button>
+                  </Stack>
+                ))}
+              </FormControl>
+            ) : null}
+            <FormControl mb={4}>
+              <FormLabel>Members</FormLabel>
+              {players.filter(player => spaceInfo?.currentPlayers.includes(player.id)).map(player => (
+                <Stack key={player.id} direction='row' align='center'>
+                  <Text flex={1}>{player.userName}</Text>
+                  {player.id === spaceInfo?.hostID || spaceInfo?.coHosts.includes(player.identity) ? null : (
+                    <Button size='sm' onClick={() => kickFromSpace(player)}>Remove</Button>
+                  )}
+                </Stack>
+              ))}
+            </FormControl>
             <FormControl>
               <FormLabel htmlFor='whitelist'>Whitelist</FormLabel>
               <TransferList whitelistOfPlayers={idListToPlayerList(whitelist)} onWhitelistChange={e => setWhitelist(e)}/>
+              {awayWhitelist.length > 0 ? (
+                <Stack direction='row' align='center' mt={2}>
+                  <Text flex={1}>Also allowed in: {awayWhitelist.length} player(s) who are away</Text>
+                  <Button size='sm' onClick={() => setAwayWhitelist([])}>Remove them</Button>
+                </Stack>
+              ) : null}
+            </FormControl>
+
+            <FormControl mt={4}>
+              <FormLabel htmlFor='invitedNames'>Invite by name</FormLabel>
+              <Input id='invitedNames' placeholder='Names of players who have not arrived yet, separated by commas'
+                value={invitedNames} onChange={e => setInvitedNames(e.target.value)}/>
             </FormControl>
 
             <FormControl mt={4}>
               <FormLabel htmlFor='presenter'>Presenter</FormLabel>
               <PresenterSelector/>
             </FormControl>
+
+            <FormControl mt={4}>
+              <FormLabel htmlFor='capacity'>Capacity</FormLabel>
+              <NumberInput id='capacity' min={1} value={capacity} onChange={value => setCapacity(value)}>
+                <NumberInputField placeholder='No limit'/>
+              </NumberInput>
+            </FormControl>
+
+            <FormControl mt={4}>
+              <FormLabel htmlFor='host'>Host</FormLabel>
+              <Select id='host' value={host} onChange={e => setHost(e.target.value)}>
+                {players.filter(player => player.id === spaceInfo?.hostID || spaceInfo?.currentPlayers.includes(player.id))
+                  .map(player => (
+                    <option key={player.id} value={player.id}>{player.userName}</option>
+                  ))}
+              </Select>
+            </FormControl>
+
+            <FormControl mt={4}>
+              <FormLabel htmlFor='coHosts'>Co-hosts</FormLabel>
+              <CheckboxGroup value={coHosts} onChange={value => setCoHosts(value.map(identity => `${identity}`))}>
+                <Stack direction='row' wrap='wrap'>
+                  {players.filter(player => player.id !== spaceInfo?.hostID).map(player => (
+                    <Checkbox key={player.identity} value={player.identity}>{player.userName}</Checkbox>
+                  ))}
+                </Stack>
+              </CheckboxGroup>
+            </FormControl>
+
+            <FormControl mt={4}>
+              <FormLabel htmlFor='successionPolicy'>When the host leaves</FormLabel>
+              <Select id='successionPolicy' value={successionPolicy}
+                onChange={e => setSuccessionPolicy(e.target.value as HostSuccessionPolicy)}>
+                <option value='promoteCoHost'>A co-host takes over</option>
+                <option value='promoteLongestPresent'>The member who has been here longest takes over</option>
+                <option value='publicizeAfterGracePeriod'>Wait a minute for them, then make the space public</option>
+              </Select>
+            </FormControl>
           </ModalBody>
 
           <ModalFooter>
@@ -102,10 +102,10 @@ export default function TransferList({whitelistOfPlayers, onWhitelistChange}: Tr
     setNewWhitelist([]);
   };
 
-  // The function to lift up the whitelist state to SpaceControls
+  // The function to lift up the whitelist state (as identities) to SpaceControls
   const handleChange = () => {
-    const newWhitelistOfIDs = newWhitelist.map(p => p.id);
-    onWhitelistChange(newWhitelistOfIDs);
+    const newWhitelistOfIdentities = newWhitelist.map(p => p.identity);
+    onWhitelistChange(newWhitelistOfIdentities);
   }
 
   // Calls handleChange when the whitelist changes
@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { createStyles, makeStyles, Theme } from '@material-ui/core/styles';
 
 import Button from '@material-ui/core/Button';
@@ -13,11 +13,14 @@ import ToggleAudioButton from '../Buttons/ToggleAudioButton/ToggleAudioButton';
 import ToggleVideoButton from '../Buttons/ToggleVideoButton/ToggleVideoButton';
 import ToggleScreenShareButton from '../Buttons/ToogleScreenShareButton/ToggleScreenShareButton';
 import TownSettings from '../../../../Login/TownSettings';
+import TownModeration from '../../../../Login/TownModeration';
+import SpaceReservations from '../../../../Login/SpaceReservations';
 import SpaceControls from './Menu/SpaceControls';
 import MenuContainer from '@material-ui/core/Menu';
 import useCoveyAppState from '../../../../../hooks/useCoveyAppState';
+import useMyTownRole from '../../../../../hooks/useMyTownRole';
 import { useToast } from '@chakra-ui/toast';
-import { CoveySpaceInfo } from '../../../../../classes/SpacesServiceClient';
+import { CoveySpaceInfo, KnockOutcome, SpaceKnock } from '../../../../../classes/SpacesServiceClient';
 
 const useStyles = makeStyles((theme: Theme) => createStyles({
   container: {
@@ -67,29 +70,131 @@ const useStyles = makeStyles((theme: Theme) => createStyles({
 }));
 
 
+// Tells a player who was kept out of a private space why: it is reserved, or claimed by a host
+function deniedSpaceStatus(space: CoveySpaceInfo): string {
+  if (space.reservedUntil !== null) {
+    return `Reserved until ${new Date(space.reservedUntil).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+  }
+  return 'This space is private';
+}
+
 export default function MenuBar(props: { setMediaError?(error: Error): void }) {
   const classes = useStyles();
   const { isSharingScreen, toggleScreenShare } = useVideoContext();
   const roomState = useRoomState();
   const isReconnecting = roomState === 'reconnecting';
-  const { spaceApiClient, myPlayerID, currentLocation } = useCoveyAppState();
-  const [showClaimButton, setShowClaimButton] = useState<boolean>(false);
-  const [showControls, setShowControls] = useState<boolean>(false);
-  const [spaceInfo, setSpaceInfo] = useState<CoveySpaceInfo>({coveySpaceID: "World", currentPlayers: [], whitelist: [], hostID: null, presenterID: null});
+  const { spaceApiClient, myPlayerID, players, currentLocation, currentTownID, spaces, socket } = useCoveyAppState();
   const toast = useToast();
+  // The private space that this player was last kept out of, and whether they knocked on it
+  const [deniedSpace, setDeniedSpace] = useState<CoveySpaceInfo | undefined>(undefined);
+  const [knocked, setKnocked] = useState<boolean>(false);
 
-  // Get the info on the current space (whitelist, hostID, presenterID)
-  const getSpaceInfo = async () => {
-    const currentSpaceInfo = await spaceApiClient.getSpaceForPlayer({ playerID: myPlayerID });
-    setSpaceInfo(currentSpaceInfo.space);
+  // The info on the current space (whitelist, hostID, presenterID), kept up to date by the server
+  const spaceInfo: CoveySpaceInfo | undefined = spaces.get(currentLocation.space);
+  const myIdentity = players.find(player => player.id === myPlayerID)?.identity;
+  const showClaimButton = spaceInfo !== undefined && spaceInfo.hostIdentity === null;
+  const myRole = useMyTownRole();
+  // Co-hosts may do everything the host may, and so may town owners and moderators
+  const showControls = spaceInfo !== undefined && (spaceInfo.hostID === myPlayerID
+    || (myIdentity !== undefined && spaceInfo.coHosts.includes(myIdentity))
+    || (spaceInfo.hostIdentity !== null && myRole !== 'member'));
+  // The full space that this player is waiting to get into, if any
+  const waitingFor: CoveySpaceInfo | undefined = Array.from(spaces.values())
+    .find(space => space.waitingLine.includes(myPlayerID));
+
+  useEffect(() => {
+    const entryDenied = (space: CoveySpaceInfo) => {
+      setDeniedSpace(space);
+      setKnocked(false);
+    };
+    const knockAnswered = ({ knock, outcome }: { knock: SpaceKnock, outcome: KnockOutcome }) => {
+      if (knock.playerID !== myPlayerID) {
+        return;
+      }
+      setDeniedSpace(undefined);
+      setKnocked(false);
+      toast({
+        title: {
+          accepted: 'The host let you in',
+          denied: 'The host did not let you in',
+          expired: 'Nobody answered your knock',
+        }[outcome],
+        status: outcome === 'accepted' ? 'success' : 'info',
+        isClosable: true,
+      });
+    };
+    const hostChanged = (space: CoveySpaceInfo) => {
+      const newHost = players.find(player => player.id === space.hostID);
+      toast({
+        title: space.hostID === myPlayerID ? 'You are now the host of this space' : `${newHost?.userName ?? 'Someone else'} is now the host of this space`,
+        status: 'info',
+        isClosable: true,
+      });
+    };
+    const kickedFromSpace = () => {
+      toast({
+        title: 'The host removed you from the space',
+        status: 'warning',
+        isClosable: true,
+      });
+    };
+    // The server disconnects us right after, which takes us back to the town selection
+    const kicked = (reason: string) => {
+      toast({
+        title: 'You were removed from the town',
+        description: reason,
+        status: 'error',
+        isClosable: true,
+      });
+    };
+    socket?.on('spaceEntryDenied', entryDenied);
+    socket?.on('spaceKnockAnswered', knockAnswered);
+    socket?.on('spaceHostChanged', hostChanged);
+    socket?.on('kickedFromSpace', kickedFromSpace);
+    socket?.on('playerKicked', kicked);
+    return () => {
+      socket?.off('spaceEntryDenied', entryDenied);
+      socket?.off('spaceKnockAnswered', knockAnswered);
+      socket?.off('spaceHostChanged', hostChanged);
+      socket?.off('kickedFromSpace', kickedFromSpace);
+      socket?.off('playerKicked', kicked);
+    };
+  }, [socket, myPlayerID, players, toast]);
+
+  const knockOnSpace = async () => {
+    if (deniedSpace !== undefined) {
+      try {
+        await spaceApiClient.knockOnSpace({ coveyTownID: currentTownID, coveySpaceID: deniedSpace.coveySpaceID, playerID: myPlayerID });
+        setKnocked(true);
+      } catch (error) {
+        setDeniedSpace(undefined);
+        toast({
+          title: 'Unable to knock.',
+          description: error.toString(),
+          status: 'error',
+        });
+      }
+    }
+  }
+
+  const leaveWaitingLine = async () => {
+    if (waitingFor !== undefined) {
+      try {
+        await spaceApiClient.leaveSpace({ coveyTownID: currentTownID, coveySpaceID: waitingFor.coveySpaceID, playerID: myPlayerID });
+      } catch (error) {
+        toast({
+          title: 'Unable to leave the line.',
+          description: error.toString(),
+          status: 'error',
+        });
+      }
+    }
   }
   
   const claimSpace = async () => {
     if (currentLocation.space !== 'World') { 
       try {
-        await spaceApiClient.claimSpace({ coveySpaceID: currentLocation.space, playerID: myPlayerID, hostID: myPlayerID });
-        setShowClaimButton(false);
-        setShowControls(true);
+        await spaceApiClient.claimSpace({ coveyTownID: currentTownID, coveySpaceID: currentLocation.space, playerID: myPlayerID, hostID: myPlayerID });
         
         toast({
           title: 'You are now the host of this space',
@@ -98,7 +203,6 @@ export default function MenuBar(props: { setMediaError?(error: Error): void }) {
           isClosable: true,
         });
       } catch (error) {
-        setShowClaimButton(false);
         toast({
           title: 'Unable to claim space.',
           description: 'Space may already be claimed. Try walking in again.',
@@ -108,31 +212,6 @@ export default function MenuBar(props: { setMediaError?(error: Error): void }) {
     }
   }
 
-  const handleClaimButton = async () => {
-    if (currentLocation.space !== 'World' && spaceInfo.hostID === null) {
-      setShowClaimButton(true);
-    } else {
-      setShowClaimButton(false);
-    }
-  }
-
-  const handleSpaceControls = async () => {
-    if (currentLocation.space !== 'World' && spaceInfo.hostID === myPlayerID) {
-      setShowControls(true);
-    } else {
-      setShowControls(false);
-    }
-  }
-
-  useEffect(() => {
-    getSpaceInfo();
-  }, [currentLocation.space]);
-
-  useEffect(() => {
-    handleClaimButton();
-    handleSpaceControls();
-  }, [spaceInfo.coveySpaceID]);
-
   return (
     <>
       {isSharingScreen && (
@@ -156,7 +235,26 @@ export default function MenuBar(props: { setMediaError?(error: Error): void }) {
           <Hidden smDown>
             <Grid style={{ flex: 1 }}>
               <Grid container justify="flex-end">
+                {waitingFor ? (
+                  <>
+                    <Typography variant="body1" data-testid="waitingLinePosition">
+                      Space is full: you are number {waitingFor.waitingLine.indexOf(myPlayerID) + 1} in line
+                    </Typography>
+                    <Button onClick={leaveWaitingLine}>Leave Line</Button>
+                  </>
+                ) : null}
+                {deniedSpace ? (
+                  <>
+                    <Typography variant="body1" data-testid="knockStatus">
+                      {knocked ? 'Waiting for the host to let you in' : deniedSpaceStatus(deniedSpace)}
+                    </Typography>
+                    {knocked ? null : <Button onClick={knockOnSpace}>Knock</Button>}
+                    <Button onClick={() => setDeniedSpace(undefined)}>Dismiss</Button>
+                  </>
+                ) : null}
                 <TownSettings />
+                <TownModeration />
+                <SpaceReservations />
                 {showClaimButton? <Button onClick= { claimSpace } > Claim Space </Button> : null}
                 {showControls? <SpaceControls /> : null}
                 <Menu />
@@ -16,7 +16,9 @@ interface ParticipantProps {
   hideParticipant?: boolean;
   slot?: number;
   insideGrid: boolean;
+  filmstrip?: boolean;
   highlight?: boolean;
+  isPresenter?: boolean;
 }
 
 export default function Participant({
@@ -30,7 +32,9 @@ export default function Participant({
   hideParticipant,
   slot,
   insideGrid,
+  filmstrip,
   highlight,
+  isPresenter,
 }: ParticipantProps) {
   return (
     <ParticipantInfo
@@ -42,7 +46,9 @@ export default function Participant({
       hideParticipant={hideParticipant}
       slot={slot}
       insideGrid={insideGrid}
+      filmstrip={filmstrip}
       highlight={highlight}
+      isPresenter={isPresenter}
     >
       <ParticipantTracks
         participant={participant}
@@ -46,6 +46,15 @@ const useStyles = makeStyles((theme: Theme) => createStyles<any, {}>({
       paddingTop: `${theme.sidebarMobileHeight - 2}px`,
     },
   },
+  filmstrip: {
+    height: theme.sidebarMobileHeight,
+    width: `${(theme.sidebarMobileHeight * 16) / 9}px`,
+    flexShrink: 0,
+    marginRight: '8px',
+    marginBottom: '0',
+    fontSize: '10px',
+    paddingTop: `${theme.sidebarMobileHeight - 2}px`,
+  },
   innerContainer: {
     position: 'absolute',
     top: 0,
@@ -110,6 +119,14 @@ const useStyles = makeStyles((theme: Theme) => createStyles<any, {}>({
     display: 'flex',
     alignItems: 'center',
   },
+  presenterBadge: {
+    background: theme.palette.primary.main,
+    color: 'white',
+    padding: '0.18em 0.3em',
+    margin: 0,
+    display: 'inline-flex',
+    alignItems: 'center',
+  },
   infoRowBottom: {
     display: 'flex',
     justifyContent: 'space-between',
@@ -152,7 +169,9 @@ interface ParticipantInfoProps {
   hideParticipant?: boolean;
   slot?: number;
   insideGrid: boolean;
+  filmstrip?: boolean;
   highlight?: boolean;
+  isPresenter?: boolean;
 }
 
 export default function ParticipantInfo({
@@ -165,7 +184,9 @@ export default function ParticipantInfo({
   hideParticipant,
   slot,
   insideGrid,
+  filmstrip,
   highlight,
+  isPresenter,
 }: ParticipantInfoProps) {
   const publications = usePublications(participant);
 
@@ -215,6 +236,7 @@ export default function ParticipantInfo({
           [classes.hideParticipant]: hideParticipant,
           [classes.cursorPointer]: Boolean(onClick),
           [classes.notContainedInGrid]: !insideGrid,
+          [classes.filmstrip]: filmstrip,
           [classes.highlightParticipant]: highlight,
         },
         slot !== undefined ? `area-${slot}` : undefined,
@@ -250,7 +272,14 @@ export default function ParticipantInfo({
             </Typography>
           </a>
         </div>
-        <div>{isSelected && <PinIcon />}</div>
+        <div>
+          {isPresenter && (
+            <Typography variant="body1" className={clsx(classes.typeography, classes.presenterBadge)} component="span">
+              Presenter
+            </Typography>
+          )}
+          {isSelected && <PinIcon />}
+        </div>
       </div>
       <div className={classes.innerContainer}>
         {(!isVideoEnabled || isVideoSwitchedOff) && (
@@ -7,6 +7,7 @@ import useParticipants, { ParticipantWithSlot } from '../../hooks/useParticipant
 import useVideoContext from '../../hooks/useVideoContext/useVideoContext';
 import useSelectedParticipant from '../VideoProvider/useSelectedParticipant/useSelectedParticipant';
 import useScreenShareParticipant from '../../hooks/useScreenShareParticipant/useScreenShareParticipant';
+import usePresenterParticipant from '../../hooks/usePresenterParticipant/usePresenterParticipant';
 import { UserProfile } from '../../../../../CoveyTypes';
 
 import useNearbyPlayers from '../../../../../hooks/useNearbyPlayers';
@@ -27,6 +28,13 @@ function useStyles(width: 'sidebar' | 'fullwidth') {
         padding: '8px',
       },
     },
+    filmstripContainer: {
+      gridArea: '2 / 1 / 3 / 2',
+      overflowY: 'initial',
+      overflowX: 'auto',
+      display: 'flex',
+      padding: '8px',
+    },
     transparentBackground: {
       background: 'transparent',
     },
@@ -35,6 +43,9 @@ function useStyles(width: 'sidebar' | 'fullwidth') {
         display: 'flex',
       },
     },
+    filmstripScrollContainer: {
+      display: 'flex',
+    },
     gridContainer: {
       gridArea: '1 / 1 / 1 / 3',
       overflowX: 'hidden',
@@ -60,7 +71,7 @@ function useStyles(width: 'sidebar' | 'fullwidth') {
   }))();
 }
 
-export default function ParticipantList(props: { gridView: boolean }) {
+export default function ParticipantList(props: { gridView: boolean; filmstrip?: boolean }) {
   const {
     room: { localParticipant },
   } = useVideoContext();
@@ -68,6 +79,7 @@ export default function ParticipantList(props: { gridView: boolean }) {
   const [selectedParticipant, setSelectedParticipant] = useSelectedParticipant();
   const screenShareParticipant = useScreenShareParticipant();
   const mainParticipant = useMainParticipant();
+  const presenterParticipant = usePresenterParticipant();
   const { nearbyPlayers } = useNearbyPlayers();
 
   // const { preferredMode, highlightedProfiles } = useAppState();
@@ -85,6 +97,8 @@ export default function ParticipantList(props: { gridView: boolean }) {
         participant={localParticipant}
         isLocalParticipant
         insideGrid={props.gridView}
+        filmstrip={props.filmstrip}
+        isPresenter={localParticipant === presenterParticipant}
                 // highlight={highlightedProfiles?.includes(localUserProfile.id) ?? false}
         slot={0}
       />
@@ -110,6 +124,8 @@ export default function ParticipantList(props: { gridView: boolean }) {
               hideParticipant={hideParticipant}
               slot={participantWithSlot.slot}
               insideGrid={props.gridView}
+              filmstrip={props.filmstrip}
+              isPresenter={participant === presenterParticipant}
             />
           );
         })}
@@ -134,11 +150,13 @@ export default function ParticipantList(props: { gridView: boolean }) {
     </main>
   ) : (
     <aside
-      className={clsx(classes.container, {
+      className={clsx(props.filmstrip ? classes.filmstripContainer : classes.container, {
         [classes.transparentBackground]: true,
       })}
     >
-      <div className={classes.scrollContainer}>{participantsEl}</div>
+      <div className={props.filmstrip ? classes.filmstripScrollContainer : classes.scrollContainer}>
+        {participantsEl}
+      </div>
     </aside>
   );
 }
@@ -4,15 +4,25 @@ import clsx from 'clsx';
 import ParticipantList from '../ParticipantList/ParticipantList';
 import MainParticipant from '../MainParticipant/MainParticipant';
 import usePresenting from '../VideoProvider/usePresenting/usePresenting';
+import usePresenterParticipant from '../../hooks/usePresenterParticipant/usePresenterParticipant';
 import { useAppState } from '../../state';
 
 type StyleProps = {
   preferredMode: 'sidebar' | 'fullwidth';
   presenting: 'presenting' | 'not presenting';
+  hasPresenter: boolean;
 };
 
 const useStyles = makeStyles<Theme, StyleProps>((theme) => ({
-  container: (props) => ({
+  container: (props) => (props.hasPresenter ? {
+    // The presenter of the space takes the whole stage, everyone else is shown in a filmstrip below
+    position: 'relative',
+    height: '100%',
+    display: 'grid',
+    gridTemplateColumns: '100%',
+    gridTemplateRows: `1fr ${theme.sidebarMobileHeight + 26}px`,
+    overflow: 'auto',
+  } : {
     position: 'relative',
     height: '100%',
     display: 'grid',
@@ -32,12 +42,14 @@ const useStyles = makeStyles<Theme, StyleProps>((theme) => ({
 export default function Room() {
   const { preferredMode } = useAppState();
   const presenting = usePresenting();
-  const classes = useStyles({ preferredMode, presenting });
+  const presenterParticipant = usePresenterParticipant();
+  const hasPresenter = Boolean(presenterParticipant);
+  const classes = useStyles({ preferredMode, presenting, hasPresenter });
 
   return (
     <div className={clsx(classes.container)}>
-      {presenting === 'presenting' ? <MainParticipant /> : <></>}
-      <ParticipantList gridView={presenting === 'not presenting'} />
+      {presenting === 'presenting' || hasPresenter ? <MainParticipant /> : <></>}
+      <ParticipantList gridView={presenting === 'not presenting' && !hasPresenter} filmstrip={hasPresenter} />
     </div>
   );
 }
@@ -1,16 +1,19 @@
 import useVideoContext from '../useVideoContext/useVideoContext';
 import useScreenShareParticipant from '../useScreenShareParticipant/useScreenShareParticipant';
 import useSelectedParticipant from '../../components/VideoProvider/useSelectedParticipant/useSelectedParticipant';
+import usePresenterParticipant from '../usePresenterParticipant/usePresenterParticipant';
 
 export default function useMainParticipant() {
   const [selectedParticipant] = useSelectedParticipant();
   const screenShareParticipant = useScreenShareParticipant();
+  const presenterParticipant = usePresenterParticipant();
   const {
     room: { localParticipant },
   } = useVideoContext();
   const remoteScreenShareParticipant = screenShareParticipant !== localParticipant ? screenShareParticipant : null;
 
   // The participant that is returned is displayed in the main video area. Changing the order of the following
-  // variables will change the how the main speaker is determined.
-  return remoteScreenShareParticipant || selectedParticipant || localParticipant;
+  // variables will change the how the main speaker is determined. The presenter of the space is pinned for
+  // everyone in it, so their camera (or screen share) takes precedence over anyone else's screen share.
+  return presenterParticipant || remoteScreenShareParticipant || selectedParticipant || localParticipant;
 }
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { Participant } from 'twilio-video';
+import useVideoContext from '../useVideoContext/useVideoContext';
+import useCoveyAppState from '../../../../../hooks/useCoveyAppState';
+
+/*
+  Returns the participant that the host of the current space picked as its presenter (if any). The
+  presenter could be the localParticipant.
+*/
+export default function usePresenterParticipant() {
+  const { room } = useVideoContext();
+  const { spaces, currentLocation } = useCoveyAppState();
+  const presenterID = spaces.get(currentLocation.space)?.presenterID;
+  const [presenterParticipant, setPresenterParticipant] = useState<Participant>();
+
+  useEffect(() => {
+    if (room.state === 'connected' && presenterID) {
+      const updatePresenterParticipant = () => {
+        setPresenterParticipant(
+          Array.from<Participant>(room.participants.values())
+            .concat(room.localParticipant)
+            .find((participant: Participant) => participant.identity === presenterID),
+        );
+      };
+      updatePresenterParticipant();
+
+      room.on('participantConnected', updatePresenterParticipant);
+      room.on('participantDisconnected', updatePresenterParticipant);
+      return () => {
+        room.off('participantConnected', updatePresenterParticipant);
+        room.off('participantDisconnected', updatePresenterParticipant);
+      };
+    }
+    setPresenterParticipant(undefined);
+    return () => { };
+  }, [room, presenterID]);
+
+  return presenterParticipant;
+}
@@ -17,6 +17,8 @@ import './VideoGrid.scss';
 import MediaErrorSnackbar from '../VideoFrontend/components/PreJoinScreens/MediaErrorSnackbar/MediaErrorSnackbar';
 import usePresenting from '../VideoFrontend/components/VideoProvider/usePresenting/usePresenting';
 import useMaybeVideo from '../../../hooks/useMaybeVideo';
+import useCoveyAppState from '../../../hooks/useCoveyAppState';
+import ChatPanel from '../../Chat/ChatPanel';
 
 const Container = styled('div')({
   display: 'grid',
@@ -51,6 +53,7 @@ export default function VideoGrid(props: Props) {
   const existingRoomRef = useRef<TwilioRoom | undefined>();
   const [mediaError, setMediaError] = useState<Error>();
   const presenting = usePresenting();
+  const { socket } = useCoveyAppState();
 
   let coveyRoom = coveyController?.coveyTownID;
   if (!coveyRoom) coveyRoom = 'Disconnected';
@@ -107,6 +110,14 @@ export default function VideoGrid(props: Props) {
     existingRoomRef.current = room;
   }, [room.sid, room, coveyRoom]);
 
+  // The server can only restrict the tracks we receive (to those of the players in our space)
+  // once we are in the video room
+  useEffect(() => {
+    if (roomState === 'connected') {
+      socket?.emit('videoConnected');
+    }
+  }, [roomState, socket]);
+
   useEffect(() => {
     const isPresenting = presenting === 'presenting';
     if (props.onPresentingChanged) {
@@ -127,6 +138,7 @@ export default function VideoGrid(props: Props) {
             <MobileTopMenuBar />
             <Room />
             <MenuBar setMediaError={setMediaError} />
+            <ChatPanel />
           </Main>
         )}
         <MediaErrorSnackbar error={mediaError} dismissError={() => setMediaError(undefined)} />
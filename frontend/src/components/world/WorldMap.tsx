@@ -1,16 +1,60 @@
 import React, { useEffect, useState } from 'react';
-import { io } from 'socket.io-client';
+import { io, Socket } from 'socket.io-client';
 import assert from 'assert';
 import Phaser from 'phaser';
-import Player, { UserLocation } from '../../classes/Player';
+import { useToast } from '@chakra-ui/react';
+import Player, { ServerPlayer, UserLocation } from '../../classes/Player';
 import Video from '../../classes/Video/Video';
 import useCoveyAppState from '../../hooks/useCoveyAppState';
-import SpacesServiceClient from '../../classes/SpacesServiceClient';
+import SpacesServiceClient, { CoveySpaceInfo } from '../../classes/SpacesServiceClient';
+import { CoveyMapInfo } from '../../classes/TownsServiceClient';
+
+// Objects named `Private Space <ID>`, or of type `space`, are spaces (same rule as the server)
+const SPACE_NAME_PREFIX = 'Private Space ';
+
+function isSpaceObject(obj: Phaser.Types.Tilemaps.TiledObject): boolean {
+  return obj.type === 'space' || obj.name.startsWith(SPACE_NAME_PREFIX);
+}
+
+// The ID of a space is its `spaceID` property if it has one, otherwise its name without the prefix
+function spaceIDForObject(obj: Phaser.Types.Tilemaps.TiledObject): string {
+  const properties: { name: string, value: unknown }[] = obj.properties || [];
+  const spaceID = properties.find(property => property.name === 'spaceID')?.value;
+  if (typeof spaceID === 'string' && spaceID !== '') {
+    return spaceID;
+  }
+  if (obj.name.startsWith(SPACE_NAME_PREFIX)) {
+    return obj.name.slice(SPACE_NAME_PREFIX.length);
+  }
+  return obj.name;
+}
+
+type PlayerSprite = Phaser.Types.Physics.Arcade.SpriteWithDynamicBody;
+
+// Other players glide to each location that the server sends over the time since their previous
+// one (about a server tick), but for no longer than this, in milliseconds
+const MAX_INTERPOLATION_MS = 250;
+
+// How long other players who start moving again glide for, until the time between the snapshots
+// of moving players is known (the server's default tick), in milliseconds
+const DEFAULT_SNAPSHOT_INTERVAL_MS = 1000 / 15;
+
+// Other players that move farther than this at once (e.g. through a transporter) jump there, in pixels
+const MAX_INTERPOLATION_DISTANCE = 256;
+
+// Finds where the body of a player's sprite is when the sprite is at a point: locations (sent to
+// and from the server) are the top left corner of the body, while the map puts sprites at points
+function bodyLocationAt(sprite: PlayerSprite, x: number, y: number): { x: number, y: number } {
+  return {
+    x: x - sprite.displayOriginX + sprite.body.offset.x,
+    y: y - sprite.displayOriginY + sprite.body.offset.y,
+  };
+}
 
 // https://medium.com/@michaelwesthadley/modular-game-worlds-in-phaser-3-tilemaps-1-958fc7e6bbd6
 class CoveyGameScene extends Phaser.Scene {
   private player?: {
-    sprite: Phaser.Types.Physics.Arcade.SpriteWithDynamicBody, label: Phaser.GameObjects.Text
+    sprite: PlayerSprite, label: Phaser.GameObjects.Text
   };
 
   private id?: string;
@@ -44,16 +88,28 @@ class CoveyGameScene extends Phaser.Scene {
 
   private spawnPoint: Phaser.GameObjects.Components.Transform | undefined;
 
+  private mapInfo: CoveyMapInfo;
+
+  // Where the sprite of each other player is headed, whether they were moving, and when the
+  // location was received, by player ID
+  private spriteTargets = new Map<string, { x: number, y: number, moving: boolean, receivedAt: number }>();
+
+  // How long it last took for the next location of a moving player to arrive
+  private snapshotInterval = DEFAULT_SNAPSHOT_INTERVAL_MS;
+
   /**
    * Constructs the map taking in required arguments needed to 'play the game'
    * 
    * @param video 
    * @param emitMovement the location of the user, or void
    * @param spaceCreateInfo the information needed to create a space
+   * @param mapInfo the map of the town, as listed in the map catalog
    */
-  constructor(video: Video, emitMovement: (loc: UserLocation) => void, spaceCreateInfo: SpaceCreationInfo) {
+  constructor(video: Video, emitMovement: (loc: UserLocation) => void, spaceCreateInfo: SpaceCreationInfo,
+    mapInfo: CoveyMapInfo) {
     super('PlayGame');
     this.video = video;
+    this.mapInfo = mapInfo;
     this.emitMovement = emitMovement;
     this.spaceCreateInfo = spaceCreateInfo;
     this.inSpace = "World";
@@ -63,8 +119,9 @@ class CoveyGameScene extends Phaser.Scene {
 
   preload() {
     // this.load.image("logo", logoImg);
-    this.load.image('tiles', '/assets/tilesets/tuxmon-sample-32px-extruded.png');
-    this.load.tilemapTiledJSON('map', '/assets/tilemaps/tuxemon-town.json');
+    // Each tileset image is kept in Phaser's cache under the name the tilemap gives the tileset
+    this.mapInfo.tilesets.forEach(tileset => this.load.image(tileset.name, tileset.imageURL));
+    this.load.tilemapTiledJSON('map', this.mapInfo.tilemapURL);
     this.load.atlas('atlas', '/assets/atlas/atlas.png', '/assets/atlas/atlas.json');
   }
 
@@ -75,8 +132,8 @@ class CoveyGameScene extends Phaser.Scene {
    * @returns  the space info
    */
   async getSpaceForPlayer(playerID: string) {
-    const { spaceApiClient } = this.spaceCreateInfo;
-    const playerSpace = await spaceApiClient.getSpaceForPlayer({ playerID });
+    const { spaceApiClient, currentTownID } = this.spaceCreateInfo;
+    const playerSpace = await spaceApiClient.getSpaceForPlayer({ coveyTownID: currentTownID, playerID });
     return playerSpace.space;
   }
 
@@ -113,7 +170,10 @@ class CoveyGameScene extends Phaser.Scene {
       (player) => !players.find((p) => p.id === player.id),
     );
     disconnectedPlayers.forEach((disconnectedPlayer) => {
+      this.spriteTargets.delete(disconnectedPlayer.id);
       if (disconnectedPlayer.sprite) {
+        this.tweens.killTweensOf(disconnectedPlayer.label
+          ? [disconnectedPlayer.sprite, disconnectedPlayer.label] : disconnectedPlayer.sprite);
         disconnectedPlayer.sprite.destroy();
         disconnectedPlayer.label?.destroy();
       }
@@ -147,7 +207,7 @@ class CoveyGameScene extends Phaser.Scene {
           space: 'World',
         };
       }
-      myPlayer = new Player(player.id, player.userName, location);
+      myPlayer = new Player(player.id, player.userName, location, player.identity);
       this.players.push(myPlayer);
     }
 
@@ -171,10 +231,9 @@ class CoveyGameScene extends Phaser.Scene {
         myPlayer.sprite = sprite;
       }
       if (!sprite.anims) return;
-      sprite.setX(player.location.x);
-      sprite.setY(player.location.y);
-      myPlayer.label?.setX(player.location.x);
-      myPlayer.label?.setY(player.location.y - 20);
+      this.moveSpriteTo(myPlayer, player.location);
+      // Players who lost their connection stay where they were until they come back (or leave)
+      myPlayer.label?.setText(player.isReconnecting ? `${myPlayer.userName} (reconnecting)` : myPlayer.userName);
       if (player.location.moving) {
         sprite.anims.play(`misa-${player.location.rotation}-walk`, true);
       } else {
@@ -184,6 +243,48 @@ class CoveyGameScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Moves the sprite (and label) of another player so that their body is at a location: gliding
+   * there from where the sprite is, unless the sprite was not placed yet or the location is far
+   * @param player the player, with their sprite
+   * @param location the location sent by the server
+   */
+  moveSpriteTo(player: Player, location: UserLocation) {
+    const { sprite, label } = player;
+    if (!sprite) {
+      return;
+    }
+    const bodyOffset = bodyLocationAt(sprite as PlayerSprite, 0, 0);
+    const x = location.x - bodyOffset.x;
+    const y = location.y - bodyOffset.y;
+    const previousTarget = this.spriteTargets.get(player.id);
+    const { now } = this.time;
+    this.spriteTargets.set(player.id, { x, y, moving: location.moving, receivedAt: now });
+    if (previousTarget && previousTarget.x === x && previousTarget.y === y) {
+      return;
+    }
+    this.tweens.killTweensOf(label ? [sprite, label] : sprite);
+    if (!previousTarget
+      || Phaser.Math.Distance.Between(sprite.x, sprite.y, x, y) > MAX_INTERPOLATION_DISTANCE) {
+      sprite.setPosition(x, y);
+      label?.setPosition(x, y - 20);
+      return;
+    }
+    // A player who starts moving again after a pause glides for about a tick, rather than for
+    // the time since they stopped
+    let duration = this.snapshotInterval;
+    if (previousTarget.moving) {
+      duration = Math.min(now - previousTarget.receivedAt, MAX_INTERPOLATION_MS);
+      if (duration < MAX_INTERPOLATION_MS) {
+        this.snapshotInterval = duration;
+      }
+    }
+    this.tweens.add({ targets: sprite, x, y, duration });
+    if (label) {
+      this.tweens.add({ targets: label, x, y: y - 20, duration });
+    }
+  }
+
   /**
    * Finds the direction the player is moving in based on the key they pressed
    * @returns the direction to move in as a string or undefined
@@ -206,24 +307,20 @@ class CoveyGameScene extends Phaser.Scene {
 
   /**
    * Creates a Phaser zone for the defined spaces (in the tilemap)
-   * @param spaceID the space id given as the name of the object
-   * @param map map object for the current world
+   * @param space the object drawn on the map for the space
    * @param sprite sprite object for collision detection
    * @param [debug] optional param to enable rendering of the zone
    * @returns  a zone object that detects players inside it
    */
-  createZoneForSpace(spaceID: string, map: Phaser.Tilemaps.Tilemap, sprite: Phaser.Types.Physics.Arcade.SpriteWithDynamicBody, debug?: boolean): Phaser.GameObjects.Zone {
+  createZoneForSpace(space: Phaser.Types.Tilemaps.TiledObject, sprite: Phaser.Types.Physics.Arcade.SpriteWithDynamicBody, debug?: boolean): Phaser.GameObjects.Zone {
     const { currentTownID } = this.spaceCreateInfo;
+    const spaceID = spaceIDForObject(space);
 
     // Get the location of the private space drawed on the map as an object
-    const location = map.findObject('Objects',
-    (obj) => obj.name === `Private Space ${spaceID}`) as unknown as
-    Phaser.GameObjects.Components.Transform;
+    const location = space as unknown as Phaser.GameObjects.Components.Transform;
 
     // Get the dimensions for the private space drawed on the map
-    const size = map.findObject('Objects',
-    (obj) => obj.name === `Private Space ${spaceID}`) as unknown as
-    Phaser.GameObjects.Components.Size;
+    const size = space as unknown as Phaser.GameObjects.Components.Size;
 
     // Make a zone (hitbox) - origin is top left so correct by adding half the size
     const privateZone = this.add.zone(
@@ -254,6 +351,11 @@ class CoveyGameScene extends Phaser.Scene {
   }
 
 
+  // gets the ID of the space this player is in
+  get currentSpace(): string {
+    return this.inSpace;
+  }
+
   /**
    * Gets zone object from a space id
    * @param spaceID the id for the space
@@ -272,71 +374,39 @@ class CoveyGameScene extends Phaser.Scene {
     // Create zone for all Private Spaces using the createZoneForPrivateSpace function
     if (this.player !== undefined) {
       const spriteForPlayer = this.player.sprite;
-      // Get the a list of private space drawn on the map and create zones for all of them
-      const privateSpaces = map.filterObjects('Objects', (obj) => obj.name.includes('Private Space'));
-      privateSpaces.forEach(space => this.createZoneForSpace(space.name.slice(-1), map, spriteForPlayer, true));
-    }
-  }
-
-  /**
-   * Checks overlap between the sprite of the player and the different spaces
-   * @param zone the zone to check if the player is in
-   * @returns if these two objects overlap
-   */
-  checkOverlap(zone: Phaser.GameObjects.Zone) {
-    const player = this.player?.sprite;
-    
-    if (player === undefined) {
-      return false;
+      // Get the a list of spaces drawn on the map and create zones for all of them
+      const spaces = map.getObjectLayer('Objects').objects.filter(isSpaceObject);
+      spaces.forEach(space => this.createZoneForSpace(space, spriteForPlayer, true));
     }
-    
-    const boundsA = player.getBounds();
-    const boundsB = zone.getBounds();
-
-    return Phaser.Geom.Intersects.RectangleToRectangle(boundsA, boundsB);
   }
 
   /**
-   * Helper function to join a space
-   * @param space the space to join
+   * Moves this player in or out of a space, as decided by the server
+   * @param spaceID the ID of the space the player is now in, or 'World'
    */
-  async joinSpace(space: Phaser.GameObjects.Zone) {    
-    const { spaceApiClient, myPlayerID } = this.spaceCreateInfo;
-    
-    // Try to join a space (returns boolean for success or failure)
-    try {
-      await spaceApiClient.joinSpace({ coveySpaceID: space.name, playerID: myPlayerID });
-      this.inSpace = space.name;
-    } catch (error) {
-      // If join space attempt fails, kick player out of space
-      if(this.spawnPoint && this.player && this.lastLocation){
-        // Move the player to their last location (outside the space)
-        const locationForSpawn = {
-          x: this.spawnPoint.x,
-          y: this.spawnPoint.x,
-          rotation: this.lastLocation.rotation,
-          moving: false,
-          space: 'World',
-        }
-        this.player.sprite.x = this.spawnPoint.x;
-        this.player.sprite.y = this.spawnPoint.y; 
-        this.emitMovement(locationForSpawn);
-      }
+  updateSpace(spaceID: string) {
+    this.inSpace = spaceID;
+    if (this.lastLocation) {
+      this.lastLocation.space = spaceID;
+      this.emitMovement(this.lastLocation);
     }
   }
 
   /**
-   * Helper function to leave a space
-   * @param space the space to leave
+   * Moves this player to where the server put them: back out of a space they are not allowed
+   * into (or that is full), into a space once they are let in from its waiting line, or back to
+   * where they could go when they moved through a wall (or too fast)
+   * @param location the location given by the server
    */
-  async leaveSpace(space: Phaser.GameObjects.Zone) {
-    const { spaceApiClient, myPlayerID } = this.spaceCreateInfo;
-
-    try {
-      await spaceApiClient.leaveSpace({ coveySpaceID: space.name, playerID: myPlayerID });
-      this.inSpace = "World";
-    } catch (error) {
-      this.inSpace = space.name;
+  moveTo(location: UserLocation) {
+    if (this.player && this.lastLocation) {
+      const bodyOffset = bodyLocationAt(this.player.sprite, 0, 0);
+      this.player.sprite.x = location.x - bodyOffset.x;
+      this.player.sprite.y = location.y - bodyOffset.y;
+      this.lastLocation.x = location.x;
+      this.lastLocation.y = location.y;
+      this.inSpace = location.space;
+      this.lastLocation.space = location.space;
     }
   }
 
@@ -346,14 +416,14 @@ class CoveyGameScene extends Phaser.Scene {
     /* Parameters are the name you gave the tileset in Tiled and then the key of the
      tileset image in Phaser's cache (i.e. the name you used in preload)
      */
-    const tileset = map.addTilesetImage('tuxmon-sample-32px-extruded', 'tiles');
+    const tilesets = this.mapInfo.tilesets.map(tileset => map.addTilesetImage(tileset.name, tileset.name));
 
-    // Parameters: layer name (or index) from Tiled, tileset, x, y
+    // Parameters: layer name (or index) from Tiled, tilesets, x, y
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const belowLayer = map.createLayer('Below Player', tileset, 0, 0);
-    const worldLayer = map.createLayer('World', tileset, 0, 0);
+    const belowLayer = map.createLayer('Below Player', tilesets, 0, 0);
+    const worldLayer = map.createLayer('World', tilesets, 0, 0);
     worldLayer.setCollisionByProperty({ collides: true });
-    const aboveLayer = map.createLayer('Above Player', tileset, 0, 0);
+    const aboveLayer = map.createLayer('Above Player', tilesets, 0, 0);
     /* By default, everything gets depth sorted on the screen in the order we created things.
      Here, we want the "Above Player" layer to sit on top of the player, so we explicitly give
      it a depth. Higher depths will sit on top of lower depth objects.
@@ -361,9 +431,10 @@ class CoveyGameScene extends Phaser.Scene {
     aboveLayer.setDepth(10);
 
     // Object layers in Tiled let you embed extra info into a map - like a spawn point or custom
-    // collision shapes. In the tmx file, there's an object layer with a point named "Spawn Point"
-    this.spawnPoint = map.findObject('Objects',
-      (obj) => obj.name === 'Spawn Point') as unknown as
+    // collision shapes. In the tmx file, there's an object layer with points named "Spawn Point":
+    // maps may have several, and players arrive at one of them at random
+    const spawnPoints = map.filterObjects('Objects', (obj) => obj.name === 'Spawn Point');
+    this.spawnPoint = Phaser.Utils.Array.GetRandom(spawnPoints) as unknown as
       Phaser.GameObjects.Components.Transform;
 
 
@@ -446,8 +517,9 @@ class CoveyGameScene extends Phaser.Scene {
           // Move the player to the target, update lastLocation and send it to other players
           this.player.sprite.x = target.x;
           this.player.sprite.y = target.y;
-          this.lastLocation.x = target.x;
-          this.lastLocation.y = target.y;
+          const targetLocation = bodyLocationAt(this.player.sprite, target.x, target.y);
+          this.lastLocation.x = targetLocation.x;
+          this.lastLocation.y = targetLocation.y;
           this.lastLocation.space = this.inSpace;
           this.emitMovement(this.lastLocation);
         }
@@ -460,10 +532,7 @@ class CoveyGameScene extends Phaser.Scene {
     this.emitMovement({
       rotation: 'front',
       moving: false,
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore - JB todo
-      x: this.spawnPoint.x,
-      y: this.spawnPoint.y,
+      ...bodyLocationAt(sprite, this.spawnPoint.x, this.spawnPoint.y),
       space: 'World'
     });
 
@@ -623,17 +692,6 @@ class CoveyGameScene extends Phaser.Scene {
         this.emitMovement(this.lastLocation);
       }
     }
-
-    // Handles which space the player is in
-    this.allSpaces.forEach(space => {
-      if(this.checkOverlap(space) && this.inSpace === 'World') {
-        this.joinSpace(space);
-      }
-
-      if(!this.checkOverlap(space) && this.inSpace === space.name) {
-        this.leaveSpace(space);
-      }
-    });
   }
 
   pause() {
@@ -649,6 +707,12 @@ class CoveyGameScene extends Phaser.Scene {
   }
   
 }
+// a player walking in or out of a space, as sent by the server
+type SpaceMembershipChange = {
+  playerID: string,
+  space: CoveySpaceInfo,
+}
+
 // the info needed to create a space 
 // API client, the player Id, and the current town Id
 type SpaceCreationInfo = {
@@ -665,6 +729,7 @@ export default function WorldMap(): JSX.Element {
   const {
     emitMovement, 
     players,
+    apiClient,
     spaceApiClient,
     myPlayerID,
     currentTownID,
@@ -672,8 +737,40 @@ export default function WorldMap(): JSX.Element {
     sessionToken
   } = useCoveyAppState();
   const [gameScene, setGameScene] = useState<CoveyGameScene>();
+  const [mapInfo, setMapInfo] = useState<CoveyMapInfo>();
+  const toast = useToast();
 
+  // Finds where to load the map of the town from, in the map catalog
   useEffect(() => {
+    let isCurrent = true;
+    apiClient.listMaps()
+      .then(({ maps }) => {
+        // Towns that do not say which map they use have the default one (the first of the catalog)
+        const townMap = video?.mapID === undefined ? maps[0]
+          : maps.find(map => map.mapID === video.mapID);
+        if (!townMap) {
+          throw new Error(`The map ${video?.mapID ?? ''} is not in the map catalog`);
+        }
+        if (isCurrent) {
+          setMapInfo(townMap);
+        }
+      })
+      .catch((err) => {
+        toast({
+          title: 'Unable to load the map of the town',
+          description: err.toString(),
+          status: 'error'
+        });
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [apiClient, video, toast]);
+
+  useEffect(() => {
+    if (!mapInfo) {
+      return undefined;
+    }
     const config = {
       type: Phaser.AUTO,
       parent: 'map-container',
@@ -692,7 +789,7 @@ export default function WorldMap(): JSX.Element {
 
     const game = new Phaser.Game(config);
     if (video) {
-      const newGameScene = new CoveyGameScene(video, emitMovement, spaceCreateInfo);
+      const newGameScene = new CoveyGameScene(video, emitMovement, spaceCreateInfo, mapInfo);
       setGameScene(newGameScene);
       game.scene.add('coveyBoard', newGameScene, true);
       video.pauseGame = () => {
@@ -705,7 +802,7 @@ export default function WorldMap(): JSX.Element {
     return () => {
       game.destroy(true);
     };
-  }, [video, emitMovement, spaceApiClient, myPlayerID, currentTownID]);
+  }, [video, emitMovement, spaceApiClient, myPlayerID, currentTownID, mapInfo]);
 
   const deepPlayers = JSON.stringify(players);
   useEffect(() => {
@@ -713,25 +810,49 @@ export default function WorldMap(): JSX.Element {
   }, [players, deepPlayers, gameScene, currentLocation.space]);
 
   /**
-   * A socket action for when players should update their membership to a space 
-   * - When a space is claimed
-   * - When a space is updated?
+   * A socket action for when players should update their membership to a space, or their location
+   * - When the player walks in or out of a space
+   * - When the player is bounced out of a space they are not allowed into
+   * - When the player is let into a space from its waiting line
+   * - When the server did not let the player move as they asked (through a wall, or too fast)
    */
   useEffect(() => {
     const socket = io(url, { auth: { token: sessionToken, coveyTownID: currentTownID } });
-    socket.on('spaceClaimed', (spaceID: string) => {
-      const space = gameScene?.getZoneFromSpaceID(spaceID);
-      if (space !== undefined) {
-        gameScene?.joinSpace(space);
+    // The server decides which space this player is in, based on their location
+    socket.on('playerEnteredSpace', ({ playerID, space }: SpaceMembershipChange) => {
+      if (playerID === myPlayerID) {
+        gameScene?.updateSpace(space.coveySpaceID);
       }
     });
+    socket.on('playerLeftSpace', ({ playerID, space }: SpaceMembershipChange) => {
+      if (playerID === myPlayerID && gameScene?.currentSpace === space.coveySpaceID) {
+        gameScene?.updateSpace('World');
+      }
+    });
+    socket.on('playerBounced', (player: ServerPlayer) => {
+      if (player._id === myPlayerID) {
+        gameScene?.moveTo(player.location);
+      }
+    });
+    socket.on('playerAdmitted', (player: ServerPlayer) => {
+      if (player._id === myPlayerID) {
+        gameScene?.moveTo(player.location);
+      }
+    });
+    // The server only tells this player where they are when it did not let them move as they asked
+    socket.on('movementCorrected', (location: UserLocation) => {
+      gameScene?.moveTo(location);
+    });
     socket.on('playerDisconnect', () => {
       socket?.disconnect();
     });
-    socket.on('disconnect', () => {
-      socket?.disconnect();
+    socket.on('disconnect', (reason: Socket.DisconnectReason) => {
+      // A lost connection reconnects by itself, along with the session
+      if (reason !== 'ping timeout' && reason !== 'transport close' && reason !== 'transport error') {
+        socket?.disconnect();
+      }
     });
-  }, [gameScene, currentTownID, sessionToken, url]);
+  }, [gameScene, currentTownID, myPlayerID, sessionToken, url]);
 
   return <div id="map-container"/>;
 }
\ No newline at end of file
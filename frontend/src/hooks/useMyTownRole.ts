@@ -0,0 +1,12 @@
+import { TownRole } from '../classes/TownsServiceClient';
+import useCoveyAppState from './useCoveyAppState';
+
+/**
+ * Use this hook to get the role of the current player in the town, which decides what they may
+ * manage without the town update password.
+ */
+export default function useMyTownRole(): TownRole {
+  const { players, myPlayerID, roles } = useCoveyAppState();
+  const myIdentity = players.find((player) => player.id === myPlayerID)?.identity;
+  return (myIdentity !== undefined && roles.get(myIdentity)) || 'member';
+}
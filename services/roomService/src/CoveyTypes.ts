@@ -4,7 +4,58 @@ export type UserLocation = {
   y: number;
   rotation: Direction;
   moving: boolean;
+  /** ID of the space the player is in, or 'World' (always set by the server) */
+  space?: string;
 };
+/** Where a player is, as sent in the movement snapshots of a town */
+export type PlayerMovement = { playerID: string; location: UserLocation };
 export type CoveyTownList = { friendlyName: string; coveyTownID: string; currentOccupancy: number; maximumOccupancy: number }[];
-export type CoveySpaceInfo = { coveySpaceID: string; currentPlayers: string[]; whitelist: string[]; hostID: string | null; presenterID: string | null};
+export type SpaceBounds = { x: number; y: number; width: number; height: number };
+export type SpaceProperties = { bounds?: SpaceBounds; capacity?: number; isPrivateByDefault?: boolean };
+/**
+ * The state of a space, as sent to clients: the whitelist holds the identities of players
+ * (which stay the same when they join again), the host and presenter are the IDs of the
+ * players who hold those roles while they are in the town
+ */
+export type CoveySpaceInfo = { coveySpaceID: string; currentPlayers: string[]; whitelist: string[]; invitedNames: string[]; hostID: string | null; hostIdentity: string | null; coHosts: string[]; successionPolicy: HostSuccessionPolicy; presenterID: string | null; capacity: number | null; waitingLine: string[]; reservedUntil: number | null };
+/**
+ * What happens to a private space when its host leaves the town: a co-host takes over, the
+ * member who has been in the space the longest takes over, or the space waits a while for the
+ * host to come back and is then made public (the last two fall back to waiting when there is
+ * nobody to take over)
+ */
+export type HostSuccessionPolicy = 'promoteCoHost' | 'promoteLongestPresent' | 'publicizeAfterGracePeriod';
+/**
+ * A time window in which a space is private for the player who reserved it, with its whitelist
+ * and presenter (identities) set in advance; start and end are in milliseconds since the epoch
+ */
+export type SpaceReservation = { reservationID: string; coveySpaceID: string; hostIdentity: string; hostName: string; start: number; end: number; whitelist: string[]; presenterIdentity: string | null };
+/** Whether a player got into a space, or why they did not ('full' puts them in its waiting line) */
+export type SpaceJoinResult = 'joined' | 'full' | 'notAllowed';
+/** A request from a player to be let into a private space, waiting for its host to answer */
+export type SpaceKnock = { coveySpaceID: string; playerID: string; userName: string; expiresAt: number };
+/** How a knock ended: answered by the host, or left unanswered until it expired */
+export type KnockOutcome = 'accepted' | 'denied' | 'expired';
+/**
+ * What a player may do in a town: owners may do everything, moderators may remove players and
+ * manage every space, members may only manage the spaces they host
+ */
+export type TownRole = 'owner' | 'moderator' | 'member';
+/** The town management actions that depend on the role of the player */
+export type TownPermission = 'updateTown' | 'deleteTown' | 'kickPlayers' | 'manageSpaces' | 'assignRoles';
+/** A player that may not join a town again (by identity, nor by user name) until the ban ends */
+export type TownBan = { userName: string; identity: string; reason: string; until: number };
+/** A tileset image that a map draws its tiles from, by the name the tilemap gives it */
+export type CoveyMapTileset = { name: string; imageURL: string };
+/**
+ * A map that towns can be created with, as listed in the map catalog (the URLs are where the
+ * frontend loads the tilemap, its tilesets and the thumbnail from)
+ */
+export type CoveyMapInfo = { mapID: string; name: string; tilemapURL: string; tilesets: CoveyMapTileset[]; thumbnailURL?: string };
 
+/**
+ * Who a chat message is for: `town` (everyone in the town), `space:<coveySpaceID>` (the members
+ * of the space) or `direct:<playerID>` (a single player)
+ */
+export type ChatScope = string;
+export type ChatMessage = { messageID: string; senderID: string; senderName: string; scope: ChatScope; body: string; timestamp: number };
@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+
 /**
  * This function exists solely to help satisfy the linter + typechecker when it looks over the
  * stubbed (not yet implemented by you) functions. Remove calls to it as you go.
@@ -14,3 +16,30 @@ export function logError(err: any): void {
   // eslint-disable-next-line no-console
   console.trace(err);
 }
+
+/**
+ * Hashes a password (with a random salt) so that it can be stored
+ *
+ * @param password the password to hash
+ * @returns the salt and the hash, separated by a colon
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  return `${salt}:${crypto.scryptSync(password, salt, 64).toString('hex')}`;
+}
+
+/**
+ * Checks a password against a hash returned by hashPassword
+ *
+ * @param password the password to check
+ * @param passwordHash the stored hash
+ */
+export function passwordMatchesHash(password: string, passwordHash: string): boolean {
+  const [salt, hash] = passwordHash.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
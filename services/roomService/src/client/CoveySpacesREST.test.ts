@@ -0,0 +1,312 @@
+import Express from 'express';
+import CORS from 'cors';
+import http from 'http';
+import { nanoid } from 'nanoid';
+import { AddressInfo } from 'net';
+import { AxiosError } from 'axios';
+
+import TownsServiceClient, { TownJoinResponse } from './TownsServiceClient';
+import SpacesServiceClient from './SpacesServiceClient';
+import addTownRoutes from '../router/towns';
+import CoveyTownsStore from '../lib/CoveyTownsStore';
+import TwilioVideo from '../lib/TwilioVideo';
+
+// Joining and leaving spaces changes the track subscriptions of the (nonexistent) video room
+jest.spyOn(TwilioVideo.prototype, 'updateTrackSubscriptions').mockResolvedValue();
+
+function expectStatus(err: AxiosError, status: number) {
+  expect(err.response?.status)
+    .toBe(status);
+}
+
+/**
+ * Puts a player in the middle of a space, without going through the socket (which would already
+ * make them join it)
+ */
+function placePlayerInSpace(coveyTownID: string, coveySpaceID: string, playerID: string) {
+  const town = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+  const bounds = town?.privateSpaces.getControllerForSpace(coveySpaceID)?.bounds;
+  const player = town?.players.find(p => p.id === playerID);
+  if (!bounds || !player) {
+    fail('Expected the space and player to exist');
+  }
+  player.updateLocation({
+    x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2, moving: false, rotation: 'front',
+  });
+}
+
+describe('SpacesServiceAPIREST', () => {
+  let server: http.Server;
+  let serviceURL: string;
+  let apiClient: TownsServiceClient;
+
+  async function joinTownForTesting(coveyTownID: string): Promise<TownJoinResponse> {
+    return apiClient.joinTown({ userName: nanoid(), coveyTownID });
+  }
+
+  beforeAll(async () => {
+    const app = Express();
+    app.use(CORS());
+    server = http.createServer(app);
+
+    addTownRoutes(server, app);
+    await server.listen();
+    const address = server.address() as AddressInfo;
+
+    serviceURL = `http://127.0.0.1:${address.port}`;
+    apiClient = new TownsServiceClient(serviceURL);
+  });
+  afterAll(async () => {
+    await server.close();
+  });
+
+  describe('session token authentication', () => {
+    let coveyTownID: string;
+    let coveySpaceID: string;
+    let host: TownJoinResponse;
+    let guest: TownJoinResponse;
+    beforeEach(async () => {
+      ({ coveyTownID } = await apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false }));
+      coveySpaceID = `${coveyTownID}_1`;
+      host = await joinTownForTesting(coveyTownID);
+      guest = await joinTownForTesting(coveyTownID);
+    });
+    it('Rejects requests without a session token with 401', async () => {
+      const spacesClient = new SpacesServiceClient(serviceURL);
+      try {
+        await spacesClient.joinSpace({ coveyTownID, coveySpaceID, playerID: host.coveyUserID });
+        fail('Expected joinSpace to throw an error');
+      } catch (err) {
+        expectStatus(err, 401);
+      }
+    });
+    it('Rejects session tokens issued by another town with 401', async () => {
+      const otherTown = await apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false });
+      const outsider = await joinTownForTesting(otherTown.coveyTownID);
+      const spacesClient = new SpacesServiceClient(serviceURL, outsider.coveySessionToken);
+      try {
+        await spacesClient.joinSpace({ coveyTownID, coveySpaceID, playerID: outsider.coveyUserID });
+        fail('Expected joinSpace to throw an error');
+      } catch (err) {
+        expectStatus(err, 401);
+      }
+    });
+    it('Rejects joining a space as another player with 403', async () => {
+      const spacesClient = new SpacesServiceClient(serviceURL, guest.coveySessionToken);
+      try {
+        await spacesClient.joinSpace({ coveyTownID, coveySpaceID, playerID: host.coveyUserID });
+        fail('Expected joinSpace to throw an error');
+      } catch (err) {
+        expectStatus(err, 403);
+      }
+    });
+    it('Allows a player to join and leave a space with their own session token', async () => {
+      const spacesClient = new SpacesServiceClient(serviceURL, guest.coveySessionToken);
+      placePlayerInSpace(coveyTownID, coveySpaceID, guest.coveyUserID);
+      await spacesClient.joinSpace({ coveyTownID, coveySpaceID, playerID: guest.coveyUserID });
+      expect((await spacesClient.getSpaceForPlayer({ coveyTownID, playerID: guest.coveyUserID })).space.coveySpaceID)
+        .toBe(coveySpaceID);
+      await spacesClient.leaveSpace({ coveyTownID, coveySpaceID, playerID: guest.coveyUserID });
+      expect((await spacesClient.getSpaceForPlayer({ coveyTownID, playerID: guest.coveyUserID })).space.coveySpaceID)
+        .toBe('World');
+    });
+    it('Rejects joining a space that the player is not inside of', async () => {
+      const spacesClient = new SpacesServiceClient(serviceURL, guest.coveySessionToken);
+      try {
+        await spacesClient.joinSpace({ coveyTownID, coveySpaceID, playerID: guest.coveyUserID });
+        fail('Expected joinSpace to throw an error');
+      } catch (err) {
+        expect(err.response)
+          .toBeUndefined();
+      }
+    });
+    it('Only lets players claim a space for themselves, from inside of it', async () => {
+      const hostClient = new SpacesServiceClient(serviceURL, host.coveySessionToken);
+      try {
+        await hostClient.claimSpace({ coveyTownID, coveySpaceID, playerID: host.coveyUserID, hostID: host.coveyUserID });
+        fail('Expected claimSpace to throw an error');
+      } catch (err) {
+        expect(err.response)
+          .toBeUndefined();
+      }
+      const guestClient = new SpacesServiceClient(serviceURL, guest.coveySessionToken);
+      placePlayerInSpace(coveyTownID, coveySpaceID, guest.coveyUserID);
+      await guestClient.joinSpace({ coveyTownID, coveySpaceID, playerID: guest.coveyUserID });
+      try {
+        await hostClient.claimSpace({ coveyTownID, coveySpaceID, playerID: host.coveyUserID, hostID: guest.coveyUserID });
+        fail('Expected claimSpace to throw an error');
+      } catch (err) {
+        expect(err.response)
+          .toBeUndefined();
+      }
+      await guestClient.claimSpace({ coveyTownID, coveySpaceID, playerID: guest.coveyUserID, hostID: guest.coveyUserID });
+      expect((await guestClient.listSpaces({ coveyTownID })).spaces
+        .find(space => space.coveySpaceID === coveySpaceID)?.hostID)
+        .toBe(guest.coveyUserID);
+    });
+    it('Only lets town moderators create spaces, with IDs that are not taken', async () => {
+      const memberClient = new SpacesServiceClient(serviceURL, guest.coveySessionToken);
+      try {
+        await memberClient.createSpace({ coveyTownID, coveySpaceID: 'new' });
+        fail('Expected createSpace to throw an error');
+      } catch (err) {
+        expectStatus(err, 403);
+      }
+      const created = await apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false });
+      const owner = await apiClient.joinTown({ userName: 'owner', coveyTownID: created.coveyTownID, identityToken: created.identityToken });
+      const ownerClient = new SpacesServiceClient(serviceURL, owner.coveySessionToken);
+      await ownerClient.createSpace({ coveyTownID: created.coveyTownID, coveySpaceID: 'new' });
+      try {
+        await ownerClient.createSpace({ coveyTownID: created.coveyTownID, coveySpaceID: 'new' });
+        fail('Expected createSpace to throw an error');
+      } catch (err) {
+        expectStatus(err, 409);
+      }
+    });
+    it('Rejects requests for towns and spaces that do not exist with 404', async () => {
+      const hostClient = new SpacesServiceClient(serviceURL, host.coveySessionToken);
+      try {
+        await hostClient.listSpaces({ coveyTownID: nanoid() });
+        fail('Expected listSpaces to throw an error');
+      } catch (err) {
+        expectStatus(err, 404);
+      }
+      try {
+        await hostClient.joinSpace({ coveyTownID, coveySpaceID: 'no-such-space', playerID: host.coveyUserID });
+        fail('Expected joinSpace to throw an error');
+      } catch (err) {
+        expectStatus(err, 404);
+      }
+    });
+    it('Rejects disbanding a space on behalf of its host with 403', async () => {
+      const hostClient = new SpacesServiceClient(serviceURL, host.coveySessionToken);
+      const guestClient = new SpacesServiceClient(serviceURL, guest.coveySessionToken);
+      placePlayerInSpace(coveyTownID, coveySpaceID, host.coveyUserID);
+      await hostClient.joinSpace({ coveyTownID, coveySpaceID, playerID: host.coveyUserID });
+      await hostClient.claimSpace({ coveyTownID, coveySpaceID, playerID: host.coveyUserID, hostID: host.coveyUserID });
+      try {
+        await guestClient.disbandSpace({ coveyTownID, coveySpaceID, playerID: host.coveyUserID, hostID: null });
+        fail('Expected disbandSpace to throw an error');
+      } catch (err) {
+        expectStatus(err, 403);
+      }
+      try {
+        await guestClient.disbandSpace({ coveyTownID, coveySpaceID, playerID: guest.coveyUserID, hostID: null });
+        fail('Expected disbandSpace to throw an error');
+      } catch (err) {
+        expect(err.response)
+          .toBeUndefined();
+      }
+      await hostClient.disbandSpace({ coveyTownID, coveySpaceID, playerID: host.coveyUserID, hostID: null });
+    });
+    it('Lets the host answer knocks, and nobody else', async () => {
+      const hostClient = new SpacesServiceClient(serviceURL, host.coveySessionToken);
+      const guestClient = new SpacesServiceClient(serviceURL, guest.coveySessionToken);
+      try {
+        await guestClient.knockOnSpace({ coveyTownID, coveySpaceID, playerID: guest.coveyUserID });
+        fail('Expected knockOnSpace to throw an error');
+      } catch (err) {
+        expectStatus(err, 409);
+      }
+      placePlayerInSpace(coveyTownID, coveySpaceID, host.coveyUserID);
+      await hostClient.joinSpace({ coveyTownID, coveySpaceID, playerID: host.coveyUserID });
+      await hostClient.claimSpace({ coveyTownID, coveySpaceID, playerID: host.coveyUserID, hostID: host.coveyUserID });
+      const { knock } = await guestClient.knockOnSpace({ coveyTownID, coveySpaceID, playerID: guest.coveyUserID });
+      expect(knock.playerID)
+        .toBe(guest.coveyUserID);
+      try {
+        await guestClient.answerKnock({
+          coveyTownID, coveySpaceID, playerID: guest.coveyUserID, knockerID: guest.coveyUserID, accept: true,
+        });
+        fail('Expected answerKnock to throw an error');
+      } catch (err) {
+        expect(err.response)
+          .toBeUndefined();
+      }
+      await hostClient.answerKnock({
+        coveyTownID, coveySpaceID, playerID: host.coveyUserID, knockerID: guest.coveyUserID, accept: true,
+      });
+      expect((await guestClient.getSpaceForPlayer({ coveyTownID, playerID: guest.coveyUserID })).space.coveySpaceID)
+        .toBe(coveySpaceID);
+      await hostClient.disbandSpace({ coveyTownID, coveySpaceID, playerID: host.coveyUserID, hostID: null });
+    });
+  });
+
+  describe('reservations', () => {
+    it('Lets players reserve spaces, list the reservations and cancel their own', async () => {
+      const { coveyTownID } = await apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false });
+      const coveySpaceID = `${coveyTownID}_1`;
+      const host = await joinTownForTesting(coveyTownID);
+      const other = await joinTownForTesting(coveyTownID);
+      const hostClient = new SpacesServiceClient(serviceURL, host.coveySessionToken);
+      const otherClient = new SpacesServiceClient(serviceURL, other.coveySessionToken);
+      const start = Date.now() + 60 * 60 * 1000;
+      try {
+        await hostClient.reserveSpace({
+          coveyTownID, coveySpaceID, playerID: host.coveyUserID, start, end: start + 9 * 60 * 60 * 1000,
+        });
+        fail('Expected reserveSpace to throw an error');
+      } catch (err) {
+        expectStatus(err, 400);
+      }
+      const { reservation } = await hostClient.reserveSpace({
+        coveyTownID, coveySpaceID, playerID: host.coveyUserID, start, end: start + 60 * 60 * 1000,
+      });
+      try {
+        await otherClient.reserveSpace({
+          coveyTownID, coveySpaceID, playerID: other.coveyUserID, start, end: start + 60 * 60 * 1000,
+        });
+        fail('Expected reserveSpace to throw an error');
+      } catch (err) {
+        expectStatus(err, 409);
+      }
+      expect((await otherClient.listReservations({ coveyTownID })).reservations)
+        .toStrictEqual([reservation]);
+      try {
+        await otherClient.cancelReservation({
+          coveyTownID, playerID: other.coveyUserID, reservationID: reservation.reservationID,
+        });
+        fail('Expected cancelReservation to throw an error');
+      } catch (err) {
+        expect(err.response)
+          .toBeUndefined();
+      }
+      await hostClient.cancelReservation({
+        coveyTownID, playerID: host.coveyUserID, reservationID: reservation.reservationID,
+      });
+      expect((await hostClient.listReservations({ coveyTownID })).reservations)
+        .toStrictEqual([]);
+    });
+  });
+
+  describe('town scoping', () => {
+    it('Only lists the spaces of the requested town', async () => {
+      const town1 = await apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false });
+      const town2 = await apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false });
+      const player1 = await joinTownForTesting(town1.coveyTownID);
+      const player2 = await joinTownForTesting(town2.coveyTownID);
+      const spacesClient1 = new SpacesServiceClient(serviceURL, player1.coveySessionToken);
+      const spacesClient2 = new SpacesServiceClient(serviceURL, player2.coveySessionToken);
+      placePlayerInSpace(town1.coveyTownID, `${town1.coveyTownID}_1`, player1.coveyUserID);
+      await spacesClient1.joinSpace({ coveyTownID: town1.coveyTownID, coveySpaceID: `${town1.coveyTownID}_1`, playerID: player1.coveyUserID });
+
+      const { spaces } = await spacesClient2.listSpaces({ coveyTownID: town2.coveyTownID });
+      expect(spaces.map(space => space.coveySpaceID).sort())
+        .toStrictEqual([`${town2.coveyTownID}_1`, `${town2.coveyTownID}_2`]);
+      spaces.forEach(space => expect(space.currentPlayers)
+        .toStrictEqual([]));
+    });
+    it('Rejects listing the spaces of another town with 401', async () => {
+      const town1 = await apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false });
+      const town2 = await apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false });
+      const player1 = await joinTownForTesting(town1.coveyTownID);
+      const spacesClient = new SpacesServiceClient(serviceURL, player1.coveySessionToken);
+      try {
+        await spacesClient.listSpaces({ coveyTownID: town2.coveyTownID });
+        fail('Expected listSpaces to throw an error');
+      } catch (err) {
+        expectStatus(err, 401);
+      }
+    });
+  });
+});
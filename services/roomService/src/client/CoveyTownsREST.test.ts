@@ -5,7 +5,9 @@ import { nanoid } from 'nanoid';
 import assert from 'assert';
 import { AddressInfo } from 'net';
 
-import TownsServiceClient, { TownListResponse } from './TownsServiceClient';
+import TownsServiceClient, {
+  ServerPlayer, TOWN_FULL_MESSAGE, TownListResponse, TownRole,
+} from './TownsServiceClient';
 import addTownRoutes from '../router/towns';
 
 type TestTownData = {
@@ -30,6 +32,7 @@ function expectTownListMatches(towns: TownListResponse, town: TestTownData) {
 describe('TownsServiceAPIREST', () => {
   let server: http.Server;
   let apiClient: TownsServiceClient;
+  let serviceURL: string;
 
   async function createTownForTesting(friendlyNameToUse?: string, isPublic = false): Promise<TestTownData> {
     const friendlyName = friendlyNameToUse !== undefined ? friendlyNameToUse :
@@ -55,7 +58,8 @@ describe('TownsServiceAPIREST', () => {
     await server.listen();
     const address = server.address() as AddressInfo;
 
-    apiClient = new TownsServiceClient(`http://127.0.0.1:${address.port}`);
+    serviceURL = `http://127.0.0.1:${address.port}`;
+    apiClient = new TownsServiceClient(serviceURL);
   });
   afterAll(async () => {
     await server.close();
@@ -76,6 +80,20 @@ describe('TownsServiceAPIREST', () => {
         // OK
       }
     });
+    it('Creates the town with the map it is given, from the map catalog', async () => {
+      const { maps } = await apiClient.listMaps();
+      expect(maps.map(map => map.mapID))
+        .toStrictEqual(['tuxemon-town', 'tuxemon-town_transport']);
+      const defaultTown = await apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false });
+      expect((await apiClient.joinTown({ userName: nanoid(), coveyTownID: defaultTown.coveyTownID })).mapID)
+        .toBe('tuxemon-town');
+      const town = await apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false, mapID: maps[1].mapID });
+      expect((await apiClient.joinTown({ userName: nanoid(), coveyTownID: town.coveyTownID })).mapID)
+        .toBe(maps[1].mapID);
+      await expect(apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false, mapID: 'elsewhere' }))
+        .rejects
+        .toThrow();
+    });
   });
 
   describe('CoveyTownListAPI', () => {
@@ -236,5 +254,170 @@ describe('TownsServiceAPIREST', () => {
         .toBeDefined();
 
     });
+    it('Turns users away from a full town, and lets them wait in line instead', async () => {
+      const { coveyTownID } = await apiClient.createTown({
+        friendlyName: nanoid(),
+        isPubliclyListed: false,
+        capacity: 1,
+      });
+      await apiClient.joinTown({ userName: nanoid(), coveyTownID });
+      await expect(apiClient.joinTown({ userName: nanoid(), coveyTownID }))
+        .rejects
+        .toThrow(TOWN_FULL_MESSAGE);
+      const { waitingTicket, queuePosition } = await apiClient.joinTownQueue({ coveyTownID });
+      expect(queuePosition)
+        .toBe(1);
+      await expect(apiClient.joinTown({ userName: nanoid(), coveyTownID, waitingTicket }))
+        .rejects
+        .toThrow(TOWN_FULL_MESSAGE);
+    });
+    it('Lets users in right away if the town has room', async () => {
+      const { coveyTownID } = await apiClient.createTown({
+        friendlyName: nanoid(),
+        isPubliclyListed: false,
+      });
+      const { waitingTicket, queuePosition } = await apiClient.joinTownQueue({ coveyTownID });
+      expect(queuePosition)
+        .toBe(0);
+      const res = await apiClient.joinTown({ userName: nanoid(), coveyTownID, waitingTicket });
+      expect(res.coveySessionToken)
+        .toBeDefined();
+    });
+    it('Keeps the identity of users who join again with their identity token', async () => {
+      const { coveyTownID } = await createTownForTesting(undefined, true);
+      const first = await apiClient.joinTown({ userName: 'first', coveyTownID });
+      const identity = (id: string, players: ServerPlayer[]) => players.find(p => p._id === id)?._identity;
+      const again = await apiClient.joinTown({ userName: 'again', coveyTownID, identityToken: first.identityToken });
+      expect(identity(again.coveyUserID, again.currentPlayers))
+        .toBe(identity(first.coveyUserID, again.currentPlayers));
+      const forged = await apiClient.joinTown({ userName: 'forged', coveyTownID, identityToken: `${identity(first.coveyUserID, again.currentPlayers)}.forged` });
+      expect(identity(forged.coveyUserID, forged.currentPlayers))
+        .not.toBe(identity(first.coveyUserID, forged.currentPlayers));
+    });
+  });
+
+  describe('CoveyTownKickAPI', () => {
+    it('Checks the password before removing a player', async () => {
+      const town = await createTownForTesting();
+      const { coveyUserID } = await apiClient.joinTown({ userName: nanoid(), coveyTownID: town.coveyTownID });
+      await expect(apiClient.kickPlayer({
+        coveyTownID: town.coveyTownID,
+        coveyTownPassword: `${town.townUpdatePassword}*`,
+        playerID: coveyUserID,
+      }))
+        .rejects
+        .toThrow();
+    });
+    it('Keeps banned users from joining again, by identity or by user name', async () => {
+      const town = await createTownForTesting();
+      const banned = await apiClient.joinTown({ userName: 'troll', coveyTownID: town.coveyTownID });
+      await apiClient.kickPlayer({
+        coveyTownID: town.coveyTownID,
+        coveyTownPassword: town.townUpdatePassword,
+        playerID: banned.coveyUserID,
+        reason: 'Spamming',
+        banMinutes: 10,
+      });
+      await expect(apiClient.joinTown({ userName: 'new name', coveyTownID: town.coveyTownID, identityToken: banned.identityToken }))
+        .rejects
+        .toThrow('Spamming');
+      await expect(apiClient.joinTown({ userName: 'troll', coveyTownID: town.coveyTownID }))
+        .rejects
+        .toThrow('Spamming');
+      const other = await apiClient.joinTown({ userName: 'someone else', coveyTownID: town.coveyTownID });
+      expect(other.currentPlayers.map(player => player._id))
+        .not.toContain(banned.coveyUserID);
+    });
+  });
+  describe('CoveyTownRoleAPI', () => {
+    it('Lets the creator of a town manage it with their session, and promote other players', async () => {
+      const created = await apiClient.createTown({ friendlyName: nanoid(), isPubliclyListed: false });
+      const owner = await apiClient.joinTown({ userName: 'owner', coveyTownID: created.coveyTownID, identityToken: created.identityToken });
+      const other = await apiClient.joinTown({ userName: 'other', coveyTownID: created.coveyTownID });
+      const ownerClient = new TownsServiceClient(serviceURL, owner.coveySessionToken);
+      const otherClient = new TownsServiceClient(serviceURL, other.coveySessionToken);
+      const otherIdentity = other.currentPlayers.find(player => player._id === other.coveyUserID)?._identity;
+      assert(otherIdentity);
+
+      await expect(otherClient.assignRole({ coveyTownID: created.coveyTownID, playerID: owner.coveyUserID, role: 'member' }))
+        .rejects
+        .toThrow();
+      await ownerClient.assignRole({ coveyTownID: created.coveyTownID, playerID: other.coveyUserID, role: 'moderator' });
+      const rejoined = await apiClient.joinTown({ userName: 'later', coveyTownID: created.coveyTownID });
+      expect(rejoined.roles[otherIdentity])
+        .toBe('moderator');
+
+      await expect(otherClient.deleteTown({ coveyTownID: created.coveyTownID }))
+        .rejects
+        .toThrow();
+      await ownerClient.deleteTown({ coveyTownID: created.coveyTownID });
+      await expect(apiClient.joinTown({ userName: 'late', coveyTownID: created.coveyTownID }))
+        .rejects
+        .toThrow();
+    });
+    it('Exports a town for its admins, and imports it as a new town', async () => {
+      const town = await createTownForTesting();
+      await expect(apiClient.exportTown({ coveyTownID: town.coveyTownID, coveyTownPassword: 'not the password' }))
+        .rejects
+        .toThrow();
+      const townExport = await apiClient.exportTown({ coveyTownID: town.coveyTownID, coveyTownPassword: town.townUpdatePassword });
+      expect(townExport.version)
+        .toBe(1);
+
+      const imported = await apiClient.importTown({ townExport });
+      const owner = await apiClient.joinTown({ userName: 'owner', coveyTownID: imported.coveyTownID, identityToken: imported.identityToken });
+      expect(owner.friendlyName)
+        .toBe(town.friendlyName);
+      const ownerClient = new TownsServiceClient(serviceURL, owner.coveySessionToken);
+      expect((await ownerClient.exportTown({ coveyTownID: imported.coveyTownID })).spaces)
+        .toStrictEqual(townExport.spaces);
+      await expect(apiClient.importTown({ townExport: { ...townExport, version: 2 } }))
+        .rejects
+        .toThrow();
+      await expect(apiClient.importTown({ townExport: { ...townExport, mapID: 'elsewhere' } }))
+        .rejects
+        .toThrow();
+    });
+    it('Rejects town exports with malformed spaces with 400', async () => {
+      const town = await createTownForTesting();
+      const townExport = await apiClient.exportTown({ coveyTownID: town.coveyTownID, coveyTownPassword: town.townUpdatePassword });
+      const [space] = townExport.spaces;
+      const settings = space.settings as Record<string, unknown>;
+      const reservation = {
+        reservationID: 'reservation', coveySpaceID: 'space', hostIdentity: 'host', hostName: 'host', start: 0, end: 1, whitelist: [], presenterIdentity: null,
+      };
+      const malformedSpaces = [
+        { ...space, bounds: { x: 0, y: 0, width: 'wide', height: 10 } },
+        { ...space, capacity: 0 },
+        { ...space, settings: { ...settings, invitedNames: 'everyone' } },
+        { ...space, settings: { ...settings, coHosts: [1] } },
+        { ...space, settings: { ...settings, capacity: -1 } },
+        { ...space, settings: { ...settings, successionPolicy: 'anarchy' } },
+        { ...space, settings: { ...settings, reservations: {} } },
+        { ...space, settings: { ...settings, reservations: [{ ...reservation, end: 'later' }] } },
+        { ...space, settings: { ...settings, reservations: [{ ...reservation, whitelist: null }] } },
+      ];
+      await Promise.all(malformedSpaces.map(async malformedSpace => {
+        try {
+          await apiClient.importTown({ townExport: { ...townExport, spaces: [malformedSpace] } });
+          fail('Expected importTown to throw an error');
+        } catch (err) {
+          expect(err.response?.status)
+            .toBe(400);
+        }
+      }));
+    });
+    it('Rejects unknown roles', async () => {
+      const town = await createTownForTesting();
+      const { coveyUserID } = await apiClient.joinTown({ userName: nanoid(), coveyTownID: town.coveyTownID });
+      await expect(apiClient.assignRole({
+        coveyTownID: town.coveyTownID,
+        coveyTownPassword: town.townUpdatePassword,
+        playerID: coveyUserID,
+        role: 'king' as TownRole,
+      }))
+        .rejects
+        .toThrow();
+    });
   });
 });
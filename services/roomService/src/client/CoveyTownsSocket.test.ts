@@ -72,13 +72,14 @@ describe('TownServiceApiSocket', () => {
     const joinData2 = await apiClient.joinTown({coveyTownID: town.coveyTownID, userName: nanoid()});
     const joinData3 = await apiClient.joinTown({coveyTownID: town.coveyTownID, userName: nanoid()});
     const socketSender = TestUtils.createSocketClient(server, joinData.coveySessionToken, town.coveyTownID).socket;
-    const {playerMoved} = TestUtils.createSocketClient(server, joinData2.coveySessionToken, town.coveyTownID);
-    const {playerMoved: playerMoved2} = TestUtils.createSocketClient(server, joinData3.coveySessionToken, town.coveyTownID);
-    const newLocation: UserLocation = {x: 100, y: 100, moving: true, rotation: 'back'};
+    const {playersMoved} = TestUtils.createSocketClient(server, joinData2.coveySessionToken, town.coveyTownID);
+    const {playersMoved: playersMoved2} = TestUtils.createSocketClient(server, joinData3.coveySessionToken, town.coveyTownID);
+    // Players arrive at the spawn point of the map (where their body is)
+    const newLocation: UserLocation = {x: 336, y: 1208, moving: true, rotation: 'back'};
     socketSender.emit('playerMovement', newLocation);
-    const [movedPlayer, otherMovedPlayer]= await Promise.all([playerMoved, playerMoved2]);
-    expect(movedPlayer.location).toMatchObject(newLocation);
-    expect(otherMovedPlayer.location).toMatchObject(newLocation);
+    const [movements, otherMovements]= await Promise.all([playersMoved, playersMoved2]);
+    expect(movements).toMatchObject([{playerID: joinData.coveyUserID, location: newLocation}]);
+    expect(otherMovements).toMatchObject([{playerID: joinData.coveyUserID, location: newLocation}]);
   });
   it('Invalidates the user session after disconnection', async () => {
     // This test will timeout if it fails - it will never reach the expectation
@@ -1,11 +1,12 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import assert from 'assert';
-import Player from '../types/Player';
-import { CoveySpaceInfo, UserLocation } from '../CoveyTypes';
+import {
+  CoveySpaceInfo, HostSuccessionPolicy, SpaceKnock, SpaceReservation, UserLocation,
+} from '../CoveyTypes';
 
 
 
-export type ServerPlayer = { _id: string, _userName: string, location: UserLocation };
+export type ServerPlayer = { _id: string, _userName: string, _identity: string, location: UserLocation };
 
 /**
  * Request to create a covey space
@@ -21,16 +22,22 @@ export interface SpaceCreateRequest {
  * Payload sent by client to claim a space within a Town in Covey.Town
  */
 export interface SpaceClaimRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
   /** The id for the space that is to be claimed* */
   coveySpaceID: string;
+  /** The id for the player sending the request* */
+  playerID: string;
   /** The id for the new host (player) for the private space* */
-  newHostPlayerID: string;
+  hostID: string;
 }
 
 /**
  * The format of a request to join a space within a Town in Covey.Town, as dispatched by the server middleware
  */
 export interface SpaceJoinRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
   /** the id for the player that would like to join * */
   playerID: string;
   /** ID of the space that the player would like to join * */
@@ -38,28 +45,59 @@ export interface SpaceJoinRequest {
 }
 
 /**
- * The format of a response to join a Town in Covey.Town, as returned by the handler to the server
- * middleware
+ * The format of a request to leave a space within a Town in Covey.Town, as dispatched by the server middleware
  */
-export interface SpaceJoinResponse {
-  /** current players in a space */
-  currentPlayers: Player[];
-  /** the id for the player who is the current host of this space * */
-  currentHostID: string | undefined;
-  /** the id for the player who is the current presenter in this space */
-  currentPresenterID: string | undefined;
+export interface SpaceLeaveRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the player that would like to join * */
+  playerID: string;
+  /** ID of the space that the player would like to join * */
+  coveySpaceID: string;
 }
 
 /**
- * The format of a request to leave a space within a Town in Covey.Town, as dispatched by the server middleware
+ * The format of a request to knock on a private space, asking its host to be let in
  */
-export interface SpaceLeaveRequest {
-  /** the id for the player that would like to join * */
+export interface SpaceKnockRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the player that would like to be let in * */
   playerID: string;
   /** ID of the space that the player would like to join * */
   coveySpaceID: string;
 }
 
+/**
+ * Response from the server for a knock request
+ */
+export interface SpaceKnockResponse {
+  knock: SpaceKnock;
+}
+
+/**
+ * The format of a request from the host of a space to answer a knock
+ */
+export interface SpaceKnockAnswerRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the host answering the knock * */
+  playerID: string;
+  /** ID of the space that was knocked on * */
+  coveySpaceID: string;
+  /** the id for the player that knocked * */
+  knockerID: string;
+  /** Whether to let the player in (they are added to the whitelist) * */
+  accept: boolean;
+}
+
+/**
+ * Request to list the spaces of a town
+ */
+export interface SpaceListRequest {
+  coveyTownID: string;
+}
+
 /**
  * Response from the server for a space list request
  */
@@ -68,21 +106,118 @@ export interface SpaceListResponse {
   spaces: CoveySpaceInfo[];
 }
 
+/**
+ * Request to get the space that a player is in
+ */
+export interface SpaceGetForPlayerRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  playerID: string;
+}
+
+/**
+ * Response from the server for a space request
+ */
+export interface SpaceInfoResponse {
+  space: CoveySpaceInfo;
+}
+
 /**
  * Payload sent by the client to delete a Town
  */
 export interface SpaceDisbandRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
   coveySpaceID: string;
+  playerID: string;
+  hostID: null;
+}
+
+/**
+ * Payload sent by the host of a space to remove a player from it
+ */
+export interface SpaceKickRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the host removing the player * */
+  playerID: string;
+  /** ID of the space to remove the player from * */
+  coveySpaceID: string;
+  /** the id for the player to remove * */
+  kickedPlayerID: string;
+}
+
+/**
+ * Payload sent by a player to reserve a space for a time window, which they host
+ */
+export interface SpaceReserveRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the player reserving the space * */
+  playerID: string;
+  /** ID of the space to reserve * */
+  coveySpaceID: string;
+  /** When the reservation starts and ends, in milliseconds since the epoch * */
+  start: number;
+  end: number;
+  /** The identities of the players allowed into the space during the reservation * */
+  whitelist?: string[];
+  /** The identity of the presenter during the reservation * */
+  presenterIdentity?: string | null;
+}
+
+/**
+ * Response from the server for a reservation request
+ */
+export interface SpaceReserveResponse {
+  reservation: SpaceReservation;
+}
+
+/**
+ * Request to list the reservations of the spaces of a town
+ */
+export interface ReservationListRequest {
+  coveyTownID: string;
+}
+
+/**
+ * Response from the server for a reservation list request
+ */
+export interface ReservationListResponse {
+  /** The reservations that have not ended yet, earliest first */
+  reservations: SpaceReservation[];
+}
+
+/**
+ * Payload sent by the client to cancel a reservation
+ */
+export interface ReservationCancelRequest {
+  coveyTownID: string;
+  /** the id for the player cancelling the reservation (who made it, or a town moderator) * */
+  playerID: string;
+  reservationID: string;
 }
 
 /**
  * Payload sent by the client to update a space.
  */
 export interface SpaceUpdateRequest {
+  /** The town that the space belongs to */
+  coveyTownID: string;
   coveySpaceID: string;
-  newHost: Player;
-  newPresenter: Player;
-  newWhitelist: Player[];
+  playerID: string;
+  hostID: string | null;
+  presenterID: string | null;
+  /** The identities of the players allowed into the space */
+  whitelist: string[];
+  /** The user names to let into the space once they arrive */
+  invitedNames?: string[];
+  /** The maximum number of players in the space (null for no limit), only the host may set it */
+  capacity?: number | null;
+  /** The identities of the players that share the host's privileges, only the host may set them */
+  coHosts?: string[];
+  /** What happens to the space when its host leaves, only the host may set it */
+  successionPolicy?: HostSuccessionPolicy;
 }
 
 /**
@@ -98,14 +233,25 @@ export default class SpacesServiceClient {
   private _axios: AxiosInstance;
 
   /**
-   * Construct a new Towns Service API client. Specify a serviceURL for testing, or otherwise
+   * Construct a new Spaces Service API client. Specify a serviceURL for testing, or otherwise
    * defaults to the URL at the environmental variable REACT_APP_ROOMS_SERVICE_URL
    * @param serviceURL
+   * @param sessionToken the coveySessionToken returned when joining a town, sent with every request
    */
-  constructor(serviceURL?: string) {
+  constructor(serviceURL?: string, sessionToken?: string) {
     const baseURL = serviceURL || process.env.REACT_APP_TOWNS_SERVICE_URL;
     assert(baseURL);
     this._axios = axios.create({ baseURL });
+    if (sessionToken) {
+      this.sessionToken = sessionToken;
+    }
+  }
+
+  /**
+   * Sets the coveySessionToken that is sent to authenticate every following request
+   */
+  set sessionToken(token: string) {
+    this._axios.defaults.headers.common.Authorization = `Bearer ${token}`;
   }
 
   /**
@@ -135,8 +281,8 @@ export default class SpacesServiceClient {
    */
   async createSpace(requestData: SpaceCreateRequest): Promise<void> {
     const { coveyTownID, coveySpaceID } = requestData;
-    const responseWrapper = await this._axios.post<ResponseEnvelope<void>>(`/spaces/${coveyTownID}/${coveySpaceID}`, requestData);
-    return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
+    const responseWrapper = await this._axios.post<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}`, requestData);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
   }
 
   /**
@@ -146,51 +292,136 @@ export default class SpacesServiceClient {
    * @returns void
    */
   async updateSpace(requestData: SpaceUpdateRequest): Promise<void> {
-    const { coveySpaceID } = requestData;
-    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/spaces/${coveySpaceID}`, requestData);
+    const { coveyTownID, coveySpaceID } = requestData;
+    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}`, requestData);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
   }
 
   /**
-   * Takes the coveySpaceId from a given SpaceDisbandRequest, wraps it and turns it into a void promise to delete the space
-   * 
+   * gets the response envelope of the space list response and wraps it to create a space list response promise
+   * @returns A SpaceListResponse promise 
+   */
+  async listSpaces(requestData: SpaceListRequest): Promise<SpaceListResponse> {
+    const responseWrapper = await this._axios.get<ResponseEnvelope<SpaceListResponse>>(`/towns/${requestData.coveyTownID}/spaces`);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+  
+  /**
+   * Takes a Space Join Request and asks for the player to join the space
    * @param requestData 
-   * @returns void
+   * @returns A void promise to join the space
    */
-  async deleteSpace(requestData: SpaceDisbandRequest): Promise<void> {
-    const { coveySpaceID } = requestData;
-    const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(`/spaces/${coveySpaceID}`);
+  async joinSpace(requestData: SpaceJoinRequest): Promise<void> {
+    const { coveyTownID, coveySpaceID, playerID } = requestData;
+    const responseWrapper = await this._axios.put<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}/${playerID}`);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
   }
 
   /**
-   * gets the response envelope of the space list response and wraps it to create a space list response promise
-   * @returns A SpaceListResponse promise 
+   * Takes a Space Leave Request and asks for the player to leave the space
+   * @param requestData 
+   * @returns A void promise to leave the space
+   */
+  async leaveSpace(requestData: SpaceLeaveRequest): Promise<void> {
+    const { coveyTownID, coveySpaceID, playerID } = requestData;
+    const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}/${playerID}`);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  /**
+   * Takes a SpaceClaimRequest, wraps the covey space Id and player Id and creates a void promise to claim the space
+   * @param requestData 
+   * @returns A void promise to claim the space
    */
-  async listSpaces(): Promise<SpaceListResponse> {
-    const responseWrapper = await this._axios.get<ResponseEnvelope<SpaceListResponse>>('/spaces');
+  async claimSpace(requestData: SpaceClaimRequest): Promise<void> {
+    const { coveyTownID, coveySpaceID } = requestData;
+    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}`, requestData);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  /**
+   * Takes a SpaceDisbandRequest and creates a void promise to disband the space
+   * @param requestData 
+   * @returns A void promise to disband the space
+   */
+  async disbandSpace(requestData: SpaceDisbandRequest): Promise<void> {
+    const { coveyTownID, coveySpaceID } = requestData;
+    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}`, requestData);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  /**
+   * Gets the space that the given player is currently in
+   * @param requestData 
+   * @returns A SpaceInfoResponse promise
+   */
+  async getSpaceForPlayer(requestData: SpaceGetForPlayerRequest): Promise<SpaceInfoResponse> {
+    const { coveyTownID, playerID } = requestData;
+    const responseWrapper = await this._axios.get<ResponseEnvelope<SpaceInfoResponse>>(`/towns/${coveyTownID}/players/${playerID}/space`);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
   }
-  
+
   /**
-   * Takes a Space Join Request, wraps the covey space Id and player Id and creates a Space Join Response promise
+   * Asks the host of a private space to let the player in
    * @param requestData 
-   * @returns A SpaceJoinResponse promise
+   * @returns A promise of the knock, which the host has to answer before it expires
    */
-  async joinSpace(requestData: SpaceJoinRequest): Promise<SpaceJoinResponse> {
-    const { coveySpaceID, playerID } = requestData;
-    const responseWrapper = await this._axios.post(`/spaces/${coveySpaceID}/${playerID}`, requestData);
+  async knockOnSpace(requestData: SpaceKnockRequest): Promise<SpaceKnockResponse> {
+    const { coveyTownID, coveySpaceID } = requestData;
+    const responseWrapper = await this._axios.post<ResponseEnvelope<SpaceKnockResponse>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}/knocks`, requestData);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
   }
 
   /**
-   * Takes a SpaceClaimRequest, wraps the covey space Id and player Id and creates a void promise to claim the space
+   * Answers a knock on a space that the player hosts
    * @param requestData 
-   * @returns A void promise to claim the space
+   * @returns A void promise to answer the knock
    */
-  async claimSpace(requestData: SpaceClaimRequest): Promise<void> {
-    const { coveySpaceID } = requestData;
-    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/spaces/${coveySpaceID}`, requestData);
+  async answerKnock(requestData: SpaceKnockAnswerRequest): Promise<void> {
+    const { coveyTownID, coveySpaceID, knockerID } = requestData;
+    const responseWrapper = await this._axios.put<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}/knocks/${knockerID}`, requestData);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  /**
+   * Removes a player from a space that the player hosts
+   * @param requestData 
+   * @returns A void promise to remove the player
+   */
+  async kickFromSpace(requestData: SpaceKickRequest): Promise<void> {
+    const { coveyTownID, coveySpaceID } = requestData;
+    const responseWrapper = await this._axios.post<ResponseEnvelope<void>>(`/towns/${coveyTownID}/spaces/${coveySpaceID}/kicks`, requestData);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  /**
+   * Reserves a space for a time window, which the player hosts
+   * @param requestData 
+   * @returns A promise of the reservation
+   */
+  async reserveSpace(requestData: SpaceReserveRequest): Promise<SpaceReserveResponse> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<SpaceReserveResponse>>(`/towns/${requestData.coveyTownID}/reservations`, requestData);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  /**
+   * Lists the reservations of the spaces of a town that have not ended yet
+   * @param requestData 
+   * @returns A ReservationListResponse promise
+   */
+  async listReservations(requestData: ReservationListRequest): Promise<ReservationListResponse> {
+    const responseWrapper = await this._axios.get<ResponseEnvelope<ReservationListResponse>>(`/towns/${requestData.coveyTownID}/reservations`);
+    return SpacesServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  /**
+   * Cancels a reservation that the player made (or any reservation, for town moderators)
+   * @param requestData 
+   * @returns A void promise to cancel the reservation
+   */
+  async cancelReservation(requestData: ReservationCancelRequest): Promise<void> {
+    const { coveyTownID, reservationID, playerID } = requestData;
+    const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(`/towns/${coveyTownID}/reservations/${reservationID}/${playerID}`);
     return SpacesServiceClient.unwrapOrThrowError(responseWrapper, true);
   }
 }
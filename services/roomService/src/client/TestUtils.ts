@@ -1,10 +1,12 @@
 // eslint-disable-next-line import/no-extraneous-dependencies
 import {io, Socket} from 'socket.io-client';
 import {Socket as ServerSocket} from 'socket.io';
+import {MockProxy} from 'jest-mock-extended';
+import {nanoid} from 'nanoid';
 
 import {AddressInfo} from 'net';
 import http from 'http';
-import { UserLocation } from '../CoveyTypes';
+import { PlayerMovement, UserLocation } from '../CoveyTypes';
 
 export type RemoteServerPlayer = {
   location: UserLocation, _userName: string, _id: string
@@ -28,7 +30,7 @@ export function cleanupSockets() : void {
 
 /**
  * A handy test helper that will create a socket client that is properly configured to connect to the testing server.
- * This function also creates promises that will be resolved only once the socket is connected/disconnected/a player moved/
+ * This function also creates promises that will be resolved only once the socket is connected/disconnected/players moved/
  * a new player has joined/a player has disconnected. These promises make it much easier to write a test that depends on
  * some action being fired on the socket, since you can simply write `await socketConnected;` (for any of these events).
  *
@@ -42,7 +44,7 @@ export function createSocketClient(server: http.Server, sessionToken: string, co
   socket: Socket,
   socketConnected: Promise<void>,
   socketDisconnected: Promise<void>,
-  playerMoved: Promise<RemoteServerPlayer>,
+  playersMoved: Promise<PlayerMovement[]>,
   newPlayerJoined: Promise<RemoteServerPlayer>,
   playerDisconnected: Promise<RemoteServerPlayer>,
 } {
@@ -61,9 +63,9 @@ export function createSocketClient(server: http.Server, sessionToken: string, co
       resolve();
     });
   });
-  const playerMovedPromise = new Promise<RemoteServerPlayer>((resolve) => {
-    socket.on('playerMoved', (player: RemoteServerPlayer) => {
-      resolve(player);
+  const playersMovedPromise = new Promise<PlayerMovement[]>((resolve) => {
+    socket.on('playersMoved', (movements: PlayerMovement[]) => {
+      resolve(movements);
     });
   });
   const newPlayerPromise = new Promise<RemoteServerPlayer>((resolve) => {
@@ -81,13 +83,127 @@ export function createSocketClient(server: http.Server, sessionToken: string, co
     socket,
     socketConnected: connectPromise,
     socketDisconnected: disconnectPromise,
-    playerMoved: playerMovedPromise,
+    playersMoved: playersMovedPromise,
     newPlayerJoined: newPlayerPromise,
     playerDisconnected: playerDisconnectPromise,
   };
 }
-export function setSessionTokenAndTownID(coveyTownID: string, sessionToken: string, socket: ServerSocket):void {
+/**
+ * The rooms that a mock namespace sends an emit to, or whose sockets it makes join or leave rooms,
+ * as socket.io's broadcast operator does with the sockets of every process
+ */
+class MockBroadcastOperator {
+  private readonly _nsp: MockNamespace;
+
+  private readonly _rooms: Set<string>;
+
+  constructor(nsp: MockNamespace, rooms: Set<string>) {
+    this._nsp = nsp;
+    this._rooms = rooms;
+  }
+
+  to(room: string | string[]): MockBroadcastOperator {
+    return new MockBroadcastOperator(this._nsp,
+      new Set(Array.from(this._rooms).concat(room)));
+  }
+
+  in(room: string | string[]): MockBroadcastOperator {
+    return this.to(room);
+  }
+
+  emit(event: string, ...args: unknown[]): true {
+    this.sockets().forEach(socket => socket.emit(event, ...args));
+    return true;
+  }
+
+  socketsJoin(room: string | string[]): void {
+    this.sockets().forEach(socket => socket.join(room));
+  }
+
+  socketsLeave(room: string | string[]): void {
+    this.sockets().forEach(socket => (typeof room === 'string' ? [room] : room)
+      .forEach(r => socket.leave(r)));
+  }
+
+  disconnectSockets(close = false): void {
+    this.sockets().forEach(socket => socket.disconnect(close));
+  }
+
+  // finds the sockets that are in any of the rooms (each once)
+  private sockets(): ServerSocket[] {
+    const socketIDs = new Set<string>();
+    this._rooms.forEach(room => this._nsp.adapter.rooms.get(room)?.forEach(id => socketIDs.add(id)));
+    return Array.from(socketIDs).map(id => this._nsp.sockets.get(id))
+      .filter((socket): socket is ServerSocket => socket !== undefined);
+  }
+}
+
+/**
+ * A stand-in for the socket.io namespace that the mock server sockets of the tests are connected to:
+ * what is emitted to a room is emitted on each mock socket in the room, as socket.io would send it
+ * to each client
+ */
+class MockNamespace {
+  readonly adapter = { rooms: new Map<string, Set<string>>() };
+
+  readonly sockets = new Map<string, ServerSocket>();
+
+  to(room: string | string[]): MockBroadcastOperator {
+    return new MockBroadcastOperator(this, new Set()).to(room);
+  }
+
+  in(room: string | string[]): MockBroadcastOperator {
+    return this.to(room);
+  }
+
+  /**
+   * Connects a mock socket, as a new socket (with a new ID) that is not in any room; if the mock
+   * was connected already, that socket is disconnected
+   */
+  connect(socket: MockProxy<ServerSocket> & ServerSocket): void {
+    if (this.sockets.get(socket.id) === socket) {
+      this.disconnect(socket);
+    }
+    const id = nanoid();
+    Object.assign(socket, { id, nsp: this });
+    this.sockets.set(id, socket);
+    socket.join.mockImplementation((rooms) => {
+      (typeof rooms === 'string' ? [rooms] : rooms).forEach((room) => {
+        const socketIDs = this.adapter.rooms.get(room) || new Set<string>();
+        socketIDs.add(id);
+        this.adapter.rooms.set(room, socketIDs);
+      });
+    });
+    socket.leave.mockImplementation((room) => {
+      this.adapter.rooms.get(room)?.delete(id);
+    });
+    socket.disconnect.mockImplementation(() => {
+      this.disconnect(socket);
+      return socket;
+    });
+  }
+
+  /**
+   * Takes a mock socket out of all of its rooms, as socket.io does when a socket disconnects
+   */
+  disconnect(socket: ServerSocket): void {
+    this.adapter.rooms.forEach(socketIDs => socketIDs.delete(socket.id));
+    this.sockets.delete(socket.id);
+  }
+}
+
+/**
+ * The namespace that setSessionTokenAndTownID connects mock sockets to
+ */
+export const mockNamespace = new MockNamespace();
+
+/**
+ * Sets up a mock server socket as if its client just connected to a town with a session token
+ * (it has to be done again after the mock is reset)
+ */
+export function setSessionTokenAndTownID(coveyTownID: string, sessionToken: string, socket: MockProxy<ServerSocket> & ServerSocket):void {
   // eslint-disable-next-line
   socket.handshake.auth = {token: sessionToken, coveyTownID};
+  mockNamespace.connect(socket);
 }
 
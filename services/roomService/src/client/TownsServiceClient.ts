@@ -3,7 +3,13 @@ import assert from 'assert';
 import { UserLocation } from '../CoveyTypes';
 
 
-export type ServerPlayer = { _id: string, _userName: string, location: UserLocation };
+export type ServerPlayer = { _id: string, _userName: string, _identity: string, _isReconnecting: boolean, location: UserLocation };
+
+/**
+ * What a player may do in a town: owners may do everything, moderators may remove players and
+ * manage every space, members may only manage the spaces they host
+ */
+export type TownRole = 'owner' | 'moderator' | 'member';
 
 /**
  * The format of a request to join a Town in Covey.Town, as dispatched by the server middleware
@@ -13,8 +19,17 @@ export interface TownJoinRequest {
   userName: string;
   /** ID of the town that the player would like to join * */
   coveyTownID: string;
+  /** The ticket of the player, if they waited in line to join a full town * */
+  waitingTicket?: string;
+  /** The token the player was given when they last joined a town, to keep their identity * */
+  identityToken?: string;
 }
 
+/**
+ * The message of the response to a join request that was rejected because the town is full
+ */
+export const TOWN_FULL_MESSAGE = 'Town is full';
+
 /**
  * The format of a response to join a Town in Covey.Town, as returned by the handler to the server
  * middleware
@@ -34,6 +49,12 @@ export interface TownJoinResponse {
   friendlyName: string;
   /** Is this a private town? * */
   isPubliclyListed: boolean;
+  /** Secret token that this player should send when they join again, to keep their identity * */
+  identityToken: string;
+  /** The role of each player (by identity) that is not a plain member * */
+  roles: { [identity: string]: TownRole };
+  /** The map that the town uses (its ID in the map catalog) * */
+  mapID: string;
 }
 
 /**
@@ -42,6 +63,12 @@ export interface TownJoinResponse {
 export interface TownCreateRequest {
   friendlyName: string;
   isPubliclyListed: boolean;
+  /** The most players that may be in the town at once (50, unless given) * */
+  capacity?: number;
+  /** The map of the catalog that the town uses (the first map of the catalog, unless given) * */
+  mapID?: string;
+  /** The identity token of the player creating the town, who becomes its owner (a new identity, unless given) * */
+  identityToken?: string;
 }
 
 /**
@@ -50,6 +77,8 @@ export interface TownCreateRequest {
 export interface TownCreateResponse {
   coveyTownID: string;
   coveyTownPassword: string;
+  /** The identity token of the owner of the town, to join it with * */
+  identityToken: string;
 }
 
 /**
@@ -64,7 +93,8 @@ export interface TownListResponse {
  */
 export interface TownDeleteRequest {
   coveyTownID: string;
-  coveyTownPassword: string;
+  /** The update password of the town, needed unless the role of the player allows it * */
+  coveyTownPassword?: string;
 }
 
 /**
@@ -74,9 +104,92 @@ export interface TownDeleteRequest {
  */
 export interface TownUpdateRequest {
   coveyTownID: string;
-  coveyTownPassword: string;
+  /** The update password of the town, needed unless the role of the player allows it * */
+  coveyTownPassword?: string;
   friendlyName?: string;
   isPubliclyListed?: boolean;
+  capacity?: number;
+}
+
+/**
+ * Payload sent by a town admin to remove a player from a Town
+ */
+export interface TownKickRequest {
+  coveyTownID: string;
+  /** The update password of the town, needed unless the role of the player allows it * */
+  coveyTownPassword?: string;
+  /** The player to remove * */
+  playerID: string;
+  /** Why the player is removed, as told to them * */
+  reason?: string;
+  /** How long the player may not join again, in minutes (they may join right away, unless given) * */
+  banMinutes?: number;
+}
+
+/**
+ * Payload sent by the owner of a Town to change the role of a player
+ */
+export interface TownRoleRequest {
+  coveyTownID: string;
+  /** The update password of the town, needed unless the role of the player allows it * */
+  coveyTownPassword?: string;
+  /** The player whose role changes * */
+  playerID: string;
+  role: TownRole;
+}
+
+/**
+ * The configuration of a town, as exported to back it up or to create copies of it (the spaces
+ * are kept as the server exported them: their definitions and settings)
+ */
+export type TownExport = {
+  /** The version of the format, which importing checks */
+  version: number;
+  /** When the town was exported, in milliseconds since the epoch */
+  exportedAt: number;
+  friendlyName: string;
+  isPubliclyListed: boolean;
+  capacity: number;
+  /** The map that the town uses */
+  mapID: string;
+  /** The role of each player (by identity) that is not a plain member */
+  roles: { [identity: string]: TownRole };
+  spaces: { spaceID: string, [property: string]: unknown }[];
+};
+
+/**
+ * Payload sent by a town admin to export the configuration of a Town
+ */
+export interface TownExportRequest {
+  coveyTownID: string;
+  /** The update password of the town, needed unless the role of the player allows it * */
+  coveyTownPassword?: string;
+}
+
+/**
+ * Payload sent by the client to create a Town from an export of another one
+ */
+export interface TownImportRequest {
+  townExport: TownExport;
+  /** The identity token of the player importing the town, who becomes its owner (a new identity, unless given) * */
+  identityToken?: string;
+}
+
+/**
+ * Payload sent by the client to wait in line to join a full Town
+ */
+export interface TownQueueRequest {
+  coveyTownID: string;
+}
+
+/**
+ * Response from the server for a Town queue request
+ */
+export interface TownQueueResponse {
+  /** The ticket to follow the line with (over the socket), and then to join the town with * */
+  waitingTicket: string;
+  /** The position of the player in line, 0 if they can join right away * */
+  queuePosition: number;
 }
 
 /**
@@ -95,6 +208,26 @@ export type CoveyTownInfo = {
   maximumOccupancy: number
 };
 
+/**
+ * A map that towns can be created with, as listed in the map catalog (the URLs are where the
+ * frontend loads the tilemap, its tilesets and the thumbnail from)
+ */
+export type CoveyMapInfo = {
+  mapID: string;
+  name: string;
+  tilemapURL: string;
+  /** The tileset images, by the names that the tilemap gives them */
+  tilesets: { name: string, imageURL: string }[];
+  thumbnailURL?: string;
+};
+
+/**
+ * Response from the server for a request to list the maps that towns can be created with
+ */
+export interface MapListResponse {
+  maps: CoveyMapInfo[];
+}
+
 export default class TownsServiceClient {
   private _axios: AxiosInstance;
 
@@ -102,11 +235,23 @@ export default class TownsServiceClient {
    * Construct a new Towns Service API client. Specify a serviceURL for testing, or otherwise
    * defaults to the URL at the environmental variable REACT_APP_ROOMS_SERVICE_URL
    * @param serviceURL
+   * @param sessionToken the coveySessionToken of the player, so that their role in the town lets
+   * them manage it without the update password (none, unless given)
    */
-  constructor(serviceURL?: string) {
+  constructor(serviceURL?: string, sessionToken?: string) {
     const baseURL = serviceURL || process.env.REACT_APP_TOWNS_SERVICE_URL;
     assert(baseURL);
     this._axios = axios.create({ baseURL });
+    if (sessionToken) {
+      this.sessionToken = sessionToken;
+    }
+  }
+
+  /**
+   * Sets the coveySessionToken that is sent to authenticate every following request
+   */
+  set sessionToken(token: string) {
+    this._axios.defaults.headers.common.Authorization = `Bearer ${token}`;
   }
 
   static unwrapOrThrowError<T>(response: AxiosResponse<ResponseEnvelope<T>>, ignoreResponse = false): T {
@@ -131,18 +276,52 @@ export default class TownsServiceClient {
   }
 
   async deleteTown(requestData: TownDeleteRequest): Promise<void> {
-    const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/${requestData.coveyTownPassword}`);
+    const url = requestData.coveyTownPassword
+      ? `/towns/${requestData.coveyTownID}/${requestData.coveyTownPassword}`
+      : `/towns/${requestData.coveyTownID}`;
+    const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(url);
     return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
   }
 
+  async kickPlayer(requestData: TownKickRequest): Promise<void> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/kicks`, requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  async assignRole(requestData: TownRoleRequest): Promise<void> {
+    const responseWrapper = await this._axios.put<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/players/${requestData.playerID}/role`, requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  async exportTown(requestData: TownExportRequest): Promise<TownExport> {
+    const responseWrapper = await this._axios.get<ResponseEnvelope<TownExport>>(`/towns/${requestData.coveyTownID}/export`,
+      { params: { coveyTownPassword: requestData.coveyTownPassword } });
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async importTown(requestData: TownImportRequest): Promise<TownCreateResponse> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<TownCreateResponse>>('/towns/import', requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
   async listTowns(): Promise<TownListResponse> {
     const responseWrapper = await this._axios.get<ResponseEnvelope<TownListResponse>>('/towns');
     return TownsServiceClient.unwrapOrThrowError(responseWrapper);
   }
 
+  async listMaps(): Promise<MapListResponse> {
+    const responseWrapper = await this._axios.get<ResponseEnvelope<MapListResponse>>('/maps');
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
   async joinTown(requestData: TownJoinRequest): Promise<TownJoinResponse> {
     const responseWrapper = await this._axios.post('/sessions', requestData);
     return TownsServiceClient.unwrapOrThrowError(responseWrapper);
   }
 
+  async joinTownQueue(requestData: TownQueueRequest): Promise<TownQueueResponse> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<TownQueueResponse>>(`/towns/${requestData.coveyTownID}/queue`, requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
 }
@@ -0,0 +1,34 @@
+import ChatHistory from './ChatHistory';
+import { ChatMessage } from '../CoveyTypes';
+
+function message(body: string): ChatMessage {
+  return {
+    messageID: body, senderID: 'sender', senderName: 'Sender', scope: 'town', body, timestamp: 0,
+  };
+}
+
+describe('ChatHistory', () => {
+  it('Should keep the messages of a conversation in order', () => {
+    const history = new ChatHistory(3);
+    history.add('town', message('1'));
+    history.add('town', message('2'));
+    expect(history.messages('town').map(m => m.body))
+      .toStrictEqual(['1', '2']);
+  });
+  it('Should drop the oldest messages once a conversation is full', () => {
+    const history = new ChatHistory(3);
+    ['1', '2', '3', '4', '5'].forEach(body => history.add('town', message(body)));
+    expect(history.messages('town').map(m => m.body))
+      .toStrictEqual(['3', '4', '5']);
+  });
+  it('Should keep each conversation separately', () => {
+    const history = new ChatHistory(1);
+    history.add('town', message('1'));
+    history.add('space:1', message('2'));
+    history.clear('space:1');
+    expect(history.messages('town').map(m => m.body))
+      .toStrictEqual(['1']);
+    expect(history.messages('space:1'))
+      .toStrictEqual([]);
+  });
+});
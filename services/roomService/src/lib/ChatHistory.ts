@@ -0,0 +1,51 @@
+import { ChatMessage } from '../CoveyTypes';
+import RingBuffer from './RingBuffer';
+
+/** How many messages are kept for each conversation, unless told otherwise */
+const DEFAULT_MESSAGES_PER_CONVERSATION = 100;
+
+/**
+ * The recent chat messages of a town, kept separately for each conversation (the town, each
+ * space, and each pair of players) so that a busy conversation never pushes out another's
+ */
+export default class ChatHistory {
+  private _conversations: { [conversationID: string]: RingBuffer<ChatMessage> } = {};
+
+  private readonly _messagesPerConversation: number;
+
+  /**
+   * @param messagesPerConversation how many of the most recent messages to keep in each
+   *                                conversation
+   */
+  constructor(messagesPerConversation = DEFAULT_MESSAGES_PER_CONVERSATION) {
+    this._messagesPerConversation = messagesPerConversation;
+  }
+
+  /**
+   * Adds a message to a conversation, dropping the oldest message of the conversation if it is full
+   * @param conversationID the conversation that the message belongs to
+   * @param message the message
+   */
+  add(conversationID: string, message: ChatMessage): void {
+    if (!this._conversations[conversationID]) {
+      this._conversations[conversationID] = new RingBuffer(this._messagesPerConversation);
+    }
+    this._conversations[conversationID].push(message);
+  }
+
+  /**
+   * Gets the messages of a conversation, from the oldest to the newest
+   * @param conversationID the conversation
+   */
+  messages(conversationID: string): ChatMessage[] {
+    return this._conversations[conversationID]?.toArray() || [];
+  }
+
+  /**
+   * Forgets every message of a conversation
+   * @param conversationID the conversation
+   */
+  clear(conversationID: string): void {
+    delete this._conversations[conversationID];
+  }
+}
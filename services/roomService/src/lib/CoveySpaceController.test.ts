@@ -1,25 +1,25 @@
 import {nanoid} from 'nanoid';
-import {mock, mockReset} from 'jest-mock-extended';
+import {mock, mockReset, MockProxy} from 'jest-mock-extended';
 import {Socket} from 'socket.io';
-import TwilioVideo from './TwilioVideo';
 import Player from '../types/Player';
 import CoveyTownController from './CoveyTownController';
 import CoveyTownListener from '../types/CoveyTownListener';
-import {UserLocation} from '../CoveyTypes';
+import {SpaceReservation, UserLocation} from '../CoveyTypes';
 import PlayerSession from '../types/PlayerSession';
 import {townSubscriptionHandler} from '../requestHandlers/CoveyTownRequestHandlers';
 import CoveyTownsStore from './CoveyTownsStore';
 import * as TestUtils from '../client/TestUtils';
 import CoveySpaceController from './CoveySpaceController';
+import CoveyTownMap, { TiledMap } from './CoveyTownMap';
 
-jest.mock('./TwilioVideo');
-
-const mockGetTokenForSpace = jest.fn();
-// eslint-disable-next-line
-// @ts-ignore it's a mock
-TwilioVideo.getInstance = () => ({
-  getTokenForSpace: mockGetTokenForSpace,
-});
+// Every town gets this mock video client, whichever video provider is configured
+jest.mock('./VideoClientFactory', () => ({
+  __esModule: true,
+  default: () => ({
+    getTokenForTown: jest.fn(),
+    updateTrackSubscriptions: jest.fn(),
+  }),
+}));
 
 
 function generateTestLocation(): UserLocation {
@@ -31,10 +31,37 @@ function generateTestLocation(): UserLocation {
   };
 }
 
+/**
+ * A map with a space of each kind side by side, 100px apart: 'small' and 'other' hold one player,
+ * 'locked' is private and 'open' is public
+ */
+function mapWithSpaces(): CoveyTownMap {
+  const spaces = [
+    { name: 'small', properties: [{ name: 'capacity', type: 'int', value: 1 }] },
+    { name: 'other', properties: [{ name: 'capacity', type: 'int', value: 1 }] },
+    { name: 'locked', properties: [{ name: 'private', type: 'bool', value: true }] },
+    { name: 'open' },
+  ];
+  return new CoveyTownMap({
+    layers: [
+      { name: 'World', type: 'tilelayer' },
+      {
+        name: 'Objects',
+        type: 'objectgroup',
+        objects: spaces.map(({ name, properties }, index) => ({
+          name: `Private Space ${name}`, type: '', x: 10 + index * 100, y: 20, width: 30, height: 40, properties,
+        })),
+      },
+    ],
+  } as TiledMap);
+}
+
+/** A location inside the space at the given index of mapWithSpaces */
+function insideSpace(index: number): UserLocation {
+  return { x: 20 + index * 100, y: 30, rotation: 'front', moving: false };
+}
+
 describe('CoveySpaceController', () => {
-  beforeEach(() => {
-    mockGetTokenForSpace.mockClear();
-  });
   it('constructor should set the CoveySpaceID and the CoveyTownController', () => { // Included in handout
     const spaceID = `SpaceIDTest-${nanoid()}`;
     const townName = `FriendlyNameTest-${nanoid()}`;
@@ -45,185 +72,652 @@ describe('CoveySpaceController', () => {
 
   });
 });
-// tests adding a player to a space
-describe('addPlayer', () => { // Included in handout
-  it('should check if the player is on the whitelist before added',
-    async () => {
-      //const townName = `FriendlyNameTest-${nanoid()}`;
-      //const townController = new CoveySpaceController(townName, false);
-      //const newPlayerSession = await townController.addPlayer(new Player(nanoid()));
-      //expect(mockGetTokenForTown).toBeCalledTimes(1);
-      //expect(mockGetTokenForTown).toBeCalledWith(townController.coveyTownID, newPlayerSession.player.id);
-
-      const spaceID = `SpaceIDTest-${nanoid()}`;
-      const townName = `FriendlyNameTest-${nanoid()}`;
-      const townController = new CoveyTownController(townName, false);
-      await townController.addPlayer(new Player('1'));
-      await townController.addPlayer(new Player('2'));
-      const spaceController = new CoveySpaceController(spaceID, townController);
-      await spaceController.addPlayer('1')
-      expect(mockGetTokenForSpace()).toBeCalledTimes(1);
-      await spaceController.addPlayer('2')
-      expect(mockGetTokenForSpace()).toBeCalledTimes(2);
+describe('CoveySpaceController players, whitelist and host', () => { // Included in handout
+  let townController: CoveyTownController;
+  let spaceController: CoveySpaceController;
+  let player1: Player;
+  let player2: Player;
+  beforeEach(async () => {
+    townController = new CoveyTownController(`FriendlyNameTest-${nanoid()}`, false);
+    player1 = new Player('1');
+    player2 = new Player('2');
+    await townController.addPlayer(player1);
+    await townController.addPlayer(player2);
+    spaceController = new CoveySpaceController(`SpaceIDTest-${nanoid()}`, townController);
+  });
+  // tests adding a player to a space
+  it('addPlayer should add players of the town to the space', () => {
+    expect(spaceController.addPlayer(player1.id))
+      .toBe('joined');
+    expect(spaceController.addPlayer(player2.id))
+      .toBe('joined');
+    expect(spaceController.players)
+      .toStrictEqual([player1, player2]);
+    expect(spaceController.addPlayer(nanoid()))
+      .toBe('notAllowed');
+  });
+  // tests removing a player from a space
+  it('removePlayer should remove players from the space', () => {
+    spaceController.addPlayer(player1.id);
+    spaceController.addPlayer(player2.id);
+    spaceController.removePlayer(player1.id);
+    expect(spaceController.players)
+      .toStrictEqual([player2]);
+    spaceController.removePlayer(player2.id);
+    expect(spaceController.players)
+      .toStrictEqual([]);
+  });
+  // tests adding a player to a whitelist
+  it('addPlayerToWhiteList should add the identity of the player once', () => {
+    spaceController.addPlayerToWhiteList(player1.id);
+    expect(spaceController.whitelist)
+      .toStrictEqual([player1.identity]);
+    spaceController.addPlayerToWhiteList(player2.id);
+    spaceController.addPlayerToWhiteList(player2.id);
+    expect(spaceController.whitelist)
+      .toStrictEqual([player1.identity, player2.identity]);
+  });
+  // tests removing a player from a whitelist
+  it('removePlayerFromWhiteList should remove the identity of the player', () => {
+    spaceController.addPlayerToWhiteList(player1.id);
+    spaceController.addPlayerToWhiteList(player2.id);
+    spaceController.removePlayerFromWhiteList(player1.id);
+    expect(spaceController.whitelist)
+      .toStrictEqual([player2.identity]);
+    spaceController.removePlayerFromWhiteList(player2.id);
+    expect(spaceController.whitelist)
+      .toStrictEqual([]);
+  });
+  // tests updating the host of a space
+  it('updateSpaceHost should let a player in the space claim it, and remove the others', () => {
+    spaceController.addPlayer(player1.id);
+    spaceController.addPlayer(player2.id);
+    expect(spaceController.updateSpaceHost(player1.id))
+      .toBe(true);
+    expect(spaceController.spaceHostID)
+      .toBe(player1.id);
+    expect(spaceController.players)
+      .toStrictEqual([player1]);
+    expect(spaceController.updateSpaceHost(player2.id))
+      .toBe(false);
+  });
+  // tests updating the presenter of a space
+  it('updatePresenter should set the presenter of the space', () => {
+    spaceController.updatePresenter(player1.id);
+    spaceController.updatePresenter(player2.id);
+    expect(spaceController.presenterID)
+      .toBe(player2.id);
+  });
+  // tests updating the whitelist of a space
+  it('updateWhitelist should replace the whitelist of the space', () => {
+    spaceController.addPlayerToWhiteList(player2.id);
+    spaceController.updateWhitelist([player1.identity]);
+    expect(spaceController.whitelist)
+      .toStrictEqual([player1.identity]);
+  });
+  // tests making a space public again
+  it('publicizeSpace should release the host and clear the whitelist', () => {
+    spaceController.addPlayer(player1.id);
+    spaceController.updateSpaceHost(player1.id);
+    spaceController.updateWhitelist([player1.identity]);
+    spaceController.publicizeSpace();
+    expect(spaceController.spaceHostID)
+      .toBe(null);
+    expect(spaceController.isPrivate)
+      .toBe(false);
+    expect(spaceController.whitelist)
+      .toStrictEqual([]);
+  });
+});
+
+  
+
+describe('CoveySpaceController in a town', () => {
+  let town: CoveyTownController;
+  let listener: MockProxy<CoveyTownListener>;
+  let host: Player;
+  let hostSession: PlayerSession;
+  let guest: Player;
+  let guestSession: PlayerSession;
+  const getSpace = (name: string) => town.privateSpaces.getControllerForSpace(`${town.coveyTownID}_${name}`);
+  beforeEach(async () => {
+    // Knocks, host grace periods and reservations end on timers
+    jest.useFakeTimers();
+    town = new CoveyTownController(nanoid(), false);
+    town.privateSpaces.createSpacesFromMap(mapWithSpaces());
+    host = new Player('host');
+    guest = new Player('guest');
+    hostSession = await town.addPlayer(host);
+    guestSession = await town.addPlayer(guest);
+    listener = mock<CoveyTownListener>();
+    town.townListener = listener;
+  });
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  describe('capacity and waiting line', () => {
+    const entrance = { ...insideSpace(0), moving: true };
+    it('Should not let more players than the capacity into a space', () => {
+      const space = getSpace('small');
+      expect(space?.addPlayer(host.id))
+        .toBe('joined');
+      expect(space?.addPlayer(guest.id))
+        .toBe('full');
+      expect(space?.waitingLine)
+        .toStrictEqual([guest.id]);
+    });
+    it('Should let the next player in line into a full space when someone leaves, where they tried to enter', () => {
+      const space = getSpace('small');
+      expect(town.updatePlayerLocation(host, entrance))
+        .toBe(true);
+      expect(town.updatePlayerLocation(guest, entrance))
+        .toBe(false);
+      expect(listener.onSpaceUpdated)
+        .toBeCalledWith(expect.objectContaining({ waitingLine: [guest.id] }));
+
+      town.updatePlayerLocation(host, { ...entrance, x: 70 });
+      expect(space?.players)
+        .toStrictEqual([guest]);
+      expect(space?.waitingLine)
+        .toStrictEqual([]);
+      expect(guest.location)
+        .toMatchObject({ x: entrance.x, y: entrance.y, space: space?.coveySpaceID });
+      expect(listener.onPlayerAdmittedToSpace)
+        .toBeCalledWith(guest);
+    });
+    it('Should let players in line in when the host raises the capacity, and take them out of the line when they leave the town', async () => {
+      const third = new Player('third');
+      const thirdSession = await town.addPlayer(third);
+      const space = getSpace('small');
+      [host, guest, third].forEach(player => town.updatePlayerLocation(player, entrance));
+      town.destroySession(thirdSession);
+      expect(space?.waitingLine)
+        .toStrictEqual([guest.id]);
+      space?.updateCapacity(2);
+      expect(space?.players)
+        .toStrictEqual([host, guest]);
+      // The capacity from the map comes back once the space is reset
+      space?.publicizeSpace();
+      expect(space?.capacity)
+        .toBe(1);
+    });
+    it('Should keep a player in one waiting line at a time', async () => {
+      const third = new Player('third');
+      await town.addPlayer(third);
+      const small = getSpace('small');
+      const other = getSpace('other');
+      small?.addPlayer(host.id);
+      other?.addPlayer(guest.id);
+      small?.addPlayer(third.id);
+      other?.addPlayer(third.id);
+      expect(small?.waitingLine)
+        .toStrictEqual([]);
+      expect(other?.waitingLine)
+        .toStrictEqual([third.id]);
+    });
+    it('Should let the first player into a private space claim it', () => {
+      const space = getSpace('locked');
+      expect(space?.isPrivate)
+        .toBe(true);
+      expect(space?.addPlayer(host.id))
+        .toBe('joined');
+      expect(space?.spaceHostID)
+        .toBe(host.id);
+      expect(space?.addPlayer(guest.id))
+        .toBe('notAllowed');
+      expect(space?.waitingLine)
+        .toStrictEqual([]);
+      space?.publicizeSpace();
+      expect(space?.isPrivate)
+        .toBe(true);
+      expect(space?.spaceHostID)
+        .toBe(null);
     });
   });
-// tests removing a player from a space
-describe('removePlayer', () => { // Included in handout
-  it('should check if the player is on the whitelist before removed',
-    async () => {
-      const spaceID = `SpaceIDTest-${nanoid()}`;
-      const townName = `FriendlyNameTest-${nanoid()}`;
-      const townController = new CoveyTownController(townName, false);
-      await townController.addPlayer(new Player('1'));
-      await townController.addPlayer(new Player('2'));
-      const spaceController = new CoveySpaceController(spaceID, townController);
-
-      await spaceController.addPlayer('1')
-      expect(mockGetTokenForSpace).toBeCalledTimes(1);
-      await spaceController.addPlayer('2')
-      expect(mockGetTokenForSpace).toBeCalledTimes(2);
-
-      spaceController.removePlayer('1');
-      expect(mockGetTokenForSpace).toBeCalledTimes(3);
-      await spaceController.removePlayer('2')
-      expect(mockGetTokenForSpace).toBeCalledTimes(4);
+
+  describe('whitelisting by identity', () => {
+    const inside = insideSpace(2);
+    let space: CoveySpaceController | undefined;
+    beforeEach(() => {
+      space = getSpace('locked');
+      town.updatePlayerLocation(host, inside);
+    });
+    it('Should let a whitelisted player back in after they join the town again', async () => {
+      space?.addPlayerToWhiteList(guest.id);
+      town.destroySession(guestSession);
+      const returningGuest = new Player('guest', guest.identity);
+      await town.addPlayer(returningGuest);
+      expect(space?.whitelist)
+        .toStrictEqual([guest.identity]);
+      expect(town.updatePlayerLocation(returningGuest, inside))
+        .toBe(true);
+      expect(space?.players)
+        .toStrictEqual([host, returningGuest]);
+    });
+    it('Should keep whitelisted players who are away when the host updates the whitelist', () => {
+      space?.updateWhitelist(['someone away', 'someone away']);
+      expect(space?.whitelist)
+        .toStrictEqual(['someone away']);
+    });
+    it('Should let an invited player in once they arrive, and only them', async () => {
+      space?.updateInvitedNames([' visitor ', '']);
+      expect(space?.invitedNames)
+        .toStrictEqual(['visitor']);
+      const visitor = new Player('visitor');
+      await town.addPlayer(visitor);
+      expect(town.updatePlayerLocation(visitor, inside))
+        .toBe(true);
+      expect(space?.invitedNames)
+        .toStrictEqual([]);
+      expect(space?.whitelist)
+        .toStrictEqual([visitor.identity]);
+      const impostor = new Player('visitor');
+      await town.addPlayer(impostor);
+      expect(town.updatePlayerLocation(impostor, inside))
+        .toBe(false);
+    });
+    it('Should keep the host when they join the town again', async () => {
+      town.destroySession(hostSession);
+      expect(space?.spaceHostID)
+        .toBe(null);
+      expect(space?.hostIdentity)
+        .toBe(host.identity);
+      const returningHost = new Player('host', host.identity);
+      await town.addPlayer(returningHost);
+      expect(space?.spaceHostID)
+        .toBe(returningHost.id);
     });
   });
-// tests adding a player to a whitelist
-describe('addPlayerToWhitelist', () => { // Included in handout
-  it('should check if the player is on the whitelist before added',
-    async () => {
-      const spaceID = `SpaceIDTest-${nanoid()}`;
-      const townName = `FriendlyNameTest-${nanoid()}`;
-      const townController = new CoveyTownController(townName, false);
-      await townController.addPlayer(new Player('1'));
-      await townController.addPlayer(new Player('2'));
-      const spaceController = new CoveySpaceController(spaceID, townController);
-      spaceController.addPlayerToWhiteList('1');
-      expect(spaceController.whitelist.length)
-      .toBe(1);
-      spaceController.addPlayerToWhiteList('2');
-      expect(spaceController.whitelist.length)
-      .toBe(2);
+
+  describe('removing players from a space', () => {
+    const inside = insideSpace(2);
+    let spaceID: string;
+    let space: CoveySpaceController | undefined;
+    beforeEach(() => {
+      spaceID = `${town.coveyTownID}_locked`;
+      space = town.privateSpaces.getControllerForSpace(spaceID);
+      town.updatePlayerLocation(host, inside);
+      space?.addPlayerToWhiteList(guest.id);
+      town.updatePlayerLocation(guest, inside);
+    });
+    it('Should move a kicked player out of the space, and keep them out for a while', () => {
+      expect(town.privateSpaces.kickPlayer(spaceID, host.id, guest.id))
+        .toBe(true);
+      expect(space?.players)
+        .toStrictEqual([host]);
+      expect(space?.containsLocation(guest.location))
+        .toBe(false);
+      expect(listener.onPlayerKickedFromSpace)
+        .toBeCalledWith(guest, expect.objectContaining({ currentPlayers: [host.id] }));
+      expect(town.updatePlayerLocation(guest, inside))
+        .toBe(false);
+      expect(space?.knock(guest.id))
+        .toBeUndefined();
+      const dateNow = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5 * 60 * 1000);
+      try {
+        expect(town.updatePlayerLocation(guest, inside))
+          .toBe(true);
+      } finally {
+        dateNow.mockRestore();
+      }
+    });
+    it('Should only let hosts kick, and not kick hosts', () => {
+      expect(town.privateSpaces.kickPlayer(spaceID, guest.id, host.id))
+        .toBe(false);
+      expect(town.privateSpaces.kickPlayer(spaceID, host.id, host.id))
+        .toBe(false);
+      expect(space?.players)
+        .toStrictEqual([host, guest]);
+    });
+    it('Should let town moderators manage spaces they do not host', async () => {
+      const moderator = new Player('moderator');
+      await town.addPlayer(moderator);
+      expect(town.privateSpaces.kickPlayer(spaceID, moderator.id, guest.id))
+        .toBe(false);
+      town.setRole(moderator.identity, 'moderator');
+      expect(town.privateSpaces.kickPlayer(spaceID, moderator.id, guest.id))
+        .toBe(true);
+      expect(town.privateSpaces.updateSpace(spaceID, moderator.id, undefined, undefined, [], 2))
+        .toBe(true);
+      expect(space?.capacity)
+        .toBe(2);
     });
   });
-// tests removing a player from a whitelist
-describe('removePlayerFromWhitelist', () => { // Included in handout
-  it('should check if the player is on the whitelist before removed',
-    async () => {
-      const spaceID = `SpaceIDTest-${nanoid()}`;
-      const townName = `FriendlyNameTest-${nanoid()}`;
-      const townController = new CoveyTownController(townName, false);
-      await townController.addPlayer(new Player('1'));
-      await townController.addPlayer(new Player('2'));
-      const spaceController = new CoveySpaceController(spaceID, townController);
-      spaceController.addPlayerToWhiteList('1');
-      expect(spaceController.whitelist.length)
-      .toBe(1);
-      spaceController.addPlayerToWhiteList('2');
-      expect(spaceController.whitelist.length)
-      .toBe(2);
-      spaceController.removePlayerFromWhiteList('1');
-      expect(spaceController.whitelist.length)
-      .toBe(1);
-     
-  // tests updating the host of a space
-  describe('updateHost', () => { // Included in handout
-    it('should check if the player is on the whitelist before they are made host',
-      async () => {
-        const spaceID = `SpaceIDTest-${nanoid()}`;
-        const townName = `FriendlyNameTest-${nanoid()}`;
-        const townController = new CoveyTownController(townName, false);
-        await townController.addPlayer(new Player('1'));
-        await townController.addPlayer(new Player('2'));
-        const spaceController = new CoveySpaceController(spaceID, townController);
-        spaceController.updateSpaceHost('1');
-        expect(spaceController.spaceHostID)
-        .toBe('1');
-      });
+
+  describe('host succession', () => {
+    const inside = insideSpace(2);
+    let coHost: Player;
+    let spaceID: string;
+    let space: CoveySpaceController | undefined;
+    beforeEach(async () => {
+      coHost = new Player('co-host');
+      await town.addPlayer(coHost);
+      spaceID = `${town.coveyTownID}_locked`;
+      space = town.privateSpaces.getControllerForSpace(spaceID);
+      town.updatePlayerLocation(host, inside);
+      town.privateSpaces.updateSpace(spaceID, host.id, host.id, undefined, [guest.identity],
+        undefined, undefined, [coHost.identity]);
+      town.updatePlayerLocation(guest, inside);
+      town.updatePlayerLocation(coHost, inside);
+    });
+    it('Should let the host hand the space over, and keep them on the whitelist', () => {
+      expect(town.privateSpaces.updateSpace(spaceID, host.id, guest.id))
+        .toBe(true);
+      expect(space?.spaceHostID)
+        .toBe(guest.id);
+      expect(space?.whitelist)
+        .toContain(host.identity);
+      expect(listener.onSpaceHostChanged)
+        .toBeCalledWith(expect.objectContaining({ hostID: guest.id }));
+      expect(town.privateSpaces.updateSpace(spaceID, host.id, host.id))
+        .toBe(false);
+    });
+    it('Should not let members that are not hosts hand the space over', () => {
+      expect(town.privateSpaces.updateSpace(spaceID, guest.id, guest.id))
+        .toBe(false);
+      expect(space?.spaceHostID)
+        .toBe(host.id);
+    });
+    it('Should give co-hosts the privileges of the host', async () => {
+      expect(space?.players)
+        .toStrictEqual([host, guest, coHost]);
+      expect(town.privateSpaces.updateSpace(spaceID, coHost.id, host.id, undefined, [],
+        2, undefined, undefined, 'promoteLongestPresent'))
+        .toBe(true);
+      expect(space?.toSpaceInfo())
+        .toEqual(expect.objectContaining({ whitelist: [], capacity: 2, successionPolicy: 'promoteLongestPresent' }));
+      const knocker = new Player('knocker');
+      await town.addPlayer(knocker);
+      const knock = space?.knock(knocker.id);
+      expect(listener.onSpaceKnock)
+        .toBeCalledWith(knock, [host.id, coHost.id]);
+      expect(town.privateSpaces.answerKnock(spaceID, coHost.id, knocker.id, false))
+        .toBe(true);
+    });
+    it('Should promote a co-host when the host leaves, under the promoteCoHost policy', () => {
+      town.privateSpaces.updateSpace(spaceID, host.id, host.id, undefined, undefined, undefined,
+        undefined, undefined, 'promoteCoHost');
+      town.destroySession(hostSession);
+      expect(space?.spaceHostID)
+        .toBe(coHost.id);
+      expect(space?.coHosts)
+        .toStrictEqual([]);
+      expect(listener.onSpaceHostChanged)
+        .toBeCalledWith(expect.objectContaining({ hostID: coHost.id }));
+    });
+    it('Should promote the member that entered first when the host leaves, under the promoteLongestPresent policy', () => {
+      town.privateSpaces.updateSpace(spaceID, host.id, host.id, undefined, undefined, undefined,
+        undefined, undefined, 'promoteLongestPresent');
+      town.destroySession(hostSession);
+      expect(space?.spaceHostID)
+        .toBe(guest.id);
+    });
+    it('Should make the space public if the host does not come back in time', () => {
+      town.destroySession(hostSession);
+      expect(space?.hostIdentity)
+        .toBe(host.identity);
+      jest.advanceTimersByTime(60 * 1000);
+      expect(space?.hostIdentity)
+        .toBe(null);
+      expect(listener.onSpaceDisbanded)
+        .toBeCalled();
+    });
+    it('Should keep the space for a host that comes back in time', async () => {
+      town.destroySession(hostSession);
+      jest.advanceTimersByTime(30 * 1000);
+      const returningHost = new Player('host', host.identity);
+      await town.addPlayer(returningHost);
+      jest.advanceTimersByTime(30 * 1000);
+      expect(space?.spaceHostID)
+        .toBe(returningHost.id);
+    });
   });
-    // tests updating the presenter of a space
-    describe('updatePresenter', () => { // Included in handout
-      it('should check if the player is on the whitelist before they are made host',
-        async () => {
-          const spaceID = `SpaceIDTest-${nanoid()}`;
-          const townName = `FriendlyNameTest-${nanoid()}`;
-          const townController = new CoveyTownController(townName, false);
-          await townController.addPlayer(new Player('1'));
-          await townController.addPlayer(new Player('2'));
-          const spaceController = new CoveySpaceController(spaceID, townController);
-          spaceController.updatePresenter('1');
-          expect(spaceController.updatePresenter('2'))
-          .toBe('2');
-        });
-    }); spaceController.removePlayerFromWhiteList('2');
-    // tests updating the whitelist of a space
-    describe('updateWhitelist', () => { // Included in handout
-      it('should check if the player is on the whitelist before they are made host',
-        async () => {
-          const spaceID = `SpaceIDTest-${nanoid()}`;
-          const townName = `FriendlyNameTest-${nanoid()}`;
-          const townController = new CoveyTownController(townName, false);
-          await townController.addPlayer(new Player('1'));
-          await townController.addPlayer(new Player('2'));
-          const spaceController = new CoveySpaceController(spaceID, townController);
-          const newWhitelist = ['1'];
-          spaceController.updateWhitelist(newWhitelist);
-          expect(spaceController.whitelist)
-          .toBe(['1']);
-        });
+
+  describe('reservations', () => {
+    const inside = insideSpace(3);
+    let stranger: Player;
+    let spaceID: string;
+    let space: CoveySpaceController | undefined;
+    beforeEach(async () => {
+      stranger = new Player('stranger');
+      await town.addPlayer(stranger);
+      spaceID = `${town.coveyTownID}_open`;
+      space = town.privateSpaces.getControllerForSpace(spaceID);
     });
-    // tests making a space public again
-    describe('publicizeSpace', () => { // Included in handout
-      it('should check if the player is on the whitelist before they are made host',
-        async () => {
-          const spaceID = `SpaceIDTest-${nanoid()}`;
-          const townName = `FriendlyNameTest-${nanoid()}`;
-          const townController = new CoveyTownController(townName, false);
-          await townController.addPlayer(new Player('1'));
-          await townController.addPlayer(new Player('2'));
-          const spaceController = new CoveySpaceController(spaceID, townController);
-          const newWhitelist = ['1'];
-          spaceController.updateSpaceHost('1');
-          expect(spaceController.spaceHostID)
-         .toBe('1');
-          spaceController.updateWhitelist(newWhitelist);
-          expect(spaceController.whitelist)
-          .toBe(['1']);
-          spaceController.publicizeSpace();
-          expect(spaceController.spaceHostID)
-         .toBe(null);
-          spaceController.updateWhitelist(newWhitelist);
-          expect(spaceController.whitelist)
-          .toBe(['1', '2']);
-        });
+    it('Should make the space private for its host during the reservation, and release it afterwards', () => {
+      town.updatePlayerLocation(guest, inside);
+      town.updatePlayerLocation(stranger, inside);
+      const start = Date.now() + 60 * 1000;
+      const reservation = town.privateSpaces.reserveSpace(spaceID, host.id, start,
+        start + 60 * 1000, [guest.identity], guest.identity);
+      expect(town.privateSpaces.listReservations())
+        .toStrictEqual([reservation]);
+      expect(space?.isPrivate)
+        .toBe(false);
+
+      jest.advanceTimersByTime(60 * 1000);
+      expect(space?.isPrivate)
+        .toBe(true);
+      expect(space?.spaceHostID)
+        .toBe(host.id);
+      expect(space?.presenterID)
+        .toBe(guest.id);
+      expect(space?.players)
+        .toStrictEqual([guest]);
+      expect(space?.containsLocation(stranger.location))
+        .toBe(false);
+      expect(town.updatePlayerLocation(stranger, inside))
+        .toBe(false);
+      expect(listener.onSpaceEntryDenied)
+        .toBeCalledWith(stranger, expect.objectContaining({ reservedUntil: start + 60 * 1000 }));
+      expect(town.updatePlayerLocation(host, inside))
+        .toBe(true);
+
+      jest.advanceTimersByTime(60 * 1000);
+      expect(space?.isPrivate)
+        .toBe(false);
+      expect(space?.hostIdentity)
+        .toBe(null);
+      expect(space?.toSpaceInfo().reservedUntil)
+        .toBe(null);
+      expect(town.privateSpaces.listReservations())
+        .toStrictEqual([]);
+      expect(listener.onSpaceDisbanded)
+        .toBeCalled();
+    });
+    it('Should not let reservations of the same space overlap', () => {
+      const start = Date.now() + 60 * 1000;
+      expect(town.privateSpaces.reserveSpace(spaceID, host.id, start, start + 60 * 1000, [], null))
+        .toBeDefined();
+      expect(town.privateSpaces.reserveSpace(spaceID, guest.id, start + 30 * 1000, start + 90 * 1000, [], null))
+        .toBeUndefined();
+      expect(town.privateSpaces.reserveSpace(spaceID, guest.id, start + 60 * 1000, start + 90 * 1000, [], null))
+        .toBeDefined();
+    });
+    it('Should only let the host of a reservation or a town moderator cancel it', () => {
+      const start = Date.now() + 60 * 1000;
+      const reservation = town.privateSpaces.reserveSpace(spaceID, host.id, start, start + 60 * 1000, [], null);
+      const otherReservation = town.privateSpaces.reserveSpace(spaceID, host.id, start + 60 * 1000,
+        start + 120 * 1000, [], null);
+      if (!reservation || !otherReservation) {
+        fail('Expected the space to be reserved');
+      }
+      expect(town.privateSpaces.cancelReservation(reservation.reservationID, guest.id))
+        .toBe(false);
+      expect(town.privateSpaces.cancelReservation(reservation.reservationID, host.id))
+        .toBe(true);
+      town.setRole(stranger.identity, 'moderator');
+      expect(town.privateSpaces.cancelReservation(otherReservation.reservationID, stranger.id))
+        .toBe(true);
+      expect(town.privateSpaces.listReservations())
+        .toStrictEqual([]);
+      jest.advanceTimersByTime(120 * 1000);
+      expect(space?.isPrivate)
+        .toBe(false);
     });
-    // tests that remove all players from a space except one
-    describe('updateWhitelist', () => { // Included in handout
-      it('should check if the player is on the whitelist before they are made host',
-        async () => {
-          const spaceID = `SpaceIDTest-${nanoid()}`;
-          const townName = `FriendlyNameTest-${nanoid()}`;
-          const townController = new CoveyTownController(townName, false);
-          await townController.addPlayer(new Player('1'));
-          await townController.addPlayer(new Player('2'));
-          const spaceController = new CoveySpaceController(spaceID, townController);
-          const newWhitelist = ['1'];
-          
-          await spaceController.addPlayer('1')
-          expect(mockGetTokenForSpace).toBeCalledTimes(1);
-          await spaceController.addPlayer('2')
-          expect(mockGetTokenForSpace).toBeCalledTimes(2);
-
-          spaceController.disconnectAllPlayersExceptP('1');
-          expect(mockGetTokenForSpace).toBeCalledTimes(3);
+    it('Should keep the space for a host who leaves until the reservation ends', () => {
+      town.privateSpaces.reserveSpace(spaceID, host.id, Date.now(), Date.now() + 5 * 60 * 1000, [], null);
+      jest.advanceTimersByTime(0);
+      town.destroySession(hostSession);
+      jest.advanceTimersByTime(2 * 60 * 1000);
+      expect(space?.hostIdentity)
+        .toBe(host.identity);
+      expect(town.updatePlayerLocation(guest, inside))
+        .toBe(false);
+      jest.advanceTimersByTime(3 * 60 * 1000);
+      expect(space?.hostIdentity)
+        .toBe(null);
+    });
+    it('Should save the reservations that have not ended yet', () => {
+      const start = Date.now() + 60 * 1000;
+      const reservation = town.privateSpaces.reserveSpace(spaceID, host.id, start, start + 60 * 1000, [], null);
+      expect(space?.toStoredSpace().reservations)
+        .toStrictEqual([reservation]);
+    });
+    describe('restored from the towns storage', () => {
+      let reservation: SpaceReservation;
+      beforeEach(() => {
+        const now = Date.now();
+        reservation = {
+          reservationID: nanoid(),
+          coveySpaceID: spaceID,
+          hostIdentity: host.identity,
+          hostName: 'host',
+          start: now - 60 * 1000,
+          end: now + 60 * 1000,
+          whitelist: [guest.identity],
+          presenterIdentity: guest.identity,
+        };
+      });
+      it('Should start a reservation that started while the server was down', () => {
+        space?.restoreSettings({
+          coveySpaceID: spaceID, isPrivate: false, hostID: null, presenterID: null, whitelist: [],
+          reservations: [reservation], activeReservationID: null,
+        });
+        expect(space?.isPrivate)
+          .toBe(true);
+        expect(space?.hostIdentity)
+          .toBe(host.identity);
+        expect(space?.whitelist)
+          .toStrictEqual([guest.identity]);
+        expect(space?.toSpaceInfo().reservedUntil)
+          .toBe(reservation.end);
+        jest.advanceTimersByTime(60 * 1000);
+        expect(space?.isPrivate)
+          .toBe(false);
+      });
+      it('Should keep the settings of a reservation that was under way when the space was saved', () => {
+        space?.restoreSettings({
+          coveySpaceID: spaceID, isPrivate: true, hostID: stranger.identity, presenterID: null, whitelist: [host.identity],
+          reservations: [reservation], activeReservationID: reservation.reservationID,
         });
-    });      expect(spaceController.whitelist.length)
-      .toBe(0);
+        expect(space?.hostIdentity)
+          .toBe(stranger.identity);
+        expect(space?.whitelist)
+          .toStrictEqual([host.identity]);
+        expect(space?.toSpaceInfo().reservedUntil)
+          .toBe(reservation.end);
+      });
     });
   });
 
-  
+  describe('knocking on a private space', () => {
+    let space: CoveySpaceController | undefined;
+    let spaceID: string;
+    beforeEach(() => {
+      spaceID = `${town.coveyTownID}_locked`;
+      space = town.privateSpaces.getControllerForSpace(spaceID);
+      town.updatePlayerLocation(host, insideSpace(2));
+    });
+    it('Should let a player that is not allowed in know that they may knock', () => {
+      expect(town.updatePlayerLocation(guest, { ...insideSpace(2), moving: true }))
+        .toBe(false);
+      expect(listener.onSpaceEntryDenied)
+        .toBeCalledWith(guest, expect.objectContaining({ coveySpaceID: spaceID, hostID: host.id }));
+    });
+    it('Should send a knock to the host only', () => {
+      const knock = space?.knock(guest.id);
+      expect(knock)
+        .toMatchObject({ coveySpaceID: spaceID, playerID: guest.id, userName: 'guest' });
+      expect(listener.onSpaceKnock)
+        .toBeCalledWith(knock, [host.id]);
+      expect(space?.knocks)
+        .toStrictEqual([knock]);
+    });
+    it('Should not let the host, or players that may already enter, knock', () => {
+      expect(space?.knock(host.id))
+        .toBeUndefined();
+      space?.addPlayerToWhiteList(guest.id);
+      expect(space?.knock(guest.id))
+        .toBeUndefined();
+      expect(listener.onSpaceKnock)
+        .not.toBeCalled();
+    });
+    it('Should whitelist and let in a player whose knock the host accepts', () => {
+      town.updatePlayerLocation(guest, { ...insideSpace(2), moving: true });
+      const knock = space?.knock(guest.id);
+      expect(town.privateSpaces.answerKnock(spaceID, host.id, guest.id, true))
+        .toBe(true);
+      expect(space?.whitelist)
+        .toContain(guest.identity);
+      expect(space?.players)
+        .toStrictEqual([host, guest]);
+      expect(guest.location)
+        .toMatchObject({ space: spaceID });
+      expect(space?.containsLocation(guest.location))
+        .toBe(true);
+      expect(listener.onPlayerAdmittedToSpace)
+        .toBeCalledWith(guest);
+      expect(listener.onSpaceKnockAnswered)
+        .toBeCalledWith(knock, 'accepted', [guest.id, host.id]);
+      expect(space?.knocks)
+        .toStrictEqual([]);
+    });
+    it('Should not let anyone but the host answer a knock', () => {
+      space?.knock(guest.id);
+      expect(town.privateSpaces.answerKnock(spaceID, guest.id, guest.id, true))
+        .toBe(false);
+      expect(space?.whitelist)
+        .not.toContain(guest.identity);
+      expect(space?.knocks)
+        .toHaveLength(1);
+    });
+    it('Should keep a player whose knock the host denies out', () => {
+      const knock = space?.knock(guest.id);
+      expect(town.privateSpaces.answerKnock(spaceID, host.id, guest.id, false))
+        .toBe(true);
+      expect(space?.whitelist)
+        .not.toContain(guest.identity);
+      expect(space?.players)
+        .toStrictEqual([host]);
+      expect(listener.onSpaceKnockAnswered)
+        .toBeCalledWith(knock, 'denied', [guest.id, host.id]);
+      expect(town.privateSpaces.answerKnock(spaceID, host.id, guest.id, true))
+        .toBe(false);
+    });
+    it('Should expire knocks that the host does not answer in time', () => {
+      const knock = space?.knock(guest.id);
+      jest.advanceTimersByTime(59 * 1000);
+      expect(space?.knocks)
+        .toHaveLength(1);
+      jest.advanceTimersByTime(1000);
+      expect(space?.knocks)
+        .toStrictEqual([]);
+      expect(listener.onSpaceKnockAnswered)
+        .toBeCalledWith(knock, 'expired', [guest.id, host.id]);
+    });
+    it('Should expire knocks when the space is disbanded', () => {
+      const knock = space?.knock(guest.id);
+      space?.publicizeSpace();
+      expect(listener.onSpaceKnockAnswered)
+        .toBeCalledWith(knock, 'expired', [guest.id, host.id]);
+      expect(space?.knocks)
+        .toStrictEqual([]);
+    });
+  });
+});
 
   // describe('space listeners and events', () => {
   //   let testingSpace: CoveySpaceController;
@@ -1,17 +1,77 @@
+import {
+  CoveySpaceInfo, HostSuccessionPolicy, KnockOutcome, SpaceBounds, SpaceJoinResult, SpaceKnock,
+  SpaceProperties, SpaceReservation, UserLocation,
+} from '../CoveyTypes';
 import Player from '../types/Player';
 import CoveyTownController from './CoveyTownController';
+import { ExportedSpace, StoredSpace } from './ITownsStorage';
+
+/** How far outside of a space a player that is not allowed in gets moved to (in pixels) */
+const BOUNCE_DISTANCE = 40;
+
+/** How long a space waits for its host to come back to the town, before it is made public */
+const HOST_GRACE_PERIOD_MS = 60 * 1000;
+
+/** What happens to a space when its host leaves, unless the host chooses otherwise */
+const DEFAULT_SUCCESSION_POLICY: HostSuccessionPolicy = 'publicizeAfterGracePeriod';
+
+/** How long a player that the host removed from the space is kept out of it */
+const KICK_BLOCK_MS = 5 * 60 * 1000;
+
+/** How long the host has to answer a knock, before it expires */
+const KNOCK_TIMEOUT_MS = 60 * 1000;
+
+/** A knock that the host has not answered yet */
+type PendingKnock = {
+  knock: SpaceKnock;
+  /** Ends the knock if the host does not answer it in time */
+  expiryTimer: ReturnType<typeof setTimeout>;
+};
+
+/** A reservation of the space, waiting for its window to start or end */
+type ScheduledReservation = {
+  reservation: SpaceReservation;
+  /** Starts the reservation (done once it has started) */
+  startTimer?: ReturnType<typeof setTimeout>;
+  /** Releases the space once the reservation ends */
+  endTimer: ReturnType<typeof setTimeout>;
+};
+
+/** A player waiting for room in a full space */
+type WaitingPlayer = {
+  playerID: string;
+  /** Where the player tried to enter the space, which is where they are let in */
+  location: UserLocation;
+};
 
 /**
  * The CoveySpaceController implements  the logic for each space: managing the various events that
  * can occur (e.g. joining a space, moving, leaving a space, becoming host etc.)
  */
 export default class CoveySpaceController {
+  // gets the ID of the host, while they are in the town
   get spaceHostID(): string | null {
-    return this._spaceHostID;
+    return this.playerIDForIdentity(this._hostIdentity);
   }
-  // gets the ID of the current presenter
+
+  // gets the identity of the host (which stays the same while they are away)
+  get hostIdentity(): string | null {
+    return this._hostIdentity;
+  }
+
+  // gets the identities of the co-hosts, who may do everything the host may
+  get coHosts(): string[] {
+    return this._coHosts;
+  }
+
+  // gets what happens to the space when its host leaves the town
+  get successionPolicy(): HostSuccessionPolicy {
+    return this._successionPolicy;
+  }
+
+  // gets the ID of the current presenter, while they are in the town
   get presenterID(): string | null {
-    return this._presenterID;
+    return this.playerIDForIdentity(this._presenterIdentity);
   }
   // gets the current players in a space
   get players(): Player[] {
@@ -21,11 +81,52 @@ export default class CoveySpaceController {
   get coveySpaceID(): string {
     return this._coveySpaceID;
   }
-  // gets the list of players that are allowed to enter the private space (whitelist)
-  get whitelist(): Player[] {
+  // gets the identities of the players that are allowed to enter the private space (whitelist)
+  get whitelist(): string[] {
     return this._whitelist;
   }
 
+  // gets the user names of the players invited into the private space who have not arrived yet
+  get invitedNames(): string[] {
+    return this._invitedNames;
+  }
+
+  // gets the town controller that this space belongs to
+  get townController(): CoveyTownController {
+    return this._coveyTownController;
+  }
+
+  // gets the maximum number of players allowed in the space (undefined if there is no limit)
+  get capacity(): number | undefined {
+    return this._capacity;
+  }
+
+  // gets the IDs of the players waiting for room in the space, first in line first
+  get waitingLine(): string[] {
+    return this._waitingLine.map(waitingPlayer => waitingPlayer.playerID);
+  }
+
+  // gets the knocks that the host has not answered yet, oldest first
+  get knocks(): SpaceKnock[] {
+    return this._knocks.map(pending => pending.knock);
+  }
+
+  // gets whether the space is currently private
+  get isPrivate(): boolean {
+    return this._isPrivate;
+  }
+
+  // gets the area of the map covered by the space (undefined if it is not drawn on the map)
+  get bounds(): SpaceBounds | undefined {
+    return this._bounds;
+  }
+
+  // gets the reservations of the space that have not ended yet, earliest first
+  get reservations(): SpaceReservation[] {
+    return this._reservations.map(scheduled => scheduled.reservation)
+      .sort((a, b) => a.start - b.start);
+  }
+
 
   /** The covey town controller of this covey space controller   */
   private _coveyTownController: CoveyTownController;
@@ -36,23 +137,68 @@ export default class CoveySpaceController {
   /** The ID given to this space (based on it's declaration on the map) * */
   private readonly _coveySpaceID: string;
 
-  /** The id for the player who is the designated host for this space * */
-  private _spaceHostID: string | null;
+  /** The identity of the player who is the designated host for this space * */
+  private _hostIdentity: string | null;
+
+  /** The identities of the players that the host shares their privileges with * */
+  private _coHosts: string[] = [];
+
+  /** What happens to the space when its host leaves the town * */
+  private _successionPolicy: HostSuccessionPolicy = DEFAULT_SUCCESSION_POLICY;
+
+  /** Makes the space public if the host does not come back in time * */
+  private _hostGracePeriodTimer?: ReturnType<typeof setTimeout>;
+
+  /** The identity of the player who is the designated by the host to be the presenter * */
+  private _presenterIdentity: string | null;
+
+  /** The identities of the players that are allowed to join this private space * */
+  private _whitelist: string[] = [];
+
+  /** The user names of the players that are invited into this private space, until they arrive * */
+  private _invitedNames: string[] = [];
+
+  /** Whether the space is private or not (starts as the map defines it) */
+  private _isPrivate: boolean;
+
+  /** The maximum number of players allowed in the space (starts as the map defines it) * */
+  private _capacity?: number;
+
+  /** The maximum number of players allowed in the space (based on it's declaration on the map) * */
+  private readonly _capacityByDefault?: number;
 
-  /** The id for the player who is the designated by the host to be the presenter * */
-  private _presenterID: string | null;
+  /** The players waiting for room in the space, in the order they arrived * */
+  private _waitingLine: WaitingPlayer[] = [];
 
-  /** The list of players that are allowed to join this private space * */
-  private _whitelist: Player[] = [];
+  /** The players asking the host to be let into the space, in the order they knocked * */
+  private _knocks: PendingKnock[] = [];
 
-  /** Whether the space is private or not (starts as not private) */
-  private _isPrivate = false;
+  /** Until when each player (by identity) that the host removed is kept out of the space * */
+  private _kickedUntil = new Map<string, number>();
 
-  constructor(coveySpaceID: string, townController: CoveyTownController) {
+  /** The reservations of the space that have not ended yet * */
+  private _reservations: ScheduledReservation[] = [];
+
+  /** The reservation that the space is currently kept private for, if any * */
+  private _activeReservation?: SpaceReservation;
+
+  /** Whether the space is private when it is not claimed (based on it's declaration on the map) * */
+  private readonly _isPrivateByDefault: boolean;
+
+  /** The area of the map covered by the space (based on it's declaration on the map) * */
+  private readonly _bounds?: SpaceBounds;
+
+  constructor(coveySpaceID: string, townController: CoveyTownController,
+    properties: SpaceProperties = {}) {
     this._coveySpaceID = coveySpaceID;
     this._coveyTownController = townController;
-    this._spaceHostID = null; // start off as no player until first player enters space
-    this._presenterID = null; // start off as no player until host chooses the presenter
+    this._capacityByDefault = properties.capacity;
+    this._capacity = this._capacityByDefault;
+    this._bounds = properties.bounds;
+    this._isPrivateByDefault = properties.isPrivateByDefault === true;
+    this._isPrivate = this._isPrivateByDefault;
+    this._hostIdentity = null; // start off as no player until first player enters space
+    this._presenterIdentity = null; // start off as no player until host chooses the presenter
   }
 
   
@@ -67,6 +213,127 @@ export default class CoveySpaceController {
     return player;
   }
 
+  /**
+   * Finds the player who has the given identity in the town
+   * @param identity the identity of a player, or null
+   * @returns the ID of the player, or null if nobody with that identity is in the town
+   */
+  private playerIDForIdentity(identity: string | null): string | null {
+    const player = this._coveyTownController.players.find(p => p.identity === identity);
+    return identity !== null && player !== undefined ? player.id : null;
+  }
+
+  /**
+   * Determines whether a player may enter this space while it is private: the host, players on
+   * the whitelist, and players whose user name was invited
+   * @param player the player to check
+   */
+  private isAllowed(player: Player): boolean {
+    return player.identity === this._hostIdentity || this._coHosts.includes(player.identity)
+      || this._whitelist.includes(player.identity) || this._invitedNames.includes(player.userName);
+  }
+
+  /**
+   * Determines whether a player may manage this space: the host and the co-hosts
+   * @param playerID the ID of the player to check
+   */
+  hasHostPrivileges(playerID: string): boolean {
+    const player = this.playerFromID(playerID);
+    return player !== undefined && this._hostIdentity !== null
+      && (player.identity === this._hostIdentity || this._coHosts.includes(player.identity));
+  }
+
+  // gets the IDs of the host and co-hosts that are in the town
+  private hostIDs(): string[] {
+    return this._coveyTownController.players
+      .filter(player => player.identity === this._hostIdentity || this._coHosts.includes(player.identity))
+      .map(player => player.id);
+  }
+
+
+  /**
+   * Takes a snapshot of the state of this space, as sent to clients
+   */
+  toSpaceInfo(): CoveySpaceInfo {
+    return {
+      coveySpaceID: this._coveySpaceID,
+      currentPlayers: this._players.map(player => player.id),
+      whitelist: this._whitelist,
+      invitedNames: this._invitedNames,
+      hostID: this.spaceHostID,
+      hostIdentity: this._hostIdentity,
+      coHosts: this._coHosts,
+      successionPolicy: this._successionPolicy,
+      presenterID: this.presenterID,
+      capacity: this._capacity ?? null,
+      waitingLine: this.waitingLine,
+      reservedUntil: this._activeReservation?.end ?? null,
+    };
+  }
+
+  /**
+   * Takes a snapshot of the settings of this space, as saved to the towns storage
+   */
+  toStoredSpace(): StoredSpace {
+    return {
+      coveySpaceID: this._coveySpaceID,
+      isPrivate: this._isPrivate,
+      hostID: this._hostIdentity,
+      presenterID: this._presenterIdentity,
+      whitelist: this._whitelist,
+      invitedNames: this._invitedNames,
+      coHosts: this._coHosts,
+      successionPolicy: this._successionPolicy,
+      capacity: this._capacity ?? null,
+      reservations: this.reservations,
+      activeReservationID: this._activeReservation?.reservationID ?? null,
+    };
+  }
+
+  /**
+   * Takes a snapshot of how this space is defined and of its settings, to recreate it in a copy
+   * of the town
+   * @param spaceID the ID of this space within its town
+   */
+  toExportedSpace(spaceID: string): ExportedSpace {
+    const { coveySpaceID, ...settings } = this.toStoredSpace();
+    return {
+      spaceID,
+      bounds: this._bounds,
+      capacity: this._capacityByDefault,
+      isPrivateByDefault: this._isPrivateByDefault,
+      settings,
+    };
+  }
+
+  /**
+   * Restores the settings of this space from the towns storage (without notifying anyone: this
+   * happens before any player joins the town)
+   * @param storedSpace the settings that were saved for this space
+   */
+  restoreSettings(storedSpace: StoredSpace): void {
+    this._isPrivate = storedSpace.isPrivate;
+    this._hostIdentity = storedSpace.hostID;
+    this._presenterIdentity = storedSpace.presenterID;
+    this._whitelist = storedSpace.whitelist;
+    this._invitedNames = storedSpace.invitedNames ?? [];
+    this._coHosts = storedSpace.coHosts ?? [];
+    this._successionPolicy = storedSpace.successionPolicy ?? DEFAULT_SUCCESSION_POLICY;
+    if (storedSpace.capacity !== undefined) {
+      this._capacity = storedSpace.capacity ?? undefined;
+    }
+    const now = Date.now();
+    (storedSpace.reservations ?? []).filter(reservation => reservation.end > now)
+      .forEach(reservation => {
+        const isUnderWay = reservation.start <= now;
+        this.schedule(reservation, isUnderWay);
+        // A reservation that was under way when the space was saved was already applied to the
+        // settings above, but one that started while the server was down starts now
+        if (isUnderWay && reservation.reservationID !== storedSpace.activeReservationID) {
+          this.beginReservation(reservation);
+        }
+      });
+  }
 
   /**
    * Determines whether player in this space
@@ -80,154 +347,664 @@ export default class CoveySpaceController {
   }
 
   /**
-   * Adds a player to this space
+   * Determines whether a location is inside of the area of the map covered by this space
+   * @param location the location to check
+   * @returns false if the location is outside, or the space is not drawn on the map
+   */
+  containsLocation(location: UserLocation): boolean {
+    if (this._bounds === undefined) {
+      return false;
+    }
+    const { x, y, width, height } = this._bounds;
+    return location.x >= x && location.x <= x + width && location.y >= y && location.y <= y + height;
+  }
+
+  /**
+   * Finds the locations just outside of this space, past each of its edges (used to move players
+   * out of spaces they are not allowed into)
+   * @param location a location inside of the space
+   * @returns the location moved past each edge of the space, nearest first (none if the space is
+   *          not drawn on the map)
+   */
+  locationsOutside(location: UserLocation): UserLocation[] {
+    if (this._bounds === undefined) {
+      return [];
+    }
+    const { x, y, width, height } = this._bounds;
+    const exits = [
+      { ...location, x: x - BOUNCE_DISTANCE, distance: location.x - x },
+      { ...location, x: x + width + BOUNCE_DISTANCE, distance: x + width - location.x },
+      { ...location, y: y - BOUNCE_DISTANCE, distance: location.y - y },
+      { ...location, y: y + height + BOUNCE_DISTANCE, distance: y + height - location.y },
+    ];
+    return exits.sort((a, b) => a.distance - b.distance)
+      .map(({ distance, ...exit }) => ({ ...exit, moving: false }));
+  }
+
+  /**
+   * Finds the location closest to the given one that is inside of this space (used to move
+   * players into spaces they were let into)
+   * @param location a location outside of the space
+   * @returns the location moved onto the nearest edge of the space
+   */
+  locationInside(location: UserLocation): UserLocation {
+    if (this._bounds === undefined) {
+      return location;
+    }
+    const { x, y, width, height } = this._bounds;
+    return {
+      ...location,
+      x: Math.min(Math.max(location.x, x), x + width),
+      y: Math.min(Math.max(location.y, y), y + height),
+      moving: false,
+    };
+  }
+
+  /**
+   * Adds a player to this space. Players that find the space full are put in its waiting line,
+   * and let in once someone leaves.
    *
    * @param newPlayerID ID for the new player to add to the space
-   * @returns boolean for success or failure
+   * @param location where the player is entering the space (their current location, unless given)
+   * @returns 'joined', or why the player could not join: 'full' or 'notAllowed'
    */
-  addPlayer(newPlayerID: string): boolean {
+  addPlayer(newPlayerID: string, location?: UserLocation): SpaceJoinResult {
     const newPlayer = this.playerFromID(newPlayerID);
+    if (newPlayer === undefined) {
+      return 'notAllowed';
+    }
+    // If player is already on the list dont do anything
+    if (this._players.includes(newPlayer)) {
+      return 'joined';
+    }
 
-    if (newPlayer !== undefined) {
-      // If player is already on the list dont do anything
-      if (this._players.includes(newPlayer)) {
-        return true; 
+    // If the host left without anyone taking over (e.g. before the server restarted), and is
+    // not expected back, the succession policy applies now
+    if (this._hostIdentity !== null && this.spaceHostID === null
+      && this._hostGracePeriodTimer === undefined && this._activeReservation === undefined) {
+      const successor = this.successor();
+      if (successor !== undefined) {
+        this.handOverTo(successor);
+      } else {
+        this.publicizeSpace();
       }
+    }
+    if (this.isKickedOut(newPlayer)) {
+      return 'notAllowed';
+    }
+    // If the space is private by default and nobody claimed it, the first player in claims it
+    const claimsSpace = this._isPrivate && this._hostIdentity === null;
+    if (this._isPrivate && !claimsSpace && !this.isAllowed(newPlayer)) {
+      return 'notAllowed';
+    }
+    this.acceptInvitation(newPlayer);
 
-      // If the space is not private
-      if (this._isPrivate === false) {
-        this._players.push(newPlayer);
-        return true;
-      } if (this._spaceHostID !== null) { // If the space is private and the spaceHost is defined
-        if (this.playerFromID(this._spaceHostID) === undefined) { // If the host is no longer in the game
-          this.publicizeSpace();
-          this._players.push(newPlayer);
-          return true;
-        } if (this._whitelist.includes(newPlayer) || this.spaceHostID === newPlayerID) {
-          this._players.push(newPlayer);
-          return true;
-        }
-        return false;
+    if (this.isFull()) {
+      this.joinWaitingLine(newPlayerID, location || newPlayer.location);
+      return 'full';
+    }
+    this.admitPlayer(newPlayer);
+    if (claimsSpace) {
+      this.updateSpaceHost(newPlayerID);
+    }
+    return 'joined';
+  }
+
+  /**
+   * Replaces the invitation of a player's user name with their identity on the whitelist, once
+   * they arrive (so that they can come back, and nobody else can use the invitation)
+   * @param player the player that is let in
+   */
+  private acceptInvitation(player: Player): void {
+    if (this._invitedNames.includes(player.userName)) {
+      this._invitedNames = this._invitedNames.filter(name => name !== player.userName);
+      if (!this._whitelist.includes(player.identity)) {
+        this._whitelist = this._whitelist.concat(player.identity);
+      }
+      this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
+    }
+  }
+
+  // gets whether the space has as many players as it allows
+  private isFull(): boolean {
+    return this._capacity !== undefined && this._players.length >= this._capacity;
+  }
+
+  /**
+   * Puts a player at the end of the waiting line of this space (taking them out of any other line)
+   *
+   * @param playerID the player that found the space full
+   * @param location where the player tried to enter the space
+   */
+  private joinWaitingLine(playerID: string, location: UserLocation): void {
+    if (this.waitingLine.includes(playerID)) {
+      return;
+    }
+    this._coveyTownController.privateSpaces.leaveWaitingLines(playerID);
+    this._waitingLine.push({ playerID, location });
+    this._coveyTownController.notifyWaitingLineChanged(this.toSpaceInfo());
+  }
+
+  /**
+   * Takes a player out of the waiting line of this space
+   *
+   * @param playerID the player to take out of the line
+   */
+  leaveWaitingLine(playerID: string): void {
+    if (this.waitingLine.includes(playerID)) {
+      this._waitingLine = this._waitingLine.filter(waitingPlayer => waitingPlayer.playerID !== playerID);
+      this._coveyTownController.notifyWaitingLineChanged(this.toSpaceInfo());
+    }
+  }
+
+  /**
+   * Lets players in from the front of the waiting line while there is room, skipping those that
+   * are no longer allowed in
+   */
+  private admitNextInLine(): void {
+    const lineLength = this._waitingLine.length;
+    while (this._waitingLine.length > 0 && !this.isFull()) {
+      const [next, ...rest] = this._waitingLine;
+      this._waitingLine = rest;
+      const player = this.playerFromID(next.playerID);
+      if (player !== undefined) {
+        this._coveyTownController.admitPlayerToSpace(player, this, next.location);
       }
     }
-    return false;
+    if (this._waitingLine.length !== lineLength) {
+      this._coveyTownController.notifyWaitingLineChanged(this.toSpaceInfo());
+    }
   }
 
   /**
-   * Remove the player specified from the space
+   * Adds a player to the players of this space, and lets the town know
+   *
+   * @param newPlayer the player that was allowed in
+   */
+  private admitPlayer(newPlayer: Player): void {
+    this._waitingLine = this._waitingLine.filter(waitingPlayer => waitingPlayer.playerID !== newPlayer.id);
+    this._players.push(newPlayer);
+    this._coveyTownController.notifyPlayerJoinedSpace(newPlayer, this.toSpaceInfo());
+  }
+
+  /**
+   * Remove the player specified from the space (or from its waiting line), letting the next
+   * player in line in
    *
    * @param playerID ID of the player to be removed from the space
    */
   removePlayer(playerID: string): void {
     const player = this.playerFromID(playerID);
 
-    if (player !== undefined) {
+    this.leaveWaitingLine(playerID);
+    if (player !== undefined && this._players.includes(player)) {
       this._players = this._players.filter((p) => p.id !== player.id);
+      this._coveyTownController.notifyPlayerLeftSpace(player, this.toSpaceInfo());
+      this.admitNextInLine();
     }
   }
 
   /**
-   * Adds a player to the whitelist (list of players allowed to join the private space)
+   * Removes a player from this space at the request of its host, moving them out of it. The
+   * player may not come back in (nor knock) for a while, even if they are on the whitelist.
+   *
+   * @param playerID the player to remove
+   * @returns false if the player is not in the space, or is one of its hosts
+   */
+  kickPlayer(playerID: string): boolean {
+    const player = this.playerFromID(playerID);
+    if (player === undefined || !this._players.includes(player) || this.hasHostPrivileges(playerID)) {
+      return false;
+    }
+    this._kickedUntil.set(player.identity, Date.now() + KICK_BLOCK_MS);
+    this.removePlayer(playerID);
+    this._coveyTownController.notifyPlayerKickedFromSpace(player, this);
+    return true;
+  }
+
+  // gets whether the host removed the player from the space a short while ago
+  private isKickedOut(player: Player): boolean {
+    const until = this._kickedUntil.get(player.identity);
+    return until !== undefined && until > Date.now();
+  }
+
+  /**
+   * Asks the host of this private space to let a player in. Knocking again while the host has
+   * not answered gives the host more time.
+   *
+   * @param playerID the player that was not allowed in
+   * @returns the knock, or undefined if the player may already enter (or there is no host to ask)
+   */
+  knock(playerID: string): SpaceKnock | undefined {
+    const player = this.playerFromID(playerID);
+    const hostIDs = this.hostIDs();
+    if (player === undefined || !this._isPrivate || hostIDs.length === 0 || this.isKickedOut(player)
+      || this.isAllowed(player) || this._players.includes(player)) {
+      return undefined;
+    }
+    const previous = this._knocks.find(pending => pending.knock.playerID === playerID);
+    if (previous !== undefined) {
+      clearTimeout(previous.expiryTimer);
+      this._knocks = this._knocks.filter(pending => pending !== previous);
+    }
+    const knock: SpaceKnock = {
+      coveySpaceID: this._coveySpaceID,
+      playerID,
+      userName: player.userName,
+      expiresAt: Date.now() + KNOCK_TIMEOUT_MS,
+    };
+    const pending: PendingKnock = {
+      knock,
+      expiryTimer: setTimeout(() => this.endKnock(pending, 'expired'), KNOCK_TIMEOUT_MS),
+    };
+    this._knocks.push(pending);
+    this._coveyTownController.notifySpaceKnock(knock, hostIDs);
+    return knock;
+  }
+
+  /**
+   * Answers the knock of a player: an accepted player is added to the whitelist and let into
+   * the space
+   *
+   * @param knockerID the player that knocked
+   * @param accept whether to let the player in
+   * @returns false if the player has no pending knock on this space
+   */
+  answerKnock(knockerID: string, accept: boolean): boolean {
+    const pending = this._knocks.find(p => p.knock.playerID === knockerID);
+    if (pending === undefined) {
+      return false;
+    }
+    const knocker = this.playerFromID(knockerID);
+    if (knocker === undefined) {
+      this.endKnock(pending, 'expired');
+      return false;
+    }
+    this.endKnock(pending, accept ? 'accepted' : 'denied');
+    if (accept) {
+      this.addPlayerToWhiteList(knockerID);
+      this._coveyTownController.admitPlayerToSpace(knocker, this,
+        this.locationInside(knocker.location));
+    }
+    return true;
+  }
+
+  /**
+   * Removes a knock and lets the knocking player and the host know how it ended
+   *
+   * @param pending the knock to remove
+   * @param outcome how the knock ended
+   */
+  private endKnock(pending: PendingKnock, outcome: KnockOutcome): void {
+    clearTimeout(pending.expiryTimer);
+    this._knocks = this._knocks.filter(p => p !== pending);
+    this._coveyTownController.notifyKnockAnswered(pending.knock, outcome, this.hostIDs());
+  }
+
+  /**
+   * Adds a player to the whitelist (list of identities allowed to join the private space)
    *
    * @param newPlayer The new player to be add to the whitelist
    */
-  addPlayerToWhiteList(newPlayerID: string): Player[] {
+  addPlayerToWhiteList(newPlayerID: string): string[] {
     const newPlayer = this.playerFromID(newPlayerID);
 
     if (newPlayer !== undefined) {
       // If the whitespace already includes the newPlayer, don't add the player, else add the player
-      if (this._whitelist.includes(newPlayer)){
+      if (this._whitelist.includes(newPlayer.identity)){
         return this._whitelist;
       } 
-      this._whitelist.push(newPlayer);
+      this._whitelist = this._whitelist.concat(newPlayer.identity);
+      this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
       return this._whitelist;
     }
     return this._whitelist;
   }
 
   /**
-   * Removes a player from the whitelist (list of players allowed to join the private space)
+   * Removes a player from the whitelist (list of identities allowed to join the private space)
    *
    * @param playerID IF of the player to be removed from the whitelist
    */
   removePlayerFromWhiteList(playerID: string): void {
     const player = this.playerFromID(playerID);
 
-    if (player !== undefined) {
-      this._whitelist = this._whitelist.filter((p) => p.id !== player.id);
+    if (player !== undefined && this._whitelist.includes(player.identity)) {
+      this._whitelist = this._whitelist.filter((identity) => identity !== player.identity);
+      this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
     }
   }
 
   /**
     * Changes the host for this space (used for claiming and disbanding space)
     * 
-    * @param newHost ID of the player that is the new host
+    * @param newHost ID of the player that is the new host, who must be in the space to claim it
     */
   updateSpaceHost(newHostID: string | null): boolean {
     // Updates the spacehost
     // If the new host is not null, space is set to private
     if (newHostID !== null){
-      if (this._spaceHostID === null) { // If the spacehost is not already defined
-        this._spaceHostID = newHostID;
-        this.disconnectAllPlayersExceptP(newHostID);
+      const newHost = this.playerFromID(newHostID);
+      // If the spacehost is not already defined, a player in the space may claim it
+      if (this._hostIdentity === null && newHost !== undefined && this._players.includes(newHost)) {
+        this._hostIdentity = newHost.identity;
         this._isPrivate = true;
+        this.removeAllPlayersExcept(newHost);
         this._coveyTownController.claimSpace(this._coveySpaceID);
+        this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
+        this.admitNextInLine();
         return true;
       } 
-      return false; // Else, if the spaceHostID was already defined, fail
+      return false; // Else, if the host was already defined (or is not in the town), fail
     } 
     // Else, if newHostID is null, space is not private
     this.publicizeSpace();
     return true;
   }
   
+  /**
+   * Hands the space over to another player of the town (the previous host stays on the whitelist)
+   *
+   * @param newHostID ID of the player that becomes the host
+   * @returns false if the space is not claimed, or the player is not in the town
+   */
+  transferHost(newHostID: string): boolean {
+    const newHost = this.playerFromID(newHostID);
+    if (this._hostIdentity === null || newHost === undefined) {
+      return false;
+    }
+    if (newHost.identity !== this._hostIdentity) {
+      this.handOverTo(newHost);
+    }
+    return true;
+  }
+
+  /**
+   * Makes a player the host, and lets the members of the space know
+   *
+   * @param newHost the player that becomes the host
+   */
+  private handOverTo(newHost: Player): void {
+    const previousHostIdentity = this._hostIdentity;
+    if (previousHostIdentity !== null && !this._whitelist.includes(previousHostIdentity)) {
+      this._whitelist = this._whitelist.concat(previousHostIdentity);
+    }
+    this._hostIdentity = newHost.identity;
+    this._coHosts = this._coHosts.filter(identity => identity !== newHost.identity);
+    this.clearHostGracePeriod();
+    this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
+    this._coveyTownController.notifySpaceHostChanged(this.toSpaceInfo());
+  }
+
+  /**
+   * Applies the succession policy of this space once its host has left the town: someone takes
+   * over right away, or the space waits for the host to come back (a reserved space waits for
+   * its host until the reservation ends)
+   */
+  hostLeft(): void {
+    if (this._activeReservation !== undefined) {
+      return;
+    }
+    const successor = this.successor();
+    if (successor !== undefined) {
+      this.handOverTo(successor);
+      return;
+    }
+    this.clearHostGracePeriod();
+    this._hostGracePeriodTimer = setTimeout(() => {
+      this._hostGracePeriodTimer = undefined;
+      if (this._hostIdentity !== null && this.spaceHostID === null) {
+        this.publicizeSpace();
+      }
+    }, HOST_GRACE_PERIOD_MS);
+  }
+
+  // gets the player who takes over from the host under the succession policy, if there is one
+  private successor(): Player | undefined {
+    if (this._successionPolicy === 'promoteCoHost') {
+      return this._coHosts
+        .map(identity => this._coveyTownController.players.find(player => player.identity === identity))
+        .find((player): player is Player => player !== undefined);
+    }
+    if (this._successionPolicy === 'promoteLongestPresent') {
+      // Players are kept in the order they entered the space
+      return this._players.find(player => player.identity !== this._hostIdentity);
+    }
+    return undefined;
+  }
+
+  private clearHostGracePeriod(): void {
+    if (this._hostGracePeriodTimer !== undefined) {
+      clearTimeout(this._hostGracePeriodTimer);
+      this._hostGracePeriodTimer = undefined;
+    }
+  }
+
+  /**
+   * Changes the co-hosts of this space
+   *
+   * @param newCoHosts the identities of the players to share the host's privileges with
+   */
+  updateCoHosts(newCoHosts: string[]): void {
+    this._coHosts = newCoHosts.filter((identity, index) => newCoHosts.indexOf(identity) === index
+      && identity !== this._hostIdentity);
+    this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
+  }
+
+  /**
+   * Changes what happens to this space when its host leaves the town
+   *
+   * @param policy the new succession policy
+   */
+  updateSuccessionPolicy(policy: HostSuccessionPolicy): void {
+    this._successionPolicy = policy;
+    this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
+  }
+
   /**
     * Changes the presenter for this space
     * 
     * @param newPresenter the player that is the new presenter
     */
   updatePresenter(newPresenterID: string | null): void {
-    this._presenterID = newPresenterID;
+    const newPresenter = newPresenterID !== null ? this.playerFromID(newPresenterID) : undefined;
+    const newPresenterIdentity = newPresenter?.identity ?? null;
+    if (this._presenterIdentity !== newPresenterIdentity) {
+      this._presenterIdentity = newPresenterIdentity;
+      this._coveyTownController.notifyPresenterChanged(this.toSpaceInfo());
+    }
+  }
+
+  /**
+   * Changes the maximum number of players allowed in this space, letting players in from the
+   * waiting line if there is more room
+   *
+   * @param capacity the new capacity, or null for no limit
+   */
+  updateCapacity(capacity: number | null): void {
+    this._capacity = capacity ?? undefined;
+    this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
+    this.admitNextInLine();
   }
 
   /**
-   * Changes the whitelist to the desired list given by the host
+   * Changes the whitelist to the desired list given by the host (players who are away keep their
+   * place on it)
    * 
-   * @param newWhitelist the list of players that are allowed to enter a given space
+   * @param newWhitelist the identities of the players that are allowed to enter a given space
    */
   updateWhitelist(newWhitelist: string[]): void {
-    // get a list of IDs and return a list of player and update it
-    const idWhitelistToPlayerWhitelist: Player[] = [];
-
-    newWhitelist.forEach(playerID => {
-      const player = this.playerFromID(playerID);
-
-      if (player !== undefined) {
-        idWhitelistToPlayerWhitelist.push(player);
-      }
-    });
+    this._whitelist = newWhitelist.filter((identity, index) => newWhitelist.indexOf(identity) === index);
+    this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
+  }
 
-    this._whitelist = idWhitelistToPlayerWhitelist;
+  /**
+   * Changes the user names invited into the space, for players who have not arrived yet
+   * 
+   * @param newInvitedNames the user names of the players to let in once they arrive
+   */
+  updateInvitedNames(newInvitedNames: string[]): void {
+    const names = newInvitedNames.map(name => name.trim()).filter(name => name.length > 0);
+    this._invitedNames = names.filter((name, index) => names.indexOf(name) === index);
+    this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
   }
 
 
   /**
-   * Publicize the space (reset everything to how a public space would be)
+   * Publicize the space (reset everything to how an unclaimed space would be)
    */
   publicizeSpace(): void {
-    this._isPrivate = false;
-    this._presenterID = null;
-    this._spaceHostID = null;
+    const wasClaimed = this._hostIdentity !== null;
+    // Nobody is left to answer the knocks
+    this._knocks.forEach(pending => this.endKnock(pending, 'expired'));
+    this._isPrivate = this._isPrivateByDefault;
+    this._capacity = this._capacityByDefault;
+    this._presenterIdentity = null;
+    this._hostIdentity = null;
+    this._coHosts = [];
+    this._successionPolicy = DEFAULT_SUCCESSION_POLICY;
+    this.clearHostGracePeriod();
     this._whitelist = [];
+    this._invitedNames = [];
+    this._kickedUntil.clear();
+    // Disbanding a reserved space releases it for the rest of the reservation
+    if (this._activeReservation !== undefined) {
+      this.unschedule(this._activeReservation.reservationID);
+    }
+    if (wasClaimed) {
+      this._coveyTownController.notifySpaceDisbanded(this.toSpaceInfo());
+      this.admitNextInLine();
+    }
+  }
+
+  /**
+   * Reserves this space for a time window, if it is not already reserved for any part of it
+   *
+   * @param reservation the window, its host, and the whitelist and presenter to start it with
+   * @returns false if the window overlaps another reservation
+   */
+  addReservation(reservation: SpaceReservation): boolean {
+    if (this._reservations.some(({ reservation: other }) => other.start < reservation.end
+      && reservation.start < other.end)) {
+      return false;
+    }
+    this.schedule(reservation, false);
+    this._coveyTownController.save();
+    return true;
   }
 
   /**
-   * Remove all players from space
+   * Cancels a reservation of this space, releasing the space if the reservation is under way
+   *
+   * @param reservationID the reservation to cancel
+   * @returns false if the space has no such reservation
    */
-  disconnectAllPlayersExceptP(p: string): void {
-    const player = this.playerFromID(p);
-    if (player !== undefined){
-      this._players = [player];
+  cancelReservation(reservationID: string): boolean {
+    const scheduled = this._reservations.find(s => s.reservation.reservationID === reservationID);
+    if (scheduled === undefined) {
+      return false;
+    }
+    if (this._activeReservation === scheduled.reservation) {
+      this.publicizeSpace();
+    } else {
+      this.unschedule(reservationID);
+      this._coveyTownController.save();
     }
+    return true;
+  }
+
+  /**
+   * Cancels every reservation of this space, without releasing it (used when the town is deleted)
+   */
+  clearReservations(): void {
+    this._reservations.forEach(scheduled => this.unschedule(scheduled.reservation.reservationID));
+  }
+
+  /**
+   * Sets the timers that start and end a reservation
+   *
+   * @param reservation the reservation
+   * @param isUnderWay whether the reservation was already applied to this space
+   */
+  private schedule(reservation: SpaceReservation, isUnderWay: boolean): void {
+    const scheduled: ScheduledReservation = {
+      reservation,
+      endTimer: setTimeout(() => this.endReservation(reservation), reservation.end - Date.now()),
+    };
+    this._reservations.push(scheduled);
+    if (isUnderWay) {
+      this._activeReservation = reservation;
+    } else {
+      scheduled.startTimer = setTimeout(() => this.beginReservation(reservation),
+        Math.max(reservation.start - Date.now(), 0));
+    }
+  }
+
+  /**
+   * Forgets a reservation, stopping its timers
+   *
+   * @param reservationID the reservation to forget
+   */
+  private unschedule(reservationID: string): void {
+    const scheduled = this._reservations.find(s => s.reservation.reservationID === reservationID);
+    if (scheduled !== undefined) {
+      if (scheduled.startTimer !== undefined) {
+        clearTimeout(scheduled.startTimer);
+      }
+      clearTimeout(scheduled.endTimer);
+      this._reservations = this._reservations.filter(s => s !== scheduled);
+    }
+    if (this._activeReservation?.reservationID === reservationID) {
+      this._activeReservation = undefined;
+    }
+  }
+
+  /**
+   * Makes this space private for the host of a reservation, with the whitelist and presenter set
+   * in advance, moving out the players that are not on the reservation
+   *
+   * @param reservation the reservation that starts
+   */
+  private beginReservation(reservation: SpaceReservation): void {
+    this._knocks.forEach(pending => this.endKnock(pending, 'expired'));
+    this.clearHostGracePeriod();
+    this._activeReservation = reservation;
+    this._isPrivate = true;
+    this._hostIdentity = reservation.hostIdentity;
+    this._coHosts = [];
+    this._whitelist = reservation.whitelist;
+    this._invitedNames = [];
+    this._presenterIdentity = reservation.presenterIdentity;
+    this._players.filter(player => !this.isAllowed(player))
+      .forEach(player => this.removePlayer(player.id));
+    this._coveyTownController.claimSpace(this._coveySpaceID);
+    this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
+    this._coveyTownController.notifyPresenterChanged(this.toSpaceInfo());
+  }
+
+  /**
+   * Releases this space once a reservation ends, unless its host handed it over to someone else
+   *
+   * @param reservation the reservation that ends
+   */
+  private endReservation(reservation: SpaceReservation): void {
+    const wasActive = this._activeReservation === reservation;
+    this.unschedule(reservation.reservationID);
+    if (wasActive && this._hostIdentity === reservation.hostIdentity) {
+      this.publicizeSpace();
+    } else {
+      this._coveyTownController.notifySpaceUpdated(this.toSpaceInfo());
+    }
+  }
+
+  /**
+   * Removes every player but one from this space (as they leave, they are told that they did)
+   *
+   * @param player the player that stays
+   */
+  private removeAllPlayersExcept(player: Player): void {
+    this._players
+      .filter((otherPlayer) => otherPlayer !== player)
+      .forEach((otherPlayer) => this.removePlayer(otherPlayer.id));
   }
 }
@@ -1,228 +1,229 @@
 import { nanoid } from 'nanoid';
 import CoveyTownsStore from './CoveyTownsStore';
-import CoveyTownListener from '../types/CoveyTownListener';
 import Player from '../types/Player';
-import CoveySpacesStore from './CoveySpacesStore';
 
+// Every town gets this mock video client, whichever video provider is configured
+jest.mock('./VideoClientFactory', () => ({
+  __esModule: true,
+  default: () => ({
+    getTokenForTown: jest.fn(),
+    updateTrackSubscriptions: jest.fn(),
+  }),
+}));
 
 function createTownForTesting(friendlyNameToUse?: string, isPublic = false) {
-    const friendlyName = friendlyNameToUse !== undefined ? friendlyNameToUse :
-      `${isPublic ? 'Public' : 'Private'} TestingTown=${nanoid()}`;
-    return CoveyTownsStore.getInstance()
-      .createTown(friendlyName, isPublic);
-  }
-
-function createSpaceForTesting(spaceID: string, townControllerID: string) {
-    return CoveySpacesStore.getInstance()
-      .createSpace(spaceID, townControllerID);
-  }
-
+  const friendlyName = friendlyNameToUse !== undefined ? friendlyNameToUse :
+    `${isPublic ? 'Public' : 'Private'} TestingTown=${nanoid()}`;
+  return CoveyTownsStore.getInstance()
+    .createTown(friendlyName, isPublic);
+}
+
+describe('CoveySpacesStore', () => {
+  it('should be owned by a single town', () => {
+    const town1 = createTownForTesting();
+    const town2 = createTownForTesting();
+    expect(town1.privateSpaces)
+      .toBe(town1.privateSpaces);
+    expect(town1.privateSpaces)
+      .not
+      .toBe(town2.privateSpaces);
+  });
 
- describe('CoveySpacesStore', () => {
-   beforeEach(() => {
-   });
-   it('should be a singleton', () => {
-     //const town = createTownForTesting();
-     //const space = createSpaceForTesting('1', town.coveyTownID);
-     const store1 = CoveySpacesStore.getInstance();
-     const store2 = CoveySpacesStore.getInstance();
-     expect(store1)
-       .toBe(store2);
-   });
+  describe('createSpace', () => {
+    it('Should prefix the space ID with the ID of its town', () => {
+      const town = createTownForTesting();
+      const space = town.privateSpaces.createSpace('1');
+      expect(space.coveySpaceID)
+        .toBe(`${town.coveyTownID}_1`);
+      expect(space.townController)
+        .toBe(town);
+    });
+  });
 
-   describe('createSpace', () => {
-     it('Should check if the town exist or not before creating the space', () => {
-       const firstTown = createTownForTesting();
-       const firstSpace = createSpaceForTesting('1','1');
-       const secondSpace = createSpaceForTesting('2', firstTown.coveyTownID);
-       expect(firstSpace).toThrowError();
-       expect(secondSpace.coveySpaceID).toBe(`${firstTown.coveyTownID}_${secondSpace.coveySpaceID}`)
-     });
-   });
+  describe('getControllerForSpace', () => {
+    it('Should return the same controller on repeated calls', async () => {
+      const town = createTownForTesting();
+      const space = town.privateSpaces.createSpace('1');
+      expect(space)
+        .toBe(town.privateSpaces.getControllerForSpace(space.coveySpaceID));
+      expect(space)
+        .toBe(town.privateSpaces.getControllerForSpace(space.coveySpaceID));
+    });
+    it('Should not return spaces of other towns', async () => {
+      const town1 = createTownForTesting();
+      const town2 = createTownForTesting();
+      const space = town1.privateSpaces.createSpace('1');
+      expect(town2.privateSpaces.getControllerForSpace(space.coveySpaceID))
+        .toBeUndefined();
+    });
+  });
 
-   describe('getControllerForSpace', () => {
-     it('Should return the same controller on repeated calls', async () => {
-       const firstTown = createTownForTesting();
-       const firstSpace = createSpaceForTesting('1', firstTown.coveyTownID);
-       expect(firstSpace)
-         .toBe(CoveySpacesStore.getInstance()
-           .getControllerForSpace(firstSpace.coveySpaceID));
-       expect(firstSpace)
-         .toBe(CoveySpacesStore.getInstance()
-           .getControllerForSpace(firstSpace.coveySpaceID));
-     });
-   });
+  describe('createSpace', () => {
+    it('Should not create a space with an ID that another space of the town has', () => {
+      const town = createTownForTesting();
+      const otherTown = createTownForTesting();
+      town.privateSpaces.createSpace('1');
+      expect(town.privateSpaces.hasSpace('1'))
+        .toBe(true);
+      expect(() => town.privateSpaces.createSpace('1'))
+        .toThrow();
+      expect(otherTown.privateSpaces.hasSpace('1'))
+        .toBe(false);
+      expect(() => otherTown.privateSpaces.createSpace('1'))
+        .not.toThrow();
+    });
+  });
 
-   describe('updateSpace', () => {
-     it('Should check if the space controller exists before updating', () => {
-       const town = createTownForTesting();
-       const space = createSpaceForTesting('1', town.coveyTownID);
-       const { friendlyName } = town;
-       const res = CoveySpacesStore.getInstance()
-         .updateSpace('1', 'abcd', 'newName');
-       CoveySpacesStore.getInstance()
-         .updateSpace(space.coveySpaceID, 'abcd', 'newName');
-       expect(res)
-         .toBe(false);
-       expect(space.spaceHostID)
-        .toBe('abcd');
+  describe('updateSpace', () => {
+    it('Should check if the space controller exists before updating', () => {
+      const town = createTownForTesting();
+      const space = town.privateSpaces.createSpace('1');
+      const res = town.privateSpaces.updateSpace('1', 'abcd', 'abcd');
+      expect(res)
+        .toBe(false);
+      expect(space.spaceHostID)
+        .toBe(null);
+    });
+    it('Should only allow the host to update a claimed space', async () => {
+      const town = createTownForTesting();
+      const space = town.privateSpaces.createSpace('1');
+      const host = new Player('host');
+      const other = new Player('other');
+      await town.addPlayer(host);
+      await town.addPlayer(other);
+      // Players claim spaces from inside of them
+      space.addPlayer(host.id);
+      expect(town.privateSpaces.updateSpace(space.coveySpaceID, host.id, host.id))
+        .toBe(true);
+      expect(town.privateSpaces.updateSpace(space.coveySpaceID, other.id, undefined, other.id))
+        .toBe(false);
+      expect(town.privateSpaces.updateSpace(space.coveySpaceID, host.id, undefined, host.id))
+        .toBe(true);
+      expect(space.spaceHostID)
+        .toBe(host.id);
+      expect(space.presenterID)
+        .toBe(host.id);
+    });
+    it('Should only allow the host to change the capacity', async () => {
+      const town = createTownForTesting();
+      const space = town.privateSpaces.createSpace('1');
+      const host = new Player('host');
+      await town.addPlayer(host);
+      space.addPlayer(host.id);
+      expect(town.privateSpaces.updateSpace(space.coveySpaceID, host.id, undefined, undefined, undefined, 2))
+        .toBe(false);
+      expect(town.privateSpaces.updateSpace(space.coveySpaceID, host.id, host.id, undefined, undefined, 2))
+        .toBe(true);
+      expect(space.capacity)
+        .toBe(2);
+      expect(space.toStoredSpace().capacity)
+        .toBe(2);
+    });
+    it('Should not apply any of an update that the player may not make all of', async () => {
+      const town = createTownForTesting();
+      const space = town.privateSpaces.createSpace('1');
+      const player = new Player('player');
+      await town.addPlayer(player);
+      expect(town.privateSpaces.updateSpace(space.coveySpaceID, player.id, undefined, player.id, [player.identity], 2, ['friend']))
+        .toBe(false);
+      expect(space.whitelist)
+        .toStrictEqual([]);
+      expect(space.invitedNames)
+        .toStrictEqual([]);
       expect(space.presenterID)
-        .toBe('newName');
-     });
-   });
+        .toBe(null);
+      expect(space.capacity)
+        .toBeUndefined();
+    });
+    it('Should only let players claim a space for themselves, from inside of it', async () => {
+      const town = createTownForTesting();
+      const space = town.privateSpaces.createSpace('1');
+      const player = new Player('player');
+      const other = new Player('other');
+      await town.addPlayer(player);
+      await town.addPlayer(other);
+      expect(town.privateSpaces.updateSpace(space.coveySpaceID, player.id, player.id))
+        .toBe(false);
+      space.addPlayer(other.id);
+      expect(town.privateSpaces.updateSpace(space.coveySpaceID, player.id, other.id))
+        .toBe(false);
+      expect(space.spaceHostID)
+        .toBe(null);
+      expect(town.privateSpaces.updateSpace(space.coveySpaceID, other.id, other.id))
+        .toBe(true);
+      expect(space.spaceHostID)
+        .toBe(other.id);
+    });
+  });
 
-  describe('disband space', () => {
+  describe('disbandSpace', () => {
     it('Should fail if the spaceID does not exist', async () => {
-      const res = CoveySpacesStore.getInstance()
-      .disbandSpace('abcdef');
-      expect(res)
+      const town = createTownForTesting();
+      expect(town.privateSpaces.disbandSpace('abcdef', 'player1'))
         .toBe(false);
     });
-   });
+    it('Should only allow the host to disband the space', async () => {
+      const town = createTownForTesting();
+      const space = town.privateSpaces.createSpace('1');
+      const host = new Player('host');
+      const player1 = new Player('player1');
+      await town.addPlayer(host);
+      await town.addPlayer(player1);
+      space.addPlayer(host.id);
+      space.updateSpaceHost(host.id);
+      expect(town.privateSpaces.disbandSpace(space.coveySpaceID, player1.id))
+        .toBe(false);
+      expect(town.privateSpaces.disbandSpace(space.coveySpaceID, host.id))
+        .toBe(true);
+      expect(space.spaceHostID)
+        .toBe(null);
+    });
+  });
 
   describe('getSpaceForPlayer', () => {
-    it('Should check if the space exists before getting the space', async () => {
-      const town = createTownForTesting(undefined, true);
-      const space = createSpaceForTesting('1', town.coveyTownID)
+    it('Should return the World for players that are not in a space of this town', async () => {
+      const town1 = createTownForTesting(undefined, true);
+      const town2 = createTownForTesting(undefined, true);
+      const space = town1.privateSpaces.createSpace('1');
+      town2.privateSpaces.createSpace('1');
       const player1 = new Player('p1');
       const player2 = new Player('p2');
+      await town1.addPlayer(player1);
+      await town1.addPlayer(player2);
       space.addPlayer(player1.id);
-      const res1 = CoveySpacesStore.getInstance().getSpaceForPlayer(player1.id);
-      const res2 = CoveySpacesStore.getInstance().getSpaceForPlayer(player2.id);
-      const spaces = CoveySpacesStore.getInstance()
-        .listSpaces();
-      expect(res1.coveySpaceID)
+      expect(town1.privateSpaces.getSpaceForPlayer(player1.id).coveySpaceID)
         .toBe(space.coveySpaceID);
-      expect(res2.coveySpaceID)
+      expect(town1.privateSpaces.getSpaceForPlayer(player2.id).coveySpaceID)
+        .toBe('World');
+      expect(town2.privateSpaces.getSpaceForPlayer(player1.id).coveySpaceID)
         .toBe('World');
-
     });
   });
+
   describe('listSpaces', () => {
-    it('Should include all spaces', async () => {
+    it('Should include all spaces of the town, and only those', async () => {
       const town = createTownForTesting(undefined, true);
-      createSpaceForTesting('1', town.coveyTownID);
-      createSpaceForTesting('2', town.coveyTownID);
-      const spaces = CoveySpacesStore.getInstance()
-        .listSpaces();
-      expect(spaces.length)
-        .toBe(2);
+      const otherTown = createTownForTesting(undefined, true);
+      town.privateSpaces.createSpace('1');
+      town.privateSpaces.createSpace('2');
+      otherTown.privateSpaces.createSpace('1');
+      const spaces = town.privateSpaces.listSpaces();
+      expect(spaces.map(space => space.coveySpaceID))
+        .toStrictEqual([`${town.coveyTownID}_1`, `${town.coveyTownID}_2`]);
     });
   });
-});
-//         .updateTown(town.coveyTownID, town.townUpdatePassword, friendlyName, false);
-//       expect(res3)
-//         .toBe(true);
-//       expect(town.isPubliclyListed)
-//         .toBe(false);
-//       expect(town.friendlyName)
-//         .toBe(friendlyName);
-//     });
-   });
 
-  describe('disband space', () => {
-    // it('Should check the password before deleting the town', () => {
-    //   const town = createTownForTesting();
-    //   const res = CoveyTownsStore.getInstance()
-    //     .deleteTown(town.coveyTownID, `${town.townUpdatePassword}*`);
-    //   expect(res)
-    //     .toBe(false);
-    // });
-    it('Should fail if the spaceID does not exist', async () => {
-      const res = CoveySpacesStore.getInstance()
-        .disbandSpace('abcdef', 'player1');
-      expect(res)
-        .toBe(false);
-    });
-  //   it('Should publicize the space', async () => {
-  //     const town = createTownForTesting();
-  //     const space = createSpaceForTesting('1', town.coveyTownID);
-  //     const res = CoveySpacesStore.getInstance()
-  //       .disbandSpace(space.coveySpaceID);
-
-  //     expect(space.)
-  //       .toBe(0);
-  //     expect(mockCoveyListenerTownDestroyed.mock.calls.length)
-  //       .toBe(4);
-  //   });
-   });
-
-  describe('listSpaces', () => {
-    it('Should include all spaces', async () => {
-      const town = createTownForTesting(undefined, true);
-      createSpaceForTesting('1', town.coveyTownID);
-      createSpaceForTesting('2', town.coveyTownID);
-      const spaces = CoveySpacesStore.getInstance()
-        .listSpaces();
-      expect(spaces.length)
-        .toBe(2);
-      // expect(entry[0].friendlyName)
-      //   .toBe(town.friendlyName);
-      // expect(entry[0].coveyTownID)
-      //   .toBe(town.coveyTownID);
+  describe('removeAllSpaces', () => {
+    it('Should remove the spaces of the town when it is deleted', async () => {
+      const town = createTownForTesting();
+      const space = town.privateSpaces.createSpace('1');
+      space.updateSpaceHost('host');
+      CoveyTownsStore.getInstance()
+        .deleteTown(town.coveyTownID, town.townUpdatePassword);
+      expect(town.privateSpaces.listSpaces())
+        .toStrictEqual([]);
+      expect(space.spaceHostID)
+        .toBe(null);
     });
-//     it('Should include each CoveyTownID if there are multiple towns with the same friendlyName', async () => {
-//       const town = createTownForTesting(undefined, true);
-//       const secondTown = createTownForTesting(town.friendlyName, true);
-//       const towns = CoveyTownsStore.getInstance()
-//         .getTowns()
-//         .filter(townInfo => townInfo.friendlyName === town.friendlyName);
-//       expect(towns.length)
-//         .toBe(2);
-//       expect(towns[0].friendlyName)
-//         .toBe(town.friendlyName);
-//       expect(towns[1].friendlyName)
-//         .toBe(town.friendlyName);
-
-//       if (towns[0].coveyTownID === town.coveyTownID) {
-//         expect(towns[1].coveyTownID)
-//           .toBe(secondTown.coveyTownID);
-//       } else if (towns[1].coveyTownID === town.coveyTownID) {
-//         expect(towns[0].coveyTownID)
-//           .toBe(town.coveyTownID);
-//       } else {
-//         fail('Expected the coveyTownIDs to match the towns that were created');
-//       }
-
-//     });
-//     it('Should not include private towns', async () => {
-//       const town = createTownForTesting(undefined, false);
-//       const towns = CoveyTownsStore.getInstance()
-//         .getTowns()
-//         .filter(townInfo => townInfo.friendlyName === town.friendlyName || townInfo.coveyTownID === town.coveyTownID);
-//       expect(towns.length)
-//         .toBe(0);
-//     });
-//     it('Should not include private towns, even if there is a public town of same name', async () => {
-//       const town = createTownForTesting(undefined, false);
-//       const town2 = createTownForTesting(town.friendlyName, true);
-//       const towns = CoveyTownsStore.getInstance()
-//         .getTowns()
-//         .filter(townInfo => townInfo.friendlyName === town.friendlyName || townInfo.coveyTownID === town.coveyTownID);
-//       expect(towns.length)
-//         .toBe(1);
-//       expect(towns[0].coveyTownID)
-//         .toBe(town2.coveyTownID);
-//       expect(towns[0].friendlyName)
-//         .toBe(town2.friendlyName);
-//     });
-//     it('Should not include deleted towns', async () => {
-//       const town = createTownForTesting(undefined, true);
-//       const towns = CoveyTownsStore.getInstance()
-//         .getTowns()
-//         .filter(townInfo => townInfo.friendlyName === town.friendlyName || townInfo.coveyTownID === town.coveyTownID);
-//       expect(towns.length)
-//         .toBe(1);
-//       const res = CoveyTownsStore.getInstance()
-//         .deleteTown(town.coveyTownID, town.townUpdatePassword);
-//       expect(res)
-//         .toBe(true);
-//       const townsPostDelete = CoveyTownsStore.getInstance()
-//         .getTowns()
-//         .filter(townInfo => townInfo.friendlyName === town.friendlyName || townInfo.coveyTownID === town.coveyTownID);
-//       expect(townsPostDelete.length)
-//         .toBe(0);
-//     });
-//   });
-// });
   });
+});
@@ -1,18 +1,41 @@
-import { CoveySpaceInfo } from '../CoveyTypes';
+import { nanoid } from 'nanoid';
+import {
+  CoveySpaceInfo, HostSuccessionPolicy, SpaceProperties, SpaceReservation, UserLocation,
+} from '../CoveyTypes';
 import CoveySpaceController  from './CoveySpaceController';
-import CoveyTownsStore from './CoveyTownsStore';
+import CoveyTownController from './CoveyTownController';
+import CoveyTownMap from './CoveyTownMap';
+import { ExportedSpace, StoredSpace } from './ITownsStorage';
 
+/** How far ahead a space may be reserved */
+const MAX_RESERVATION_ADVANCE_MS = 7 * 24 * 60 * 60 * 1000;
 
+/** The longest that a space may be reserved for at once */
+const MAX_RESERVATION_DURATION_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Checks that a reservation window has not ended yet, is at most 8 hours long and starts within
+ * the next 7 days
+ * @param start when the reservation starts, in milliseconds since the epoch
+ * @param end when the reservation ends, in milliseconds since the epoch
+ */
+export function isValidReservationWindow(start: number, end: number): boolean {
+  return Number.isFinite(start) && Number.isFinite(end) && start < end && end > Date.now()
+    && end - start <= MAX_RESERVATION_DURATION_MS && start <= Date.now() + MAX_RESERVATION_ADVANCE_MS;
+}
+
+/**
+ * The registry of spaces for a single town: each CoveyTownController owns one CoveySpacesStore,
+ * so that spaces and their players never leak across towns
+ */
 export default class CoveySpacesStore {
-  private static _instance: CoveySpacesStore;
+  /** The town that owns the spaces in this store */
+  private readonly _townController: CoveyTownController;
 
   private _spaces: CoveySpaceController[] = [];
 
-  static getInstance(): CoveySpacesStore {
-    if (CoveySpacesStore._instance === undefined) {
-      CoveySpacesStore._instance = new CoveySpacesStore();
-    }
-    return CoveySpacesStore._instance;
+  constructor(townController: CoveyTownController) {
+    this._townController = townController;
   }
 
   /**
@@ -25,91 +48,200 @@ export default class CoveySpacesStore {
   }
 
   /**
-   * List all spaces
+   * List all spaces in this town
    */
   listSpaces(): CoveySpaceInfo[] {
-    return this._spaces.map(spaceController => ({
-      coveySpaceID: spaceController.coveySpaceID, 
-      currentPlayers: spaceController.players.map(player => player.id),
-      whitelist: spaceController.whitelist.map(player => player.id),
-      hostID: spaceController.spaceHostID,
-      presenterID: spaceController.presenterID,
-    }));
+    return this._spaces.map(spaceController => spaceController.toSpaceInfo());
+  }
+
+  /**
+   * Gets the controller of the space that the given player is a member of
+   * @param playerID the ID of the player
+   */
+  getControllerForPlayer(playerID: string): CoveySpaceController | undefined {
+    return this._spaces.find((space) => space.isPlayerInSpace(playerID));
+  }
+
+  /**
+   * Gets the controller of the space drawn around the given location
+   * @param location a location in the town
+   */
+  getControllerForLocation(location: UserLocation): CoveySpaceController | undefined {
+    return this._spaces.find((space) => space.containsLocation(location));
   }
 
   /**
    * Gets space where the given player is in
    */
   getSpaceForPlayer(playerID: string): CoveySpaceInfo {
-    const spaceForPlayer = this._spaces.find((space) => space.isPlayerInSpace(playerID));
+    const spaceForPlayer = this.getControllerForPlayer(playerID);
 
     if (spaceForPlayer !== undefined) {
-      return {
-        coveySpaceID: spaceForPlayer.coveySpaceID,
-        currentPlayers: spaceForPlayer.players.map(player => player.id),
-        whitelist: spaceForPlayer.whitelist.map(player => player.id),
-        hostID: spaceForPlayer.spaceHostID,
-        presenterID: spaceForPlayer.presenterID,
-      };
+      return spaceForPlayer.toSpaceInfo();
     }
     return {
       coveySpaceID: 'World',
       currentPlayers: [],
       whitelist: [],
+      invitedNames: [],
       hostID: null,
+      hostIdentity: null,
+      coHosts: [],
+      successionPolicy: 'publicizeAfterGracePeriod',
       presenterID: null,
+      capacity: null,
+      waitingLine: [],
+      reservedUntil: null,
     };
   }
 
   /**
-   * Creates a new space
-   * @param newSpaceID the ID for the new space
-   * @param townController ID for the town this space belongs to
-   * @returns the space with the given ID
+   * Takes a player out of the waiting lines of every space (a player waits for one space at a time)
+   * @param playerID the ID of the player
    */
-  createSpace(newSpaceID: string, townControllerID: string): CoveySpaceController {
-    const townsStore = CoveyTownsStore.getInstance();
-    const townController = townsStore.getControllerForTown(townControllerID);
+  leaveWaitingLines(playerID: string): void {
+    this._spaces.forEach(space => space.leaveWaitingLine(playerID));
+  }
 
-    if (townController === undefined) {
-      throw new Error('Town not found.');
-    }
+  /**
+   * Checks whether this town has a space with the given ID
+   * @param spaceID the ID of the space within the town (without the town's ID)
+   */
+  hasSpace(spaceID: string): boolean {
+    return this.getControllerForSpace(`${this._townController.coveyTownID}_${spaceID}`) !== undefined;
+  }
 
-    // The uniqueID for the space is combination of townControllerID and the spaceID
-    const uniqueID = `${townControllerID}_${newSpaceID}`;
+  /**
+   * Creates a new space in this town
+   * @param newSpaceID the ID for the new space, which no other space of the town may have
+   * @param properties the bounds, capacity and default privacy of the space
+   * @returns the space with the given ID
+   */
+  createSpace(newSpaceID: string, properties: SpaceProperties = {}): CoveySpaceController {
+    if (this.hasSpace(newSpaceID)) {
+      throw new Error(`Space ${newSpaceID} already exists`);
+    }
+    // The uniqueID for the space is combination of the town's ID and the spaceID
+    const uniqueID = `${this._townController.coveyTownID}_${newSpaceID}`;
 
-    const newSpace = new CoveySpaceController(uniqueID, townController);
+    const newSpace = new CoveySpaceController(uniqueID, this._townController, properties);
     this._spaces.push(newSpace);
     return newSpace;
   }
 
   /**
-   * Updates a private space based on the host's request
+   * Checks whether a player may manage a space: its host and co-hosts may, and so may the players
+   * whose town role allows managing every space
+   * @param space the space
+   * @param playerID the ID for the player
+   */
+  private mayManage(space: CoveySpaceController, playerID: string): boolean {
+    if (space.hasHostPrivileges(playerID)) {
+      return true;
+    }
+    const player = this._townController.players.find(p => p.id === playerID);
+    return player !== undefined && this._townController.hasPermission(player, 'manageSpaces');
+  }
+
+  /**
+   * Updates a private space based on the request of its host, a co-host or a town moderator (or
+   * claims it, if it has no host)
    * @param coveySpaceId the ID number for a covey space
    * @param playerID the ID for the player who sent the request
-   * @param spaceHost the desired host of a space that may or maynot be updated
+   * @param spaceHost the desired host of a space: claims an unclaimed space, hands a claimed space over to another player, or (if null) makes it public
    * @param spacePresenterID the ID for the player who is the presenter
-   * @param whitelist the desired whitelist of a space that may or maynot be updated
+   * @param whitelist the desired whitelist (identities) of a space that may or maynot be updated
+   * @param capacity the desired capacity of a space (null for no limit), only the host may set it
+   * @param invitedNames the desired user names invited into a space that may or maynot be updated
+   * @param coHosts the desired co-hosts (identities) of a space, only the host may set them
+   * @param successionPolicy what happens to the space when its host leaves, only the host may set it
    */
-  updateSpace(coveySpaceID: string, playerID: string, spaceHostID?: string | null, spacePresenterID?: string | null, whitelist?: string[]): boolean {
+  updateSpace(coveySpaceID: string, playerID: string, spaceHostID?: string | null, spacePresenterID?: string | null, whitelist?: string[], capacity?: number | null, invitedNames?: string[], coHosts?: string[], successionPolicy?: HostSuccessionPolicy): boolean {
     const hostedSpace = this.getControllerForSpace(coveySpaceID);
-    if (hostedSpace !== undefined){
-      if (hostedSpace.spaceHostID === null || playerID === hostedSpace.spaceHostID){
-        if (spaceHostID !== undefined) {
-          hostedSpace.updateSpaceHost(spaceHostID);
-        }
-        if (whitelist !== undefined) {
-          hostedSpace.updateWhitelist(whitelist);
-        }
-        if (spacePresenterID !== undefined) {
-          hostedSpace.updatePresenter(spacePresenterID);
-        }
-        return true;
-      }
+    if (hostedSpace === undefined) {
+      return false;
     }
-    return false;
+    // Every permission that the update needs is checked before any of it is applied
+    const isClaimed = hostedSpace.hostIdentity !== null;
+    const mayManage = this.mayManage(hostedSpace, playerID);
+    if (isClaimed && !mayManage) {
+      return false;
+    }
+    // Players may only claim a space for themselves, from inside of it
+    const claims = !isClaimed && typeof spaceHostID === 'string';
+    if (claims && (spaceHostID !== playerID || !hostedSpace.isPlayerInSpace(playerID))) {
+      return false;
+    }
+    // Only the host (or whoever claims the space) may set its capacity, co-hosts and succession policy
+    if ((capacity !== undefined || coHosts !== undefined || successionPolicy !== undefined)
+      && !mayManage && !claims) {
+      return false;
+    }
+    const newHostID = isClaimed && spaceHostID && spaceHostID !== hostedSpace.spaceHostID
+      ? spaceHostID : undefined;
+    if (newHostID !== undefined && hostedSpace.playerFromID(newHostID) === undefined) {
+      return false;
+    }
+
+    if ((spaceHostID === null || claims) && !hostedSpace.updateSpaceHost(spaceHostID ?? null)) {
+      return false;
+    }
+    if (whitelist !== undefined) {
+      hostedSpace.updateWhitelist(whitelist);
+    }
+    if (invitedNames !== undefined) {
+      hostedSpace.updateInvitedNames(invitedNames);
+    }
+    if (spacePresenterID !== undefined) {
+      hostedSpace.updatePresenter(spacePresenterID);
+    }
+    if (capacity !== undefined) {
+      hostedSpace.updateCapacity(capacity);
+    }
+    if (coHosts !== undefined) {
+      hostedSpace.updateCoHosts(coHosts);
+    }
+    if (successionPolicy !== undefined) {
+      hostedSpace.updateSuccessionPolicy(successionPolicy);
+    }
+    // The space is handed over last, so that the other changes are still made by its host
+    if (newHostID !== undefined) {
+      return hostedSpace.transferHost(newHostID);
+    }
+    return true;
   }
   
+  /**
+   * Answers a knock on a private space, if the player answering may manage it
+   * @param coveySpaceID the ID of the space that was knocked on
+   * @param playerID the ID for the player who answers the knock
+   * @param knockerID the ID for the player who knocked
+   * @param accept whether to let the knocking player in
+   * @returns false if the player may not manage the space, or there is no such knock
+   */
+  answerKnock(coveySpaceID: string, playerID: string, knockerID: string, accept: boolean): boolean {
+    const space = this.getControllerForSpace(coveySpaceID);
+    if (space === undefined || !this.mayManage(space, playerID)) {
+      return false;
+    }
+    return space.answerKnock(knockerID, accept);
+  }
+
+  /**
+   * Removes a player from a space, if the player asking may manage it
+   * @param coveySpaceID the ID of the space
+   * @param playerID the ID for the player who asks
+   * @param kickedPlayerID the ID for the player to remove
+   * @returns false if the player asking may not manage the space, or the other player is not a member
+   */
+  kickPlayer(coveySpaceID: string, playerID: string, kickedPlayerID: string): boolean {
+    const space = this.getControllerForSpace(coveySpaceID);
+    if (space === undefined || !this.mayManage(space, playerID)) {
+      return false;
+    }
+    return space.kickPlayer(kickedPlayerID);
+  }
+
   /**
   * Removes all players from the space in means to disband the space (returns back to original state)
   * @param spaceID the spaceID for the space they would like to leave
@@ -118,11 +250,140 @@ export default class CoveySpacesStore {
   disbandSpace(spaceID: string, playerID: string): boolean {
     const spaceController = this.getControllerForSpace(spaceID);
 
-    if (spaceController !== undefined && spaceController.spaceHostID === playerID) {
+    if (spaceController !== undefined && this.mayManage(spaceController, playerID)) {
       spaceController.publicizeSpace();
       return true;
     }
     return false;
   }
 
+  /**
+   * Applies the succession policy of every space hosted by a player who has left the town
+   * @param identity the identity of the player who left
+   */
+  hostLeft(identity: string): void {
+    this._spaces.filter(space => space.hostIdentity === identity)
+      .forEach(space => space.hostLeft());
+  }
+
+  /**
+   * Reserves a space for a time window, for the player who asks (who hosts it during the window)
+   * @param coveySpaceID the ID of the space to reserve
+   * @param playerID the ID for the player who asks
+   * @param start when the reservation starts, in milliseconds since the epoch
+   * @param end when the reservation ends, in milliseconds since the epoch
+   * @param whitelist the identities of the players allowed into the space during the window
+   * @param presenterIdentity the identity of the presenter during the window, if any
+   * @returns the reservation, or undefined if the space is already reserved for part of the window
+   */
+  reserveSpace(coveySpaceID: string, playerID: string, start: number, end: number,
+    whitelist: string[], presenterIdentity: string | null): SpaceReservation | undefined {
+    const space = this.getControllerForSpace(coveySpaceID);
+    const host = this._townController.players.find(p => p.id === playerID);
+    if (space === undefined || host === undefined) {
+      return undefined;
+    }
+    const reservation: SpaceReservation = {
+      reservationID: nanoid(),
+      coveySpaceID,
+      hostIdentity: host.identity,
+      hostName: host.userName,
+      start,
+      end,
+      whitelist: whitelist.filter((identity, index) => whitelist.indexOf(identity) === index),
+      presenterIdentity,
+    };
+    return space.addReservation(reservation) ? reservation : undefined;
+  }
+
+  /**
+   * Lists the reservations of every space in this town that have not ended yet, earliest first
+   */
+  listReservations(): SpaceReservation[] {
+    return this._spaces.reduce((reservations: SpaceReservation[], space) => reservations
+      .concat(space.reservations), [])
+      .sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Cancels a reservation, if the player asking made it or may manage every space
+   * @param reservationID the reservation to cancel
+   * @param playerID the ID for the player who asks
+   * @returns false if there is no such reservation, or the player may not cancel it
+   */
+  cancelReservation(reservationID: string, playerID: string): boolean {
+    const player = this._townController.players.find(p => p.id === playerID);
+    const space = this._spaces.find(s => s.reservations
+      .some(reservation => reservation.reservationID === reservationID));
+    const reservation = space?.reservations.find(r => r.reservationID === reservationID);
+    if (player === undefined || space === undefined || reservation === undefined
+      || (reservation.hostIdentity !== player.identity
+        && !this._townController.hasPermission(player, 'manageSpaces'))) {
+      return false;
+    }
+    return space.cancelReservation(reservationID);
+  }
+
+  /**
+   * Creates a space for every space drawn on the map of this town (of the spaces drawn with the
+   * same ID, only the first one)
+   * @param map the map of this town
+   */
+  createSpacesFromMap(map: CoveyTownMap): void {
+    map.spaces
+      .filter(space => !this.hasSpace(space.spaceID))
+      .forEach(space => this.createSpace(space.spaceID, space));
+  }
+
+  /**
+   * Takes a snapshot of the settings of every space in this town, as saved to the towns storage
+   */
+  toStoredSpaces(): StoredSpace[] {
+    return this._spaces.map(space => space.toStoredSpace());
+  }
+
+  /**
+   * Restores the settings of the spaces of this town from the towns storage (settings of spaces
+   * that no longer exist are ignored)
+   * @param storedSpaces the settings that were saved for the spaces
+   */
+  restoreSpaces(storedSpaces: StoredSpace[]): void {
+    storedSpaces.forEach(storedSpace => this.getControllerForSpace(storedSpace.coveySpaceID)
+      ?.restoreSettings(storedSpace));
+  }
+
+  /**
+   * Takes a snapshot of how every space in this town is defined and of its settings, for a town
+   * export
+   */
+  toExportedSpaces(): ExportedSpace[] {
+    // Spaces are exported by their ID within the town, which does not change in a copy of it
+    const townPrefixLength = this._townController.coveyTownID.length + 1;
+    return this._spaces.map(space => space.toExportedSpace(space.coveySpaceID.slice(townPrefixLength)));
+  }
+
+  /**
+   * Recreates the spaces of a town export in this town: the spaces that are not drawn on the map
+   * are created as they were defined, and every space takes the settings it was exported with
+   * @param exportedSpaces the spaces of the town export
+   */
+  importSpaces(exportedSpaces: ExportedSpace[]): void {
+    exportedSpaces.forEach(({ spaceID, settings, ...properties }) => {
+      const space = this.getControllerForSpace(`${this._townController.coveyTownID}_${spaceID}`)
+        ?? this.createSpace(spaceID, properties);
+      space.restoreSettings({ ...settings, coveySpaceID: space.coveySpaceID });
+    });
+  }
+
+  /**
+   * Removes every space from this town, returning each one to its public state (used when the
+   * town is deleted)
+   */
+  removeAllSpaces(): void {
+    this._spaces.forEach(space => {
+      space.clearReservations();
+      space.publicizeSpace();
+    });
+    this._spaces = [];
+  }
 }
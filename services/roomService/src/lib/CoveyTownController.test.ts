@@ -1,24 +1,26 @@
 import {nanoid} from 'nanoid';
 import {mock, mockReset} from 'jest-mock-extended';
 import {Socket} from 'socket.io';
-import TwilioVideo from './TwilioVideo';
 import Player from '../types/Player';
-import CoveyTownController from './CoveyTownController';
+import CoveyTownController, { RECONNECT_GRACE_PERIOD_MS, TICK_INTERVAL_MS } from './CoveyTownController';
 import CoveyTownListener from '../types/CoveyTownListener';
+import CoveyTownQueueListener from '../types/CoveyTownQueueListener';
 import {UserLocation} from '../CoveyTypes';
 import PlayerSession from '../types/PlayerSession';
 import {townSubscriptionHandler} from '../requestHandlers/CoveyTownRequestHandlers';
 import CoveyTownsStore from './CoveyTownsStore';
 import * as TestUtils from '../client/TestUtils';
 
-jest.mock('./TwilioVideo');
-
 const mockGetTokenForTown = jest.fn();
-// eslint-disable-next-line
-// @ts-ignore it's a mock
-TwilioVideo.getInstance = () => ({
-  getTokenForTown: mockGetTokenForTown,
-});
+const mockUpdateTrackSubscriptions = jest.fn();
+// Every town gets this mock video client, whichever video provider is configured
+jest.mock('./VideoClientFactory', () => ({
+  __esModule: true,
+  default: () => ({
+    getTokenForTown: mockGetTokenForTown,
+    updateTrackSubscriptions: mockUpdateTrackSubscriptions,
+  }),
+}));
 
 function generateTestLocation(): UserLocation {
   return {
@@ -32,6 +34,7 @@ function generateTestLocation(): UserLocation {
 describe('CoveyTownController', () => {
   beforeEach(() => {
     mockGetTokenForTown.mockClear();
+    mockUpdateTrackSubscriptions.mockClear();
   });
   it('constructor should set the friendlyName property', () => { // Included in handout
     const townName = `FriendlyNameTest-${nanoid()}`;
@@ -52,92 +55,726 @@ describe('CoveyTownController', () => {
 
   describe('town listeners and events', () => {
     let testingTown: CoveyTownController;
-    const mockListeners = [mock<CoveyTownListener>(),
-      mock<CoveyTownListener>(),
-      mock<CoveyTownListener>()];
+    const mockListener = mock<CoveyTownListener>();
+    const replacedListener = mock<CoveyTownListener>();
     beforeEach(() => {
       const townName = `town listeners and events tests ${nanoid()}`;
       testingTown = new CoveyTownController(townName, false);
-      mockListeners.forEach(mockReset);
+      mockReset(mockListener);
+      mockReset(replacedListener);
     });
-    it('should notify added listeners of player movement when updatePlayerLocation is called', async () => {
+    it('should notify the town listener of player movement when updatePlayerLocation is called', async () => {
       const player = new Player('test player');
       await testingTown.addPlayer(player);
       const newLocation = generateTestLocation();
-      mockListeners.forEach(listener => testingTown.addTownListener(listener));
+      testingTown.townListener = mockListener;
+      jest.useFakeTimers();
       testingTown.updatePlayerLocation(player, newLocation);
-      mockListeners.forEach(listener => expect(listener.onPlayerMoved).toBeCalledWith(player));
+      jest.advanceTimersByTime(TICK_INTERVAL_MS);
+      jest.useRealTimers();
+      expect(mockListener.onPlayersMoved).toBeCalledWith([{ movedPlayer: player, recipientIDs: [player.id] }]);
     });
-    it('should notify added listeners of player disconnections when destroySession is called', async () => {
+    it('should notify the town listener of player disconnections when destroySession is called', async () => {
       const player = new Player('test player');
       const session = await testingTown.addPlayer(player);
 
-      mockListeners.forEach(listener => testingTown.addTownListener(listener));
+      testingTown.townListener = mockListener;
       testingTown.destroySession(session);
-      mockListeners.forEach(listener => expect(listener.onPlayerDisconnected).toBeCalledWith(player));
+      expect(mockListener.onPlayerDisconnected).toBeCalledWith(player);
     });
-    it('should notify added listeners of new players when addPlayer is called', async () => {
-      mockListeners.forEach(listener => testingTown.addTownListener(listener));
+    it('should notify the town listener of new players when addPlayer is called', async () => {
+      testingTown.townListener = mockListener;
 
       const player = new Player('test player');
       await testingTown.addPlayer(player);
-      mockListeners.forEach(listener => expect(listener.onPlayerJoined).toBeCalledWith(player));
+      expect(mockListener.onPlayerJoined).toBeCalledWith(player);
 
     });
-    it('should notify added listeners that the town is destroyed when disconnectAllPlayers is called', async () => {
+    it('should notify the town listener that the town is destroyed when disconnectAllPlayers is called', async () => {
       const player = new Player('test player');
       await testingTown.addPlayer(player);
 
-      mockListeners.forEach(listener => testingTown.addTownListener(listener));
+      testingTown.townListener = mockListener;
       testingTown.disconnectAllPlayers();
-      mockListeners.forEach(listener => expect(listener.onTownDestroyed).toBeCalled());
+      expect(mockListener.onTownDestroyed).toBeCalled();
 
     });
-    it('should not notify removed listeners of player movement when updatePlayerLocation is called', async () => {
+    it('should send only the latest location of each player that moved, once per tick', async () => {
+      const player = new Player('test player');
+      const otherPlayer = new Player('other player');
+      await testingTown.addPlayer(player);
+      await testingTown.addPlayer(otherPlayer);
+      testingTown.townListener = mockListener;
+      jest.useFakeTimers();
+      testingTown.updatePlayerLocation(player, generateTestLocation());
+      testingTown.updatePlayerLocation(otherPlayer, generateTestLocation());
+      const lastLocation = generateTestLocation();
+      testingTown.updatePlayerLocation(player, lastLocation);
+      expect(mockListener.onPlayersMoved).not.toBeCalled();
+      jest.advanceTimersByTime(TICK_INTERVAL_MS);
+      expect(mockListener.onPlayersMoved).toBeCalledTimes(1);
+      expect(mockListener.onPlayersMoved.mock.calls[0][0].map(({ movedPlayer }) => movedPlayer))
+        .toStrictEqual([player, otherPlayer]);
+      expect(player.location).toMatchObject(lastLocation);
+      jest.advanceTimersByTime(TICK_INTERVAL_MS);
+      jest.useRealTimers();
+      expect(mockListener.onPlayersMoved).toBeCalledTimes(1);
+    });
+    it('should not notify replaced listeners of player movement when updatePlayerLocation is called', async () => {
       const player = new Player('test player');
       await testingTown.addPlayer(player);
 
-      mockListeners.forEach(listener => testingTown.addTownListener(listener));
+      testingTown.townListener = replacedListener;
       const newLocation = generateTestLocation();
-      const listenerRemoved = mockListeners[1];
-      testingTown.removeTownListener(listenerRemoved);
+      testingTown.townListener = mockListener;
+      jest.useFakeTimers();
       testingTown.updatePlayerLocation(player, newLocation);
-      expect(listenerRemoved.onPlayerMoved).not.toBeCalled();
+      jest.advanceTimersByTime(TICK_INTERVAL_MS);
+      jest.useRealTimers();
+      expect(replacedListener.onPlayersMoved).not.toBeCalled();
     });
-    it('should not notify removed listeners of player disconnections when destroySession is called', async () => {
+    it('should not notify replaced listeners of player disconnections when destroySession is called', async () => {
       const player = new Player('test player');
       const session = await testingTown.addPlayer(player);
 
-      mockListeners.forEach(listener => testingTown.addTownListener(listener));
-      const listenerRemoved = mockListeners[1];
-      testingTown.removeTownListener(listenerRemoved);
+      testingTown.townListener = replacedListener;
+      testingTown.townListener = mockListener;
       testingTown.destroySession(session);
-      expect(listenerRemoved.onPlayerDisconnected).not.toBeCalled();
+      expect(replacedListener.onPlayerDisconnected).not.toBeCalled();
 
     });
-    it('should not notify removed listeners of new players when addPlayer is called', async () => {
+    it('should not notify replaced listeners of new players when addPlayer is called', async () => {
       const player = new Player('test player');
 
-      mockListeners.forEach(listener => testingTown.addTownListener(listener));
-      const listenerRemoved = mockListeners[1];
-      testingTown.removeTownListener(listenerRemoved);
+      testingTown.townListener = replacedListener;
+      testingTown.townListener = mockListener;
       const session = await testingTown.addPlayer(player);
       testingTown.destroySession(session);
-      expect(listenerRemoved.onPlayerJoined).not.toBeCalled();
+      expect(replacedListener.onPlayerJoined).not.toBeCalled();
     });
 
-    it('should not notify removed listeners that the town is destroyed when disconnectAllPlayers is called', async () => {
+    it('should not notify replaced listeners that the town is destroyed when disconnectAllPlayers is called', async () => {
       const player = new Player('test player');
       await testingTown.addPlayer(player);
 
-      mockListeners.forEach(listener => testingTown.addTownListener(listener));
-      const listenerRemoved = mockListeners[1];
-      testingTown.removeTownListener(listenerRemoved);
+      testingTown.townListener = replacedListener;
+      testingTown.townListener = mockListener;
       testingTown.disconnectAllPlayers();
-      expect(listenerRemoved.onTownDestroyed).not.toBeCalled();
+      expect(replacedListener.onTownDestroyed).not.toBeCalled();
 
     });
   });
+  describe('space membership', () => {
+    let testingTown: CoveyTownController;
+    let player: Player;
+    const mockListener = mock<CoveyTownListener>();
+    const spaceBounds = { x: 100, y: 100, width: 100, height: 100 };
+    const insideSpace: UserLocation = { rotation: 'back', moving: true, x: 150, y: 120 };
+    const outsideSpace: UserLocation = { rotation: 'back', moving: true, x: 20, y: 20 };
+    beforeEach(async () => {
+      // The space is drawn in the walls of the default map: these tests use a map that is not in
+      // the catalog, which players do not collide with
+      testingTown = new CoveyTownController(`space membership tests ${nanoid()}`, false, undefined,
+        undefined, undefined, 'no-such-map');
+      testingTown.privateSpaces.createSpace('1', { bounds: spaceBounds });
+      player = new Player('test player');
+      await testingTown.addPlayer(player);
+      mockReset(mockListener);
+      testingTown.townListener = mockListener;
+    });
+    it('should add players to the space that they walk into', () => {
+      const spaceID = `${testingTown.coveyTownID}_1`;
+      expect(testingTown.updatePlayerLocation(player, insideSpace))
+        .toBe(true);
+      expect(testingTown.privateSpaces.getSpaceForPlayer(player.id).coveySpaceID)
+        .toBe(spaceID);
+      expect(player.location.space)
+        .toBe(spaceID);
+      expect(mockListener.onPlayerJoinedSpace).toBeCalledWith(player, expect.objectContaining({ coveySpaceID: spaceID, currentPlayers: [player.id] }));
+    });
+    it('should remove players from the space that they walk out of', () => {
+      const spaceID = `${testingTown.coveyTownID}_1`;
+      testingTown.updatePlayerLocation(player, insideSpace);
+      testingTown.updatePlayerLocation(player, outsideSpace);
+      expect(testingTown.privateSpaces.getSpaceForPlayer(player.id).coveySpaceID)
+        .toBe('World');
+      expect(player.location.space)
+        .toBe('World');
+      expect(mockListener.onPlayerLeftSpace).toBeCalledWith(player, expect.objectContaining({ coveySpaceID: spaceID, currentPlayers: [] }));
+    });
+    it('should bounce players out of private spaces they are not allowed into', async () => {
+      const host = new Player('host');
+      await testingTown.addPlayer(host);
+      testingTown.updatePlayerLocation(host, insideSpace);
+      testingTown.privateSpaces.getControllerForSpace(`${testingTown.coveyTownID}_1`)?.updateSpaceHost(host.id);
+
+      testingTown.updatePlayerLocation(player, outsideSpace);
+      expect(testingTown.updatePlayerLocation(player, insideSpace))
+        .toBe(false);
+      expect(player.location)
+        .toStrictEqual({ ...outsideSpace, space: 'World' });
+      expect(mockListener.onPlayerBounced).toBeCalledWith(player);
+      expect(mockListener.onPlayerJoinedSpace).not.toBeCalledWith(player, expect.anything());
+    });
+    it('should bounce the players that are not the host out of a space when it is claimed', async () => {
+      const host = new Player('host');
+      await testingTown.addPlayer(host);
+      testingTown.updatePlayerLocation(host, insideSpace);
+      testingTown.updatePlayerLocation(player, insideSpace);
+      testingTown.privateSpaces.getControllerForSpace(`${testingTown.coveyTownID}_1`)?.updateSpaceHost(host.id);
+      expect(mockListener.onPlayerBounced).toBeCalledWith(player);
+      expect(mockListener.onPlayerBounced).not.toBeCalledWith(host);
+      expect(player.location.space)
+        .toBe('World');
+      expect(player.location.y)
+        .toBeLessThan(spaceBounds.y);
+    });
+    it('should remove players from their space when their session is destroyed', async () => {
+      const session = await testingTown.addPlayer(new Player('leaving player'));
+      testingTown.updatePlayerLocation(session.player, insideSpace);
+      testingTown.destroySession(session);
+      expect(mockListener.onPlayerLeftSpace).toBeCalledWith(session.player, expect.objectContaining({ coveySpaceID: `${testingTown.coveyTownID}_1` }));
+      expect(testingTown.privateSpaces.listSpaces()[0].currentPlayers)
+        .toStrictEqual([]);
+    });
+  });
+  describe('reconnecting', () => {
+    let testingTown: CoveyTownController;
+    let session: PlayerSession;
+    const mockListener = mock<CoveyTownListener>();
+    const spaceID = () => `${testingTown.coveyTownID}_1`;
+    const insideSpace: UserLocation = { rotation: 'back', moving: false, x: 150, y: 120 };
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      testingTown = new CoveyTownController(`reconnecting tests ${nanoid()}`, false);
+      testingTown.privateSpaces.createSpace('1', { bounds: { x: 100, y: 100, width: 100, height: 100 } });
+      session = await testingTown.addPlayer(new Player('test player'));
+      testingTown.connectSession(session);
+      testingTown.updatePlayerLocation(session.player, insideSpace);
+      mockReset(mockListener);
+      testingTown.townListener = mockListener;
+    });
+    afterEach(() => {
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    });
+    it('should keep the session of a player who lost their connection until the grace period is over', () => {
+      testingTown.disconnectSession(session);
+      expect(session.player.isReconnecting).toBe(true);
+      expect(mockListener.onPlayerReconnecting).toBeCalledWith(session.player);
+      expect(testingTown.getSessionByToken(session.sessionToken)).toBe(session);
+      expect(testingTown.privateSpaces.getSpaceForPlayer(session.player.id).coveySpaceID)
+        .toBe(spaceID());
+
+      jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
+      expect(testingTown.getSessionByToken(session.sessionToken)).toBeUndefined();
+      expect(mockListener.onPlayerDisconnected).toBeCalledWith(session.player);
+    });
+    it('should resume the session, location and host role of a player who connects again in time', () => {
+      testingTown.privateSpaces.getControllerForSpace(spaceID())?.updateSpaceHost(session.player.id);
+      testingTown.disconnectSession(session);
+      jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS - 1);
+      expect(testingTown.connectSession(session)).toBe(true);
+      expect(session.player.isReconnecting).toBe(false);
+      expect(mockListener.onPlayerReconnected).toBeCalledWith(session.player);
+
+      jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
+      expect(testingTown.getSessionByToken(session.sessionToken)).toBe(session);
+      expect(session.player.location).toStrictEqual({ ...insideSpace, space: spaceID() });
+      expect(testingTown.privateSpaces.getSpaceForPlayer(session.player.id))
+        .toEqual(expect.objectContaining({ coveySpaceID: spaceID(), hostID: session.player.id }));
+      expect(mockListener.onPlayerDisconnected).not.toBeCalled();
+    });
+    it('should only start the grace period once every connection of the session is closed', () => {
+      expect(testingTown.connectSession(session)).toBe(false);
+      testingTown.disconnectSession(session);
+      expect(mockListener.onPlayerReconnecting).not.toBeCalled();
+      testingTown.disconnectSession(session);
+      expect(mockListener.onPlayerReconnecting).toBeCalledWith(session.player);
+    });
+    it('should destroy the session right away when the player closed their last connection on purpose', () => {
+      testingTown.disconnectSession(session, true);
+      expect(testingTown.getSessionByToken(session.sessionToken)).toBeUndefined();
+      expect(mockListener.onPlayerReconnecting).not.toBeCalled();
+      expect(mockListener.onPlayerDisconnected).toBeCalledWith(session.player);
+    });
+    it('should not keep the session of a kicked player', () => {
+      testingTown.disconnectSession(session);
+      testingTown.kickPlayer(session.player.id, 'Spamming');
+      jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
+      expect(mockListener.onPlayerDisconnected).toBeCalledTimes(1);
+    });
+  });
+  describe('space events', () => {
+    let testingTown: CoveyTownController;
+    let host: Player;
+    let guest: Player;
+    let spaceID: string;
+    const mockListener = mock<CoveyTownListener>();
+    beforeEach(async () => {
+      testingTown = new CoveyTownController(`space events tests ${nanoid()}`, false);
+      spaceID = testingTown.privateSpaces.createSpace('1').coveySpaceID;
+      host = new Player('host');
+      guest = new Player('guest');
+      await testingTown.addPlayer(host);
+      await testingTown.addPlayer(guest);
+      testingTown.privateSpaces.getControllerForSpace(spaceID)?.addPlayer(host.id);
+      testingTown.privateSpaces.getControllerForSpace(spaceID)?.addPlayer(guest.id);
+      mockReset(mockListener);
+      testingTown.townListener = mockListener;
+    });
+    it('should notify listeners with the claimed space, and of the players removed from it', () => {
+      testingTown.privateSpaces.updateSpace(spaceID, host.id, host.id);
+      expect(mockListener.onSpaceClaimed).toBeCalledWith(spaceID);
+      expect(mockListener.onSpaceUpdated).toBeCalledWith({
+        coveySpaceID: spaceID, currentPlayers: [host.id], whitelist: [], invitedNames: [], hostID: host.id, hostIdentity: host.identity,
+        coHosts: [], successionPolicy: 'publicizeAfterGracePeriod', presenterID: null, capacity: null, waitingLine: [], reservedUntil: null,
+      });
+      expect(mockListener.onPlayerLeftSpace).toBeCalledWith(guest, expect.objectContaining({ currentPlayers: [host.id] }));
+    });
+    it('should notify listeners when the whitelist changes', () => {
+      testingTown.privateSpaces.updateSpace(spaceID, host.id, host.id);
+      mockReset(mockListener);
+      testingTown.privateSpaces.updateSpace(spaceID, host.id, undefined, undefined, [guest.identity]);
+      expect(mockListener.onSpaceUpdated).toBeCalledWith(expect.objectContaining({ whitelist: [guest.identity] }));
+    });
+    it('should notify listeners when the presenter changes, but not when it stays the same', () => {
+      testingTown.privateSpaces.updateSpace(spaceID, host.id, host.id, guest.id);
+      expect(mockListener.onPresenterChanged).toBeCalledWith(expect.objectContaining({ presenterID: guest.id }));
+      mockReset(mockListener);
+      testingTown.privateSpaces.updateSpace(spaceID, host.id, undefined, guest.id);
+      expect(mockListener.onPresenterChanged).not.toBeCalled();
+    });
+    it('should notify listeners when a claimed space is disbanded', () => {
+      testingTown.privateSpaces.disbandSpace(spaceID, host.id);
+      expect(mockListener.onSpaceDisbanded).not.toBeCalled();
+      testingTown.privateSpaces.updateSpace(spaceID, host.id, host.id);
+      testingTown.privateSpaces.disbandSpace(spaceID, host.id);
+      expect(mockListener.onSpaceDisbanded).toBeCalledWith(expect.objectContaining({ hostID: null }));
+    });
+  });
+  describe('video subscriptions', () => {
+    let testingTown: CoveyTownController;
+    let member: Player;
+    let outsider: Player;
+    const insideSpace: UserLocation = { rotation: 'back', moving: true, x: 150, y: 120 };
+    beforeEach(async () => {
+      testingTown = new CoveyTownController(`video subscription tests ${nanoid()}`, false);
+      testingTown.privateSpaces.createSpace('1', { bounds: { x: 100, y: 100, width: 100, height: 100 } });
+      member = new Player('member');
+      outsider = new Player('outsider');
+      await testingTown.addPlayer(member);
+      await testingTown.addPlayer(outsider);
+    });
+    it('should only subscribe members of a space to the other members', async () => {
+      const otherMember = new Player('other member');
+      await testingTown.addPlayer(otherMember);
+      testingTown.updatePlayerLocation(member, insideSpace);
+      mockUpdateTrackSubscriptions.mockClear();
+      testingTown.updatePlayerLocation(otherMember, insideSpace);
+      expect(mockUpdateTrackSubscriptions).toBeCalledWith(testingTown.coveyTownID, member.id, { subscribeTo: 'only', publishers: [otherMember.id] });
+      expect(mockUpdateTrackSubscriptions).toBeCalledWith(testingTown.coveyTownID, otherMember.id, { subscribeTo: 'only', publishers: [member.id] });
+    });
+    it('should keep the members of a space hidden from players in the World', () => {
+      testingTown.updatePlayerLocation(member, insideSpace);
+      expect(mockUpdateTrackSubscriptions).toBeCalledWith(testingTown.coveyTownID, outsider.id, { subscribeTo: 'all', except: [member.id] });
+    });
+    it('should subscribe players that leave a space to the World again', () => {
+      testingTown.updatePlayerLocation(member, insideSpace);
+      mockUpdateTrackSubscriptions.mockClear();
+      testingTown.updatePlayerLocation(member, { rotation: 'back', moving: true, x: 20, y: 20 });
+      expect(mockUpdateTrackSubscriptions).toBeCalledWith(testingTown.coveyTownID, member.id, { subscribeTo: 'all', except: [] });
+      expect(mockUpdateTrackSubscriptions).toBeCalledWith(testingTown.coveyTownID, outsider.id, { subscribeTo: 'all', except: [] });
+    });
+    it('should set the subscriptions of players once they connect to the video room', () => {
+      testingTown.updatePlayerLocation(member, insideSpace);
+      mockUpdateTrackSubscriptions.mockClear();
+      testingTown.playerVideoConnected(outsider);
+      expect(mockUpdateTrackSubscriptions).toBeCalledTimes(1);
+      expect(mockUpdateTrackSubscriptions).toBeCalledWith(testingTown.coveyTownID, outsider.id, { subscribeTo: 'all', except: [member.id] });
+    });
+  });
+  describe('chat', () => {
+    let testingTown: CoveyTownController;
+    let member: Player;
+    let outsider: Player;
+    let spaceID: string;
+    const mockListener = mock<CoveyTownListener>();
+    beforeEach(async () => {
+      testingTown = new CoveyTownController(`chat tests ${nanoid()}`, false);
+      spaceID = testingTown.privateSpaces.createSpace('1', { bounds: { x: 100, y: 100, width: 100, height: 100 } }).coveySpaceID;
+      member = new Player('member');
+      outsider = new Player('outsider');
+      await testingTown.addPlayer(member);
+      await testingTown.addPlayer(outsider);
+      testingTown.updatePlayerLocation(member, { rotation: 'back', moving: true, x: 150, y: 120 });
+      mockReset(mockListener);
+      testingTown.townListener = mockListener;
+    });
+    it('should deliver town messages to every player', () => {
+      const message = testingTown.sendChatMessage(outsider, 'town', ' hello ');
+      expect(message)
+        .toMatchObject({ senderID: outsider.id, senderName: 'outsider', scope: 'town', body: 'hello' });
+      expect(mockListener.onChatMessage).toBeCalledWith(message, [member.id, outsider.id]);
+    });
+    it('should only deliver space messages to the members of the space', () => {
+      const message = testingTown.sendChatMessage(member, `space:${spaceID}`, 'hello');
+      expect(mockListener.onChatMessage).toBeCalledWith(message, [member.id]);
+      expect(testingTown.chatHistory(outsider, `space:${spaceID}`))
+        .toStrictEqual([]);
+      expect(testingTown.chatHistory(member, `space:${spaceID}`))
+        .toStrictEqual([message]);
+    });
+    it('should not let outsiders send messages to a space', () => {
+      expect(testingTown.sendChatMessage(outsider, `space:${spaceID}`, 'hello'))
+        .toBeUndefined();
+      expect(mockListener.onChatMessage).not.toBeCalled();
+    });
+    it('should only deliver direct messages to the two players, who share their history', () => {
+      const message = testingTown.sendChatMessage(member, `direct:${outsider.id}`, 'hello');
+      expect(mockListener.onChatMessage).toBeCalledWith(message, [member.id, outsider.id]);
+      expect(testingTown.chatHistory(outsider, `direct:${member.id}`))
+        .toStrictEqual([message]);
+      expect(testingTown.sendChatMessage(member, 'direct:nobody', 'hello'))
+        .toBeUndefined();
+    });
+    it('should not send empty messages or messages to unknown scopes', () => {
+      expect(testingTown.sendChatMessage(member, 'town', '   '))
+        .toBeUndefined();
+      expect(testingTown.sendChatMessage(member, 'everyone', 'hello'))
+        .toBeUndefined();
+    });
+    it('should forget the messages of a space when it is disbanded', () => {
+      const space = testingTown.privateSpaces.getControllerForSpace(spaceID);
+      space?.updateSpaceHost(member.id);
+      testingTown.sendChatMessage(member, `space:${spaceID}`, 'secret');
+      space?.updateSpaceHost(null);
+      expect(testingTown.chatHistory(member, `space:${spaceID}`))
+        .toStrictEqual([]);
+    });
+  });
+  describe('waiting line', () => {
+    let testingTown: CoveyTownController;
+    let session: PlayerSession;
+    const mockQueueListener = mock<CoveyTownQueueListener>();
+    beforeEach(async () => {
+      // Players let in from the line get a while to join
+      jest.useFakeTimers();
+      testingTown = new CoveyTownController(`waiting line tests ${nanoid()}`, false);
+      testingTown.capacity = 1;
+      session = await testingTown.addPlayer(new Player('first'));
+      mockReset(mockQueueListener);
+    });
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+    it('should only have room for players let in from the line once the town is full', async () => {
+      expect(testingTown.hasRoomFor()).toBe(false);
+      const ticket = testingTown.joinQueue();
+      expect(testingTown.queuePosition(ticket)).toBe(1);
+      testingTown.destroySession(session);
+      expect(testingTown.queuePosition(ticket)).toBe(0);
+      expect(testingTown.hasRoomFor()).toBe(false);
+      expect(testingTown.hasRoomFor(ticket)).toBe(true);
+      await testingTown.addPlayer(new Player('second'), ticket);
+      expect(testingTown.queuePosition(ticket)).toBeUndefined();
+      expect(testingTown.hasRoomFor(ticket)).toBe(false);
+    });
+    it('should let waiting players in first come, first served, and tell the others their positions', () => {
+      const first = testingTown.joinQueue();
+      const second = testingTown.joinQueue();
+      testingTown.watchQueue(second, mockQueueListener);
+      expect(mockQueueListener.onQueuePositionChanged).toBeCalledWith(2);
+      testingTown.destroySession(session);
+      expect(testingTown.queuePosition(first)).toBe(0);
+      expect(mockQueueListener.onQueuePositionChanged).toHaveBeenLastCalledWith(1);
+      expect(mockQueueListener.onSlotAvailable).not.toBeCalled();
+    });
+    it('should let waiting players in when the capacity is raised', () => {
+      const ticket = testingTown.joinQueue();
+      testingTown.watchQueue(ticket, mockQueueListener);
+      testingTown.capacity = 2;
+      expect(mockQueueListener.onSlotAvailable).toBeCalled();
+    });
+    it('should give the slot to the next player if the admitted player does not join in time', () => {
+      const first = testingTown.joinQueue();
+      const second = testingTown.joinQueue();
+      testingTown.watchQueue(second, mockQueueListener);
+      testingTown.destroySession(session);
+      jest.runOnlyPendingTimers();
+      expect(testingTown.queuePosition(first)).toBeUndefined();
+      expect(mockQueueListener.onSlotAvailable).toBeCalled();
+    });
+    it('should move players up when someone ahead of them leaves the line', () => {
+      const first = testingTown.joinQueue();
+      const second = testingTown.joinQueue();
+      testingTown.watchQueue(second, mockQueueListener);
+      testingTown.leaveQueue(first);
+      expect(mockQueueListener.onQueuePositionChanged).toHaveBeenLastCalledWith(1);
+      expect(testingTown.watchQueue(first, mockQueueListener)).toBe(false);
+    });
+    it('should let waiting players know when the town is destroyed', () => {
+      const ticket = testingTown.joinQueue();
+      testingTown.watchQueue(ticket, mockQueueListener);
+      testingTown.disconnectAllPlayers();
+      expect(mockQueueListener.onTownDestroyed).toBeCalled();
+      expect(testingTown.queuePosition(ticket)).toBeUndefined();
+    });
+  });
+  describe('moderation', () => {
+    let testingTown: CoveyTownController;
+    let player: Player;
+    let session: PlayerSession;
+    const mockListener = mock<CoveyTownListener>();
+    beforeEach(async () => {
+      testingTown = new CoveyTownController(`moderation tests ${nanoid()}`, false);
+      player = new Player('troll');
+      session = await testingTown.addPlayer(player);
+      mockReset(mockListener);
+      testingTown.townListener = mockListener;
+    });
+    it('should destroy the session of a kicked player, and tell them why', () => {
+      expect(testingTown.kickPlayer(player.id, 'Spamming')).toBe(true);
+      expect(testingTown.getSessionByToken(session.sessionToken)).toBeUndefined();
+      expect(testingTown.players).toStrictEqual([]);
+      expect(mockListener.onPlayerDisconnected).toBeCalledTimes(1);
+      expect(mockListener.onPlayerKicked).toBeCalledWith(player, 'Spamming');
+      expect(testingTown.banFor(player.userName, player.identity)).toBeUndefined();
+      testingTown.destroySession(session);
+      expect(mockListener.onPlayerDisconnected).toBeCalledTimes(1);
+    });
+    it('should not kick players that are not in the town', () => {
+      expect(testingTown.kickPlayer(nanoid(), 'Spamming')).toBe(false);
+      expect(mockListener.onPlayerKicked).not.toBeCalled();
+    });
+    it('should keep banned players out by identity or user name, until the ban ends', () => {
+      const now = Date.now();
+      const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+      try {
+        testingTown.kickPlayer(player.id, 'Spamming', 60 * 1000);
+        expect(testingTown.banFor('new name', player.identity)).toEqual(expect.objectContaining({ reason: 'Spamming', until: now + 60 * 1000 }));
+        expect(testingTown.banFor(player.userName)).toBeDefined();
+        expect(testingTown.banFor('new name')).toBeUndefined();
+        expect(testingTown.toStoredTown().bans).toHaveLength(1);
+        dateNow.mockReturnValue(now + 60 * 1000);
+        expect(testingTown.banFor(player.userName, player.identity)).toBeUndefined();
+        expect(testingTown.toStoredTown().bans).toStrictEqual([]);
+      } finally {
+        dateNow.mockRestore();
+      }
+    });
+  });
+  describe('roles', () => {
+    let testingTown: CoveyTownController;
+    const mockListener = mock<CoveyTownListener>();
+    beforeEach(() => {
+      testingTown = new CoveyTownController(`roles tests ${nanoid()}`, false);
+      mockReset(mockListener);
+      testingTown.townListener = mockListener;
+    });
+    it('should give each role its permissions', async () => {
+      const owner = new Player('owner');
+      const moderator = new Player('moderator');
+      const member = new Player('member');
+      testingTown.setRole(owner.identity, 'owner');
+      testingTown.setRole(moderator.identity, 'moderator');
+      expect(testingTown.hasPermission(owner, 'assignRoles')).toBe(true);
+      expect(testingTown.hasPermission(owner, 'deleteTown')).toBe(true);
+      expect(testingTown.hasPermission(moderator, 'kickPlayers')).toBe(true);
+      expect(testingTown.hasPermission(moderator, 'manageSpaces')).toBe(true);
+      expect(testingTown.hasPermission(moderator, 'updateTown')).toBe(false);
+      expect(testingTown.hasPermission(member, 'kickPlayers')).toBe(false);
+    });
+    it('should tell everyone when a role changes, and only save roles other than member', () => {
+      testingTown.setRole('someone', 'moderator');
+      expect(mockListener.onRoleChanged).toBeCalledWith('someone', 'moderator');
+      expect(testingTown.toStoredTown().roles).toStrictEqual({ someone: 'moderator' });
+      testingTown.setRole('someone', 'moderator');
+      expect(mockListener.onRoleChanged).toBeCalledTimes(1);
+      testingTown.setRole('someone', 'member');
+      expect(mockListener.onRoleChanged).toBeCalledWith('someone', 'member');
+      expect(testingTown.toStoredTown().roles).toStrictEqual({});
+    });
+  });
+  describe('movement', () => {
+    let testingTown: CoveyTownController;
+    let player: Player;
+    const mockListener = mock<CoveyTownListener>();
+    // Where the body of a player at the spawn point of the default map is, just above a wall
+    const spawn: UserLocation = { rotation: 'front', moving: false, x: 336, y: 1208 };
+    beforeEach(async () => {
+      testingTown = new CoveyTownController(`movement tests ${nanoid()}`, false);
+      player = new Player('test player');
+      await testingTown.addPlayer(player);
+      mockReset(mockListener);
+      testingTown.townListener = mockListener;
+      jest.useFakeTimers();
+    });
+    afterEach(() => {
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    });
+    it('should let players arrive at a spawn point', () => {
+      expect(testingTown.movePlayer(player, spawn)).toBe(true);
+      expect(player.location).toStrictEqual({ ...spawn, space: 'World' });
+      jest.advanceTimersByTime(TICK_INTERVAL_MS);
+      expect(mockListener.onPlayersMoved).toBeCalledWith([{ movedPlayer: player, recipientIDs: [player.id] }]);
+      expect(mockListener.onPlayerMovementCorrected).not.toBeCalled();
+    });
+    it('should put players that arrive anywhere else at a spawn point', () => {
+      expect(testingTown.movePlayer(player, { ...spawn, x: 100, y: 100 })).toBe(false);
+      expect(player.location).toMatchObject({ x: spawn.x, y: spawn.y });
+      expect(mockListener.onPlayerMovementCorrected).toBeCalledWith(player);
+    });
+    it('should let players that were put at a spawn point move on from there', () => {
+      testingTown.movePlayer(player, { ...spawn, x: 100, y: 100 });
+      mockReset(mockListener);
+      expect(testingTown.movePlayer(player, { ...spawn, x: 300 })).toBe(true);
+      expect(player.location).toMatchObject({ x: 300, y: spawn.y });
+      expect(mockListener.onPlayerMovementCorrected).not.toBeCalled();
+    });
+    it('should stop players at the tiles they collide with', () => {
+      testingTown.movePlayer(player, spawn);
+      expect(testingTown.movePlayer(player, { ...spawn, x: 100, moving: true })).toBe(false);
+      expect(player.location).toMatchObject({ x: 224, y: spawn.y, moving: true });
+      expect(mockListener.onPlayerMovementCorrected).toBeCalledWith(player);
+
+      jest.advanceTimersByTime(TICK_INTERVAL_MS);
+      mockReset(mockListener);
+      expect(testingTown.movePlayer(player, { ...spawn, x: 224, y: 1300 })).toBe(false);
+      expect(player.location).toMatchObject({ x: 224, y: spawn.y });
+      jest.advanceTimersByTime(TICK_INTERVAL_MS);
+      expect(mockListener.onPlayersMoved).not.toBeCalled();
+      expect(mockListener.onPlayerMovementCorrected).toBeCalledWith(player);
+    });
+    it('should not let players move faster than the maximum speed', () => {
+      const now = Date.now();
+      const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+      try {
+        testingTown.movePlayer(player, spawn);
+        expect(testingTown.movePlayer(player, { ...spawn, x: 224 })).toBe(true);
+        expect(testingTown.movePlayer(player, { ...spawn, x: 440 })).toBe(false);
+        expect(player.location).toMatchObject({ x: 362, y: spawn.y });
+        dateNow.mockReturnValue(now + 1000);
+        expect(testingTown.movePlayer(player, { ...spawn, x: 440 })).toBe(true);
+      } finally {
+        dateNow.mockRestore();
+      }
+    });
+    it('should let players step into a transporter and arrive at its target', async () => {
+      testingTown = new CoveyTownController(`movement tests ${nanoid()}`, false, undefined, undefined,
+        undefined, 'tuxemon-town_transport');
+      await testingTown.addPlayer(player);
+      testingTown.townListener = mockListener;
+      // The fountain is the target of the transporter to the left of the spawn point
+      const fountain = { ...spawn, x: 923, y: 840 };
+      testingTown.movePlayer(player, spawn);
+      testingTown.movePlayer(player, { ...spawn, x: 224 });
+      expect(testingTown.movePlayer(player, fountain)).toBe(true);
+      expect(player.location).toStrictEqual({ ...fountain, space: 'World' });
+
+      const otherPlayer = new Player('other player');
+      await testingTown.addPlayer(otherPlayer);
+      testingTown.movePlayer(otherPlayer, spawn);
+      expect(testingTown.movePlayer(otherPlayer, fountain)).toBe(false);
+    });
+    it('should move players out of a space past an edge where they do not collide with the map', () => {
+      // The nearest edge of this space is the bottom one, which is just above a wall
+      const space = testingTown.privateSpaces.createSpace('by the wall', {
+        bounds: { x: 300, y: 1180, width: 100, height: 30 },
+      });
+      player.updateLocation(spawn);
+      testingTown.notifyPlayerKickedFromSpace(player, space);
+      expect(player.location).toMatchObject({ x: spawn.x, y: 1140, space: 'World' });
+    });
+    it('should move players out of a space that is walled in to the nearest spawn point', () => {
+      const space = testingTown.privateSpaces.createSpace('walled in', {
+        bounds: { x: 205, y: 1031, width: 2, height: 2 },
+      });
+      player.updateLocation({ ...spawn, x: 206, y: 1032 });
+      testingTown.notifyPlayerKickedFromSpace(player, space);
+      expect(player.location).toMatchObject({ x: spawn.x, y: spawn.y, space: 'World' });
+    });
+    it('should let players move anywhere in towns whose map is no longer in the catalog', async () => {
+      testingTown = new CoveyTownController(`movement tests ${nanoid()}`, false, undefined, undefined,
+        undefined, 'no-such-map');
+      await testingTown.addPlayer(player);
+      expect(testingTown.movePlayer(player, { ...spawn, x: 100, y: 100 })).toBe(true);
+      expect(testingTown.movePlayer(player, { ...spawn, x: 2000, y: 2000 })).toBe(true);
+    });
+  });
+  describe('movement broadcasting', () => {
+    let testingTown: CoveyTownController;
+    let mover: Player;
+    let nearbyPlayer: Player;
+    let farAwayPlayer: Player;
+    let dateNow: jest.SpyInstance<number, []>;
+    const now = Date.now();
+    const mockListener = mock<CoveyTownListener>();
+    const moving: UserLocation = { rotation: 'front', moving: true, x: 150, y: 100 };
+    beforeEach(async () => {
+      dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+      jest.useFakeTimers();
+      testingTown = new CoveyTownController(`movement broadcasting tests ${nanoid()}`, false);
+      mover = new Player('mover');
+      nearbyPlayer = new Player('nearby');
+      farAwayPlayer = new Player('far away');
+      await Promise.all([mover, nearbyPlayer, farAwayPlayer].map(player => testingTown.addPlayer(player)));
+      testingTown.updatePlayerLocation(nearbyPlayer, { ...moving, x: 100, moving: false });
+      testingTown.updatePlayerLocation(farAwayPlayer, { ...moving, x: 3000, moving: false });
+      testingTown.updatePlayerLocation(mover, moving);
+      jest.advanceTimersByTime(TICK_INTERVAL_MS);
+      mockReset(mockListener);
+      testingTown.townListener = mockListener;
+    });
+    afterEach(() => {
+      dateNow.mockRestore();
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    });
+    // The IDs of the players that the last movement was sent to (at the next tick), in a predictable order
+    const lastRecipientIDs = () => {
+      jest.advanceTimersByTime(TICK_INTERVAL_MS);
+      const { calls } = mockListener.onPlayersMoved.mock;
+      const movements = calls[calls.length - 1][0];
+      return [...movements[movements.length - 1].recipientIDs].sort();
+    };
+    const ids = (...players: Player[]) => players.map(player => player.id).sort();
+    it('should send the first movement of a player to every other player', async () => {
+      const newcomer = new Player('newcomer');
+      await testingTown.addPlayer(newcomer);
+      testingTown.updatePlayerLocation(newcomer, moving);
+      expect(lastRecipientIDs()).toStrictEqual(ids(mover, nearbyPlayer, farAwayPlayer, newcomer));
+    });
+    it('should only send movements to the players nearby as they happen', () => {
+      testingTown.updatePlayerLocation(mover, { ...moving, y: 120 });
+      expect(lastRecipientIDs()).toStrictEqual(ids(mover, nearbyPlayer));
+    });
+    it('should send movements to every other player once in a while, and when the player stops', () => {
+      dateNow.mockReturnValue(now + 1000);
+      testingTown.updatePlayerLocation(mover, { ...moving, y: 120 });
+      expect(lastRecipientIDs()).toStrictEqual(ids(mover, nearbyPlayer, farAwayPlayer));
+      testingTown.updatePlayerLocation(mover, { ...moving, y: 140 });
+      expect(lastRecipientIDs()).toStrictEqual(ids(mover, nearbyPlayer));
+      testingTown.updatePlayerLocation(mover, { ...moving, y: 140, moving: false });
+      expect(lastRecipientIDs()).toStrictEqual(ids(mover, nearbyPlayer, farAwayPlayer));
+    });
+    it('should send movements to the other members of the space of the player, wherever they are', () => {
+      testingTown.privateSpaces.createSpace('1', { bounds: { x: 0, y: 0, width: 4000, height: 4000 } });
+      testingTown.updatePlayerLocation(farAwayPlayer, { ...moving, x: 3000, moving: false });
+      testingTown.updatePlayerLocation(mover, { ...moving, y: 120 });
+      expect(lastRecipientIDs()).toStrictEqual(ids(mover, nearbyPlayer, farAwayPlayer));
+      testingTown.updatePlayerLocation(mover, { ...moving, y: 140 });
+      expect(lastRecipientIDs()).toStrictEqual(ids(mover, nearbyPlayer, farAwayPlayer));
+    });
+    it('should not send movements to players who left', async () => {
+      const session = await testingTown.addPlayer(new Player('leaving'));
+      testingTown.updatePlayerLocation(session.player, { ...moving, x: 120, moving: false });
+      testingTown.destroySession(session);
+      testingTown.updatePlayerLocation(mover, { ...moving, y: 120 });
+      expect(lastRecipientIDs()).toStrictEqual(ids(mover, nearbyPlayer));
+    });
+  });
   describe('townSubscriptionHandler', () => {
     const mockSocket = mock<Socket>();
     let testingTown: CoveyTownController;
@@ -160,6 +797,37 @@ describe('CoveyTownController', () => {
       townSubscriptionHandler(mockSocket);
       expect(mockSocket.disconnect).toBeCalledWith(true);
     });
+    describe('with a waiting ticket', () => {
+      it('should emit "queuePosition" and then "slotAvailable" to the socket as the player moves up', async () => {
+        jest.useFakeTimers();
+        testingTown.capacity = 1;
+        const ticket = testingTown.joinQueue();
+        mockSocket.handshake.auth = { coveyTownID: testingTown.coveyTownID, waitingTicket: ticket };
+        townSubscriptionHandler(mockSocket);
+        expect(mockSocket.emit).toBeCalledWith('queuePosition', 1);
+        testingTown.destroySession(session);
+        expect(mockSocket.emit).toBeCalledWith('slotAvailable');
+        jest.useRealTimers();
+      });
+      it('should take the player out of the line when the socket disconnects before they are let in', async () => {
+        testingTown.capacity = 1;
+        const ticket = testingTown.joinQueue();
+        mockSocket.handshake.auth = { coveyTownID: testingTown.coveyTownID, waitingTicket: ticket };
+        townSubscriptionHandler(mockSocket);
+        const disconnectHandler = mockSocket.on.mock.calls.find(call => call[0] === 'disconnect');
+        if (disconnectHandler && disconnectHandler[1]) {
+          disconnectHandler[1]();
+          expect(testingTown.queuePosition(ticket)).toBeUndefined();
+        } else {
+          fail('No disconnect handler registered');
+        }
+      });
+      it('should reject tickets that are not in line by calling disconnect', async () => {
+        mockSocket.handshake.auth = { coveyTownID: testingTown.coveyTownID, waitingTicket: nanoid() };
+        townSubscriptionHandler(mockSocket);
+        expect(mockSocket.disconnect).toBeCalledWith(true);
+      });
+    });
     describe('with a valid session token', () => {
       it('should add a town listener, which should emit "newPlayer" to the socket when a player joins', async () => {
         TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
@@ -167,12 +835,117 @@ describe('CoveyTownController', () => {
         await testingTown.addPlayer(player);
         expect(mockSocket.emit).toBeCalledWith('newPlayer', player);
       });
-      it('should add a town listener, which should emit "playerMoved" to the socket when a player moves', async () => {
+      it('should add a town listener, which should emit "playersMoved" to the socket when a player moves', async () => {
         TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
         townSubscriptionHandler(mockSocket);
+        jest.useFakeTimers();
         testingTown.updatePlayerLocation(player, generateTestLocation());
-        expect(mockSocket.emit).toBeCalledWith('playerMoved', player);
+        jest.advanceTimersByTime(TICK_INTERVAL_MS);
+        jest.useRealTimers();
+        expect(mockSocket.emit).toBeCalledWith('playersMoved', [{ playerID: player.id, location: player.location }]);
+
+      });
+      it('should only emit "playersMoved" to the sockets of the players that the movement is sent to', async () => {
+        const dateNow = jest.spyOn(Date, 'now').mockReturnValue(Date.now());
+        jest.useFakeTimers();
+        try {
+          TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+          townSubscriptionHandler(mockSocket);
+          const farAwaySession = await testingTown.addPlayer(new Player('far away player'));
+          const farAwaySocket = mock<Socket>();
+          TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, farAwaySession.sessionToken, farAwaySocket);
+          townSubscriptionHandler(farAwaySocket);
+          testingTown.updatePlayerLocation(farAwaySession.player, { rotation: 'front', moving: false, x: 3000, y: 3000 });
+          testingTown.updatePlayerLocation(player, { rotation: 'front', moving: true, x: 10, y: 10 });
+          jest.advanceTimersByTime(TICK_INTERVAL_MS);
+          expect(farAwaySocket.emit).toBeCalledWith('playersMoved', expect.arrayContaining([{ playerID: player.id, location: player.location }]));
+
+          mockReset(farAwaySocket);
+          testingTown.updatePlayerLocation(player, { rotation: 'front', moving: true, x: 10, y: 20 });
+          jest.advanceTimersByTime(TICK_INTERVAL_MS);
+          expect(mockSocket.emit).toHaveBeenLastCalledWith('playersMoved', [{ playerID: player.id, location: player.location }]);
+          expect(farAwaySocket.emit).not.toBeCalled();
+        } finally {
+          dateNow.mockRestore();
+          jest.useRealTimers();
+        }
+      });
+      it('should only emit "spaceUpdated" to the sockets of the players in the space', async () => {
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const outsiderSession = await testingTown.addPlayer(new Player('outsider'));
+        const outsiderSocket = mock<Socket>();
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, outsiderSession.sessionToken, outsiderSocket);
+        townSubscriptionHandler(outsiderSocket);
+
+        const space = testingTown.privateSpaces.createSpace('1');
+        space.addPlayer(player.id);
+        expect(mockSocket.emit).toBeCalledWith('playerEnteredSpace', { playerID: player.id, space: space.toSpaceInfo() });
+        space.updateWhitelist([player.identity]);
+        expect(mockSocket.emit).toBeCalledWith('spaceUpdated', space.toSpaceInfo());
+        expect(outsiderSocket.emit).not.toBeCalledWith('playerEnteredSpace', expect.anything());
+        expect(outsiderSocket.emit).not.toBeCalledWith('spaceUpdated', expect.anything());
+
+        // The player is told that they left, and is no longer sent the updates of the space
+        space.removePlayer(player.id);
+        expect(mockSocket.emit).toBeCalledWith('playerLeftSpace', { playerID: player.id, space: space.toSpaceInfo() });
+        mockSocket.emit.mockClear();
+        space.updateWhitelist([]);
+        expect(mockSocket.emit).not.toBeCalledWith('spaceUpdated', expect.anything());
+      });
+      it('should only emit "spaceHostChanged" to the sockets of the players in the space', async () => {
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const memberSession = await testingTown.addPlayer(new Player('member'));
+        const memberSocket = mock<Socket>();
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, memberSession.sessionToken, memberSocket);
+        townSubscriptionHandler(memberSocket);
+        const outsiderSession = await testingTown.addPlayer(new Player('outsider'));
+        const outsiderSocket = mock<Socket>();
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, outsiderSession.sessionToken, outsiderSocket);
+        townSubscriptionHandler(outsiderSocket);
 
+        const space = testingTown.privateSpaces.createSpace('1', { isPrivateByDefault: true });
+        space.addPlayer(player.id);
+        space.updateWhitelist([memberSession.player.identity]);
+        space.addPlayer(memberSession.player.id);
+        space.transferHost(memberSession.player.id);
+        expect(mockSocket.emit).toBeCalledWith('spaceHostChanged', space.toSpaceInfo());
+        expect(memberSocket.emit).toBeCalledWith('spaceHostChanged', space.toSpaceInfo());
+        expect(outsiderSocket.emit).not.toBeCalledWith('spaceHostChanged', expect.anything());
+
+        mockSocket.emit.mockClear();
+        space.removePlayer(player.id);
+        space.transferHost(player.id);
+        expect(memberSocket.emit).toBeCalledWith('spaceHostChanged', space.toSpaceInfo());
+        expect(mockSocket.emit).not.toBeCalledWith('spaceHostChanged', expect.anything());
+      });
+      it('should add a town listener, which should only emit "chatMessage" to the socket for messages to its player', async () => {
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const otherPlayer = new Player('other player');
+        const thirdPlayer = new Player('third player');
+        await testingTown.addPlayer(otherPlayer);
+        await testingTown.addPlayer(thirdPlayer);
+        testingTown.sendChatMessage(otherPlayer, `direct:${thirdPlayer.id}`, 'not for you');
+        expect(mockSocket.emit).not.toBeCalledWith('chatMessage', expect.anything());
+        const message = testingTown.sendChatMessage(otherPlayer, `direct:${player.id}`, 'for you');
+        expect(mockSocket.emit).toBeCalledWith('chatMessage', message);
+      });
+      it('should reject chat messages without a scope and a body with an error acknowledgement', async () => {
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const chatMessageHandler = mockSocket.on.mock.calls.find(call => call[0] === 'chatMessage');
+        if (chatMessageHandler && chatMessageHandler[1]) {
+          const acknowledge = jest.fn();
+          chatMessageHandler[1](null, acknowledge);
+          chatMessageHandler[1]({ scope: 'town', body: 5 }, acknowledge);
+          expect(acknowledge).toHaveBeenNthCalledWith(1, expect.objectContaining({ isOK: false }));
+          expect(acknowledge).toHaveBeenNthCalledWith(2, expect.objectContaining({ isOK: false }));
+          expect(testingTown.chatHistory(player, 'town')).toStrictEqual([]);
+        } else {
+          fail('No chatMessage handler registered');
+        }
       });
       it('should add a town listener, which should emit "playerDisconnect" to the socket when a player disconnects', async () => {
         TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
@@ -187,7 +960,20 @@ describe('CoveyTownController', () => {
         expect(mockSocket.emit).toBeCalledWith('townClosing');
         expect(mockSocket.disconnect).toBeCalledWith(true);
       });
+      it('should add a town listener, which should emit "playerKicked" to the socket and disconnect it when its player is kicked', async () => {
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        testingTown.kickPlayer(player.id, 'Spamming');
+        expect(mockSocket.emit).toBeCalledWith('playerKicked', 'Spamming');
+        expect(mockSocket.disconnect).toBeCalledWith(true);
+      });
       describe('when a socket disconnect event is fired', () => {
+        beforeEach(() => {
+          jest.useFakeTimers();
+        });
+        afterEach(() => {
+          jest.useRealTimers();
+        });
         it('should remove the town listener for that socket, and stop sending events to it', async () => {
           TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
           townSubscriptionHandler(mockSocket);
@@ -195,6 +981,7 @@ describe('CoveyTownController', () => {
           // find the 'disconnect' event handler for the socket, which should have been registered after the socket was connected
           const disconnectHandler = mockSocket.on.mock.calls.find(call => call[0] === 'disconnect');
           if (disconnectHandler && disconnectHandler[1]) {
+            TestUtils.mockNamespace.disconnect(mockSocket);
             disconnectHandler[1]();
             const newPlayer = new Player('should not be notified');
             await testingTown.addPlayer(newPlayer);
@@ -203,7 +990,7 @@ describe('CoveyTownController', () => {
             fail('No disconnect handler registered');
           }
         });
-        it('should destroy the session corresponding to that socket', async () => {
+        it('should destroy the session corresponding to that socket once the grace period is over', async () => {
           TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
           townSubscriptionHandler(mockSocket);
 
@@ -211,6 +998,7 @@ describe('CoveyTownController', () => {
           const disconnectHandler = mockSocket.on.mock.calls.find(call => call[0] === 'disconnect');
           if (disconnectHandler && disconnectHandler[1]) {
             disconnectHandler[1]();
+            jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
             mockReset(mockSocket);
             TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
             townSubscriptionHandler(mockSocket);
@@ -221,22 +1009,91 @@ describe('CoveyTownController', () => {
 
         });
       });
+      it('should resume the session, and send the current state of the town, when the client reconnects within the grace period', async () => {
+        jest.useFakeTimers();
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const otherSocket = mock<Socket>();
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, (await testingTown.addPlayer(new Player('other player'))).sessionToken, otherSocket);
+        townSubscriptionHandler(otherSocket);
+
+        const disconnectHandler = mockSocket.on.mock.calls.find(call => call[0] === 'disconnect');
+        disconnectHandler?.[1]();
+        expect(otherSocket.emit).toBeCalledWith('playerReconnecting', player);
+
+        mockReset(mockSocket);
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        jest.advanceTimersByTime(RECONNECT_GRACE_PERIOD_MS);
+        jest.useRealTimers();
+        expect(mockSocket.disconnect).not.toBeCalled();
+        expect(mockSocket.emit).toBeCalledWith('sessionResumed', expect.objectContaining({ currentPlayers: testingTown.players }));
+        expect(otherSocket.emit).toBeCalledWith('playerReconnected', player);
+        expect(testingTown.players).toContain(player);
+      });
       it('should forward playerMovement events from the socket to subscribed listeners', async () => {
         TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
         townSubscriptionHandler(mockSocket);
         const mockListener = mock<CoveyTownListener>();
-        testingTown.addTownListener(mockListener);
+        testingTown.townListener = mockListener;
         // find the 'playerMovement' event handler for the socket, which should have been registered after the socket was connected
         const playerMovementHandler = mockSocket.on.mock.calls.find(call => call[0] === 'playerMovement');
         if (playerMovementHandler && playerMovementHandler[1]) {
           const newLocation = generateTestLocation();
           player.location = newLocation;
+          jest.useFakeTimers();
           playerMovementHandler[1](newLocation);
-          expect(mockListener.onPlayerMoved).toHaveBeenCalledWith(player);
+          jest.advanceTimersByTime(TICK_INTERVAL_MS);
+          jest.useRealTimers();
+          expect(mockListener.onPlayersMoved).toHaveBeenCalledWith([expect.objectContaining({ movedPlayer: player })]);
+        } else {
+          fail('No playerMovement handler registered');
+        }
+      });
+      it('should ignore playerMovement events that are not locations', async () => {
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const playerMovementHandler = mockSocket.on.mock.calls.find(call => call[0] === 'playerMovement');
+        if (playerMovementHandler && playerMovementHandler[1]) {
+          const location = player.location;
+          [
+            null,
+            'front',
+            { rotation: 'front', moving: false, x: NaN, y: 0 },
+            { rotation: 'front', moving: false, x: 0, y: Infinity },
+            { rotation: 'up', moving: false, x: 0, y: 0 },
+            { rotation: 'front', moving: 'yes', x: 0, y: 0 },
+          ].forEach(movementData => playerMovementHandler[1](movementData));
+          expect(player.location).toBe(location);
+          expect(mockSocket.emit).not.toBeCalledWith('movementCorrected', expect.anything());
         } else {
           fail('No playerMovement handler registered');
         }
       });
+      it('should only keep the fields of a location from playerMovement events', async () => {
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const playerMovementHandler = mockSocket.on.mock.calls.find(call => call[0] === 'playerMovement');
+        if (playerMovementHandler && playerMovementHandler[1]) {
+          // The spawn point of the default map
+          const location: UserLocation = { rotation: 'front', moving: false, x: 336, y: 1208 };
+          playerMovementHandler[1]({ ...location, userName: 'someone else', payload: 'x'.repeat(100) });
+          expect(player.location).toStrictEqual({ ...location, space: 'World' });
+        } else {
+          fail('No playerMovement handler registered');
+        }
+      });
+      it('should tell only the player whose movement was corrected where they are', async () => {
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const otherSocket = mock<Socket>();
+        TestUtils.setSessionTokenAndTownID(testingTown.coveyTownID, (await testingTown.addPlayer(new Player('other player'))).sessionToken, otherSocket);
+        townSubscriptionHandler(otherSocket);
+        const playerMovementHandler = mockSocket.on.mock.calls.find(call => call[0] === 'playerMovement');
+        playerMovementHandler?.[1]({ rotation: 'front', moving: false, x: 100, y: 100 });
+        expect(mockSocket.emit).toBeCalledWith('movementCorrected', player.location);
+        expect(otherSocket.emit).not.toBeCalledWith('movementCorrected', expect.anything());
+      });
     });
   });
 });
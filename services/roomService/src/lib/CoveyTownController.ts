@@ -1,18 +1,82 @@
 
 
 import { customAlphabet, nanoid } from 'nanoid';
-import { UserLocation } from '../CoveyTypes';
+import {
+  ChatMessage, ChatScope, CoveySpaceInfo, KnockOutcome, SpaceKnock, TownBan, TownPermission,
+  TownRole, UserLocation,
+} from '../CoveyTypes';
 import CoveyTownListener from '../types/CoveyTownListener';
+import CoveyTownQueueListener from '../types/CoveyTownQueueListener';
 import Player from '../types/Player';
 import PlayerSession from '../types/PlayerSession';
-import TwilioVideo from './TwilioVideo';
-import IVideoClient from './IVideoClient';
+import IVideoClient, { TrackSubscriptionRules } from './IVideoClient';
 import CoveySpacesStore  from './CoveySpacesStore';
-import CoveySpaceController from './CoveySpaceController';
+import videoClientFromConfiguration from './VideoClientFactory';
+import type CoveySpaceController from './CoveySpaceController';
+import { hashPassword, logError } from '../Utils';
+import ITownsStorage, { StoredTown, TOWN_EXPORT_VERSION, TownExport } from './ITownsStorage';
+import ChatHistory from './ChatHistory';
+import MapCatalog, { DEFAULT_MAP_ID } from './MapCatalog';
+import { MapPoint } from './CoveyTownMap';
+import PlayerGrid from './PlayerGrid';
 
 
 const friendlyNanoID = customAlphabet('1234567890ABCDEF', 8);
 
+/** The longest chat message that players can send (in characters) */
+const MAX_CHAT_MESSAGE_LENGTH = 1000;
+
+/** How long a player that was let in from the waiting line has to join, before their slot is given away */
+const ADMISSION_TIMEOUT_MS = 60 * 1000;
+
+/** How long the session of a player who lost their connection is kept, so that they can resume it */
+export const RECONNECT_GRACE_PERIOD_MS = 30 * 1000;
+
+/** How fast players may move, in pixels per second (faster than the frontend moves them, to allow for lag) */
+const MAX_PLAYER_SPEED = 250;
+
+/** How far players may move at once after their movements were held up (e.g. by lag), in pixels */
+const MAX_MOVEMENT_BURST = MAX_PLAYER_SPEED;
+
+/** How far from a player (in pixels) the movements of other players are sent to them as they happen */
+const AREA_OF_INTEREST_RADIUS = 600;
+
+/** How often the movements of a player are sent to the players who are farther away */
+const DISTANT_MOVEMENT_INTERVAL_MS = 1000;
+
+/** How many times a second the movements of players are sent, unless COVEY_TICK_RATE says otherwise */
+const DEFAULT_TICK_RATE = 15;
+
+/** How long the movements of players are collected before they are sent together, in milliseconds */
+export const TICK_INTERVAL_MS = 1000 / (Number(process.env.COVEY_TICK_RATE) || DEFAULT_TICK_RATE);
+
+/** What each role may do in the town */
+const ROLE_PERMISSIONS: { [role in TownRole]: TownPermission[] } = {
+  owner: ['updateTown', 'deleteTown', 'kickPlayers', 'manageSpaces', 'assignRoles'],
+  moderator: ['kickPlayers', 'manageSpaces'],
+  member: [],
+};
+
+/** A player waiting in line to join a full town */
+type WaitingPlayer = {
+  /** The ticket that the player uses to join once let in */
+  ticket: string;
+  /** Whether a slot has been set aside for the player */
+  admitted: boolean;
+  /** Notified of the player's progress in line, once they watch it */
+  listener?: CoveyTownQueueListener;
+  /** Gives the slot away if the player does not join in time */
+  admissionTimer?: ReturnType<typeof setTimeout>;
+};
+
+/** How far a player may still move, which grows back with time at the maximum speed */
+type MovementAllowance = {
+  /** The distance, in pixels */
+  distance: number;
+  /** When the distance was last updated, in milliseconds since the epoch */
+  updatedAt: number;
+};
+
 /**
  * The CoveyTownController implements the logic for each town: managing the various events that
  * can occur (e.g. joining a town, moving, leaving a town)
@@ -22,6 +86,11 @@ export default class CoveyTownController {
     return this._capacity;
   }
 
+  set capacity(value: number) {
+    this._capacity = value;
+    this.admitWaitingPlayers();
+  }
+
   set isPubliclyListed(value: boolean) {
     this._isPubliclyListed = value;
   }
@@ -30,16 +99,22 @@ export default class CoveyTownController {
     return this._isPubliclyListed;
   }
 
+  // gets the password that allows updating the town ('' for towns loaded from the storage)
   get townUpdatePassword(): string {
     return this._townUpdatePassword;
   }
 
+  // gets the hash of the password that allows updating the town
+  get townUpdatePasswordHash(): string {
+    return this._townUpdatePasswordHash;
+  }
+
   get players(): Player[] {
     return this._players;
   }
 
   get occupancy(): number {
-    return this._listeners.length;
+    return this._players.length;
   }
 
   get friendlyName(): string {
@@ -54,54 +129,192 @@ export default class CoveyTownController {
     return this._coveyTownID;
   }
 
+  // gets the map that the town uses (its ID in the map catalog)
+  get mapID(): string {
+    return this._mapID;
+  }
+
   get privateSpaces(): CoveySpacesStore {
     return this._privateSpaces;
   }
 
+  // gets the role of each player (by identity) that is not a plain member
+  get roles(): { [identity: string]: TownRole } {
+    const roles: { [identity: string]: TownRole } = {};
+    this._roles.forEach((role, identity) => {
+      roles[identity] = role;
+    });
+    return roles;
+  }
+
+  get townListener(): CoveyTownListener | undefined {
+    return this._listener;
+  }
+
+  set townListener(listener: CoveyTownListener | undefined) {
+    this._listener = listener;
+  }
+
   /** The list of players currently in the town * */
   private _players: Player[] = [];
   
   /** All the private spaces in this town * */
-  private _privateSpaces: CoveySpacesStore;
+  private readonly _privateSpaces: CoveySpacesStore;
 
   /** The list of valid sessions for this town * */
   private _sessions: PlayerSession[] = [];
 
   /** The videoClient that this CoveyTown will use to provision video resources * */
-  private _videoClient: IVideoClient = TwilioVideo.getInstance();
+  private readonly _videoClient: IVideoClient;
+
+  /** The recent chat messages of each conversation in this town * */
+  private _chatHistory = new ChatHistory();
 
-  /** The list of CoveyTownListeners that are subscribed to events in this town * */
-  private _listeners: CoveyTownListener[] = [];
+  /** The number of open connections of each session, by session token * */
+  private _connectionCounts = new Map<string, number>();
+
+  /** Ends each session that lost all its connections once its grace period is over, by session token * */
+  private _reconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /** How far each player that moved since joining may still move, by player ID * */
+  private _movementAllowances = new Map<string, MovementAllowance>();
+
+  /** Where each player that moved since joining is, for finding the players near a movement * */
+  private _playerGrid = new PlayerGrid(AREA_OF_INTEREST_RADIUS);
+
+  /** When the movements of each player were last sent to every player, by player ID * */
+  private _lastMovementBroadcasts = new Map<string, number>();
+
+  /** The players that moved since the last tick, and who their movements are sent to, by player ID * */
+  private _pendingMovements = new Map<string, { movedPlayer: Player; recipientIDs: Set<string> }>();
+
+  /** Sends the pending movements at the next tick, while there are any * */
+  private _tickTimer?: ReturnType<typeof setTimeout>;
+
+  /** Where the events of this town are sent: the adapter that emits them to the socket.io rooms
+   * of the town, of its spaces and of its players, once a socket connected to the town * */
+  private _listener?: CoveyTownListener;
+
+  /** The players waiting to join this town while it is full, in the order they arrived * */
+  private _waitingPlayers: WaitingPlayer[] = [];
+
+  /** The players that may not join this town again for a while * */
+  private _bans: TownBan[] = [];
+
+  /** The role of each player (by identity, so that it is kept when they join again) that is not a plain member * */
+  private _roles = new Map<string, TownRole>();
 
   private readonly _coveyTownID: string;
 
   private _friendlyName: string;
 
+  /** The map that this town uses, which never changes (its spaces are drawn on it) * */
+  private readonly _mapID: string;
+
   private readonly _townUpdatePassword: string;
 
+  /** The hash of the update password, which is what gets checked (and saved) * */
+  private readonly _townUpdatePasswordHash: string;
+
+  /** The storage that this town saves itself to, if any * */
+  private readonly _storage?: ITownsStorage;
+
   private _isPubliclyListed: boolean;
 
   private _capacity: number;
 
-  constructor(friendlyName: string, isPubliclyListed: boolean) {
-    this._coveyTownID = (process.env.DEMO_TOWN_ID === friendlyName ? friendlyName : friendlyNanoID());
-    this._capacity = 50;
-    this._townUpdatePassword = nanoid(24);
+  /**
+   * @param friendlyName the name of the town
+   * @param isPubliclyListed whether the town is listed
+   * @param videoClient the video client to provision video resources with (the one selected by
+   *                    the configuration, unless given)
+   * @param storage the storage to save the town to whenever its settings change
+   * @param storedTown the town as it was saved, when loading it back from the storage
+   * @param mapID the map that a new town uses (the default map, unless given)
+   */
+  constructor(friendlyName: string, isPubliclyListed: boolean,
+    videoClient: IVideoClient = videoClientFromConfiguration(), storage?: ITownsStorage,
+    storedTown?: StoredTown, mapID: string = DEFAULT_MAP_ID) {
+    if (storedTown) {
+      this._coveyTownID = storedTown.coveyTownID;
+      this._mapID = storedTown.mapID ?? DEFAULT_MAP_ID;
+      this._capacity = storedTown.capacity;
+      this._townUpdatePassword = '';
+      this._townUpdatePasswordHash = storedTown.townUpdatePasswordHash;
+      this._bans = storedTown.bans ?? [];
+      this._roles = new Map(Object.entries(storedTown.roles ?? {}));
+    } else {
+      this._coveyTownID = (process.env.DEMO_TOWN_ID === friendlyName ? friendlyName : friendlyNanoID());
+      this._mapID = mapID;
+      this._capacity = 50;
+      this._townUpdatePassword = nanoid(24);
+      this._townUpdatePasswordHash = hashPassword(this._townUpdatePassword);
+    }
     this._isPubliclyListed = isPubliclyListed;
     this._friendlyName = friendlyName;
-    this._privateSpaces = CoveySpacesStore.getInstance();
+    this._videoClient = videoClient;
+    this._storage = storage;
+    this._privateSpaces = new CoveySpacesStore(this);
+  }
+
+
+  /**
+   * Takes a snapshot of the settings of this town and its spaces, as saved to the storage
+   */
+  toStoredTown(): StoredTown {
+    return {
+      coveyTownID: this._coveyTownID,
+      friendlyName: this._friendlyName,
+      isPubliclyListed: this._isPubliclyListed,
+      capacity: this._capacity,
+      mapID: this._mapID,
+      townUpdatePasswordHash: this._townUpdatePasswordHash,
+      spaces: this._privateSpaces.toStoredSpaces(),
+      bans: this.currentBans(),
+      roles: this.roles,
+    };
   }
 
+  /**
+   * Takes a snapshot of the configuration of this town and its spaces, to back it up or to
+   * create copies of it (without its ID, update password, players or bans)
+   */
+  toTownExport(): TownExport {
+    return {
+      version: TOWN_EXPORT_VERSION,
+      exportedAt: Date.now(),
+      friendlyName: this._friendlyName,
+      isPubliclyListed: this._isPubliclyListed,
+      capacity: this._capacity,
+      mapID: this._mapID,
+      roles: this.roles,
+      spaces: this._privateSpaces.toExportedSpaces(),
+    };
+  }
+
+  /**
+   * Saves this town to its storage (if it has one)
+   */
+  save(): void {
+    this._storage?.saveTown(this.toStoredTown());
+  }
 
   /**
    * Adds a player to this Covey Town, provisioning the necessary credentials for the
    * player, and returning them
    *
    * @param newPlayer The new player to add to the town
+   * @param waitingTicket the ticket of the player, if they were let in from the waiting line
    */
-  async addPlayer(newPlayer: Player): Promise<PlayerSession> {
+  async addPlayer(newPlayer: Player, waitingTicket?: string): Promise<PlayerSession> {
     const theSession = new PlayerSession(newPlayer);
 
+    // The slot that was set aside for the player is now taken by them
+    const waitingPlayer = this._waitingPlayers.find((w) => w.ticket === waitingTicket);
+    if (waitingPlayer) {
+      this.removeWaitingPlayer(waitingPlayer);
+    }
+
     this._sessions.push(theSession);
     this._players.push(newPlayer);
 
@@ -109,7 +322,7 @@ export default class CoveyTownController {
     theSession.videoToken = await this._videoClient.getTokenForTown(this._coveyTownID, newPlayer.id);
 
     // Notify other players that this player has joined
-    this._listeners.forEach((listener) => listener.onPlayerJoined(newPlayer));
+    this._listener?.onPlayerJoined(newPlayer);
 
     return theSession;
   }
@@ -120,39 +333,473 @@ export default class CoveyTownController {
    * @param session PlayerSession to destroy
    */
   destroySession(session: PlayerSession): void {
-    this._players = this._players.filter((p) => p.id !== session.player.id);
+    // A kicked player's socket disconnects after their session was destroyed
+    if (!this._sessions.includes(session)) {
+      return;
+    }
     this._sessions = this._sessions.filter((s) => s.sessionToken !== session.sessionToken);
-    this._listeners.forEach((listener) => listener.onPlayerDisconnected(session.player));
+    this.stopReconnectTimer(session);
+    this._connectionCounts.delete(session.sessionToken);
+    this._privateSpaces.getControllerForPlayer(session.player.id)?.removePlayer(session.player.id);
+    this._privateSpaces.leaveWaitingLines(session.player.id);
+    this._players = this._players.filter((p) => p.id !== session.player.id);
+    this._movementAllowances.delete(session.player.id);
+    this._playerGrid.removePlayer(session.player.id);
+    this._lastMovementBroadcasts.delete(session.player.id);
+    this._pendingMovements.delete(session.player.id);
+    // The same player may still be in the town from another tab
+    if (!this._players.some((p) => p.identity === session.player.identity)) {
+      this._privateSpaces.hostLeft(session.player.identity);
+    }
+    this._listener?.onPlayerDisconnected(session.player);
+    this.admitWaitingPlayers();
+  }
+
+  /**
+   * Records that a client connected with a session. If the session had lost all its
+   * connections, its player resumes it as they left it (in the same location and space, with
+   * the same host role) and everyone is told that they are back.
+   *
+   * @param session the session that the client connected with
+   * @returns true if the session was resumed
+   */
+  connectSession(session: PlayerSession): boolean {
+    const token = session.sessionToken;
+    this._connectionCounts.set(token, (this._connectionCounts.get(token) ?? 0) + 1);
+    if (!this._reconnectTimers.has(token)) {
+      return false;
+    }
+    this.stopReconnectTimer(session);
+    session.player.setReconnecting(false);
+    this._listener?.onPlayerReconnected(session.player);
+    return true;
+  }
+
+  /**
+   * Records that a connection of a session closed. Once the session has no connection left,
+   * it is destroyed if the player left on purpose; otherwise its player is shown as
+   * reconnecting, and the session is destroyed unless a client connects with it again within
+   * the grace period.
+   *
+   * @param session the session that the connection belonged to
+   * @param hasLeft whether the connection was closed on purpose (rather than lost)
+   */
+  disconnectSession(session: PlayerSession, hasLeft = false): void {
+    // A kicked player's socket disconnects after their session was destroyed
+    if (!this._sessions.includes(session)) {
+      return;
+    }
+    const token = session.sessionToken;
+    const connectionCount = (this._connectionCounts.get(token) ?? 1) - 1;
+    if (connectionCount > 0) {
+      this._connectionCounts.set(token, connectionCount);
+      return;
+    }
+    if (hasLeft) {
+      this.destroySession(session);
+      return;
+    }
+    this._connectionCounts.delete(token);
+    session.player.setReconnecting(true);
+    this._reconnectTimers.set(token, setTimeout(() => this.destroySession(session),
+      RECONNECT_GRACE_PERIOD_MS));
+    this._listener?.onPlayerReconnecting(session.player);
+  }
+
+  private stopReconnectTimer(session: PlayerSession): void {
+    const timer = this._reconnectTimers.get(session.sessionToken);
+    if (timer) {
+      clearTimeout(timer);
+      this._reconnectTimers.delete(session.sessionToken);
+    }
+  }
+
+  /**
+   * Gets the role of a player in this town
+   * @param identity the identity of the player
+   */
+  roleOf(identity: string): TownRole {
+    return this._roles.get(identity) ?? 'member';
+  }
+
+  /**
+   * Checks whether the role of a player allows a town management action
+   * @param player the player
+   * @param permission the action
+   */
+  hasPermission(player: Player, permission: TownPermission): boolean {
+    return ROLE_PERMISSIONS[this.roleOf(player.identity)].includes(permission);
+  }
+
+  /**
+   * Changes the role of a player in this town (who may be away), and lets everyone know
+   * @param identity the identity of the player
+   * @param role the new role
+   */
+  setRole(identity: string, role: TownRole): void {
+    if (this.roleOf(identity) === role) {
+      return;
+    }
+    if (role === 'member') {
+      this._roles.delete(identity);
+    } else {
+      this._roles.set(identity, role);
+    }
+    this.save();
+    this._listener?.onRoleChanged(identity, role);
+  }
+
+  /**
+   * Removes a player from the town, disconnecting them with the given reason, and keeps them
+   * from joining again (by identity or by user name) for a while if they are banned
+   * @param playerID the ID of the player to remove
+   * @param reason why the player was removed, as told to them
+   * @param banDurationMs how long the player may not join again (not at all, unless given)
+   * @returns false if the player is not in the town
+   */
+  kickPlayer(playerID: string, reason: string, banDurationMs = 0): boolean {
+    const session = this._sessions.find((s) => s.player.id === playerID);
+    if (!session) {
+      return false;
+    }
+    const { player } = session;
+    if (banDurationMs > 0) {
+      this._bans = this.currentBans()
+        .filter((ban) => ban.identity !== player.identity)
+        .concat({
+          userName: player.userName, identity: player.identity, reason, until: Date.now() + banDurationMs,
+        });
+      this.save();
+    }
+    this.destroySession(session);
+    this._listener?.onPlayerKicked(player, reason);
+    return true;
+  }
+
+  /**
+   * Finds the ban that keeps a player from joining this town, if any
+   * @param userName the user name the player wants to join with
+   * @param identity the identity of the player, if they proved one
+   */
+  banFor(userName: string, identity?: string): TownBan | undefined {
+    return this.currentBans()
+      .find((ban) => ban.identity === identity || ban.userName === userName);
+  }
+
+  // gets the bans that have not ended yet
+  private currentBans(): TownBan[] {
+    const now = Date.now();
+    return this._bans.filter((ban) => ban.until > now);
+  }
+
+  /**
+   * Checks whether a player can join the town now: either there is a free slot and nobody is
+   * waiting for it, or the player was let in from the waiting line
+   * @param waitingTicket the ticket of the player, if they waited in line
+   */
+  hasRoomFor(waitingTicket?: string): boolean {
+    if (this._waitingPlayers.some((w) => w.ticket === waitingTicket && w.admitted)) {
+      return true;
+    }
+    return this.freeSlots() > 0 && !this._waitingPlayers.some((w) => !w.admitted);
+  }
+
+  /**
+   * Puts a player at the end of the line to join this town. The player is let in right away if
+   * there is room.
+   * @returns the ticket that the player uses to follow the line and then join the town
+   */
+  joinQueue(): string {
+    const ticket = nanoid();
+    this._waitingPlayers.push({ ticket, admitted: false });
+    this.admitWaitingPlayers();
+    return ticket;
   }
 
   /**
-   * Updates the location of a player within the town
+   * Gets the position of a player in the line to join this town
+   * @param waitingTicket the ticket returned by joinQueue
+   * @returns 0 if the player was let in, or undefined if the ticket is not in line
+   */
+  queuePosition(waitingTicket: string): number | undefined {
+    const waitingPlayer = this._waitingPlayers.find((w) => w.ticket === waitingTicket);
+    if (!waitingPlayer) {
+      return undefined;
+    }
+    if (waitingPlayer.admitted) {
+      return 0;
+    }
+    return this._waitingPlayers.filter((w) => !w.admitted).indexOf(waitingPlayer) + 1;
+  }
+
+  /**
+   * Subscribes to the progress of a player in the line to join this town, letting the listener
+   * know where the player currently stands
+   * @param waitingTicket the ticket returned by joinQueue
+   * @param listener notified as the player moves up the line
+   * @returns false if the ticket is not in line
+   */
+  watchQueue(waitingTicket: string, listener: CoveyTownQueueListener): boolean {
+    const waitingPlayer = this._waitingPlayers.find((w) => w.ticket === waitingTicket);
+    const position = this.queuePosition(waitingTicket);
+    if (!waitingPlayer || position === undefined) {
+      return false;
+    }
+    waitingPlayer.listener = listener;
+    if (waitingPlayer.admitted) {
+      listener.onSlotAvailable();
+    } else {
+      listener.onQueuePositionChanged(position);
+    }
+    return true;
+  }
+
+  /**
+   * Takes a player out of the line to join this town (giving their slot away if they were let in)
+   * @param waitingTicket the ticket returned by joinQueue
+   */
+  leaveQueue(waitingTicket: string): void {
+    const waitingPlayer = this._waitingPlayers.find((w) => w.ticket === waitingTicket);
+    if (waitingPlayer) {
+      this.removeWaitingPlayer(waitingPlayer);
+      this.admitWaitingPlayers();
+    }
+  }
+
+  // gets the number of slots that are neither taken by players nor set aside for waiting players
+  private freeSlots(): number {
+    const admittedPlayers = this._waitingPlayers.filter((w) => w.admitted).length;
+    return this._capacity - this._players.length - admittedPlayers;
+  }
+
+  private removeWaitingPlayer(waitingPlayer: WaitingPlayer): void {
+    if (waitingPlayer.admissionTimer) {
+      clearTimeout(waitingPlayer.admissionTimer);
+    }
+    this._waitingPlayers = this._waitingPlayers.filter((w) => w !== waitingPlayer);
+  }
+
+  /**
+   * Sets free slots aside for the players at the front of the line, giving each of them a while
+   * to join, and lets the players still waiting know their new positions
+   */
+  private admitWaitingPlayers(): void {
+    let next = this._waitingPlayers.find((w) => !w.admitted);
+    while (next && this.freeSlots() > 0) {
+      const admitted = next;
+      admitted.admitted = true;
+      admitted.admissionTimer = setTimeout(() => this.leaveQueue(admitted.ticket),
+        ADMISSION_TIMEOUT_MS);
+      admitted.listener?.onSlotAvailable();
+      next = this._waitingPlayers.find((w) => !w.admitted);
+    }
+    this._waitingPlayers
+      .filter((w) => !w.admitted)
+      .forEach((w, index) => w.listener?.onQueuePositionChanged(index + 1));
+  }
+
+  /**
+   * Updates the location of a player within the town, moving them in or out of the spaces
+   * that the location is in. Players that are not allowed into a space, or find it full, are
+   * bounced out of it (those that find it full wait in its line, and those that are not allowed
+   * in may knock).
    * @param player Player to update location for
    * @param location New location for this player
+   * @returns false if the player was bounced instead of moved
    */
-  updatePlayerLocation(player: Player, location: UserLocation): void {
-    player.updateLocation(location);
-    this._listeners.forEach((listener) => listener.onPlayerMoved(player));
+  updatePlayerLocation(player: Player, location: UserLocation): boolean {
+    const currentSpace = this._privateSpaces.getControllerForPlayer(player.id);
+    const newSpace = this._privateSpaces.getControllerForLocation(location);
+
+    if (newSpace !== undefined && newSpace !== currentSpace) {
+      const joinResult = newSpace.addPlayer(player.id, location);
+      if (joinResult !== 'joined') {
+        this.bouncePlayer(player, newSpace);
+        if (joinResult === 'notAllowed') {
+          const space = newSpace.toSpaceInfo();
+          this._listener?.onSpaceEntryDenied(player, space);
+        }
+        return false;
+      }
+    }
+    if (currentSpace !== undefined && currentSpace !== newSpace) {
+      currentSpace.removePlayer(player.id);
+    }
+
+    const previousLocation = player.location;
+    player.updateLocation({ ...location, space: newSpace?.coveySpaceID || 'World' });
+    this.queueMovement(player, this.movementRecipientIDs(player, previousLocation));
+    return true;
   }
 
   /**
-   * Subscribe to events from this town. Callers should make sure to
-   * unsubscribe when they no longer want those events by calling removeTownListener
-   *
-   * @param listener New listener
+   * Adds a movement to those sent at the next tick: only the latest location of each player is
+   * sent, to everyone who was to be sent any of their movements since the last tick
+   * @param player the player that moved, at their new location
+   * @param recipientIDs the IDs of the players that the movement is sent to
    */
-  addTownListener(listener: CoveyTownListener): void {
-    this._listeners.push(listener);
+  private queueMovement(player: Player, recipientIDs: string[]): void {
+    const pending = this._pendingMovements.get(player.id);
+    if (pending) {
+      recipientIDs.forEach((id) => pending.recipientIDs.add(id));
+    } else {
+      this._pendingMovements.set(player.id, { movedPlayer: player, recipientIDs: new Set(recipientIDs) });
+    }
+    // The town only ticks while players move
+    if (!this._tickTimer) {
+      this._tickTimer = setTimeout(() => this.tick(), TICK_INTERVAL_MS);
+    }
   }
 
   /**
-   * Unsubscribe from events in this town.
-   *
-   * @param listener The listener to unsubscribe, must be a listener that was registered
-   * with addTownListener, or otherwise will be a no-op
+   * Sends the movements of the players since the last tick, all at once
+   */
+  private tick(): void {
+    this._tickTimer = undefined;
+    const movements = Array.from(this._pendingMovements.values())
+      .map(({ movedPlayer, recipientIDs }) => ({ movedPlayer, recipientIDs: Array.from(recipientIDs) }));
+    this._pendingMovements.clear();
+    if (movements.length > 0) {
+      this._listener?.onPlayersMoved(movements);
+    }
+  }
+
+  /**
+   * Finds the players who are sent a movement of a player: the player themselves, the players
+   * near where the player was or is now, and the other members of their space. Every other player is only sent a movement
+   * every so often (and when the player stops, or changes spaces), which is enough to show them
+   * on the map.
+   * @param player the player that moved, at their new location
+   * @param previousLocation where the player was before moving
+   */
+  private movementRecipientIDs(player: Player, previousLocation: UserLocation): string[] {
+    const isFirstMovement = !this._lastMovementBroadcasts.has(player.id);
+    this._playerGrid.updatePlayer(player.id, player.location);
+    const now = Date.now();
+    if (isFirstMovement || !player.location.moving || player.location.space !== previousLocation.space
+      || now - (this._lastMovementBroadcasts.get(player.id) || 0) >= DISTANT_MOVEMENT_INTERVAL_MS) {
+      this._lastMovementBroadcasts.set(player.id, now);
+      return this._players.map((p) => p.id);
+    }
+    const recipientIDs = new Set([
+      player.id,
+      ...this._playerGrid.playersNear(previousLocation, AREA_OF_INTEREST_RADIUS),
+      ...this._playerGrid.playersNear(player.location, AREA_OF_INTEREST_RADIUS),
+      ...(this._privateSpaces.getControllerForPlayer(player.id)?.players.map((p) => p.id) || []),
+    ]);
+    return Array.from(recipientIDs);
+  }
+
+  /**
+   * Moves a player as they asked to, if the map lets them: players may not walk through the tiles
+   * that they collide with, nor faster than the maximum speed, and arrive at a spawn point (or
+   * are transported). Players that ask for more are moved as far as they can go, and told where
+   * they are instead. Towns whose map is no longer in the catalog let players move anywhere.
+   * @param player the player that moves
+   * @param location where the player asked to move
+   * @returns false if the player was not moved where they asked
+   */
+  movePlayer(player: Player, location: UserLocation): boolean {
+    const reachable = this.reachableLocation(player, location);
+    if (reachable.x === location.x && reachable.y === location.y) {
+      return this.updatePlayerLocation(player, location);
+    }
+    if ((reachable.x !== player.location.x || reachable.y !== player.location.y)
+      && !this.updatePlayerLocation(player, { ...location, ...reachable })) {
+      // The player was bounced out of a space, and told where they are
+      return false;
+    }
+    this._listener?.onPlayerMovementCorrected(player);
+    return false;
+  }
+
+  /**
+   * Finds how close a player can get to where they asked to move, using up their movement
+   * allowance
+   */
+  private reachableLocation(player: Player, location: UserLocation): MapPoint {
+    const townMap = MapCatalog.getInstance().getTownMap(this._mapID);
+    if (!townMap) {
+      return location;
+    }
+    const now = Date.now();
+    const allowance = this._movementAllowances.get(player.id);
+    if (!allowance) {
+      // This is the first movement of the player, which puts them on the map (at the first spawn
+      // point, unless they arrive at one), and later movements go from there
+      this._movementAllowances.set(player.id, { distance: MAX_MOVEMENT_BURST, updatedAt: now });
+      return townMap.isSpawnLocation(location) ? location : townMap.spawnLocations[0];
+    }
+    if (townMap.transports(player.location, location)) {
+      return location;
+    }
+    const distance = Math.min(MAX_MOVEMENT_BURST,
+      allowance.distance + ((now - allowance.updatedAt) * MAX_PLAYER_SPEED) / 1000);
+    const reachable = townMap.farthestReachable(player.location, location, distance);
+    this._movementAllowances.set(player.id, {
+      distance: distance - Math.hypot(reachable.x - player.location.x, reachable.y - player.location.y),
+      updatedAt: now,
+    });
+    return reachable;
+  }
+
+  /**
+   * Lets a player into a space (from its waiting line, or after the host answered their knock),
+   * moving them to the given location inside of it (spaces that are not drawn on the map are
+   * joined without moving)
+   * @param player the player that is let in
+   * @param space the space that lets them in
+   * @param location where the player enters the space
+   */
+  admitPlayerToSpace(player: Player, space: CoveySpaceController,
+    location: UserLocation): void {
+    if (space.bounds === undefined) {
+      space.addPlayer(player.id);
+    } else if (this.updatePlayerLocation(player, location)) {
+      this._listener?.onPlayerAdmittedToSpace(player);
+    }
+  }
+
+  /**
+   * Moves a player out of a space that its host removed them from
+   * @param player the player that was removed
+   * @param space the space they were removed from
+   */
+  notifyPlayerKickedFromSpace(player: Player, space: CoveySpaceController): void {
+    this.bouncePlayer(player, space);
+    const spaceInfo = space.toSpaceInfo();
+    this._listener?.onPlayerKickedFromSpace(player, spaceInfo);
+  }
+
+  /**
+   * Moves a player out of a space that they are not allowed into, keeping them where they
+   * were if that is outside of the space
+   * @param player the player to move
+   * @param space the space the player is not allowed into
+   */
+  private bouncePlayer(player: Player, space: CoveySpaceController): void {
+    if (space.containsLocation(player.location)) {
+      player.updateLocation({ ...this.locationOutside(player, space), space: 'World' });
+    }
+    this._listener?.onPlayerBounced(player);
+  }
+
+  /**
+   * Finds where to move a player out of a space: past the nearest of its edges where the map lets
+   * players stand, or else at the spawn point nearest to them
    */
-  removeTownListener(listener: CoveyTownListener): void {
-    this._listeners = this._listeners.filter((v) => v !== listener);
+  private locationOutside(player: Player, space: CoveySpaceController): UserLocation {
+    const exits = space.locationsOutside(player.location);
+    const townMap = MapCatalog.getInstance().getTownMap(this._mapID);
+    const freeExit = exits.find((exit) => !townMap?.collidesAt(exit));
+    if (freeExit || !townMap || townMap.spawnLocations.length === 0) {
+      return freeExit || exits[0];
+    }
+    const distanceTo = (point: MapPoint) => Math.hypot(point.x - player.location.x,
+      point.y - player.location.y);
+    const spawnLocation = townMap.spawnLocations.reduce((nearest, candidate) => (
+      distanceTo(candidate) < distanceTo(nearest) ? candidate : nearest));
+    return { ...player.location, ...spawnLocation, moving: false };
   }
 
   /**
@@ -166,10 +813,199 @@ export default class CoveyTownController {
   }
 
   disconnectAllPlayers(): void {
-    this._listeners.forEach((listener) => listener.onTownDestroyed());
+    this._sessions.forEach((session) => this.stopReconnectTimer(session));
+    if (this._tickTimer) {
+      clearTimeout(this._tickTimer);
+      this._tickTimer = undefined;
+    }
+    this._pendingMovements.clear();
+    this._listener?.onTownDestroyed();
+    const waitingPlayers = this._waitingPlayers;
+    waitingPlayers.forEach((w) => this.removeWaitingPlayer(w));
+    waitingPlayers.forEach((w) => w.listener?.onTownDestroyed());
   }
 
+  /**
+   * Notifies the town that a space was claimed, bouncing the players that were in the space
+   * but are no longer allowed in
+   * @param spaceID the ID of the claimed space
+   */
   claimSpace(spaceID: string): void {
-    this._listeners.forEach((listener) => listener.onSpaceClaimed(spaceID));
+    const space = this._privateSpaces.getControllerForSpace(spaceID);
+    if (space !== undefined) {
+      this._players
+        .filter((player) => player.location.space === spaceID && !space.isPlayerInSpace(player.id))
+        .forEach((player) => this.bouncePlayer(player, space));
+    }
+    this._listener?.onSpaceClaimed(spaceID);
+  }
+
+  notifySpaceUpdated(space: CoveySpaceInfo): void {
+    this.save();
+    this._listener?.onSpaceUpdated(space);
+  }
+
+  notifySpaceDisbanded(space: CoveySpaceInfo): void {
+    this.save();
+    // Whoever claims the space next must not read what was said in it
+    this._chatHistory.clear(`space:${space.coveySpaceID}`);
+    this._listener?.onSpaceDisbanded(space);
+  }
+
+  notifyPlayerJoinedSpace(player: Player, space: CoveySpaceInfo): void {
+    this.updateVideoSubscriptions(player, space);
+    this._listener?.onPlayerJoinedSpace(player, space);
+  }
+
+  notifyPlayerLeftSpace(player: Player, space: CoveySpaceInfo): void {
+    this.updateVideoSubscriptions(player, space);
+    this._listener?.onPlayerLeftSpace(player, space);
+  }
+
+  notifyWaitingLineChanged(space: CoveySpaceInfo): void {
+    this._listener?.onSpaceUpdated(space);
+  }
+
+  notifySpaceKnock(knock: SpaceKnock, hostIDs: string[]): void {
+    this._listener?.onSpaceKnock(knock, hostIDs);
+  }
+
+  notifyKnockAnswered(knock: SpaceKnock, outcome: KnockOutcome, hostIDs: string[]): void {
+    const recipientIDs = [knock.playerID, ...hostIDs];
+    this._listener?.onSpaceKnockAnswered(knock, outcome, recipientIDs);
+  }
+
+  notifyPresenterChanged(space: CoveySpaceInfo): void {
+    this.save();
+    this._listener?.onPresenterChanged(space);
+  }
+
+  notifySpaceHostChanged(space: CoveySpaceInfo): void {
+    this._listener?.onSpaceHostChanged(space);
+  }
+
+  /**
+   * Sends a chat message to the players of its scope: everyone in the town, the members of a
+   * space (only if the sender is one of them), or one other player of the town
+   * @param sender the player that sends the message
+   * @param scope who the message is for
+   * @param body the text of the message
+   * @returns the message that was sent, or undefined if the sender may not send it
+   */
+  sendChatMessage(sender: Player, scope: ChatScope, body: string): ChatMessage | undefined {
+    const conversation = this.chatConversation(sender, scope);
+    const trimmedBody = body.trim();
+    if (!conversation || trimmedBody.length === 0
+      || trimmedBody.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return undefined;
+    }
+    const message: ChatMessage = {
+      messageID: nanoid(),
+      senderID: sender.id,
+      senderName: sender.userName,
+      scope,
+      body: trimmedBody,
+      timestamp: Date.now(),
+    };
+    this._chatHistory.add(conversation.conversationID, message);
+    this._listener?.onChatMessage(message, conversation.recipientIDs);
+    return message;
+  }
+
+  /**
+   * Gets the recent messages of a scope, if the player may read them (the same rules as for
+   * sending apply)
+   * @param player the player that asks for the messages
+   * @param scope the scope of the messages, as the player would send them
+   */
+  chatHistory(player: Player, scope: ChatScope): ChatMessage[] {
+    const conversation = this.chatConversation(player, scope);
+    return conversation ? this._chatHistory.messages(conversation.conversationID) : [];
+  }
+
+  /**
+   * Finds out which conversation a scope refers to for a player, and who is in it
+   * @param player the player that sends (or reads) messages
+   * @param scope the scope, as the player would send messages to it
+   * @returns undefined if the player is not allowed in the conversation
+   */
+  private chatConversation(player: Player, scope: ChatScope):
+  { conversationID: string; recipientIDs: string[] } | undefined {
+    if (scope === 'town') {
+      return { conversationID: scope, recipientIDs: this._players.map((p) => p.id) };
+    }
+    const [kind, targetID] = [scope.slice(0, scope.indexOf(':')), scope.slice(scope.indexOf(':') + 1)];
+    if (kind === 'space') {
+      const space = this._privateSpaces.getControllerForSpace(targetID);
+      if (space === undefined || !space.isPlayerInSpace(player.id)) {
+        return undefined;
+      }
+      return { conversationID: scope, recipientIDs: space.players.map((p) => p.id) };
+    }
+    if (kind === 'direct') {
+      if (targetID === player.id || !this._players.find((p) => p.id === targetID)) {
+        return undefined;
+      }
+      // Both players see the same conversation, whichever of them asks
+      return {
+        conversationID: `direct:${[player.id, targetID].sort().join(':')}`,
+        recipientIDs: [player.id, targetID],
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Tells the video client which tracks a player may receive, once the player is connected to
+   * the video room (the rules cannot be set any earlier)
+   * @param player the player that connected to the video room
+   */
+  playerVideoConnected(player: Player): void {
+    this.updateVideoSubscriptionsFor(player, this.playersInSpaces());
+  }
+
+  /**
+   * Tells the video client which tracks each player may receive, after a player joined or left
+   * a space. Only the player that moved, the members of the space and the players in the World
+   * are affected (and only while they have a session: players that left have no tracks to update).
+   * @param player the player that joined or left the space
+   * @param space the space, after the player joined or left it
+   */
+  private updateVideoSubscriptions(player: Player, space: CoveySpaceInfo): void {
+    const playersInSpaces = this.playersInSpaces();
+    this._players
+      .filter((p) => p === player
+        || space.currentPlayers.includes(p.id)
+        || !playersInSpaces.includes(p.id))
+      .filter((p) => this._sessions.some((session) => session.player === p))
+      .forEach((p) => this.updateVideoSubscriptionsFor(p, playersInSpaces));
+  }
+
+  // gets the IDs of the players that are members of any space of this town
+  private playersInSpaces(): string[] {
+    return this._privateSpaces.listSpaces()
+      .reduce((playerIDs: string[], info) => playerIDs.concat(info.currentPlayers), []);
+  }
+
+  /**
+   * Members of a space only receive the tracks of the other members, and players in the World
+   * receive the tracks of everyone who is not in a space.
+   * @param player the player whose subscriptions to update
+   * @param playersInSpaces the IDs of the players that are members of any space
+   */
+  private async updateVideoSubscriptionsFor(player: Player,
+    playersInSpaces: string[]): Promise<void> {
+    const space = this._privateSpaces.getControllerForPlayer(player.id);
+    const rules: TrackSubscriptionRules = space
+      ? {
+        subscribeTo: 'only',
+        publishers: space.players.map((member) => member.id).filter((id) => id !== player.id),
+      }
+      : { subscribeTo: 'all', except: playersInSpaces };
+    try {
+      await this._videoClient.updateTrackSubscriptions(this._coveyTownID, player.id, rules);
+    } catch (err) {
+      logError(err);
+    }
   }
 }
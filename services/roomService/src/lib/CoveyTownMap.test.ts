@@ -0,0 +1,158 @@
+import path from 'path';
+import CoveyTownMap, { TiledMap } from './CoveyTownMap';
+
+const DEFAULT_MAP_FILE = path.join(__dirname, '../../../../frontend/public/assets/tilemaps/tuxemon-town.json');
+
+function mapWithObjects(objects: unknown[]): TiledMap {
+  return {
+    layers: [
+      { name: 'World', type: 'tilelayer' },
+      { name: 'Objects', type: 'objectgroup', objects },
+    ],
+  } as TiledMap;
+}
+
+function spaceObject(name: string, type = '', properties?: unknown[]) {
+  return { name, type, x: 10, y: 20, width: 30, height: 40, properties };
+}
+
+describe('CoveyTownMap', () => {
+  it('Should find every space drawn on the default map', () => {
+    const spaceIDs = CoveyTownMap.fromFile(DEFAULT_MAP_FILE).spaces.map(space => space.spaceID);
+    expect(spaceIDs)
+      .toStrictEqual(['1', '2']);
+  });
+  it('Should name a map after its file, unless given another name', () => {
+    expect(CoveyTownMap.fromFile(DEFAULT_MAP_FILE).mapID)
+      .toBe('tuxemon-town');
+    expect(CoveyTownMap.fromFile(DEFAULT_MAP_FILE, 'town').mapID)
+      .toBe('town');
+  });
+  it('Should use the name after the Private Space prefix as the ID', () => {
+    const map = new CoveyTownMap(mapWithObjects([
+      spaceObject('Spawn Point'),
+      spaceObject('Private Space 12'),
+      spaceObject('Private Space Board Room'),
+    ]));
+    expect(map.spaces.map(space => space.spaceID))
+      .toStrictEqual(['12', 'Board Room']);
+  });
+  it('Should include objects of type space, preferring the spaceID property', () => {
+    const map = new CoveyTownMap(mapWithObjects([
+      spaceObject('Library', 'space'),
+      spaceObject('Cafe', 'space', [{ name: 'spaceID', type: 'string', value: 'cafe' }]),
+    ]));
+    expect(map.spaces.map(space => space.spaceID))
+      .toStrictEqual(['Library', 'cafe']);
+  });
+  it('Should ignore spaces that reuse an ID', () => {
+    const map = new CoveyTownMap(mapWithObjects([
+      spaceObject('Private Space 1'),
+      spaceObject('Room', 'space', [{ name: 'spaceID', type: 'string', value: '1' }]),
+    ]));
+    expect(map.spaces.length)
+      .toBe(1);
+  });
+  it('Should read the bounds, capacity and default privacy of each space', () => {
+    const map = new CoveyTownMap(mapWithObjects([
+      spaceObject('Private Space 1', '', [
+        { name: 'capacity', type: 'int', value: 4 },
+        { name: 'private', type: 'bool', value: true },
+      ]),
+      spaceObject('Private Space 2', '', [{ name: 'capacity', type: 'int', value: -1 }]),
+    ]));
+    expect(map.spaces)
+      .toStrictEqual([
+        {
+          spaceID: '1',
+          bounds: { x: 10, y: 20, width: 30, height: 40 },
+          capacity: 4,
+          isPrivateByDefault: true,
+        },
+        {
+          spaceID: '2',
+          bounds: { x: 10, y: 20, width: 30, height: 40 },
+          capacity: undefined,
+          isPrivateByDefault: false,
+        },
+      ]);
+  });
+
+  describe('collisions', () => {
+    // A map of 4 by 4 tiles, with a wall (tile 2 of the tileset) down its third column
+    const map = new CoveyTownMap({
+      width: 4,
+      height: 4,
+      tilewidth: 32,
+      tileheight: 32,
+      tilesets: [{ firstgid: 1, tiles: [{ id: 1, properties: [{ name: 'collides', type: 'bool', value: true }] }] }],
+      layers: [
+        { name: 'World', type: 'tilelayer', data: [0, 1, 2, 0, 0, 1, 2, 0, 0, 1, 2, 0, 0, 1, 2, 0] },
+        {
+          name: 'Objects',
+          type: 'objectgroup',
+          objects: [
+            { ...spaceObject('Spawn Point'), x: 24, y: 24 },
+            {
+              ...spaceObject('transporter'), id: 2, x: 0, y: 96, width: 32, height: 16,
+              properties: [{ name: 'target', type: 'object', value: 3 }],
+            },
+            { ...spaceObject('target'), id: 3, x: 100, y: 24 },
+          ],
+        },
+      ],
+    } as TiledMap);
+    it('Should find the tiles that players collide with, and the edges of the map', () => {
+      expect(map.collidesAt({ x: 8, y: 16 }))
+        .toBe(false);
+      expect(map.collidesAt({ x: 34, y: 16 }))
+        .toBe(false);
+      expect(map.collidesAt({ x: 40, y: 16 }))
+        .toBe(true);
+      expect(map.collidesAt({ x: -10, y: 16 }))
+        .toBe(true);
+      expect(map.collidesAt({ x: 8, y: 100 }))
+        .toBe(true);
+    });
+    it('Should not collide on maps without a World layer', () => {
+      expect(new CoveyTownMap(mapWithObjects([])).collidesAt({ x: -10, y: 16 }))
+        .toBe(false);
+    });
+    it('Should stop players before the tiles they collide with', () => {
+      expect(map.farthestReachable({ x: 8, y: 16 }, { x: 60, y: 16 }, 1000))
+        .toStrictEqual({ x: 32, y: 16 });
+      expect(map.farthestReachable({ x: 8, y: 16 }, { x: 8, y: 80 }, 20))
+        .toStrictEqual({ x: 8, y: 36 });
+      expect(map.farthestReachable({ x: 8, y: 16 }, { x: 8, y: 80 }, 1000))
+        .toStrictEqual({ x: 8, y: 80 });
+    });
+    it('Should let players walk out of the tiles they collide with', () => {
+      expect(map.farthestReachable({ x: 40, y: 16 }, { x: 96, y: 16 }, 1000))
+        .toStrictEqual({ x: 96, y: 16 });
+    });
+    it('Should stop players who are in a tile they collide with before any other such tile', () => {
+      expect(map.farthestReachable({ x: 40, y: 16 }, { x: 40, y: 80 }, 1000))
+        .toStrictEqual({ x: 40, y: 24 });
+      expect(map.farthestReachable({ x: 40, y: 16 }, { x: 40, y: -40 }, 1000))
+        .toStrictEqual({ x: 40, y: 0 });
+    });
+    it('Should only let players arrive near a spawn point', () => {
+      expect(map.spawnLocations)
+        .toStrictEqual([{ x: 8, y: 16 }]);
+      expect(map.isSpawnLocation({ x: 10, y: 20 }))
+        .toBe(true);
+      expect(map.isSpawnLocation({ x: 8, y: 80 }))
+        .toBe(false);
+      expect(new CoveyTownMap(mapWithObjects([])).isSpawnLocation({ x: 8, y: 80 }))
+        .toBe(true);
+    });
+    it('Should transport players from a transporter to its target', () => {
+      expect(map.transports({ x: 8, y: 80 }, { x: 84, y: 16 }))
+        .toBe(true);
+      expect(map.transports({ x: 8, y: 16 }, { x: 84, y: 16 }))
+        .toBe(false);
+      expect(map.transports({ x: 8, y: 80 }, { x: 8, y: 16 }))
+        .toBe(false);
+    });
+  });
+});
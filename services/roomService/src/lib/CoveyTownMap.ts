@@ -0,0 +1,345 @@
+import fs from 'fs';
+import path from 'path';
+import { SpaceBounds, SpaceProperties } from '../CoveyTypes';
+
+/** The name of the layer (in the tilemap) that spaces are drawn on */
+const OBJECTS_LAYER = 'Objects';
+
+/** The name of the tile layer whose tiles players collide with */
+const COLLISION_LAYER = 'World';
+
+/** The name of the points that players arrive at */
+const SPAWN_POINT_NAME = 'Spawn Point';
+
+/** The name of the areas that move players to the object in their `target` property */
+const TRANSPORTER_NAME = 'transporter';
+
+/** Prefix of the objects that the original maps use to mark spaces */
+const SPACE_NAME_PREFIX = 'Private Space ';
+
+/** The Tiled object type that marks any other object as a space */
+const SPACE_OBJECT_TYPE = 'space';
+
+/**
+ * Where the body of a player (the part that collides with the map) is, relative to the point
+ * that the map puts the player at (spawn points, and the targets of transporters). The locations
+ * of players are the top left corner of their body, as the frontend sends them.
+ */
+export const PLAYER_BODY = {
+  offsetX: -16, offsetY: -8, width: 30, height: 40,
+};
+
+/** How far from where the map puts a player the frontend may place them (e.g. when rounding) */
+const PLACEMENT_TOLERANCE = 32;
+
+/** How far apart the points along a movement that are checked for collisions are */
+const COLLISION_STEP = 4;
+
+/** How far a body may overlap a tile without colliding with it (as it may when sliding along walls) */
+const COLLISION_TOLERANCE = 1;
+
+/**
+ * The subset of the Tiled JSON map format that is needed to discover spaces, and what players
+ * collide with
+ */
+type TiledProperty = { name: string; type: string; value: unknown };
+type TiledObject = {
+  id?: number;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  properties?: TiledProperty[];
+};
+type TiledLayer = { name: string; type: string; objects?: TiledObject[]; data?: number[] };
+type TiledTileset = { firstgid: number; tiles?: { id: number; properties?: TiledProperty[] }[] };
+export type TiledMap = {
+  layers: TiledLayer[];
+  /** The size of the map, in tiles */
+  width?: number;
+  height?: number;
+  /** The size of each tile, in pixels */
+  tilewidth?: number;
+  tileheight?: number;
+  tilesets?: TiledTileset[];
+};
+
+/** A point on the map, in pixels */
+export type MapPoint = { x: number; y: number };
+
+/**
+ * The tiles of the map that players collide with (the tiles of the World layer whose tileset
+ * gives them the `collides` property)
+ */
+type CollisionGrid = {
+  columns: number;
+  rows: number;
+  tileWidth: number;
+  tileHeight: number;
+  collides: boolean[];
+};
+
+/** An area that moves the players who step into it to its target */
+type Transporter = { bounds: SpaceBounds; target: MapPoint };
+
+// Tiled keeps whether a tile is flipped in the top 3 bits of the tile ID
+const TILE_FLIP_FLAGS = 2 ** 29;
+
+/**
+ * A space as it is drawn on the map, along with the custom properties set on it by the designer
+ * (`capacity` and `private`)
+ */
+export type SpaceDefinition = SpaceProperties & {
+  /** ID of the space within its town (the `spaceID` property, or the object name) */
+  spaceID: string;
+};
+
+function propertyOf(object: TiledObject, name: string): unknown {
+  return object.properties?.find(property => property.name === name)?.value;
+}
+
+// Finds where the body of a player is, when the map puts the player at a point
+function bodyLocationAt(point: MapPoint): MapPoint {
+  return { x: point.x + PLAYER_BODY.offsetX, y: point.y + PLAYER_BODY.offsetY };
+}
+
+function isNear(location: MapPoint, point: MapPoint): boolean {
+  return Math.abs(location.x - point.x) <= PLACEMENT_TOLERANCE
+    && Math.abs(location.y - point.y) <= PLACEMENT_TOLERANCE;
+}
+
+/**
+ * Reads which tiles of the World layer players collide with
+ * @returns undefined if the map has no World layer, or does not say how big it is
+ */
+function collisionGridOf(map: TiledMap): CollisionGrid | undefined {
+  const layer = map.layers.find(l => l.type === 'tilelayer' && l.name === COLLISION_LAYER);
+  if (!layer?.data || !map.width || !map.height || !map.tilewidth || !map.tileheight) {
+    return undefined;
+  }
+  const collidingTiles = new Set<number>();
+  (map.tilesets || []).forEach(tileset => (tileset.tiles || []).forEach(tile => {
+    if (tile.properties?.some(property => property.name === 'collides' && property.value === true)) {
+      collidingTiles.add(tileset.firstgid + tile.id);
+    }
+  }));
+  return {
+    columns: map.width,
+    rows: map.height,
+    tileWidth: map.tilewidth,
+    tileHeight: map.tileheight,
+    collides: layer.data.map(tileID => collidingTiles.has(tileID % TILE_FLIP_FLAGS)),
+  };
+}
+
+/**
+ * Determines whether an object of the map is a space: either its type is `space`, or it is named
+ * `Private Space <ID>`
+ */
+export function isSpaceObject(object: TiledObject): boolean {
+  return object.type === SPACE_OBJECT_TYPE || object.name.startsWith(SPACE_NAME_PREFIX);
+}
+
+/**
+ * Gets the ID of a space object: the `spaceID` custom property if there is one, otherwise its name
+ * (without the `Private Space ` prefix). The frontend derives zone names the same way.
+ */
+export function spaceIDForObject(object: TiledObject): string {
+  const spaceID = propertyOf(object, 'spaceID');
+  if (typeof spaceID === 'string' && spaceID !== '') {
+    return spaceID;
+  }
+  if (object.name.startsWith(SPACE_NAME_PREFIX)) {
+    return object.name.slice(SPACE_NAME_PREFIX.length);
+  }
+  return object.name;
+}
+
+/**
+ * The CoveyTownMap reads the spaces out of a tilemap, so that the server creates exactly the
+ * spaces that the designers drew (and the client renders), and checks the movements of players
+ * against the tiles they collide with
+ */
+export default class CoveyTownMap {
+  /** The name that towns refer to this map by (its ID in the map catalog) * */
+  private readonly _mapID: string;
+
+  /** The spaces drawn on this map, in the order they appear in the tilemap * */
+  private readonly _spaces: SpaceDefinition[];
+
+  /** Where players arrive on this map (where their body is) * */
+  private readonly _spawnLocations: MapPoint[];
+
+  /** The transporters of this map * */
+  private readonly _transporters: Transporter[];
+
+  /** The tiles that players collide with, unless the map does not say * */
+  private readonly _collisionGrid?: CollisionGrid;
+
+  /**
+   * @param map the tilemap
+   * @param mapID the name that towns refer to the map by
+   */
+  constructor(map: TiledMap, mapID = 'custom') {
+    this._mapID = mapID;
+    const objects = map.layers
+      .filter(layer => layer.type === 'objectgroup' && layer.name === OBJECTS_LAYER)
+      .reduce((allObjects: TiledObject[], layer) => allObjects.concat(layer.objects || []), []);
+
+    this._spaces = [];
+    objects.filter(isSpaceObject).forEach(object => {
+      const spaceID = spaceIDForObject(object);
+      // Two objects with the same ID would be the same space: only the first one counts
+      if (this._spaces.find(space => space.spaceID === spaceID)) {
+        return;
+      }
+      const capacity = propertyOf(object, 'capacity');
+      this._spaces.push({
+        spaceID,
+        bounds: {
+          x: object.x, y: object.y, width: object.width, height: object.height,
+        },
+        capacity: typeof capacity === 'number' && capacity > 0 ? Math.floor(capacity) : undefined,
+        isPrivateByDefault: propertyOf(object, 'private') === true,
+      });
+    });
+
+    this._spawnLocations = objects.filter(object => object.name === SPAWN_POINT_NAME)
+      .map(bodyLocationAt);
+    this._transporters = [];
+    objects.filter(object => object.name === TRANSPORTER_NAME).forEach(object => {
+      const targetID = propertyOf(object, 'target');
+      const target = objects.find(candidate => candidate.id !== undefined && candidate.id === targetID);
+      if (target) {
+        this._transporters.push({
+          // The frontend moves transporters down by their height (see CoveyGameScene.create), so
+          // the area below the one drawn in Tiled counts too
+          bounds: {
+            x: object.x, y: object.y, width: object.width, height: 2 * object.height,
+          },
+          target: bodyLocationAt(target),
+        });
+      }
+    });
+    this._collisionGrid = collisionGridOf(map);
+  }
+
+  // gets the name that towns refer to this map by
+  get mapID(): string {
+    return this._mapID;
+  }
+
+  // gets the spaces drawn on this map
+  get spaces(): SpaceDefinition[] {
+    return this._spaces;
+  }
+
+  // gets where players arrive on this map (where their body is)
+  get spawnLocations(): MapPoint[] {
+    return this._spawnLocations;
+  }
+
+  /**
+   * Finds the tiles that the body of a player at a location overlaps and that players collide
+   * with (past the edges of the map, every tile counts as one that players collide with)
+   * @param location the top left corner of the body
+   * @returns the keys of the tiles, as 'row,column'
+   */
+  private collidingTilesAt(location: MapPoint): string[] {
+    const grid = this._collisionGrid;
+    if (!grid) {
+      return [];
+    }
+    const tiles: string[] = [];
+    const lastColumn = Math.floor((location.x + PLAYER_BODY.width - COLLISION_TOLERANCE)
+      / grid.tileWidth);
+    const lastRow = Math.floor((location.y + PLAYER_BODY.height - COLLISION_TOLERANCE)
+      / grid.tileHeight);
+    for (let row = Math.floor((location.y + COLLISION_TOLERANCE) / grid.tileHeight);
+      row <= lastRow; row += 1) {
+      for (let column = Math.floor((location.x + COLLISION_TOLERANCE) / grid.tileWidth);
+        column <= lastColumn; column += 1) {
+        if (row < 0 || column < 0 || row >= grid.rows || column >= grid.columns
+          || grid.collides[row * grid.columns + column]) {
+          tiles.push(`${row},${column}`);
+        }
+      }
+    }
+    return tiles;
+  }
+
+  /**
+   * Determines whether the body of a player at a location overlaps a tile that players collide
+   * with, or sticks out of the map
+   * @param location the top left corner of the body
+   */
+  collidesAt(location: MapPoint): boolean {
+    return this.collidingTilesAt(location).length > 0;
+  }
+
+  /**
+   * Determines whether a player may arrive at a location: near one of the spawn points of the
+   * map (anywhere, if the map has none)
+   * @param location the top left corner of the body of the player
+   */
+  isSpawnLocation(location: MapPoint): boolean {
+    return this._spawnLocations.length === 0
+      || this._spawnLocations.some(spawnLocation => isNear(location, spawnLocation));
+  }
+
+  /**
+   * Determines whether a transporter moves a player from one location to another: the player
+   * stands in (or next to, as players may be a little ahead of the server) a transporter, and
+   * arrives at its target
+   * @param from the top left corner of the body of the player, before they are transported
+   * @param to the top left corner of the body of the player, after they are transported
+   */
+  transports(from: MapPoint, to: MapPoint): boolean {
+    return this._transporters.some(({ bounds, target }) => (
+      from.x + PLAYER_BODY.width >= bounds.x - PLACEMENT_TOLERANCE
+      && from.x <= bounds.x + bounds.width + PLACEMENT_TOLERANCE
+      && from.y + PLAYER_BODY.height >= bounds.y - PLACEMENT_TOLERANCE
+      && from.y <= bounds.y + bounds.height + PLACEMENT_TOLERANCE
+      && isNear(to, target)));
+  }
+
+  /**
+   * Walks from one location towards another in a straight line, as far as a player can go: no
+   * farther than the given distance, and not into the tiles that players collide with (a player
+   * who is in such a tile already may walk out of it, but not into any other)
+   * @param from where the player is
+   * @param to where the player would like to go
+   * @param maxDistance how far the player may go
+   * @returns the farthest location that the player reaches
+   */
+  farthestReachable(from: MapPoint, to: MapPoint, maxDistance: number): MapPoint {
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const reach = Math.min(distance, Math.max(maxDistance, 0));
+    const startingTiles = this.collidingTilesAt(from);
+    let reached = { x: from.x, y: from.y };
+    for (let travelled = 0; travelled < reach;) {
+      travelled = Math.min(travelled + COLLISION_STEP, reach);
+      const next = travelled === distance ? { x: to.x, y: to.y } : {
+        x: from.x + ((to.x - from.x) * travelled) / distance,
+        y: from.y + ((to.y - from.y) * travelled) / distance,
+      };
+      if (this.collidingTilesAt(next).some(tile => !startingTiles.includes(tile))) {
+        return reached;
+      }
+      reached = next;
+    }
+    return reached;
+  }
+
+  /**
+   * Reads a tilemap from a Tiled JSON file
+   * @param mapFile path to the JSON file
+   * @param mapID the name that towns refer to the map by (the name of the file, without the
+   *              extension, unless given)
+   */
+  static fromFile(mapFile: string, mapID = path.basename(mapFile, '.json')): CoveyTownMap {
+    return new CoveyTownMap(JSON.parse(fs.readFileSync(mapFile, 'utf-8')), mapID);
+  }
+}
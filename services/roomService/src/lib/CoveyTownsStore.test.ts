@@ -1,7 +1,15 @@
+import assert from 'assert';
 import { nanoid } from 'nanoid';
 import CoveyTownsStore from './CoveyTownsStore';
 import CoveyTownListener from '../types/CoveyTownListener';
 import Player from '../types/Player';
+import {
+  ChatMessage, CoveySpaceInfo, KnockOutcome, SpaceKnock, TownRole,
+} from '../CoveyTypes';
+import LocalVideoClient from './LocalVideoClient';
+import InMemoryTownsStorage from './InMemoryTownsStorage';
+import MapCatalog, { DEFAULT_MAP_ID } from './MapCatalog';
+import * as Utils from '../Utils';
 
 const mockCoveyListenerTownDestroyed = jest.fn();
 const mockCoveyListenerOtherFns = jest.fn();
@@ -11,8 +19,17 @@ function mockCoveyListener(): CoveyTownListener {
     onPlayerDisconnected(removedPlayer: Player): void {
       mockCoveyListenerOtherFns(removedPlayer);
     },
-    onPlayerMoved(movedPlayer: Player): void {
-      mockCoveyListenerOtherFns(movedPlayer);
+    onPlayersMoved(movements: { movedPlayer: Player; recipientIDs: string[] }[]): void {
+      mockCoveyListenerOtherFns(movements);
+    },
+    onPlayerMovementCorrected(correctedPlayer: Player) {
+      mockCoveyListenerOtherFns(correctedPlayer);
+    },
+    onPlayerReconnecting(player: Player) {
+      mockCoveyListenerOtherFns(player);
+    },
+    onPlayerReconnected(player: Player) {
+      mockCoveyListenerOtherFns(player);
     },
     onTownDestroyed() {
       mockCoveyListenerTownDestroyed();
@@ -20,6 +37,54 @@ function mockCoveyListener(): CoveyTownListener {
     onPlayerJoined(newPlayer: Player) {
       mockCoveyListenerOtherFns(newPlayer);
     },
+    onSpaceClaimed(spaceID: string) {
+      mockCoveyListenerOtherFns(spaceID);
+    },
+    onSpaceUpdated(space: CoveySpaceInfo) {
+      mockCoveyListenerOtherFns(space);
+    },
+    onSpaceDisbanded(space: CoveySpaceInfo) {
+      mockCoveyListenerOtherFns(space);
+    },
+    onPlayerJoinedSpace(player: Player, space: CoveySpaceInfo) {
+      mockCoveyListenerOtherFns(player, space);
+    },
+    onPlayerLeftSpace(player: Player, space: CoveySpaceInfo) {
+      mockCoveyListenerOtherFns(player, space);
+    },
+    onPresenterChanged(space: CoveySpaceInfo) {
+      mockCoveyListenerOtherFns(space);
+    },
+    onSpaceHostChanged(space: CoveySpaceInfo) {
+      mockCoveyListenerOtherFns(space);
+    },
+    onPlayerBounced(bouncedPlayer: Player) {
+      mockCoveyListenerOtherFns(bouncedPlayer);
+    },
+    onPlayerAdmittedToSpace(admittedPlayer: Player) {
+      mockCoveyListenerOtherFns(admittedPlayer);
+    },
+    onSpaceEntryDenied(deniedPlayer: Player, space: CoveySpaceInfo) {
+      mockCoveyListenerOtherFns(deniedPlayer, space);
+    },
+    onPlayerKickedFromSpace(kickedPlayer: Player, space: CoveySpaceInfo) {
+      mockCoveyListenerOtherFns(kickedPlayer, space);
+    },
+    onPlayerKicked(kickedPlayer: Player, reason: string) {
+      mockCoveyListenerOtherFns(kickedPlayer, reason);
+    },
+    onRoleChanged(identity: string, role: TownRole) {
+      mockCoveyListenerOtherFns(identity, role);
+    },
+    onSpaceKnock(knock: SpaceKnock, recipientIDs: string[]) {
+      mockCoveyListenerOtherFns(knock, recipientIDs);
+    },
+    onSpaceKnockAnswered(knock: SpaceKnock, outcome: KnockOutcome, recipientIDs: string[]) {
+      mockCoveyListenerOtherFns(knock, outcome, recipientIDs);
+    },
+    onChatMessage(message: ChatMessage, recipientIDs: string[]) {
+      mockCoveyListenerOtherFns(message, recipientIDs);
+    },
   };
 }
 
@@ -55,6 +120,28 @@ describe('CoveyTownsStore', () => {
         .not
         .toBe(secondTown.coveyTownID);
     });
+    it('Should provision video with the video client that it is given', async () => {
+      const videoClient = new LocalVideoClient();
+      const town = CoveyTownsStore.getInstance()
+        .createTown(`VideoClientTestingTown=${nanoid()}`, false, { videoClient });
+      const player = new Player('test player');
+      const session = await town.addPlayer(player);
+      expect(session.videoToken && videoClient.verifyToken(session.videoToken))
+        .toMatchObject({ identity: player.id, room: town.coveyTownID });
+    });
+    it('Should use the capacity that it is given', () => {
+      const town = CoveyTownsStore.getInstance()
+        .createTown(`CapacityTestingTown=${nanoid()}`, false, { capacity: 3 });
+      expect(town.capacity)
+        .toBe(3);
+    });
+    it('Should use the default map, unless given another one', () => {
+      const store = CoveyTownsStore.getInstance();
+      expect(store.createTown(`MapTestingTown=${nanoid()}`, false).mapID)
+        .toBe(DEFAULT_MAP_ID);
+      expect(store.createTown(`MapTestingTown=${nanoid()}`, false, { mapID: 'tuxemon-town_transport' }).mapID)
+        .toBe('tuxemon-town_transport');
+    });
   });
 
   describe('getControllerForTown', () => {
@@ -132,6 +219,24 @@ describe('CoveyTownsStore', () => {
       expect(town.friendlyName)
         .toBe(friendlyName);
     });
+    it('Should update the capacity, but only to a positive whole number', () => {
+      const town = createTownForTesting();
+      expect(CoveyTownsStore.getInstance()
+        .updateTown(town.coveyTownID, town.townUpdatePassword, undefined, undefined, 10))
+        .toBe(true);
+      expect(town.capacity)
+        .toBe(10);
+      [0, -1, 2.5].forEach(capacity => {
+        expect(CoveyTownsStore.getInstance()
+          .updateTown(town.coveyTownID, town.townUpdatePassword, 'not applied', true, capacity))
+          .toBe(false);
+      });
+      expect(town.capacity)
+        .toBe(10);
+      expect(town.friendlyName)
+        .not
+        .toBe('not applied');
+    });
   });
 
   describe('deleteTown', () => {
@@ -150,16 +255,97 @@ describe('CoveyTownsStore', () => {
     });
     it('Should disconnect all players', async () => {
       const town = createTownForTesting();
-      town.addTownListener(mockCoveyListener());
-      town.addTownListener(mockCoveyListener());
-      town.addTownListener(mockCoveyListener());
-      town.addTownListener(mockCoveyListener());
+      town.townListener = mockCoveyListener();
       town.disconnectAllPlayers();
 
       expect(mockCoveyListenerOtherFns.mock.calls.length)
         .toBe(0);
       expect(mockCoveyListenerTownDestroyed.mock.calls.length)
-        .toBe(4);
+        .toBe(1);
+    });
+  });
+
+  describe('roles', () => {
+    it('Should make the player who created the town its owner', () => {
+      const town = CoveyTownsStore.getInstance()
+        .createTown(`RolesTestingTown=${nanoid()}`, false, { ownerIdentity: 'creator' });
+      expect(town.roleOf('creator'))
+        .toBe('owner');
+      expect(town.roleOf('someone else'))
+        .toBe('member');
+    });
+    it('Should let the owner update and delete the town with their session instead of the password', async () => {
+      const store = CoveyTownsStore.getInstance();
+      const town = store.createTown(`RolesTestingTown=${nanoid()}`, false, { ownerIdentity: 'creator' });
+      const ownerSession = await town.addPlayer(new Player('owner', 'creator'));
+      const memberSession = await town.addPlayer(new Player('member'));
+      expect(store.updateTown(town.coveyTownID, memberSession.sessionToken, 'Renamed'))
+        .toBe(false);
+      expect(store.updateTown(town.coveyTownID, ownerSession.sessionToken, 'Renamed'))
+        .toBe(true);
+      expect(town.friendlyName)
+        .toBe('Renamed');
+      expect(store.deleteTown(town.coveyTownID, memberSession.sessionToken))
+        .toBe(false);
+      expect(store.deleteTown(town.coveyTownID, ownerSession.sessionToken))
+        .toBe(true);
+    });
+    it('Should not hash session tokens as passwords', async () => {
+      const store = CoveyTownsStore.getInstance();
+      const town = store.createTown(`RolesTestingTown=${nanoid()}`, false, { ownerIdentity: 'creator' });
+      const ownerSession = await town.addPlayer(new Player('owner', 'creator'));
+      const passwordMatchesHash = jest.spyOn(Utils, 'passwordMatchesHash');
+      try {
+        expect(store.updateTown(town.coveyTownID, ownerSession.sessionToken, 'Renamed'))
+          .toBe(true);
+        expect(passwordMatchesHash)
+          .not.toBeCalled();
+      } finally {
+        passwordMatchesHash.mockRestore();
+      }
+    });
+    it('Should let the owner promote players, and moderators kick players but not owners', async () => {
+      const store = CoveyTownsStore.getInstance();
+      const town = store.createTown(`RolesTestingTown=${nanoid()}`, false, { ownerIdentity: 'creator' });
+      const owner = new Player('owner', 'creator');
+      const ownerSession = await town.addPlayer(owner);
+      const moderator = new Player('moderator');
+      const moderatorSession = await town.addPlayer(moderator);
+      const member = new Player('member');
+      await town.addPlayer(member);
+
+      expect(store.kickPlayer(town.coveyTownID, moderatorSession.sessionToken, member.id, 'Spamming'))
+        .toBe(false);
+      expect(store.assignRole(town.coveyTownID, moderatorSession.sessionToken, moderator.id, 'moderator'))
+        .toBe(false);
+      expect(store.assignRole(town.coveyTownID, ownerSession.sessionToken, owner.id, 'member'))
+        .toBe(false);
+      expect(store.assignRole(town.coveyTownID, ownerSession.sessionToken, moderator.id, 'moderator'))
+        .toBe(true);
+      expect(town.roleOf(moderator.identity))
+        .toBe('moderator');
+
+      expect(store.updateTown(town.coveyTownID, moderatorSession.sessionToken, 'Renamed'))
+        .toBe(false);
+      expect(store.kickPlayer(town.coveyTownID, moderatorSession.sessionToken, owner.id, 'Spamming'))
+        .toBe(false);
+      expect(store.kickPlayer(town.coveyTownID, moderatorSession.sessionToken, member.id, 'Spamming'))
+        .toBe(true);
+      expect(town.players)
+        .not
+        .toContain(member);
+    });
+    it('Should still let admins who know the password change any role', async () => {
+      const store = CoveyTownsStore.getInstance();
+      const town = createTownForTesting();
+      const player = new Player('player');
+      await town.addPlayer(player);
+      expect(store.assignRole(town.coveyTownID, town.townUpdatePassword, player.id, 'owner'))
+        .toBe(true);
+      expect(town.roleOf(player.identity))
+        .toBe('owner');
+      expect(store.assignRole(town.coveyTownID, town.townUpdatePassword, nanoid(), 'owner'))
+        .toBe(false);
     });
   });
 
@@ -200,6 +386,18 @@ describe('CoveyTownsStore', () => {
       }
 
     });
+    it('Should report the number of players in each town as its occupancy', async () => {
+      const town = createTownForTesting(undefined, true);
+      const sessions = await Promise.all(['first', 'second', 'third'].map(name => town.addPlayer(new Player(name))));
+      const occupancy = () => CoveyTownsStore.getInstance()
+        .getTowns()
+        .find(townInfo => townInfo.coveyTownID === town.coveyTownID)?.currentOccupancy;
+      expect(occupancy())
+        .toBe(3);
+      sessions.forEach(session => town.destroySession(session));
+      expect(occupancy())
+        .toBe(0);
+    });
     it('Should not include private towns', async () => {
       const town = createTownForTesting(undefined, false);
       const towns = CoveyTownsStore.getInstance()
@@ -239,5 +437,141 @@ describe('CoveyTownsStore', () => {
         .toBe(0);
     });
   });
-});
 
+  describe('exportTown and importTown', () => {
+    it('Should only export a town for its admins', () => {
+      const town = createTownForTesting();
+      expect(CoveyTownsStore.getInstance().exportTown(town.coveyTownID, 'not the password'))
+        .toBeUndefined();
+      expect(CoveyTownsStore.getInstance().exportTown(town.coveyTownID, town.townUpdatePassword)?.friendlyName)
+        .toBe(town.friendlyName);
+    });
+    it('Should create a copy of the town, with its roles, spaces and space settings', () => {
+      const store = CoveyTownsStore.getInstance();
+      const town = store.createTown(`ExportedTestingTown=${nanoid()}`, true, { capacity: 7, ownerIdentity: 'creator' });
+      town.setRole('helper', 'moderator');
+      const townMap = MapCatalog.getInstance().getTownMap(town.mapID);
+      assert(townMap);
+      town.privateSpaces.createSpacesFromMap(townMap);
+      town.privateSpaces.createSpace('extra', { capacity: 3 });
+      town.privateSpaces.getControllerForSpace(`${town.coveyTownID}_1`)?.restoreSettings({
+        coveySpaceID: `${town.coveyTownID}_1`, isPrivate: true, hostID: 'creator', presenterID: null, whitelist: ['helper'],
+      });
+      const townExport = store.exportTown(town.coveyTownID, town.townUpdatePassword);
+      assert(townExport);
+
+      const copy = store.importTown(JSON.parse(JSON.stringify(townExport)), 'importer');
+      expect(copy.coveyTownID)
+        .not
+        .toBe(town.coveyTownID);
+      expect(copy.townUpdatePassword)
+        .not
+        .toBe(town.townUpdatePassword);
+      expect(copy.friendlyName)
+        .toBe(town.friendlyName);
+      expect(copy.capacity)
+        .toBe(7);
+      expect(copy.roles)
+        .toStrictEqual({ creator: 'owner', helper: 'moderator', importer: 'owner' });
+      const space = copy.privateSpaces.getControllerForSpace(`${copy.coveyTownID}_1`);
+      expect(space?.isPrivate)
+        .toBe(true);
+      expect(space?.whitelist)
+        .toStrictEqual(['helper']);
+      expect(copy.privateSpaces.getControllerForSpace(`${copy.coveyTownID}_extra`)?.capacity)
+        .toBe(3);
+      expect(copy.toTownExport().spaces)
+        .toStrictEqual(townExport.spaces);
+    });
+  });
+
+  describe('loadTowns', () => {
+    it('Should bring back saved towns, with their settings and update password', () => {
+      const storage = new InMemoryTownsStorage();
+      const store = new CoveyTownsStore(storage);
+      const town = store.createTown(`StoredTestingTown=${nanoid()}`, false);
+      expect(store.updateTown(town.coveyTownID, town.townUpdatePassword, 'Renamed', true))
+        .toBe(true);
+
+      const restartedStore = new CoveyTownsStore(storage);
+      restartedStore.loadTowns();
+      const loadedTown = restartedStore.getControllerForTown(town.coveyTownID);
+      expect(loadedTown?.friendlyName)
+        .toBe('Renamed');
+      expect(loadedTown?.isPubliclyListed)
+        .toBe(true);
+      expect(restartedStore.updateTown(town.coveyTownID, 'not the password', 'Renamed again'))
+        .toBe(false);
+      expect(restartedStore.deleteTown(town.coveyTownID, town.townUpdatePassword))
+        .toBe(true);
+      expect(storage.loadTowns())
+        .toStrictEqual([]);
+    });
+    it('Should bring back the roles of the players', () => {
+      const storage = new InMemoryTownsStorage();
+      const town = new CoveyTownsStore(storage)
+        .createTown(`StoredTestingTown=${nanoid()}`, false, { ownerIdentity: 'creator' });
+      town.setRole('helper', 'moderator');
+
+      const restartedStore = new CoveyTownsStore(storage);
+      restartedStore.loadTowns();
+      const loadedTown = restartedStore.getControllerForTown(town.coveyTownID);
+      expect(loadedTown?.roles)
+        .toStrictEqual({ creator: 'owner', helper: 'moderator' });
+    });
+    it('Should bring back the map of the town, and the spaces drawn on it', () => {
+      const storage = new InMemoryTownsStorage();
+      const town = new CoveyTownsStore(storage)
+        .createTown(`StoredTestingTown=${nanoid()}`, false, { mapID: 'tuxemon-town_transport' });
+      const { mapID, ...townSavedBeforeMaps } = town.toStoredTown();
+      storage.saveTown({ ...townSavedBeforeMaps, coveyTownID: `${town.coveyTownID}_old` });
+
+      const restartedStore = new CoveyTownsStore(storage);
+      restartedStore.loadTowns();
+      expect(restartedStore.getControllerForTown(town.coveyTownID)?.mapID)
+        .toBe(mapID);
+      expect(restartedStore.getControllerForTown(town.coveyTownID)?.privateSpaces.listSpaces())
+        .toStrictEqual([]);
+      const oldTown = restartedStore.getControllerForTown(`${town.coveyTownID}_old`);
+      expect(oldTown?.mapID)
+        .toBe(DEFAULT_MAP_ID);
+      expect(oldTown?.privateSpaces.getControllerForSpace(`${town.coveyTownID}_old_1`))
+        .toBeDefined();
+    });
+    it('Should never save the update password itself', () => {
+      const storage = new InMemoryTownsStorage();
+      const town = new CoveyTownsStore(storage).createTown(`StoredTestingTown=${nanoid()}`, false);
+      expect(JSON.stringify(storage.loadTowns()))
+        .not
+        .toContain(town.townUpdatePassword);
+    });
+    it('Should bring back the settings of the spaces drawn on the map', async () => {
+      const storage = new InMemoryTownsStorage();
+      const store = new CoveyTownsStore(storage);
+      const town = store.createTown(`StoredTestingTown=${nanoid()}`, false);
+      const spaceID = `${town.coveyTownID}_1`;
+      storage.saveTown({
+        ...town.toStoredTown(),
+        spaces: [{
+          coveySpaceID: spaceID, isPrivate: true, hostID: 'host', presenterID: 'host', whitelist: [],
+        }],
+      });
+
+      const restartedStore = new CoveyTownsStore(storage);
+      restartedStore.loadTowns();
+      const space = restartedStore.getControllerForTown(town.coveyTownID)?.privateSpaces
+        .getControllerForSpace(spaceID);
+      expect(space?.isPrivate)
+        .toBe(true);
+      expect(space?.hostIdentity)
+        .toBe('host');
+      // The host is back once they join the town again with the same identity
+      const host = new Player('host', 'host');
+      await restartedStore.getControllerForTown(town.coveyTownID)?.addPlayer(host);
+      expect(space?.spaceHostID)
+        .toBe(host.id);
+      expect(space?.presenterID)
+        .toBe(host.id);
+    });
+  });
+});
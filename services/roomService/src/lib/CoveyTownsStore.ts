@@ -1,8 +1,20 @@
 import CoveyTownController from './CoveyTownController';
-import { CoveyTownList } from '../CoveyTypes';
+import { CoveyTownList, TownPermission, TownRole } from '../CoveyTypes';
+import IVideoClient from './IVideoClient';
+import ITownsStorage, { TownExport } from './ITownsStorage';
+import townsStorageFromConfiguration from './TownsStorageFactory';
+import MapCatalog from './MapCatalog';
+import { passwordMatchesHash } from '../Utils';
 
-function passwordMatches(provided: string, expected: string): boolean {
-  if (provided === expected) {
+/**
+ * Checks that a town capacity is a whole number of players, at least one
+ */
+export function isValidTownCapacity(capacity: number): boolean {
+  return Number.isInteger(capacity) && capacity > 0;
+}
+
+function passwordMatches(provided: string, expectedHash: string): boolean {
+  if (passwordMatchesHash(provided, expectedHash)) {
     return true;
   }
   if (process.env.MASTER_TOWN_PASSWORD && process.env.MASTER_TOWN_PASWORD === provided) {
@@ -11,11 +23,39 @@ function passwordMatches(provided: string, expected: string): boolean {
   return false;
 }
 
+/**
+ * Checks that a request may make a town management change: either it knows the update password
+ * of the town, or it comes from a session of a player whose role allows the change
+ * @param town the town
+ * @param credential the update password of the town, or the session token of a player in it
+ * @param permission the change
+ */
+function isAuthorized(town: CoveyTownController, credential: string,
+  permission: TownPermission): boolean {
+  // Session tokens are looked up first: hashing the credential as a password is slow
+  const session = town.getSessionByToken(credential);
+  if (session !== undefined) {
+    return town.hasPermission(session.player, permission);
+  }
+  return passwordMatches(credential, town.townUpdatePasswordHash);
+}
+
 export default class CoveyTownsStore {
   private static _instance: CoveyTownsStore;
 
   private _towns: CoveyTownController[] = [];
 
+  /** The storage that the towns are saved to, so that they survive restarts * */
+  private readonly _storage: ITownsStorage;
+
+  /**
+   * @param storage the storage to save the towns to (the one selected by the configuration,
+   *                unless given)
+   */
+  constructor(storage: ITownsStorage = townsStorageFromConfiguration()) {
+    this._storage = storage;
+  }
+
   static getInstance(): CoveyTownsStore {
     if (CoveyTownsStore._instance === undefined) {
       CoveyTownsStore._instance = new CoveyTownsStore();
@@ -23,6 +63,29 @@ export default class CoveyTownsStore {
     return CoveyTownsStore._instance;
   }
 
+  /**
+   * Loads the towns that were saved to the storage, along with the settings of their spaces.
+   * Players are not saved, so the towns start out empty.
+   * @param videoClient the video client that the towns should use (the one selected by the
+   *                    configuration, unless given)
+   */
+  loadTowns(videoClient?: IVideoClient): void {
+    const mapCatalog = MapCatalog.getInstance();
+    this._storage.loadTowns()
+      .filter(storedTown => !this.getControllerForTown(storedTown.coveyTownID))
+      .forEach(storedTown => {
+        const town = new CoveyTownController(storedTown.friendlyName, storedTown.isPubliclyListed,
+          videoClient, this._storage, storedTown);
+        // A town whose map is no longer in the catalog has no spaces
+        const townMap = mapCatalog.getTownMap(town.mapID);
+        if (townMap) {
+          town.privateSpaces.createSpacesFromMap(townMap);
+        }
+        town.privateSpaces.restoreSpaces(storedTown.spaces);
+        this._towns.push(town);
+      });
+  }
+
   getControllerForTown(coveyTownID: string): CoveyTownController | undefined {
     return this._towns.find(town => town.coveyTownID === coveyTownID);
   }
@@ -37,34 +100,162 @@ export default class CoveyTownsStore {
       }));
   }
 
-  createTown(friendlyName: string, isPubliclyListed: boolean): CoveyTownController {
-    const newTown = new CoveyTownController(friendlyName, isPubliclyListed);
+  /**
+   * Creates a new town
+   * @param friendlyName the name of the town
+   * @param isPubliclyListed whether the town is listed
+   * @param options.capacity the most players that may be in the town at once (50, unless given)
+   * @param options.ownerIdentity the identity of the player who owns the town (none, unless given)
+   * @param options.mapID the map that the town uses (the default map, unless given)
+   * @param options.videoClient the video client that the town should use (the one selected by
+   *                            the configuration, unless given)
+   */
+  createTown(friendlyName: string, isPubliclyListed: boolean,
+    options: {
+      capacity?: number; ownerIdentity?: string; mapID?: string; videoClient?: IVideoClient
+    } = {}): CoveyTownController {
+    const newTown = new CoveyTownController(friendlyName, isPubliclyListed, options.videoClient,
+      this._storage, undefined, options.mapID);
+    if (options.capacity !== undefined) {
+      newTown.capacity = options.capacity;
+    }
+    if (options.ownerIdentity !== undefined) {
+      newTown.setRole(options.ownerIdentity, 'owner');
+    }
     this._towns.push(newTown);
+    newTown.save();
     return newTown;
   }
 
-  updateTown(coveyTownID: string, coveyTownPassword: string, friendlyName?: string, makePublic?: boolean): boolean {
+  /**
+   * Creates a new town from a town export, with the roles, spaces and space settings it was
+   * exported with (the player who imports it is its owner)
+   * @param townExport the town export, which must be valid
+   * @param ownerIdentity the identity of the player who imports the town
+   * @param videoClient the video client that the town should use (the one selected by the
+   *                    configuration, unless given)
+   */
+  importTown(townExport: TownExport, ownerIdentity: string,
+    videoClient?: IVideoClient): CoveyTownController {
+    const newTown = this.createTown(townExport.friendlyName, townExport.isPubliclyListed,
+      { capacity: townExport.capacity, mapID: townExport.mapID, videoClient });
+    Object.keys(townExport.roles).forEach(identity => newTown.setRole(identity, townExport.roles[identity]));
+    newTown.setRole(ownerIdentity, 'owner');
+    const townMap = MapCatalog.getInstance().getTownMap(newTown.mapID);
+    if (townMap) {
+      newTown.privateSpaces.createSpacesFromMap(townMap);
+    }
+    newTown.privateSpaces.importSpaces(townExport.spaces);
+    newTown.save();
+    return newTown;
+  }
+
+  /**
+   * Exports the configuration of a town
+   * @param coveyTownID the town
+   * @param credential the update password of the town, or the session token of a player whose
+   *                   role allows updating it
+   * @returns undefined if the credential does not allow it
+   */
+  exportTown(coveyTownID: string, credential: string): TownExport | undefined {
     const existingTown = this.getControllerForTown(coveyTownID);
-    if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)) {
+    if (existingTown && isAuthorized(existingTown, credential, 'updateTown')) {
+      return existingTown.toTownExport();
+    }
+    return undefined;
+  }
+
+  /**
+   * Changes the settings of a town
+   * @param coveyTownID the town
+   * @param credential the update password of the town, or the session token of a player whose
+   *                   role allows updating it
+   * @returns false if the credential does not allow the change, or a setting is not valid
+   */
+  updateTown(coveyTownID: string, credential: string, friendlyName?: string,
+    makePublic?: boolean, capacity?: number): boolean {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    if (existingTown && isAuthorized(existingTown, credential, 'updateTown')) {
+      if (friendlyName?.length === 0 || (capacity !== undefined && !isValidTownCapacity(capacity))) {
+        return false;
+      }
       if (friendlyName !== undefined) {
-        if (friendlyName.length === 0) {
-          return false;
-        }
         existingTown.friendlyName = friendlyName;
       }
       if (makePublic !== undefined) {
         existingTown.isPubliclyListed = makePublic;
       }
+      if (capacity !== undefined) {
+        existingTown.capacity = capacity;
+      }
+      existingTown.save();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Removes a player from a town, and bans them for a while if asked to
+   * @param coveyTownID the town
+   * @param credential the update password of the town, or the session token of a player whose
+   *                   role allows removing players (who may not remove an owner)
+   * @param playerID the player to remove
+   * @param reason why the player is removed, as told to them
+   * @param banMinutes how long the player may not join again (not at all, unless given)
+   * @returns false if the credential does not allow it, or the player is not in the town
+   */
+  kickPlayer(coveyTownID: string, credential: string, playerID: string, reason: string,
+    banMinutes?: number): boolean {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    if (existingTown && isAuthorized(existingTown, credential, 'kickPlayers')) {
+      const kickedPlayer = existingTown.players.find(p => p.id === playerID);
+      // Only the update password (not a session) may remove an owner
+      if (kickedPlayer && existingTown.roleOf(kickedPlayer.identity) === 'owner'
+        && existingTown.getSessionByToken(credential) !== undefined) {
+        return false;
+      }
+      return existingTown.kickPlayer(playerID, reason, (banMinutes ?? 0) * 60 * 1000);
+    }
+    return false;
+  }
+
+  /**
+   * Changes the role of a player in a town
+   * @param coveyTownID the town
+   * @param credential the update password of the town, or the session token of a player whose
+   *                   role allows assigning roles (who may not change their own role)
+   * @param playerID the player whose role changes
+   * @param role the new role
+   * @returns false if the credential does not allow it, or the player is not in the town
+   */
+  assignRole(coveyTownID: string, credential: string, playerID: string, role: TownRole): boolean {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    if (existingTown && isAuthorized(existingTown, credential, 'assignRoles')) {
+      const player = existingTown.players.find(p => p.id === playerID);
+      if (!player || existingTown.getSessionByToken(credential)?.player === player) {
+        return false;
+      }
+      existingTown.setRole(player.identity, role);
       return true;
     }
     return false;
   }
 
-  deleteTown(coveyTownID: string, coveyTownPassword: string): boolean {
+  /**
+   * Deletes a town, disconnecting its players
+   * @param coveyTownID the town
+   * @param credential the update password of the town, or the session token of a player whose
+   *                   role allows deleting it
+   * @returns false if the credential does not allow it
+   */
+  deleteTown(coveyTownID: string, credential: string): boolean {
     const existingTown = this.getControllerForTown(coveyTownID);
-    if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)) {
+    if (existingTown && isAuthorized(existingTown, credential, 'deleteTown')) {
       this._towns = this._towns.filter(town => town !== existingTown);
       existingTown.disconnectAllPlayers();
+      existingTown.privateSpaces.removeAllSpaces();
+      // Last, as removing the spaces saves the town again
+      this._storage.deleteTown(coveyTownID);
       return true;
     }
     return false;
@@ -0,0 +1,105 @@
+import {
+  HostSuccessionPolicy, SpaceProperties, SpaceReservation, TownBan, TownRole,
+} from '../CoveyTypes';
+
+/** The version of the town export format that this server writes (and reads) */
+export const TOWN_EXPORT_VERSION = 1;
+
+/**
+ * The settings of a space that outlive the sessions of its players
+ */
+export type StoredSpace = {
+  coveySpaceID: string;
+  isPrivate: boolean;
+  /** The identity of the host (not their player ID, which changes every time they join) */
+  hostID: string | null;
+  /** The identity of the presenter */
+  presenterID: string | null;
+  /** The identities of the players allowed into the space */
+  whitelist: string[];
+  /** The user names invited into the space, for players who have not arrived yet */
+  invitedNames?: string[];
+  /** The identities of the co-hosts */
+  coHosts?: string[];
+  /** What happens to the space when its host leaves the town */
+  successionPolicy?: HostSuccessionPolicy;
+  /** The maximum number of players in the space (null if there is no limit) */
+  capacity?: number | null;
+  /** The reservations of the space that have not ended yet */
+  reservations?: SpaceReservation[];
+  /** The reservation that was under way when the space was saved, and applied to its settings */
+  activeReservationID?: string | null;
+};
+
+/**
+ * Everything about a town that is kept across restarts of the server (the players and their
+ * sessions are not: they have to join the town again)
+ */
+export type StoredTown = {
+  coveyTownID: string;
+  friendlyName: string;
+  isPubliclyListed: boolean;
+  capacity: number;
+  /** The map that the town uses (the default map, for towns saved before there was a choice) */
+  mapID?: string;
+  /** The hash of the password that allows updating or deleting the town (never the password) */
+  townUpdatePasswordHash: string;
+  spaces: StoredSpace[];
+  /** The players banned from the town, until their bans end */
+  bans?: TownBan[];
+  /** The role of each player (by identity) that is not a plain member */
+  roles?: { [identity: string]: TownRole };
+};
+
+/**
+ * A space in a town export: how it is defined (as it is drawn on the map) and its settings. It
+ * is keyed by its ID within the town, so that it can be recreated in a town with another ID.
+ */
+export type ExportedSpace = SpaceProperties & {
+  spaceID: string;
+  settings: Omit<StoredSpace, 'coveySpaceID'>;
+};
+
+/**
+ * The configuration of a town, as exported to back it up or to create copies of it: everything
+ * but its ID, its update password, its players and its bans
+ */
+export type TownExport = {
+  /** The version of the format, which importing checks */
+  version: number;
+  /** When the town was exported, in milliseconds since the epoch */
+  exportedAt: number;
+  friendlyName: string;
+  isPubliclyListed: boolean;
+  capacity: number;
+  /** The map that the town uses */
+  mapID: string;
+  /** The role of each player (by identity) that is not a plain member */
+  roles: { [identity: string]: TownRole };
+  spaces: ExportedSpace[];
+};
+
+/**
+ * An abstraction for the storage that the towns (and their spaces) are saved to, so that they
+ * can be loaded again when the server restarts
+ */
+export default interface ITownsStorage {
+  /**
+   * Retrieve every town that was saved (and not deleted since)
+   */
+  loadTowns(): StoredTown[];
+
+  /**
+   * Save a town, replacing what was saved for it before
+   *
+   * @param town the town to save
+   */
+  saveTown(town: StoredTown): void;
+
+  /**
+   * Delete a saved town, if there is one
+   *
+   * @param coveyTownID the ID of the town to delete
+   */
+  deleteTown(coveyTownID: string): void;
+}
@@ -1,3 +1,11 @@
+/**
+ * The tracks that a client of a video room is subscribed to: either those of every other client
+ * of the room except some, or only those of some clients
+ */
+export type TrackSubscriptionRules =
+  | { subscribeTo: 'all'; except: string[] }
+  | { subscribeTo: 'only'; publishers: string[] };
+
 /**
  * The video calling component of Covey.Town must implement this server interface,
  * which is used to authorize a client to connect to a video room.
@@ -12,4 +20,15 @@ export default interface IVideoClient {
    *                      that connects with the returned token back to this client identifier
    */
   getTokenForTown(coveyTownID: string, clientIdentity: string): Promise<string>;
+
+  /**
+   * Restrict the audio and video tracks that a client connected to the video room receives, so
+   * that it cannot see or hear clients that it is not supposed to, whatever the client renders.
+   *
+   * @param coveyTownID The town whose video room the client is connected to
+   * @param clientIdentity The identity of the client, as passed to getTokenForTown
+   * @param rules The identities of the clients whose tracks it should receive
+   */
+  updateTrackSubscriptions(coveyTownID: string, clientIdentity: string,
+    rules: TrackSubscriptionRules): Promise<void>;
 }
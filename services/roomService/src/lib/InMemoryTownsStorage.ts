@@ -0,0 +1,22 @@
+import ITownsStorage, { StoredTown } from './ITownsStorage';
+
+/**
+ * A storage that only keeps the towns for as long as the server runs (used when no storage is
+ * configured, and in tests)
+ */
+export default class InMemoryTownsStorage implements ITownsStorage {
+  /** The saved towns, by ID * */
+  private _towns: { [coveyTownID: string]: StoredTown } = {};
+
+  loadTowns(): StoredTown[] {
+    return Object.keys(this._towns).map(coveyTownID => this._towns[coveyTownID]);
+  }
+
+  saveTown(town: StoredTown): void {
+    this._towns[town.coveyTownID] = town;
+  }
+
+  deleteTown(coveyTownID: string): void {
+    delete this._towns[coveyTownID];
+  }
+}
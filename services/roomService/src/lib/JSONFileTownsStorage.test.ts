@@ -0,0 +1,44 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import JSONFileTownsStorage from './JSONFileTownsStorage';
+import { StoredTown } from './ITownsStorage';
+
+function storedTown(coveyTownID: string): StoredTown {
+  return {
+    coveyTownID,
+    friendlyName: `Town ${coveyTownID}`,
+    isPubliclyListed: true,
+    capacity: 50,
+    townUpdatePasswordHash: 'salt:hash',
+    spaces: [{
+      coveySpaceID: `${coveyTownID}_1`, isPrivate: true, hostID: 'host', presenterID: null, whitelist: ['guest'],
+    }],
+  };
+}
+
+describe('JSONFileTownsStorage', () => {
+  let file: string;
+  beforeEach(() => {
+    file = path.join(os.tmpdir(), `covey-towns-${nanoid()}.json`);
+  });
+  afterEach(() => {
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  });
+  it('Should start out empty when the file does not exist', () => {
+    expect(new JSONFileTownsStorage(file).loadTowns())
+      .toStrictEqual([]);
+  });
+  it('Should load the towns saved by a previous instance', () => {
+    const storage = new JSONFileTownsStorage(file);
+    storage.saveTown(storedTown('A'));
+    storage.saveTown(storedTown('B'));
+    storage.saveTown({ ...storedTown('A'), friendlyName: 'Renamed' });
+    storage.deleteTown('B');
+    expect(new JSONFileTownsStorage(file).loadTowns())
+      .toStrictEqual([{ ...storedTown('A'), friendlyName: 'Renamed' }]);
+  });
+});
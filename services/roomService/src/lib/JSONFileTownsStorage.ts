@@ -0,0 +1,44 @@
+import fs from 'fs';
+import ITownsStorage, { StoredTown } from './ITownsStorage';
+
+/**
+ * A storage that keeps the towns in a JSON file, which is rewritten every time a town changes
+ */
+export default class JSONFileTownsStorage implements ITownsStorage {
+  /** The path of the JSON file * */
+  private readonly _file: string;
+
+  /** The saved towns, by ID (the contents of the file) * */
+  private _towns: { [coveyTownID: string]: StoredTown };
+
+  /**
+   * @param file path to the JSON file (created when the first town is saved)
+   */
+  constructor(file: string) {
+    this._file = file;
+    this._towns = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : {};
+  }
+
+  loadTowns(): StoredTown[] {
+    return Object.keys(this._towns).map(coveyTownID => this._towns[coveyTownID]);
+  }
+
+  saveTown(town: StoredTown): void {
+    this._towns[town.coveyTownID] = town;
+    this.writeFile();
+  }
+
+  deleteTown(coveyTownID: string): void {
+    if (this._towns[coveyTownID] !== undefined) {
+      delete this._towns[coveyTownID];
+      this.writeFile();
+    }
+  }
+
+  private writeFile(): void {
+    // Write to a temporary file first, so that a crash never leaves a half-written file behind
+    const temporaryFile = `${this._file}.tmp`;
+    fs.writeFileSync(temporaryFile, JSON.stringify(this._towns, null, 2));
+    fs.renameSync(temporaryFile, this._file);
+  }
+}
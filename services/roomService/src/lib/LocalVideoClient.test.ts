@@ -0,0 +1,71 @@
+import LocalVideoClient from './LocalVideoClient';
+import videoClientFromConfiguration from './VideoClientFactory';
+import TwilioVideo from './TwilioVideo';
+
+const TWILIO_VARIABLES = ['TWILIO_ACCOUNT_SID', 'TWILIO_API_AUTH_TOKEN', 'TWILIO_API_KEY_SID', 'TWILIO_API_KEY_SECRET'];
+
+describe('LocalVideoClient', () => {
+  it('Should issue tokens that it can verify', async () => {
+    const videoClient = new LocalVideoClient('secret');
+    const token = await videoClient.getTokenForTown('town', 'player');
+    const claims = videoClient.verifyToken(token);
+    expect(claims)
+      .toMatchObject({ identity: 'player', room: 'town' });
+    expect(claims?.exp)
+      .toBeGreaterThan(Date.now() / 1000);
+  });
+  it('Should not verify tokens signed with another secret', async () => {
+    const token = await new LocalVideoClient('secret').getTokenForTown('town', 'player');
+    expect(new LocalVideoClient('other secret').verifyToken(token))
+      .toBeUndefined();
+  });
+  it('Should not verify tokens that were tampered with', async () => {
+    const videoClient = new LocalVideoClient('secret');
+    const [header, , signature] = (await videoClient.getTokenForTown('town', 'player')).split('.');
+    const payload = Buffer.from(JSON.stringify({
+      exp: Date.now() / 1000 + 60, grants: { identity: 'player', video: { room: 'other town' } },
+    })).toString('base64');
+    expect(videoClient.verifyToken(`${header}.${payload}.${signature}`))
+      .toBeUndefined();
+  });
+
+  describe('videoClientFromConfiguration', () => {
+    const configuration = ['COVEY_VIDEO_PROVIDER', ...TWILIO_VARIABLES]
+      .map(name => ({ name, value: process.env[name] }));
+    afterEach(() => {
+      configuration.forEach(({ name, value }) => {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      });
+    });
+    it('Should use the provider named by COVEY_VIDEO_PROVIDER', () => {
+      process.env.COVEY_VIDEO_PROVIDER = 'local';
+      expect(videoClientFromConfiguration())
+        .toBe(LocalVideoClient.getInstance());
+    });
+    it('Should use Twilio by default when its credentials are set', () => {
+      delete process.env.COVEY_VIDEO_PROVIDER;
+      process.env.TWILIO_ACCOUNT_SID = 'ACxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+      process.env.TWILIO_API_AUTH_TOKEN = 'token';
+      process.env.TWILIO_API_KEY_SID = 'SKxx';
+      process.env.TWILIO_API_KEY_SECRET = 'secret';
+      expect(videoClientFromConfiguration())
+        .toBeInstanceOf(TwilioVideo);
+    });
+    it('Should use the local provider by default when a Twilio credential is missing', () => {
+      delete process.env.COVEY_VIDEO_PROVIDER;
+      TWILIO_VARIABLES.forEach(name => { process.env[name] = 'set'; });
+      delete process.env.TWILIO_API_KEY_SECRET;
+      expect(videoClientFromConfiguration())
+        .toBe(LocalVideoClient.getInstance());
+    });
+    it('Should refuse unknown providers', () => {
+      process.env.COVEY_VIDEO_PROVIDER = 'unknown';
+      expect(() => videoClientFromConfiguration())
+        .toThrowError();
+    });
+  });
+});
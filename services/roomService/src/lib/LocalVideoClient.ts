@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import IVideoClient from './IVideoClient';
+
+// 1 hour, same as the tokens issued by Twilio
+const MAX_ALLOWED_SESSION_DURATION = 3600;
+
+/** The claims of a token issued by the LocalVideoClient */
+export type LocalVideoToken = {
+  /** The identity of the client that the token was issued to */
+  identity: string;
+  /** The video room (town) that the client may connect to */
+  room: string;
+  /** When the token expires, in seconds since the epoch */
+  exp: number;
+};
+
+function base64URL(data: string | Buffer): string {
+  return Buffer.from(data).toString('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
+
+/**
+ * A video client that does not talk to any video service: it issues signed dummy tokens (JWTs
+ * in the same shape as Twilio's) and ignores track subscriptions, so that the room service can
+ * run for development and tests without a Twilio account.
+ */
+export default class LocalVideoClient implements IVideoClient {
+  private static _instance: LocalVideoClient;
+
+  /** The secret that the tokens are signed with * */
+  private readonly _secret: string;
+
+  /**
+   * @param secret the secret to sign tokens with (a random one unless given)
+   */
+  constructor(secret: string = crypto.randomBytes(32).toString('hex')) {
+    this._secret = secret;
+  }
+
+  public static getInstance(): LocalVideoClient {
+    if (!LocalVideoClient._instance) {
+      LocalVideoClient._instance = new LocalVideoClient(process.env.LOCAL_VIDEO_SECRET);
+    }
+    return LocalVideoClient._instance;
+  }
+
+  async getTokenForTown(coveyTownID: string, clientIdentity: string): Promise<string> {
+    const header = base64URL(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64URL(JSON.stringify({
+      exp: Math.floor(Date.now() / 1000) + MAX_ALLOWED_SESSION_DURATION,
+      grants: { identity: clientIdentity, video: { room: coveyTownID } },
+    }));
+    return `${header}.${payload}.${this.sign(`${header}.${payload}`)}`;
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  async updateTrackSubscriptions(): Promise<void> {
+    // There are no tracks to subscribe to
+  }
+
+  /**
+   * Checks that a token was issued by this client and has not expired
+   *
+   * @param token a token returned by getTokenForTown
+   * @returns the claims of the token, or undefined if it is not valid
+   */
+  verifyToken(token: string): LocalVideoToken | undefined {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || signature !== this.sign(`${header}.${payload}`)) {
+      return undefined;
+    }
+    const claims = JSON.parse(Buffer.from(payload, 'base64').toString());
+    if (claims.exp <= Date.now() / 1000) {
+      return undefined;
+    }
+    return { identity: claims.grants.identity, room: claims.grants.video.room, exp: claims.exp };
+  }
+
+  private sign(data: string): string {
+    return base64URL(crypto.createHmac('sha256', this._secret).update(data).digest());
+  }
+}
@@ -0,0 +1,38 @@
+import MapCatalog, { DEFAULT_MAP_CATALOG, DEFAULT_MAP_ID } from './MapCatalog';
+
+describe('MapCatalog', () => {
+  it('Should list the maps shipped with the frontend, the default one first', () => {
+    const catalog = new MapCatalog();
+    expect(catalog.maps)
+      .toBe(DEFAULT_MAP_CATALOG);
+    expect(catalog.defaultMapID)
+      .toBe(DEFAULT_MAP_ID);
+  });
+  it('Should read the spaces drawn on each map', () => {
+    const catalog = new MapCatalog();
+    expect(catalog.getTownMap(DEFAULT_MAP_ID)?.spaces.map(space => space.spaceID))
+      .toStrictEqual(['1', '2']);
+    expect(catalog.getTownMap('tuxemon-town_transport')?.spaces)
+      .toStrictEqual([]);
+    expect(catalog.getTownMap('tuxemon-town_transport')?.mapID)
+      .toBe('tuxemon-town_transport');
+  });
+  it('Should read each tilemap only once', () => {
+    const catalog = new MapCatalog();
+    expect(catalog.getTownMap(DEFAULT_MAP_ID))
+      .toBe(catalog.getTownMap(DEFAULT_MAP_ID));
+  });
+  it('Should not have maps that are not in the catalog', () => {
+    const catalog = new MapCatalog([DEFAULT_MAP_CATALOG[1]]);
+    expect(catalog.defaultMapID)
+      .toBe('tuxemon-town_transport');
+    expect(catalog.hasMap(DEFAULT_MAP_ID))
+      .toBe(false);
+    expect(catalog.getTownMap(DEFAULT_MAP_ID))
+      .toBeUndefined();
+  });
+  it('Should not allow an empty catalog', () => {
+    expect(() => new MapCatalog([]))
+      .toThrow();
+  });
+});
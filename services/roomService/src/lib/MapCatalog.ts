@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import { CoveyMapInfo } from '../CoveyTypes';
+import CoveyTownMap from './CoveyTownMap';
+
+/** The map of the towns that were created before there was a choice of maps */
+export const DEFAULT_MAP_ID = 'tuxemon-town';
+
+/** The directory that the frontend serves its assets from, unless COVEY_ASSETS_DIR points somewhere else */
+const DEFAULT_ASSETS_DIR = path.join(__dirname, '../../../../frontend/public');
+
+/** The tileset that the maps shipped with the frontend are drawn with */
+const TUXMON_TILESET = {
+  name: 'tuxmon-sample-32px-extruded',
+  imageURL: '/assets/tilesets/tuxmon-sample-32px-extruded.png',
+};
+
+/** The maps that towns can be created with, unless COVEY_MAP_CATALOG points to another catalog */
+export const DEFAULT_MAP_CATALOG: CoveyMapInfo[] = [
+  {
+    mapID: DEFAULT_MAP_ID,
+    name: 'Tuxemon Town',
+    tilemapURL: '/assets/tilemaps/tuxemon-town.json',
+    tilesets: [TUXMON_TILESET],
+  },
+  {
+    mapID: 'tuxemon-town_transport',
+    name: 'Tuxemon Town with transporters',
+    tilemapURL: '/assets/tilemaps/tuxemon-town_transport.json',
+    tilesets: [TUXMON_TILESET],
+  },
+];
+
+/**
+ * The MapCatalog lists the maps that towns can be created with, and reads the spaces of each map
+ * out of its tilemap (the same file that the frontend loads, found under the assets directory)
+ */
+export default class MapCatalog {
+  private static _instance: MapCatalog;
+
+  /** The maps of the catalog, the first one being the default for new towns * */
+  private readonly _maps: CoveyMapInfo[];
+
+  /** The directory that the tilemap URLs are relative to * */
+  private readonly _assetsDir: string;
+
+  /** The tilemaps read so far, by map ID * */
+  private _townMaps = new Map<string, CoveyTownMap>();
+
+  /**
+   * @param maps the maps of the catalog, which may not be empty
+   * @param assetsDir the directory that the tilemap URLs are relative to
+   */
+  constructor(maps: CoveyMapInfo[] = DEFAULT_MAP_CATALOG, assetsDir: string = DEFAULT_ASSETS_DIR) {
+    if (maps.length === 0) {
+      throw new Error('The map catalog must have at least one map');
+    }
+    this._maps = maps;
+    this._assetsDir = assetsDir;
+  }
+
+  public static getInstance(): MapCatalog {
+    if (!MapCatalog._instance) {
+      MapCatalog._instance = new MapCatalog(process.env.COVEY_MAP_CATALOG
+        ? JSON.parse(fs.readFileSync(process.env.COVEY_MAP_CATALOG, 'utf-8')) : undefined,
+      process.env.COVEY_ASSETS_DIR);
+    }
+    return MapCatalog._instance;
+  }
+
+  // gets the maps that towns can be created with
+  get maps(): CoveyMapInfo[] {
+    return this._maps;
+  }
+
+  // gets the map that new towns use unless they choose another one
+  get defaultMapID(): string {
+    return this._maps[0].mapID;
+  }
+
+  /**
+   * Determines whether towns can be created with a map
+   * @param mapID the ID of the map
+   */
+  hasMap(mapID: string): boolean {
+    return this._maps.some(map => map.mapID === mapID);
+  }
+
+  /**
+   * Reads the tilemap of a map of the catalog (only once, the first time it is needed)
+   * @param mapID the ID of the map
+   * @returns undefined if the catalog has no such map
+   */
+  getTownMap(mapID: string): CoveyTownMap | undefined {
+    const info = this._maps.find(map => map.mapID === mapID);
+    if (!info) {
+      return undefined;
+    }
+    let townMap = this._townMaps.get(mapID);
+    if (!townMap) {
+      townMap = CoveyTownMap.fromFile(path.join(this._assetsDir, info.tilemapURL), mapID);
+      this._townMaps.set(mapID, townMap);
+    }
+    return townMap;
+  }
+}
@@ -0,0 +1,36 @@
+import PlayerGrid from './PlayerGrid';
+
+describe('PlayerGrid', () => {
+  it('Should find the players within the radius, in any cell', () => {
+    const grid = new PlayerGrid(100);
+    grid.updatePlayer('same cell', { x: 120, y: 120 });
+    grid.updatePlayer('next cell', { x: 210, y: 150 });
+    grid.updatePlayer('corner of the square', { x: 240, y: 240 });
+    grid.updatePlayer('far away', { x: 1000, y: 150 });
+    expect(grid.playersNear({ x: 150, y: 150 }, 100).sort())
+      .toStrictEqual(['next cell', 'same cell']);
+  });
+  it('Should find players at negative locations', () => {
+    const grid = new PlayerGrid(100);
+    grid.updatePlayer('player', { x: -20, y: 10 });
+    expect(grid.playersNear({ x: 20, y: 10 }, 50))
+      .toStrictEqual(['player']);
+  });
+  it('Should move players between cells', () => {
+    const grid = new PlayerGrid(100);
+    grid.updatePlayer('player', { x: 50, y: 50 });
+    grid.updatePlayer('player', { x: 550, y: 50 });
+    expect(grid.playersNear({ x: 50, y: 50 }, 100))
+      .toStrictEqual([]);
+    expect(grid.playersNear({ x: 500, y: 50 }, 100))
+      .toStrictEqual(['player']);
+  });
+  it('Should forget players that are removed', () => {
+    const grid = new PlayerGrid(100);
+    grid.updatePlayer('player', { x: 50, y: 50 });
+    grid.removePlayer('player');
+    grid.removePlayer('never added');
+    expect(grid.playersNear({ x: 50, y: 50 }, 100))
+      .toStrictEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { MapPoint } from './CoveyTownMap';
+
+function cellKey(column: number, row: number): string {
+  return `${column},${row}`;
+}
+
+/**
+ * The players of a town, bucketed into square cells by where they are on the map, so that the
+ * players near a location are found without going through every player of the town
+ */
+export default class PlayerGrid {
+  /** The IDs of the players in each cell that has any, by cell key * */
+  private _cells = new Map<string, Set<string>>();
+
+  /** Where each player is, and the key of their cell, by player ID * */
+  private _players = new Map<string, { location: MapPoint; cell: string }>();
+
+  private readonly _cellSize: number;
+
+  /**
+   * @param cellSize the width (and height) of each cell, in pixels; searches are fastest when it
+   *                 is about the radius that is searched
+   */
+  constructor(cellSize: number) {
+    this._cellSize = cellSize;
+  }
+
+  /**
+   * Puts a player at a location (moving them there, if they are in the grid already)
+   * @param playerID the ID of the player
+   * @param location where the player is
+   */
+  updatePlayer(playerID: string, location: MapPoint): void {
+    const cell = cellKey(Math.floor(location.x / this._cellSize),
+      Math.floor(location.y / this._cellSize));
+    const previous = this._players.get(playerID);
+    if (previous?.cell !== cell) {
+      this.removePlayer(playerID);
+      const players = this._cells.get(cell) || new Set<string>();
+      players.add(playerID);
+      this._cells.set(cell, players);
+    }
+    this._players.set(playerID, { location: { x: location.x, y: location.y }, cell });
+  }
+
+  /**
+   * Takes a player out of the grid
+   * @param playerID the ID of the player
+   */
+  removePlayer(playerID: string): void {
+    const previous = this._players.get(playerID);
+    if (!previous) {
+      return;
+    }
+    const players = this._cells.get(previous.cell);
+    players?.delete(playerID);
+    if (players?.size === 0) {
+      this._cells.delete(previous.cell);
+    }
+    this._players.delete(playerID);
+  }
+
+  /**
+   * Finds the players within a distance of a location
+   * @param location the center of the area
+   * @param radius how far from the location players may be, in pixels
+   * @returns the IDs of the players, in no particular order
+   */
+  playersNear(location: MapPoint, radius: number): string[] {
+    const nearbyIDs: string[] = [];
+    const lastColumn = Math.floor((location.x + radius) / this._cellSize);
+    const lastRow = Math.floor((location.y + radius) / this._cellSize);
+    for (let row = Math.floor((location.y - radius) / this._cellSize); row <= lastRow; row += 1) {
+      for (let column = Math.floor((location.x - radius) / this._cellSize); column <= lastColumn;
+        column += 1) {
+        this._cells.get(cellKey(column, row))?.forEach((playerID) => {
+          const player = this._players.get(playerID);
+          if (player && Math.hypot(player.location.x - location.x,
+            player.location.y - location.y) <= radius) {
+            nearbyIDs.push(playerID);
+          }
+        });
+      }
+    }
+    return nearbyIDs;
+  }
+}
@@ -0,0 +1,22 @@
+import PlayerIdentityTokens from './PlayerIdentityTokens';
+
+describe('PlayerIdentityTokens', () => {
+  it('Should issue tokens that prove the identity they were issued for', () => {
+    const tokens = new PlayerIdentityTokens('secret');
+    expect(tokens.identityFromToken(tokens.issueToken('identity')))
+      .toBe('identity');
+  });
+  it('Should not accept tokens signed with another secret', () => {
+    const token = new PlayerIdentityTokens('secret').issueToken('identity');
+    expect(new PlayerIdentityTokens('other secret').identityFromToken(token))
+      .toBeUndefined();
+  });
+  it('Should not accept tokens that were tampered with', () => {
+    const tokens = new PlayerIdentityTokens('secret');
+    const [, signature] = tokens.issueToken('identity').split('.');
+    expect(tokens.identityFromToken(`someone else.${signature}`))
+      .toBeUndefined();
+    expect(tokens.identityFromToken('identity'))
+      .toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+
+/**
+ * Issues and checks the tokens that players keep to prove their identity when they join a town
+ * again. An identity is public (it is what whitelists refer to), the token is only given to the
+ * player it belongs to.
+ */
+export default class PlayerIdentityTokens {
+  private static _instance: PlayerIdentityTokens;
+
+  /** The secret that the tokens are signed with * */
+  private readonly _secret: string;
+
+  /**
+   * @param secret the secret to sign tokens with (a random one unless given, in which case the
+   * tokens stop working when the server restarts)
+   */
+  constructor(secret: string = crypto.randomBytes(32).toString('hex')) {
+    this._secret = secret;
+  }
+
+  public static getInstance(): PlayerIdentityTokens {
+    if (!PlayerIdentityTokens._instance) {
+      PlayerIdentityTokens._instance = new PlayerIdentityTokens(process.env.COVEY_IDENTITY_SECRET);
+    }
+    return PlayerIdentityTokens._instance;
+  }
+
+  /**
+   * Creates the token that proves an identity
+   *
+   * @param identity the identity of a player
+   */
+  issueToken(identity: string): string {
+    return `${identity}.${this.sign(identity)}`;
+  }
+
+  /**
+   * Checks that a token was issued by this server
+   *
+   * @param token a token returned by issueToken
+   * @returns the identity that the token proves, or undefined if it is not valid
+   */
+  identityFromToken(token: string): string | undefined {
+    const [identity, signature, ...rest] = token.split('.');
+    if (!identity || rest.length > 0 || signature !== this.sign(identity)) {
+      return undefined;
+    }
+    return identity;
+  }
+
+  private sign(data: string): string {
+    return crypto.createHmac('sha256', this._secret).update(data).digest('hex');
+  }
+}
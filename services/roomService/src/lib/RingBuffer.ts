@@ -0,0 +1,29 @@
+/**
+ * A fixed-size buffer that overwrites its oldest item once it is full
+ */
+export default class RingBuffer<T> {
+  private readonly _items: T[] = [];
+
+  /** Index of the oldest item, once the buffer is full * */
+  private _start = 0;
+
+  private readonly _capacity: number;
+
+  constructor(capacity: number) {
+    this._capacity = capacity;
+  }
+
+  push(item: T): void {
+    if (this._items.length < this._capacity) {
+      this._items.push(item);
+    } else {
+      this._items[this._start] = item;
+      this._start = (this._start + 1) % this._capacity;
+    }
+  }
+
+  // gets the items, from the oldest to the newest
+  toArray(): T[] {
+    return this._items.slice(this._start).concat(this._items.slice(0, this._start));
+  }
+}
@@ -0,0 +1,14 @@
+import ITownsStorage from './ITownsStorage';
+import InMemoryTownsStorage from './InMemoryTownsStorage';
+import JSONFileTownsStorage from './JSONFileTownsStorage';
+
+/**
+ * Gets the storage selected by the configuration: the JSON file that COVEY_TOWNS_FILE points to,
+ * or memory (nothing survives a restart) if it is not set
+ */
+export default function townsStorageFromConfiguration(): ITownsStorage {
+  if (process.env.COVEY_TOWNS_FILE) {
+    return new JSONFileTownsStorage(process.env.COVEY_TOWNS_FILE);
+  }
+  return new InMemoryTownsStorage();
+}
@@ -1,13 +1,16 @@
 import dotenv from 'dotenv';
 import Twilio from 'twilio';
 import assert from 'assert';
-import IVideoClient from './IVideoClient';
+import IVideoClient, { TrackSubscriptionRules } from './IVideoClient';
 
 dotenv.config();
 
 // 1 hour: each client will time out after 1 hour of video and need to refresh
 const MAX_ALLOWED_SESSION_DURATION = 3600;
 
+/** A track subscription rule, in the format of the Twilio Video API */
+type TwilioSubscribeRule = { type: 'include' | 'exclude'; all?: boolean; publisher?: string };
+
 export default class TwilioVideo implements IVideoClient {
   private _twilioClient: Twilio.Twilio;
 
@@ -61,4 +64,18 @@ export default class TwilioVideo implements IVideoClient {
 
     return token.toJwt();
   }
+
+  async updateTrackSubscriptions(coveyTownID: string, clientIdentity: string,
+    rules: TrackSubscriptionRules): Promise<void> {
+    // Twilio applies the rules in order, so the later rules carve exceptions out of the first one
+    const twilioRules: TwilioSubscribeRule[] = rules.subscribeTo === 'all'
+      ? [{ type: 'include', all: true } as TwilioSubscribeRule]
+        .concat(rules.except.map(publisher => ({ type: 'exclude', publisher })))
+      : [{ type: 'exclude', all: true } as TwilioSubscribeRule]
+        .concat(rules.publishers.map(publisher => ({ type: 'include', publisher })));
+    await this._twilioClient.video.rooms(coveyTownID)
+      .participants(clientIdentity)
+      .subscribeRules
+      .update({ rules: twilioRules });
+  }
 }
@@ -0,0 +1,30 @@
+import IVideoClient from './IVideoClient';
+import LocalVideoClient from './LocalVideoClient';
+import TwilioVideo from './TwilioVideo';
+
+/** The video providers that the room service can use, by their COVEY_VIDEO_PROVIDER name */
+const VIDEO_PROVIDERS: { [name: string]: () => IVideoClient } = {
+  twilio: () => TwilioVideo.getInstance(),
+  local: () => LocalVideoClient.getInstance(),
+};
+
+/**
+ * Whether the environment has every credential that the Twilio video provider needs
+ */
+function hasTwilioCredentials(): boolean {
+  return ['TWILIO_ACCOUNT_SID', 'TWILIO_API_AUTH_TOKEN', 'TWILIO_API_KEY_SID', 'TWILIO_API_KEY_SECRET']
+    .every(name => process.env[name]);
+}
+
+/**
+ * Gets the video client of the provider selected by the COVEY_VIDEO_PROVIDER environment
+ * variable (unless it is set, Twilio if its credentials are set and the local provider otherwise)
+ */
+export default function videoClientFromConfiguration(): IVideoClient {
+  const providerName = process.env.COVEY_VIDEO_PROVIDER || (hasTwilioCredentials() ? 'twilio' : 'local');
+  const provider = VIDEO_PROVIDERS[providerName];
+  if (!provider) {
+    throw new Error(`Unknown video provider ${providerName}, COVEY_VIDEO_PROVIDER must be one of ${Object.keys(VIDEO_PROVIDERS).join(', ')}`);
+  }
+  return provider();
+}
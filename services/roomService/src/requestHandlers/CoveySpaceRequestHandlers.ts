@@ -1,10 +1,17 @@
-import { CoveySpaceInfo } from '../CoveyTypes';
-import CoveySpacesStore from '../lib/CoveySpacesStore';
+import { StatusCodes } from 'http-status-codes';
+import {
+  CoveySpaceInfo, HostSuccessionPolicy, SpaceKnock, SpaceReservation,
+} from '../CoveyTypes';
+import CoveyTownController from '../lib/CoveyTownController';
+import CoveyTownsStore from '../lib/CoveyTownsStore';
+import { isValidReservationWindow } from '../lib/CoveySpacesStore';
 
 /**
  * Request to create a covey space
  */
 export interface SpaceCreateRequest {
+  /** The session token of the player making the request */
+  coveySessionToken: string;
   /** The town that this space belongs to */
   coveyTownID: string;
   /** The id for the space that is to be created* */
@@ -15,11 +22,15 @@ export interface SpaceCreateRequest {
  * Payload sent by client to claim a space within a Town in Covey.Town
  */
 export interface SpaceClaimRequest {
+  /** The session token of the player making the request */
+  coveySessionToken: string;
+  /** The town that the space belongs to */
+  coveyTownID: string;
   /** The id for the space that is to be claimed* */
   coveySpaceID: string;
   /** The id for the player sending the request* */
   playerID: string;
-  /** The id for the new host (player) for the private space* */
+  /** The id for the new host (player) for the private space, who must be the player sending the request* */
   hostID: string;
 }
 
@@ -27,6 +38,10 @@ export interface SpaceClaimRequest {
  * The format of a request to join a space within a Town in Covey.Town, as dispatched by the server middleware
  */
 export interface SpaceJoinRequest {
+  /** The session token of the player making the request */
+  coveySessionToken: string;
+  /** The town that the space belongs to */
+  coveyTownID: string;
   /** the id for the player that would like to join * */
   playerID: string;
   /** ID of the space that the player would like to join * */
@@ -37,12 +52,55 @@ export interface SpaceJoinRequest {
  * The format of a request to leave a space within a Town in Covey.Town, as dispatched by the server middleware
  */
 export interface SpaceLeaveRequest {
+  /** The session token of the player making the request */
+  coveySessionToken: string;
+  /** The town that the space belongs to */
+  coveyTownID: string;
   /** the id for the player that would like to join * */
   playerID: string;
   /** ID of the space that the player would like to join * */
   coveySpaceID: string;
 }
 
+/**
+ * The format of a request to knock on a private space, asking its host to be let in
+ */
+export interface SpaceKnockRequest {
+  /** The session token of the player making the request */
+  coveySessionToken: string;
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the player that would like to be let in * */
+  playerID: string;
+  /** ID of the space that the player would like to join * */
+  coveySpaceID: string;
+}
+
+/**
+ * Response from the server for a knock request
+ */
+export interface SpaceKnockResponse {
+  knock: SpaceKnock;
+}
+
+/**
+ * The format of a request from the host of a space to answer a knock
+ */
+export interface SpaceKnockAnswerRequest {
+  /** The session token of the player making the request */
+  coveySessionToken: string;
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the host answering the knock * */
+  playerID: string;
+  /** ID of the space that was knocked on * */
+  coveySpaceID: string;
+  /** the id for the player that knocked * */
+  knockerID: string;
+  /** Whether to let the player in (they are added to the whitelist) * */
+  accept: boolean;
+}
+
 /**
  * Response from the server for a space list request
  */
@@ -51,10 +109,20 @@ export interface SpaceListResponse {
   spaces: CoveySpaceInfo[];
 }
 
+/**
+ * Request to list the spaces
+ */
+export interface SpaceListRequest {
+  coveySessionToken: string;
+  coveyTownID: string;
+}
+
 /**
  * Response to the server to get info on a space
  */
 export interface SpaceGetForPlayerRequest {
+  coveySessionToken: string;
+  coveyTownID: string;
   playerID: string;
 }
 
@@ -75,20 +143,103 @@ export interface SpaceInfoResponse {
  * Payload sent by the client to delete a Town
  */
 export interface SpaceDisbandRequest {
+  coveyTownID: string;
   coveySpaceID: string;
   playerID: string;
   hostID: null;
 }
 
+/**
+ * Payload sent by the host of a space to remove a player from it
+ */
+export interface SpaceKickRequest {
+  /** The session token of the player making the request */
+  coveySessionToken: string;
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the host removing the player * */
+  playerID: string;
+  /** ID of the space to remove the player from * */
+  coveySpaceID: string;
+  /** the id for the player to remove * */
+  kickedPlayerID: string;
+}
+
+/**
+ * Payload sent by a player to reserve a space for a time window, which they host
+ */
+export interface SpaceReserveRequest {
+  /** The session token of the player making the request */
+  coveySessionToken: string;
+  /** The town that the space belongs to */
+  coveyTownID: string;
+  /** the id for the player reserving the space * */
+  playerID: string;
+  /** ID of the space to reserve * */
+  coveySpaceID: string;
+  /** When the reservation starts and ends, in milliseconds since the epoch * */
+  start: number;
+  end: number;
+  /** The identities of the players allowed into the space during the reservation * */
+  whitelist?: string[];
+  /** The identity of the presenter during the reservation * */
+  presenterIdentity?: string | null;
+}
+
+/**
+ * Response from the server for a reservation request
+ */
+export interface SpaceReserveResponse {
+  reservation: SpaceReservation;
+}
+
+/**
+ * Request to list the reservations of the spaces of a town
+ */
+export interface ReservationListRequest {
+  coveySessionToken: string;
+  coveyTownID: string;
+}
+
+/**
+ * Response from the server for a reservation list request
+ */
+export interface ReservationListResponse {
+  /** The reservations that have not ended yet, earliest first */
+  reservations: SpaceReservation[];
+}
+
+/**
+ * Payload sent by the client to cancel a reservation
+ */
+export interface ReservationCancelRequest {
+  coveySessionToken: string;
+  coveyTownID: string;
+  /** the id for the player cancelling the reservation (who made it, or a town moderator) * */
+  playerID: string;
+  reservationID: string;
+}
+
 /**
  * Payload sent by the client to update a space.
  */
 export interface SpaceUpdateRequest {
+  coveySessionToken: string;
+  coveyTownID: string;
   coveySpaceID: string;
   playerID: string;
   hostID: string | null;
   presenterID: string | null;
+  /** The identities of the players allowed into the space */
   whitelist: string[];
+  /** The user names to let into the space once they arrive */
+  invitedNames?: string[];
+  /** The maximum number of players in the space (null for no limit), only the host may set it */
+  capacity?: number | null;
+  /** The identities of the players that share the host's privileges, only the host may set them */
+  coHosts?: string[];
+  /** What happens to the space when its host leaves, only the host may set it */
+  successionPolicy?: HostSuccessionPolicy;
 }
 
 /**
@@ -98,6 +249,44 @@ export interface ResponseEnvelope<T> {
   isOK: boolean;
   message?: string;
   response?: T;
+  /** HTTP status the router should reply with, if not OK (not sent to the client) */
+  status?: StatusCodes;
+}
+
+/** The succession policies that a space may have */
+export const SUCCESSION_POLICIES: HostSuccessionPolicy[] = ['promoteCoHost', 'promoteLongestPresent', 'publicizeAfterGracePeriod'];
+
+const noSuchTown = {
+  isOK: false,
+  message: 'Error: No such town',
+  status: StatusCodes.NOT_FOUND,
+};
+
+/**
+ * Checks that a space request was made with a session token issued by the given town and, if the
+ * request names a player, that the session belongs to that player
+ * @param townController the town that the request is acting on
+ * @param coveySessionToken the session token sent with the request
+ * @param playerID the player that the request claims to be made by, if any
+ * @returns an envelope rejecting the request, or undefined if the request may proceed
+ */
+function rejectUnauthorizedRequest(townController: CoveyTownController, coveySessionToken: string, playerID?: string): ResponseEnvelope<never> | undefined {
+  const session = townController.getSessionByToken(coveySessionToken);
+  if (!session) {
+    return {
+      isOK: false,
+      message: 'Invalid session token',
+      status: StatusCodes.UNAUTHORIZED,
+    };
+  }
+  if (playerID !== undefined && session.player.id !== playerID) {
+    return {
+      isOK: false,
+      message: `Session does not belong to player ID${playerID}`,
+      status: StatusCodes.FORBIDDEN,
+    };
+  }
+  return undefined;
 }
 
 /**
@@ -106,18 +295,41 @@ export interface ResponseEnvelope<T> {
  * @returns success or failure message
  */
 export async function spaceCreateHandler(requestData: SpaceCreateRequest): Promise<ResponseEnvelope<Record<string, null>>> {
-  const spacesStore = CoveySpacesStore.getInstance();
-
-  const { coveySpaceID, coveyTownID } = requestData;
+  const { coveySpaceID, coveyTownID, coveySessionToken } = requestData;
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, coveySessionToken);
+  if (rejection) {
+    return rejection;
+  }
+  // Only the players whose town role allows managing every space may create spaces
+  const session = townController.getSessionByToken(coveySessionToken);
+  if (!session || !townController.hasPermission(session.player, 'manageSpaces')) {
+    return {
+      isOK: false,
+      message: 'Only town moderators may create spaces',
+      status: StatusCodes.FORBIDDEN,
+    };
+  }
   // checks if there is no coveySpaceId provided
   if (coveySpaceID.length === 0) {
     return {
       isOK: false,
       message: 'Space ID must be specified',
+      status: StatusCodes.BAD_REQUEST,
+    };
+  }
+  if (townController.privateSpaces.hasSpace(coveySpaceID)) {
+    return {
+      isOK: false,
+      message: `Space ${coveySpaceID} already exists`,
+      status: StatusCodes.CONFLICT,
     };
   }
   // creates the private space and sends message saying the new space was created
-  spacesStore.createSpace(coveySpaceID, coveyTownID);
+  townController.privateSpaces.createSpace(coveySpaceID);
   return {
     isOK: true,
     message: `Private Space ${coveySpaceID} was created`,
@@ -130,23 +342,48 @@ export async function spaceCreateHandler(requestData: SpaceCreateRequest): Promi
  * @returns success or failure message
  */
 export async function spaceJoinHandler(requestData: SpaceJoinRequest): Promise<ResponseEnvelope<Record<string, null>>> {
-  const spacesStore = CoveySpacesStore.getInstance();
-  const { playerID, coveySpaceID } = requestData;
-  const coveySpaceController = spacesStore.getControllerForSpace(coveySpaceID);
+  const { playerID, coveySpaceID, coveyTownID, coveySessionToken } = requestData;
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, coveySessionToken, playerID);
+  if (rejection) {
+    return rejection;
+  }
+  const coveySpaceController = townController.privateSpaces.getControllerForSpace(coveySpaceID);
   // if we cant get the controller for a specific space send an error that the space doesnt exist
   if (!coveySpaceController) {
     return {
       isOK: false,
       message: 'Error: No such space',
       response: {},
+      status: StatusCodes.NOT_FOUND,
     };
-  }  
-  // if there is said space successfully add a player to it
-  const success = coveySpaceController.addPlayer(playerID);
+  }
+  // players only join spaces drawn on the map by walking into them
+  const player = coveySpaceController.playerFromID(playerID);
+  if (coveySpaceController.bounds !== undefined
+    && (player === undefined || !coveySpaceController.containsLocation(player.location))) {
+    return {
+      isOK: false,
+      message: `Player ID${playerID} is not inside the space`,
+      response: {},
+    };
+  }
+  // if there is said space successfully add a player to it (or put them in its line if it is full)
+  const result = coveySpaceController.addPlayer(playerID);
+  if (result === 'full') {
+    return {
+      isOK: false,
+      response: {},
+      message: `Space ${coveySpaceID} is full, player ID${playerID} is waiting in line`,
+    };
+  }
   return {
-    isOK: success,
+    isOK: result === 'joined',
     response: {},
-    message: !success ? `Player ID${playerID} can't join space` : undefined,
+    message: result !== 'joined' ? `Player ID${playerID} can't join space` : undefined,
   };
 }
 
@@ -156,14 +393,22 @@ export async function spaceJoinHandler(requestData: SpaceJoinRequest): Promise<R
  * @returns success or failure message
  */
 export async function spaceLeaveHandler(requestData: SpaceLeaveRequest): Promise<ResponseEnvelope<Record<string, null>>> {
-  const spacesStore = CoveySpacesStore.getInstance();
-  const { playerID, coveySpaceID } = requestData;
-  const coveySpaceController = spacesStore.getControllerForSpace(coveySpaceID);
+  const { playerID, coveySpaceID, coveyTownID, coveySessionToken } = requestData;
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, coveySessionToken, playerID);
+  if (rejection) {
+    return rejection;
+  }
+  const coveySpaceController = townController.privateSpaces.getControllerForSpace(coveySpaceID);
   // if we cant get the controller for a specific space send an error that the space doesnt exist
   if (!coveySpaceController) {
     return {
       isOK: false,
       message: 'Error: No such space',
+      status: StatusCodes.NOT_FOUND,
     };
   }
   // if there is said space successfully remove a player from it
@@ -176,18 +421,198 @@ export async function spaceLeaveHandler(requestData: SpaceLeaveRequest): Promise
   };
 }
 
+/**
+ * Handler for knocking on a private space
+ * @param requestData the playerID for the player and the space they want to be let into
+ * @returns the knock, which the host has to answer before it expires
+ */
+export async function spaceKnockHandler(requestData: SpaceKnockRequest): Promise<ResponseEnvelope<SpaceKnockResponse>> {
+  const { playerID, coveySpaceID, coveyTownID, coveySessionToken } = requestData;
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, coveySessionToken, playerID);
+  if (rejection) {
+    return rejection;
+  }
+  const coveySpaceController = townController.privateSpaces.getControllerForSpace(coveySpaceID);
+  if (!coveySpaceController) {
+    return {
+      isOK: false,
+      message: 'Error: No such space',
+      status: StatusCodes.NOT_FOUND,
+    };
+  }
+  const knock = coveySpaceController.knock(playerID);
+  if (!knock) {
+    return {
+      isOK: false,
+      message: `Player ID${playerID} can't knock on space ${coveySpaceID}`,
+      status: StatusCodes.CONFLICT,
+    };
+  }
+  return {
+    isOK: true,
+    response: { knock },
+  };
+}
 
 /**
- * Handler for listing spaces
- * @returns list of all spaces (spaceID, currentPlayers, Whitelist, Host, Presenter)
+ * Handler for the host of a space answering a knock
+ * @param requestData the playerID for the host, the player that knocked and whether to let them in
+ * @returns success or failure message
  */
-export async function spaceListHandler(): Promise<ResponseEnvelope<SpaceListResponse>> {
-  const spacesStore = CoveySpacesStore.getInstance();
+export async function spaceKnockAnswerHandler(requestData: SpaceKnockAnswerRequest): Promise<ResponseEnvelope<Record<string, null>>> {
+  const { playerID, coveySpaceID, coveyTownID, coveySessionToken, knockerID, accept } = requestData;
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, coveySessionToken, playerID);
+  if (rejection) {
+    return rejection;
+  }
+  const success = townController.privateSpaces.answerKnock(coveySpaceID, playerID, knockerID, accept === true);
+  return {
+    isOK: success,
+    response: {},
+    message: !success ? 'Could not answer knock.' : undefined,
+  };
+}
+
+/**
+ * Handler for removing a player from a space (host and co-hosts only): the player is moved out
+ * of the space, and kept out of it for a while
+ * @param requestData the space, the host making the request and the player to remove
+ * @returns success or failure message
+ */
+export async function spaceKickHandler(requestData: SpaceKickRequest): Promise<ResponseEnvelope<Record<string, null>>> {
+  const { playerID, coveySpaceID, coveyTownID, coveySessionToken, kickedPlayerID } = requestData;
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, coveySessionToken, playerID);
+  if (rejection) {
+    return rejection;
+  }
+  const success = townController.privateSpaces.kickPlayer(coveySpaceID, playerID, kickedPlayerID);
+  return {
+    isOK: success,
+    response: {},
+    message: !success ? 'Could not remove the player from the space.' : undefined,
+  };
+}
+
+/**
+ * Handler for reserving a space for a time window: during the window, the space is private for
+ * the player who reserved it, with the whitelist and presenter they chose
+ * @param requestData the space, the window and the player reserving it
+ * @returns the reservation, or why the space could not be reserved
+ */
+export async function spaceReserveHandler(requestData: SpaceReserveRequest): Promise<ResponseEnvelope<SpaceReserveResponse>> {
+  const { playerID, coveySpaceID, coveyTownID, coveySessionToken, start, end } = requestData;
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, coveySessionToken, playerID);
+  if (rejection) {
+    return rejection;
+  }
+  if (!isValidReservationWindow(start, end)) {
+    return {
+      isOK: false,
+      message: 'A reservation must end after it starts, last at most 8 hours and start within the next 7 days',
+      status: StatusCodes.BAD_REQUEST,
+    };
+  }
+  if (!townController.privateSpaces.getControllerForSpace(coveySpaceID)) {
+    return {
+      isOK: false,
+      message: 'Error: No such space',
+      status: StatusCodes.NOT_FOUND,
+    };
+  }
+  const reservation = townController.privateSpaces.reserveSpace(coveySpaceID, playerID, start, end,
+    requestData.whitelist ?? [], requestData.presenterIdentity ?? null);
+  if (!reservation) {
+    return {
+      isOK: false,
+      message: `Space ${coveySpaceID} is already reserved for part of that time`,
+      status: StatusCodes.CONFLICT,
+    };
+  }
+  return {
+    isOK: true,
+    response: { reservation },
+  };
+}
+
+/**
+ * Handler for listing the reservations of the spaces of a town
+ * @returns the reservations that have not ended yet, earliest first
+ */
+export async function reservationListHandler(requestData: ReservationListRequest): Promise<ResponseEnvelope<ReservationListResponse>> {
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(requestData.coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, requestData.coveySessionToken);
+  if (rejection) {
+    return rejection;
+  }
+  return {
+    isOK: true,
+    response: {
+      reservations: townController.privateSpaces.listReservations(),
+    },
+  };
+}
+
+/**
+ * Handler for cancelling a reservation (by the player who made it, or a town moderator), which
+ * releases the space if the reservation is under way
+ * @param requestData the reservation and the player cancelling it
+ * @returns success or failure message
+ */
+export async function reservationCancelHandler(requestData: ReservationCancelRequest): Promise<ResponseEnvelope<Record<string, null>>> {
+  const { playerID, coveyTownID, coveySessionToken, reservationID } = requestData;
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, coveySessionToken, playerID);
+  if (rejection) {
+    return rejection;
+  }
+  const success = townController.privateSpaces.cancelReservation(reservationID, playerID);
+  return {
+    isOK: success,
+    response: {},
+    message: !success ? 'Could not cancel the reservation.' : undefined,
+  };
+}
+
+/**
+ * Handler for listing the spaces of a town
+ * @returns list of all spaces in the town (spaceID, currentPlayers, Whitelist, Host, Presenter)
+ */
+export async function spaceListHandler(requestData: SpaceListRequest): Promise<ResponseEnvelope<SpaceListResponse>> {
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(requestData.coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, requestData.coveySessionToken);
+  if (rejection) {
+    return rejection;
+  }
   // responds with a list of all the spaces
   return {
     isOK: true,
     response: { 
-      spaces: spacesStore.listSpaces(), 
+      spaces: townController.privateSpaces.listSpaces(), 
     },
   };
 }
@@ -197,9 +622,17 @@ export async function spaceListHandler(): Promise<ResponseEnvelope<SpaceListResp
  * @returns listing of the specific space (spaceID, currentPlayers, Whitelist, Host, Presenter)
  */
 export async function spaceGetForPlayerHandler(requestData: SpaceGetForPlayerRequest): Promise<ResponseEnvelope<SpaceInfoResponse>> {
-  const spacesStore = CoveySpacesStore.getInstance();
+  const { playerID, coveyTownID, coveySessionToken } = requestData;
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, coveySessionToken, playerID);
+  if (rejection) {
+    return rejection;
+  }
 
-  const spaceResponse = spacesStore.getSpaceForPlayer(requestData.playerID);
+  const spaceResponse = townController.privateSpaces.getSpaceForPlayer(playerID);
 
   return {
     isOK: true,
@@ -215,45 +648,78 @@ export async function spaceGetForPlayerHandler(requestData: SpaceGetForPlayerReq
  * @returns success or failure message
  */
 export async function spaceClaimHandler(requestData: SpaceClaimRequest): Promise<ResponseEnvelope<Record<string, null>>> {
-  const spacesStore = CoveySpacesStore.getInstance();
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(requestData.coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, requestData.coveySessionToken, requestData.playerID);
+  if (rejection) {
+    return rejection;
+  }
   // if we cant get the controller for a specific space send an error that the space doesnt exist
-  const coveySpaceController = spacesStore.getControllerForSpace(requestData.coveySpaceID);
+  const coveySpaceController = townController.privateSpaces.getControllerForSpace(requestData.coveySpaceID);
   if (!coveySpaceController) {
     return {
       isOK: false,
       message: 'Error: No such space',
       response: {},
+      status: StatusCodes.NOT_FOUND,
     };
   }
-  // if there is said space successfully update the host of the space
-  const success = coveySpaceController.updateSpaceHost(requestData.hostID);
+  // Players may only claim a space for themselves, from inside of it
+  const success = requestData.hostID === requestData.playerID
+    && coveySpaceController.updateSpaceHost(requestData.hostID);
   return {
     isOK: success,
     response: {},
-    message: success? 'Could not claim space' : undefined,
+    message: !success ? 'Could not claim space' : undefined,
   };
 }
 
 /**
  * Handler for updating spaces (also for disbanding private space)
- * @param requestData spaceID to update, playerID of the new host for the space, playerID of the presenter for the space, new whitelist
+ * @param requestData spaceID to update, playerID of the new host for the space (the current host, unless it is handed over), playerID of the presenter for the space, new whitelist, co-hosts and succession policy
  * @returns success or failure message
  */
 export async function spaceUpdateHandler(requestData: SpaceUpdateRequest): Promise<ResponseEnvelope<Record<string, null>>> {
-  const spacesStore = CoveySpacesStore.getInstance();
-  const { coveySpaceID, playerID, hostID, presenterID, whitelist } = requestData;
+  const { coveySpaceID, coveyTownID, coveySessionToken, playerID, hostID, presenterID, whitelist, capacity, invitedNames, coHosts, successionPolicy } = requestData;
+  const townController = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+  if (!townController) {
+    return noSuchTown;
+  }
+  const rejection = rejectUnauthorizedRequest(townController, coveySessionToken, playerID);
+  if (rejection) {
+    return rejection;
+  }
+  if (capacity !== undefined && capacity !== null && !(Number.isInteger(capacity) && capacity > 0)) {
+    return {
+      isOK: false,
+      message: 'Capacity must be a positive whole number',
+      status: StatusCodes.BAD_REQUEST,
+    };
+  }
+  if (successionPolicy !== undefined && !SUCCESSION_POLICIES.includes(successionPolicy)) {
+    return {
+      isOK: false,
+      message: `Succession policy must be one of ${SUCCESSION_POLICIES.join(', ')}`,
+      status: StatusCodes.BAD_REQUEST,
+    };
+  }
+  const spacesStore = townController.privateSpaces;
   let success = false;
   // if statement determines what parts of the space need to be updated if the space does not have empty default settings
   if (hostID === null) {
-    spacesStore.disbandSpace(coveySpaceID, playerID);
-    success = true;
-  } else if (whitelist === undefined && presenterID === undefined) { // when claim space is called
+    success = spacesStore.disbandSpace(coveySpaceID, playerID);
+  } else if ([whitelist, presenterID, capacity, invitedNames, coHosts, successionPolicy]
+    .every(setting => setting === undefined)
+    && spacesStore.getControllerForSpace(coveySpaceID)?.hostIdentity === null) { // when claim space is called
+    const host = townController.players.find(player => player.id === hostID);
     success = spacesStore.updateSpace(
       coveySpaceID,
       playerID, 
       hostID, 
       null, 
-      [hostID],
+      host ? [host.identity] : [],
     );
   } else {
     success = spacesStore.updateSpace(
@@ -262,13 +728,16 @@ export async function spaceUpdateHandler(requestData: SpaceUpdateRequest): Promi
       hostID,
       presenterID, 
       whitelist,
+      capacity,
+      invitedNames,
+      coHosts,
+      successionPolicy,
     );
   }
 
   return {
     isOK: success,
     response: {},
-    message: success? 'Could not update space.' : undefined,
-    
+    message: !success ? 'Could not update space.' : undefined,
   };
 }
@@ -1,11 +1,20 @@
 import assert from 'assert';
-import { Socket } from 'socket.io';
+import { nanoid } from 'nanoid';
+import { Namespace, Socket } from 'socket.io';
 import Player from '../types/Player';
-import { CoveyTownList, UserLocation } from '../CoveyTypes';
+import {
+  ChatMessage, ChatScope, CoveyMapInfo, CoveySpaceInfo, CoveyTownList, Direction,
+  HostSuccessionPolicy, KnockOutcome, PlayerMovement, SpaceBounds, SpaceKnock, SpaceReservation,
+  TownRole, UserLocation,
+} from '../CoveyTypes';
 import CoveyTownListener from '../types/CoveyTownListener';
-import CoveyTownsStore from '../lib/CoveyTownsStore';
-import CoveySpacesStore from '../lib/CoveySpacesStore';
-import CoveySpaceController from '../lib/CoveySpaceController';
+import CoveyTownQueueListener from '../types/CoveyTownQueueListener';
+import CoveyTownsStore, { isValidTownCapacity } from '../lib/CoveyTownsStore';
+import CoveyTownController from '../lib/CoveyTownController';
+import MapCatalog from '../lib/MapCatalog';
+import PlayerIdentityTokens from '../lib/PlayerIdentityTokens';
+import { ExportedSpace, TOWN_EXPORT_VERSION, TownExport } from '../lib/ITownsStorage';
+import { SUCCESSION_POLICIES } from './CoveySpaceRequestHandlers';
 
 /**
  * The format of a request to join a Town in Covey.Town, as dispatched by the server middleware
@@ -15,8 +24,17 @@ export interface TownJoinRequest {
   userName: string;
   /** ID of the town that the player would like to join * */
   coveyTownID: string;
+  /** The ticket of the player, if they waited in line to join a full town * */
+  waitingTicket?: string;
+  /** The token the player was given when they last joined a town, to keep their identity * */
+  identityToken?: string;
 }
 
+/**
+ * The message of the response to a join request that was rejected because the town is full
+ */
+export const TOWN_FULL_MESSAGE = 'Town is full';
+
 /**
  * The format of a response to join a Town in Covey.Town, as returned by the handler to the server
  * middleware
@@ -36,6 +54,12 @@ export interface TownJoinResponse {
   friendlyName: string;
   /** Is this a private town? * */
   isPubliclyListed: boolean;
+  /** Secret token that this player should send when they join again, to keep their identity * */
+  identityToken: string;
+  /** The role of each player (by identity) that is not a plain member * */
+  roles: { [identity: string]: TownRole };
+  /** The map that the town uses (its ID in the map catalog) * */
+  mapID: string;
 }
 
 /**
@@ -44,6 +68,12 @@ export interface TownJoinResponse {
 export interface TownCreateRequest {
   friendlyName: string;
   isPubliclyListed: boolean;
+  /** The most players that may be in the town at once (50, unless given) * */
+  capacity?: number;
+  /** The map of the catalog that the town uses (the first map of the catalog, unless given) * */
+  mapID?: string;
+  /** The identity token of the player creating the town, who becomes its owner (a new identity, unless given) * */
+  identityToken?: string;
 }
 
 /**
@@ -52,6 +82,8 @@ export interface TownCreateRequest {
 export interface TownCreateResponse {
   coveyTownID: string;
   coveyTownPassword: string;
+  /** The identity token of the owner of the town, to join it with * */
+  identityToken: string;
 }
 
 /**
@@ -61,12 +93,21 @@ export interface TownListResponse {
   towns: CoveyTownList;
 }
 
+/**
+ * Response from the server for a request to list the maps that towns can be created with
+ */
+export interface MapListResponse {
+  maps: CoveyMapInfo[];
+}
+
 /**
  * Payload sent by the client to delete a Town
  */
 export interface TownDeleteRequest {
   coveyTownID: string;
-  coveyTownPassword: string;
+  /** The update password of the town, needed unless the session of the player allows it * */
+  coveyTownPassword?: string;
+  coveySessionToken?: string;
 }
 
 /**
@@ -76,9 +117,82 @@ export interface TownDeleteRequest {
  */
 export interface TownUpdateRequest {
   coveyTownID: string;
-  coveyTownPassword: string;
+  /** The update password of the town, needed unless the session of the player allows it * */
+  coveyTownPassword?: string;
+  coveySessionToken?: string;
   friendlyName?: string;
   isPubliclyListed?: boolean;
+  capacity?: number;
+}
+
+/**
+ * Payload sent by a town admin to remove a player from a Town
+ */
+export interface TownKickRequest {
+  coveyTownID: string;
+  /** The update password of the town, needed unless the session of the player allows it * */
+  coveyTownPassword?: string;
+  coveySessionToken?: string;
+  /** The player to remove * */
+  playerID: string;
+  /** Why the player is removed, as told to them * */
+  reason?: string;
+  /** How long the player may not join again, in minutes (they may join right away, unless given) * */
+  banMinutes?: number;
+}
+
+/**
+ * Payload sent by the owner of a Town to change the role of a player
+ */
+export interface TownRoleRequest {
+  coveyTownID: string;
+  /** The update password of the town, needed unless the session of the player allows it * */
+  coveyTownPassword?: string;
+  coveySessionToken?: string;
+  /** The player whose role changes * */
+  playerID: string;
+  role: TownRole;
+}
+
+/**
+ * The roles that players may have in a town
+ */
+const TOWN_ROLES: TownRole[] = ['owner', 'moderator', 'member'];
+
+/**
+ * Payload sent by a town admin to export the configuration of a Town
+ */
+export interface TownExportRequest {
+  coveyTownID: string;
+  /** The update password of the town, needed unless the session of the player allows it * */
+  coveyTownPassword?: string;
+  coveySessionToken?: string;
+}
+
+/**
+ * Payload sent by the client to create a Town from an export of another one
+ */
+export interface TownImportRequest {
+  townExport: TownExport;
+  /** The identity token of the player importing the town, who becomes its owner (a new identity, unless given) * */
+  identityToken?: string;
+}
+
+/**
+ * Payload sent by the client to wait in line to join a full Town
+ */
+export interface TownQueueRequest {
+  coveyTownID: string;
+}
+
+/**
+ * Response from the server for a Town queue request
+ */
+export interface TownQueueResponse {
+  /** The ticket to follow the line with (over the socket), and then to join the town with * */
+  waitingTicket: string;
+  /** The position of the player in line, 0 if they can join right away * */
+  queuePosition: number;
 }
 
 /**
@@ -90,6 +204,14 @@ export interface ResponseEnvelope<T> {
   response?: T;
 }
 
+/**
+ * Gets what a town management request proves it may do with: the update password of the town if
+ * given, or else the session of the player who sent it
+ */
+function credentialOf(requestData: { coveyTownPassword?: string; coveySessionToken?: string }): string {
+  return requestData.coveyTownPassword || requestData.coveySessionToken || '';
+}
+
 /**
  * A handler to process a player's request to join a town. The flow is:
  *  1. Client makes a TownJoinRequest, this handler is executed
@@ -108,8 +230,24 @@ export async function townJoinHandler(requestData: TownJoinRequest): Promise<Res
       message: 'Error: No such town',
     };
   }
-  const newPlayer = new Player(requestData.userName);
-  const newSession = await coveyTownController.addPlayer(newPlayer);
+  if (!coveyTownController.hasRoomFor(requestData.waitingTicket)) {
+    return {
+      isOK: false,
+      message: TOWN_FULL_MESSAGE,
+    };
+  }
+  const identityTokens = PlayerIdentityTokens.getInstance();
+  const identity = requestData.identityToken
+    ? identityTokens.identityFromToken(requestData.identityToken) : undefined;
+  const ban = coveyTownController.banFor(requestData.userName, identity);
+  if (ban) {
+    return {
+      isOK: false,
+      message: `You are banned from this town until ${new Date(ban.until).toUTCString()}: ${ban.reason}`,
+    };
+  }
+  const newPlayer = new Player(requestData.userName, identity);
+  const newSession = await coveyTownController.addPlayer(newPlayer, requestData.waitingTicket);
   assert(newSession.videoToken);
   return {
     isOK: true,
@@ -120,6 +258,9 @@ export async function townJoinHandler(requestData: TownJoinRequest): Promise<Res
       currentPlayers: coveyTownController.players,
       friendlyName: coveyTownController.friendlyName,
       isPubliclyListed: coveyTownController.isPubliclyListed,
+      identityToken: identityTokens.issueToken(newPlayer.identity),
+      roles: coveyTownController.roles,
+      mapID: coveyTownController.mapID,
     },
   };
 }
@@ -132,33 +273,62 @@ export async function townListHandler(): Promise<ResponseEnvelope<TownListRespon
   };
 }
 
+/**
+ * A handler to list the maps that towns can be created with, so that players can pick one (and
+ * the frontend knows which tilemap and tilesets to load for it)
+ */
+export async function mapListHandler(): Promise<ResponseEnvelope<MapListResponse>> {
+  return {
+    isOK: true,
+    response: { maps: MapCatalog.getInstance().maps },
+  };
+}
+
 export async function townCreateHandler(requestData: TownCreateRequest): Promise<ResponseEnvelope<TownCreateResponse>> {
   const townsStore = CoveyTownsStore.getInstance();
-  const spacesStore = CoveySpacesStore.getInstance();
   if (requestData.friendlyName.length === 0) {
     return {
       isOK: false,
       message: 'FriendlyName must be specified',
     };
   }
-  const newTown = townsStore.createTown(requestData.friendlyName, requestData.isPubliclyListed);
+  if (requestData.capacity !== undefined && !isValidTownCapacity(requestData.capacity)) {
+    return {
+      isOK: false,
+      message: 'Capacity must be a positive whole number',
+    };
+  }
+  const mapCatalog = MapCatalog.getInstance();
+  const mapID = requestData.mapID ?? mapCatalog.defaultMapID;
+  const townMap = mapCatalog.getTownMap(mapID);
+  if (!townMap) {
+    return {
+      isOK: false,
+      message: `There is no map ${mapID}`,
+    };
+  }
+  const identityTokens = PlayerIdentityTokens.getInstance();
+  const ownerIdentity = (requestData.identityToken
+    && identityTokens.identityFromToken(requestData.identityToken)) || nanoid();
+  const newTown = townsStore.createTown(requestData.friendlyName, requestData.isPubliclyListed,
+    { capacity: requestData.capacity, ownerIdentity, mapID });
   
-  // Creates pre-defined spaces in the town
-  spacesStore.createSpace('1', newTown.coveyTownID);
-  spacesStore.createSpace('2', newTown.coveyTownID);
+  // Creates the spaces drawn on the town's map
+  newTown.privateSpaces.createSpacesFromMap(townMap);
   
   return {
     isOK: true,
     response: {
       coveyTownID: newTown.coveyTownID,
       coveyTownPassword: newTown.townUpdatePassword,
+      identityToken: identityTokens.issueToken(ownerIdentity),
     },
   };
 }
 
 export async function townDeleteHandler(requestData: TownDeleteRequest): Promise<ResponseEnvelope<Record<string, null>>> {
   const townsStore = CoveyTownsStore.getInstance();
-  const success = townsStore.deleteTown(requestData.coveyTownID, requestData.coveyTownPassword);
+  const success = townsStore.deleteTown(requestData.coveyTownID, credentialOf(requestData));
   return {
     isOK: success,
     response: {},
@@ -168,7 +338,7 @@ export async function townDeleteHandler(requestData: TownDeleteRequest): Promise
 
 export async function townUpdateHandler(requestData: TownUpdateRequest): Promise<ResponseEnvelope<Record<string, null>>> {
   const townsStore = CoveyTownsStore.getInstance();
-  const success = townsStore.updateTown(requestData.coveyTownID, requestData.coveyTownPassword, requestData.friendlyName, requestData.isPubliclyListed);
+  const success = townsStore.updateTown(requestData.coveyTownID, credentialOf(requestData), requestData.friendlyName, requestData.isPubliclyListed, requestData.capacity);
   return {
     isOK: success,
     response: {},
@@ -177,25 +347,379 @@ export async function townUpdateHandler(requestData: TownUpdateRequest): Promise
 
 }
 
+/**
+ * A handler to remove a player from a town (and ban them for a while, if asked to), for the
+ * admins of the town who know its update password and for its owners and moderators
+ *
+ * @param requestData an object representing the admin's request
+ */
+export async function townKickHandler(requestData: TownKickRequest): Promise<ResponseEnvelope<Record<string, null>>> {
+  const { banMinutes } = requestData;
+  if (banMinutes !== undefined && !(typeof banMinutes === 'number' && banMinutes > 0)) {
+    return {
+      isOK: false,
+      message: 'The ban must last a positive number of minutes',
+    };
+  }
+  const townsStore = CoveyTownsStore.getInstance();
+  const success = townsStore.kickPlayer(requestData.coveyTownID, credentialOf(requestData),
+    requestData.playerID, requestData.reason || 'Removed by a town admin', banMinutes);
+  return {
+    isOK: success,
+    response: {},
+    message: !success ? 'Invalid password, or the player is not in the town. Please double check your town update password.' : undefined,
+  };
+}
+
+/**
+ * A handler to change the role of a player in a town, for the owners of the town (and the admins
+ * who know its update password)
+ *
+ * @param requestData an object representing the owner's request
+ */
+export async function townRoleHandler(requestData: TownRoleRequest): Promise<ResponseEnvelope<Record<string, null>>> {
+  if (!TOWN_ROLES.includes(requestData.role)) {
+    return {
+      isOK: false,
+      message: `The role must be one of ${TOWN_ROLES.join(', ')}`,
+    };
+  }
+  const townsStore = CoveyTownsStore.getInstance();
+  const success = townsStore.assignRole(requestData.coveyTownID, credentialOf(requestData),
+    requestData.playerID, requestData.role);
+  return {
+    isOK: success,
+    response: {},
+    message: !success ? 'Only the owner of the town may change the roles of the other players in it' : undefined,
+  };
+}
+
+/**
+ * A handler to export the configuration of a town (its settings, roles, map, spaces and their
+ * settings), for the admins of the town who know its update password and for its owners
+ *
+ * @param requestData an object representing the admin's request
+ */
+export async function townExportHandler(requestData: TownExportRequest): Promise<ResponseEnvelope<TownExport>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const townExport = townsStore.exportTown(requestData.coveyTownID, credentialOf(requestData));
+  return {
+    isOK: townExport !== undefined,
+    response: townExport,
+    message: !townExport ? 'Invalid password. Please double check your town update password.' : undefined,
+  };
+}
+
+/**
+ * Checks that a value sent by the client is a list of strings (such as identities or user names)
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Checks that a value sent by the client is a string or null (such as the identity of a host)
+ */
+function isStringOrNull(value: unknown): value is string | null {
+  return value === null || typeof value === 'string';
+}
+
+/**
+ * Checks that a space capacity sent by the client is a whole number of players, at least one
+ */
+function isSpaceCapacity(capacity: unknown): capacity is number {
+  return typeof capacity === 'number' && Number.isInteger(capacity) && capacity > 0;
+}
+
+/**
+ * Checks that the bounds of a space sent by the client are a rectangle
+ */
+function isSpaceBounds(bounds: unknown): bounds is SpaceBounds {
+  if (typeof bounds !== 'object' || bounds === null) {
+    return false;
+  }
+  const {
+    x, y, width, height,
+  } = bounds as Record<string, unknown>;
+  return [x, y, width, height].every(value => typeof value === 'number' && Number.isFinite(value))
+    && (width as number) > 0 && (height as number) > 0;
+}
+
+/**
+ * Checks that a reservation of an exported space is a time window with a host, a whitelist and
+ * a presenter (reservations that have ended are accepted, and dropped by the import)
+ */
+function isSpaceReservation(reservation: unknown): reservation is SpaceReservation {
+  if (typeof reservation !== 'object' || reservation === null) {
+    return false;
+  }
+  const {
+    reservationID, coveySpaceID, hostIdentity, hostName, start, end, whitelist, presenterIdentity,
+  } = reservation as Record<string, unknown>;
+  return [reservationID, coveySpaceID, hostIdentity, hostName].every(value => typeof value === 'string')
+    && typeof start === 'number' && typeof end === 'number' && Number.isFinite(start)
+    && Number.isFinite(end) && start < end
+    && isStringArray(whitelist) && isStringOrNull(presenterIdentity);
+}
+
+/**
+ * Checks that a space of a town export has every field that importing it reads, in its format
+ */
+function isExportedSpace(space: unknown): space is ExportedSpace {
+  if (typeof space !== 'object' || space === null) {
+    return false;
+  }
+  const {
+    spaceID, bounds, capacity, isPrivateByDefault, settings,
+  } = space as Record<string, unknown>;
+  if (typeof spaceID !== 'string' || spaceID.length === 0
+    || (bounds !== undefined && !isSpaceBounds(bounds))
+    || (capacity !== undefined && !isSpaceCapacity(capacity))
+    || (isPrivateByDefault !== undefined && typeof isPrivateByDefault !== 'boolean')
+    || typeof settings !== 'object' || settings === null) {
+    return false;
+  }
+  const {
+    isPrivate, hostID, presenterID, whitelist, invitedNames, coHosts, successionPolicy,
+    capacity: currentCapacity, reservations, activeReservationID,
+  } = settings as Record<string, unknown>;
+  return typeof isPrivate === 'boolean' && isStringOrNull(hostID) && isStringOrNull(presenterID)
+    && isStringArray(whitelist)
+    && (invitedNames === undefined || isStringArray(invitedNames))
+    && (coHosts === undefined || isStringArray(coHosts))
+    && (successionPolicy === undefined
+      || SUCCESSION_POLICIES.includes(successionPolicy as HostSuccessionPolicy))
+    && (currentCapacity === undefined || currentCapacity === null || isSpaceCapacity(currentCapacity))
+    && (reservations === undefined
+      || (Array.isArray(reservations) && reservations.every(isSpaceReservation)))
+    && (activeReservationID === undefined || isStringOrNull(activeReservationID));
+}
+
+/**
+ * Finds what keeps a town export from being imported on this server, if anything
+ * @param townExport the town export, as sent by the client
+ * @returns a message explaining the problem, or undefined if the export can be imported
+ */
+function townExportProblem(townExport: TownExport | undefined): string | undefined {
+  if (townExport?.version !== TOWN_EXPORT_VERSION) {
+    return `Only town exports of version ${TOWN_EXPORT_VERSION} can be imported`;
+  }
+  const {
+    friendlyName, isPubliclyListed, capacity, mapID, roles, spaces,
+  } = townExport;
+  if (typeof friendlyName !== 'string' || friendlyName.length === 0) {
+    return 'FriendlyName must be specified';
+  }
+  if (typeof isPubliclyListed !== 'boolean' || !isValidTownCapacity(capacity)) {
+    return 'The town export has invalid settings';
+  }
+  if (typeof mapID !== 'string' || !MapCatalog.getInstance().hasMap(mapID)) {
+    return `The town uses the map ${mapID}, which this server does not have`;
+  }
+  if (typeof roles !== 'object' || roles === null
+    || Object.values(roles).some(role => !TOWN_ROLES.includes(role))) {
+    return 'The town export has invalid roles';
+  }
+  if (!Array.isArray(spaces) || !spaces.every(isExportedSpace)) {
+    return 'The town export has invalid spaces';
+  }
+  return undefined;
+}
+
+/**
+ * A handler to create a town from an export of another one (on this server or another)
+ *
+ * @param requestData an object representing the player's request
+ */
+export async function townImportHandler(requestData: TownImportRequest): Promise<ResponseEnvelope<TownCreateResponse>> {
+  const problem = townExportProblem(requestData.townExport);
+  if (problem) {
+    return {
+      isOK: false,
+      message: problem,
+    };
+  }
+  const identityTokens = PlayerIdentityTokens.getInstance();
+  const ownerIdentity = (requestData.identityToken
+    && identityTokens.identityFromToken(requestData.identityToken)) || nanoid();
+  const newTown = CoveyTownsStore.getInstance().importTown(requestData.townExport, ownerIdentity);
+  return {
+    isOK: true,
+    response: {
+      coveyTownID: newTown.coveyTownID,
+      coveyTownPassword: newTown.townUpdatePassword,
+      identityToken: identityTokens.issueToken(ownerIdentity),
+    },
+  };
+}
+
+/**
+ * A handler to put a player in line to join a full town. The player follows the line over a
+ * socket (@see townSubscriptionHandler), and joins the town with their ticket once let in.
+ *
+ * @param requestData an object representing the player's request
+ */
+export async function townQueueHandler(requestData: TownQueueRequest): Promise<ResponseEnvelope<TownQueueResponse>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const coveyTownController = townsStore.getControllerForTown(requestData.coveyTownID);
+  if (!coveyTownController) {
+    return {
+      isOK: false,
+      message: 'Error: No such town',
+    };
+  }
+  const waitingTicket = coveyTownController.joinQueue();
+  return {
+    isOK: true,
+    response: {
+      waitingTicket,
+      queuePosition: coveyTownController.queuePosition(waitingTicket) || 0,
+    },
+  };
+}
+
+// The socket.io room of every socket connected to a town
+function townRoom(coveyTownID: string): string {
+  return `town:${coveyTownID}`;
+}
+
+// The socket.io room of the sockets of the players in a space (space IDs are unique across towns)
+function spaceRoom(coveySpaceID: string): string {
+  return `space:${coveySpaceID}`;
+}
+
+// The socket.io room of the socket(s) of one player
+function playerRoom(playerID: string): string {
+  return `player:${playerID}`;
+}
+
+/**
+ * Emits an event to the sockets of some players (and to no one if there are none)
+ */
+function emitToPlayers(nsp: Namespace, playerIDs: string[], event: string, ...args: unknown[]): void {
+  if (playerIDs.length === 0) {
+    return;
+  }
+  nsp.to(playerIDs.map(playerRoom)).emit(event, ...args);
+}
+
 /**
  * An adapter between CoveyTownController's event interface (CoveyTownListener)
- * and the low-level network communication protocol
+ * and the low-level network communication protocol: every event is emitted once, to the
+ * socket.io room of the town, of a space or of the players that it is for. Sockets join and
+ * leave the rooms of the spaces through the socket.io adapter, which reaches the sockets of
+ * every process (with an adapter for multi-process deployments)
  *
- * @param socket the Socket object that we will use to communicate with the player
+ * @param nsp the socket.io namespace that the players of the town are connected to
+ * @param coveyTownID the ID of the town
  */
-function townSocketAdapter(socket: Socket): CoveyTownListener {
+function townRoomsAdapter(nsp: Namespace, coveyTownID: string): CoveyTownListener {
+  const town = () => nsp.to(townRoom(coveyTownID));
   return {
-    onPlayerMoved(movedPlayer: Player) {
-      socket.emit('playerMoved', movedPlayer);
+    onPlayersMoved(movements: { movedPlayer: Player; recipientIDs: string[] }[]) {
+      // Each client is sent one snapshot per tick, of only the movements it is sent
+      const snapshots = new Map<string, PlayerMovement[]>();
+      movements.forEach(({ movedPlayer, recipientIDs }) => {
+        recipientIDs.forEach((recipientID) => {
+          const snapshot = snapshots.get(recipientID) || [];
+          snapshot.push({ playerID: movedPlayer.id, location: movedPlayer.location });
+          snapshots.set(recipientID, snapshot);
+        });
+      });
+      snapshots.forEach((snapshot, recipientID) => {
+        nsp.to(playerRoom(recipientID)).emit('playersMoved', snapshot);
+      });
+    },
+    onPlayerMovementCorrected(correctedPlayer: Player) {
+      nsp.to(playerRoom(correctedPlayer.id)).emit('movementCorrected', correctedPlayer.location);
     },
     onPlayerDisconnected(removedPlayer: Player) {
-      socket.emit('playerDisconnect', removedPlayer);
+      town().emit('playerDisconnect', removedPlayer);
     },
     onPlayerJoined(newPlayer: Player) {
-      socket.emit('newPlayer', newPlayer);
+      town().emit('newPlayer', newPlayer);
+    },
+    onPlayerReconnecting(player: Player) {
+      town().emit('playerReconnecting', player);
+    },
+    onPlayerReconnected(player: Player) {
+      town().emit('playerReconnected', player);
     },
     onSpaceClaimed(spaceID: string) {
-      socket.emit('spaceClaimed', spaceID);
+      town().emit('spaceClaimed', spaceID);
+    },
+    onSpaceUpdated(space: CoveySpaceInfo) {
+      nsp.to(spaceRoom(space.coveySpaceID)).emit('spaceUpdated', space);
+    },
+    onSpaceDisbanded(space: CoveySpaceInfo) {
+      town().emit('spaceDisbanded', space);
+    },
+    onPlayerJoinedSpace(player: Player, space: CoveySpaceInfo) {
+      nsp.in(playerRoom(player.id)).socketsJoin(spaceRoom(space.coveySpaceID));
+      // The player is sent their membership changes through their own room as well, whether or
+      // not their sockets are (still) in the space's room when the event is emitted
+      nsp.to([spaceRoom(space.coveySpaceID), playerRoom(player.id)])
+        .emit('playerEnteredSpace', { playerID: player.id, space });
+    },
+    onPlayerLeftSpace(player: Player, space: CoveySpaceInfo) {
+      nsp.in(playerRoom(player.id)).socketsLeave(spaceRoom(space.coveySpaceID));
+      nsp.to([spaceRoom(space.coveySpaceID), playerRoom(player.id)])
+        .emit('playerLeftSpace', { playerID: player.id, space });
+    },
+    onPresenterChanged(space: CoveySpaceInfo) {
+      nsp.to(spaceRoom(space.coveySpaceID)).emit('presenterChanged', space);
+    },
+    onSpaceHostChanged(space: CoveySpaceInfo) {
+      nsp.to(spaceRoom(space.coveySpaceID)).emit('spaceHostChanged', space);
+    },
+    onPlayerBounced(bouncedPlayer: Player) {
+      town().emit('playerBounced', bouncedPlayer);
+    },
+    onPlayerAdmittedToSpace(admittedPlayer: Player) {
+      town().emit('playerAdmitted', admittedPlayer);
+    },
+    onSpaceEntryDenied(deniedPlayer: Player, space: CoveySpaceInfo) {
+      nsp.to(playerRoom(deniedPlayer.id)).emit('spaceEntryDenied', space);
+    },
+    onPlayerKickedFromSpace(kickedPlayer: Player, space: CoveySpaceInfo) {
+      nsp.to(playerRoom(kickedPlayer.id)).emit('kickedFromSpace', space);
+    },
+    onPlayerKicked(kickedPlayer: Player, reason: string) {
+      nsp.to(playerRoom(kickedPlayer.id)).emit('playerKicked', reason);
+      nsp.in(playerRoom(kickedPlayer.id)).disconnectSockets(true);
+    },
+    onRoleChanged(identity: string, role: TownRole) {
+      town().emit('roleChanged', { identity, role });
+    },
+    onSpaceKnock(knock: SpaceKnock, recipientIDs: string[]) {
+      emitToPlayers(nsp, recipientIDs, 'spaceKnock', knock);
+    },
+    onSpaceKnockAnswered(knock: SpaceKnock, outcome: KnockOutcome, recipientIDs: string[]) {
+      emitToPlayers(nsp, recipientIDs, 'spaceKnockAnswered', { knock, outcome });
+    },
+    onChatMessage(message: ChatMessage, recipientIDs: string[]) {
+      emitToPlayers(nsp, recipientIDs, 'chatMessage', message);
+    },
+    onTownDestroyed() {
+      town().emit('townClosing');
+      nsp.in(townRoom(coveyTownID)).disconnectSockets(true);
+    },
+  };
+}
+
+/**
+ * An adapter between CoveyTownController's waiting line events (CoveyTownQueueListener)
+ * and the low-level network communication protocol
+ *
+ * @param socket the Socket object that we will use to communicate with the waiting player
+ */
+function townQueueSocketAdapter(socket: Socket): CoveyTownQueueListener {
+  return {
+    onQueuePositionChanged(position: number) {
+      socket.emit('queuePosition', position);
+    },
+    onSlotAvailable() {
+      socket.emit('slotAvailable');
     },
     onTownDestroyed() {
       socket.emit('townClosing');
@@ -204,6 +728,58 @@ function townSocketAdapter(socket: Socket): CoveyTownListener {
   };
 }
 
+/**
+ * Lets a player that is waiting in line to join a town follow their position over the socket.
+ * The player leaves the line if they disconnect before joining.
+ *
+ * @param socket the Socket object that we will use to communicate with the waiting player
+ * @param townController the town that the player is waiting to join
+ * @param waitingTicket the ticket returned by townQueueHandler
+ */
+function townQueueSubscriptionHandler(socket: Socket, townController: CoveyTownController,
+  waitingTicket: string): void {
+  if (!townController.watchQueue(waitingTicket, townQueueSocketAdapter(socket))) {
+    socket.disconnect(true);
+    return;
+  }
+  socket.on('disconnect', () => {
+    // Once the player joined the town, their ticket is no longer in line
+    if (townController.queuePosition(waitingTicket) !== 0) {
+      townController.leaveQueue(waitingTicket);
+    }
+  });
+}
+
+/**
+ * The directions that players may face
+ */
+const DIRECTIONS: Direction[] = ['front', 'back', 'left', 'right'];
+
+/**
+ * Checks that a movement sent over a socket is a location: clients may send anything
+ */
+function isUserLocation(movementData: unknown): movementData is UserLocation {
+  if (typeof movementData !== 'object' || movementData === null) {
+    return false;
+  }
+  const {
+    x, y, rotation, moving,
+  } = movementData as Record<string, unknown>;
+  return typeof x === 'number' && Number.isFinite(x) && typeof y === 'number' && Number.isFinite(y)
+    && DIRECTIONS.includes(rotation as Direction) && typeof moving === 'boolean';
+}
+
+/**
+ * Checks that a chat message sent over a socket has a scope and a body: clients may send anything
+ */
+function isChatRequest(chatData: unknown): chatData is { scope: ChatScope; body: string } {
+  if (typeof chatData !== 'object' || chatData === null) {
+    return false;
+  }
+  const { scope, body } = chatData as Record<string, unknown>;
+  return typeof scope === 'string' && typeof body === 'string';
+}
+
 /**
  * A handler to process a remote player's subscription to updates for a town
  *
@@ -212,11 +788,19 @@ function townSocketAdapter(socket: Socket): CoveyTownListener {
 export function townSubscriptionHandler(socket: Socket): void {
   // Parse the client's session token from the connection
   // For each player, the session token should be the same string returned by joinTownHandler
-  const { token, coveyTownID } = socket.handshake.auth as { token: string; coveyTownID: string };
+  const { token, coveyTownID, waitingTicket } = socket.handshake.auth as {
+    token: string; coveyTownID: string; waitingTicket?: string
+  };
 
   const townController = CoveyTownsStore.getInstance()
     .getControllerForTown(coveyTownID);
 
+  // Players waiting in line to join the town have a waiting ticket instead of a session token
+  if (townController && waitingTicket !== undefined && token === undefined) {
+    townQueueSubscriptionHandler(socket, townController, waitingTicket);
+    return;
+  }
+
   // Retrieve our metadata about this player from the TownController
   const s = townController?.getSessionByToken(token);
   if (!s || !townController) {
@@ -225,22 +809,76 @@ export function townSubscriptionHandler(socket: Socket): void {
     return;
   }
 
-  // Create an adapter that will translate events from the CoveyTownController into
-  // events that the socket protocol knows about
-  const listener = townSocketAdapter(socket);
-  townController.addTownListener(listener);
+  // A client that reconnects within the grace period resumes its session, but may have missed
+  // some events while it was away: send it the current state of the town to start over from
+  if (townController.connectSession(s)) {
+    socket.emit('sessionResumed', {
+      currentPlayers: townController.players,
+      spaces: townController.privateSpaces.listSpaces(),
+      roles: townController.roles,
+    });
+  }
 
-  // Register an event listener for the client socket: if the client disconnects,
-  // clean up our listener adapter, and then let the CoveyTownController know that the
-  // player's session is disconnected
-  socket.on('disconnect', () => {
-    townController.removeTownListener(listener);
-    townController.destroySession(s);
+  // Events of the town reach the socket through the rooms that it joins: the town's, its
+  // player's and (if the player is in a space) the space's. One adapter per town translates
+  // events from the CoveyTownController into events that the socket protocol knows about
+  if (!townController.townListener) {
+    townController.townListener = townRoomsAdapter(socket.nsp, coveyTownID);
+  }
+  const rooms = [townRoom(coveyTownID), playerRoom(s.player.id)];
+  const space = townController.privateSpaces.getControllerForPlayer(s.player.id);
+  if (space) {
+    rooms.push(spaceRoom(space.coveySpaceID));
+  }
+  socket.join(rooms);
+
+  // Register an event listener for the client socket: if the client disconnects, let the
+  // CoveyTownController know that the connection is closed (unless the client closed it on
+  // purpose, the session is kept for a while, in case the client reconnects). socket.io takes
+  // the socket out of its rooms
+  socket.on('disconnect', (reason: string) => {
+    townController.disconnectSession(s,
+      reason === 'client namespace disconnect' || reason === 'server namespace disconnect');
   });
 
   // Register an event listener for the client socket: if the client updates their
-  // location, inform the CoveyTownController
-  socket.on('playerMovement', (movementData: UserLocation) => {
-    townController.updatePlayerLocation(s.player, movementData);
+  // location, inform the CoveyTownController (which corrects movements that the map does not allow)
+  socket.on('playerMovement', (movementData: unknown) => {
+    if (isUserLocation(movementData)) {
+      // Only the fields of a location are kept, and sent on to the other players
+      const {
+        x, y, rotation, moving,
+      } = movementData;
+      townController.movePlayer(s.player, {
+        x, y, rotation, moving,
+      });
+    }
+  });
+
+  // Once the client is connected to the video room, restrict the tracks that it receives
+  socket.on('videoConnected', () => {
+    townController.playerVideoConnected(s.player);
+  });
+
+  // Register an event listener for the client socket: if the client sends a chat message, have
+  // the CoveyTownController deliver it, and let the client know whether it was sent
+  socket.on('chatMessage', (chatData: unknown,
+    acknowledge?: (response: ResponseEnvelope<ChatMessage>) => void) => {
+    if (!isChatRequest(chatData)) {
+      acknowledge?.({ isOK: false, message: 'Chat messages need a scope and a body' });
+      return;
+    }
+    const message = townController.sendChatMessage(s.player, chatData.scope, chatData.body);
+    acknowledge?.({
+      isOK: message !== undefined,
+      response: message,
+      message: message === undefined ? `Unable to send the message to ${chatData.scope}` : undefined,
+    });
+  });
+
+  // The client asks for the recent messages of a scope (when opening a conversation)
+  socket.on('chatHistory', (scope: unknown,
+    acknowledge?: (messages: ChatMessage[]) => void) => {
+    acknowledge?.(typeof scope === 'string' ? townController.chatHistory(s.player, scope) : []);
   });
 }
@@ -1,13 +1,38 @@
-import { Express } from 'express';
+import { Express, Request, Response } from 'express';
 import BodyParser from 'body-parser';
 import io from 'socket.io';
 import { Server } from 'http';
 import { StatusCodes } from 'http-status-codes';
 import { logError } from '../Utils';
-import { townCreateHandler, townDeleteHandler, townJoinHandler, townListHandler, townSubscriptionHandler, townUpdateHandler } from '../requestHandlers/CoveyTownRequestHandlers';
-import { spaceJoinHandler, spaceLeaveHandler, spaceListHandler, spaceUpdateHandler, spaceCreateHandler, spaceGetForPlayerHandler } from '../requestHandlers/CoveySpaceRequestHandlers';
+import { mapListHandler, townCreateHandler, townDeleteHandler, townExportHandler, townImportHandler, townJoinHandler, townKickHandler, townListHandler, townQueueHandler, townRoleHandler, townSubscriptionHandler, townUpdateHandler } from '../requestHandlers/CoveyTownRequestHandlers';
+import { spaceJoinHandler, spaceLeaveHandler, spaceListHandler, spaceUpdateHandler, spaceCreateHandler, spaceGetForPlayerHandler, spaceKnockHandler, spaceKnockAnswerHandler, spaceKickHandler, spaceReserveHandler, reservationListHandler, reservationCancelHandler, ResponseEnvelope } from '../requestHandlers/CoveySpaceRequestHandlers';
 
-export default function addTownRoutes(http: Server, app: Express): io.Server {
+/**
+ * Reads the covey session token that the client sends as a bearer token with every space request
+ */
+function sessionTokenFromRequest(req: Request): string {
+  const authorization = req.header('Authorization') || '';
+  return authorization.replace(/^Bearer /, '');
+}
+
+/**
+ * Replies with the envelope returned by a space handler, using the HTTP status that the handler
+ * asked for (e.g. 401 or 403 when the session token was rejected)
+ */
+function sendSpaceResponse<T>(res: Response, result: ResponseEnvelope<T>): void {
+  const { status, ...envelope } = result;
+  res.status(status || StatusCodes.OK)
+    .json(envelope);
+}
+
+/**
+ * Adds the REST routes of the towns service to an Express app, and serves the town sockets
+ *
+ * @param adapter the socket.io adapter that carries the events emitted to the rooms of the towns
+ *                (e.g. to the clients connected to other processes); in-memory by default
+ */
+export default function addTownRoutes(http: Server, app: Express,
+  adapter?: Partial<io.ServerOptions>['adapter']): io.Server {
   /*
    * Create a new session (aka join a town)
    */
@@ -16,6 +41,8 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
       const result = await townJoinHandler({
         userName: req.body.userName,
         coveyTownID: req.body.coveyTownID,
+        waitingTicket: req.body.waitingTicket,
+        identityToken: req.body.identityToken,
       });
       res.status(StatusCodes.OK)
         .json(result);
@@ -48,6 +75,26 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
     }
   });
 
+  /**
+   * Delete a town, as its owner (the session token is sent as a bearer token)
+   */
+  app.delete('/towns/:townID', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await townDeleteHandler({
+        coveyTownID: req.params.townID,
+        coveySessionToken: sessionTokenFromRequest(req),
+      });
+      res.status(StatusCodes.OK)
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
   /**
    * List all towns
    */
@@ -65,6 +112,23 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
     }
   });
 
+  /**
+   * List the maps that towns can be created with
+   */
+  app.get('/maps', BodyParser.json(), async (_req, res) => {
+    try {
+      const result = await mapListHandler();
+      res.status(StatusCodes.OK)
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
   /**
    * Create a town
    */
@@ -82,6 +146,49 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
     }
   });
   
+  /**
+   * Create a town from an export of another one
+   */
+  app.post('/towns/import', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await townImportHandler({
+        townExport: req.body.townExport,
+        identityToken: req.body.identityToken,
+      });
+      // An export that is rejected is malformed, or uses a map that this server does not have
+      res.status(result.isOK ? StatusCodes.OK : StatusCodes.BAD_REQUEST)
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Export the configuration of a town (town admins only: the update password is sent as the
+   * coveyTownPassword query parameter, or the session token of an owner as a bearer token)
+   */
+  app.get('/towns/:townID/export', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await townExportHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: typeof req.query.coveyTownPassword === 'string' ? req.query.coveyTownPassword : undefined,
+        coveySessionToken: sessionTokenFromRequest(req),
+      });
+      res.status(StatusCodes.OK)
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
   /**
    * Update a town
    */
@@ -92,6 +199,74 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
         isPubliclyListed: req.body.isPubliclyListed,
         friendlyName: req.body.friendlyName,
         coveyTownPassword: req.body.coveyTownPassword,
+        coveySessionToken: sessionTokenFromRequest(req),
+        capacity: req.body.capacity,
+      });
+      res.status(StatusCodes.OK)
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Remove a player from a town, banning them for a while if asked to (town admins only)
+   */
+  app.post('/towns/:townID/kicks', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await townKickHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: req.body.coveyTownPassword,
+        coveySessionToken: sessionTokenFromRequest(req),
+        playerID: req.body.playerID,
+        reason: req.body.reason,
+        banMinutes: req.body.banMinutes,
+      });
+      res.status(StatusCodes.OK)
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Change the role of a player in a town (town owners only)
+   */
+  app.put('/towns/:townID/players/:playerID/role', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await townRoleHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: req.body.coveyTownPassword,
+        coveySessionToken: sessionTokenFromRequest(req),
+        playerID: req.params.playerID,
+        role: req.body.role,
+      });
+      res.status(StatusCodes.OK)
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Wait in line to join a full town
+   */
+  app.post('/towns/:townID/queue', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await townQueueHandler({
+        coveyTownID: req.params.townID,
       });
       res.status(StatusCodes.OK)
         .json(result);
@@ -109,14 +284,14 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
   /**
    * Create a new space
    */
-  app.post('/spaces/:townID/:spaceID', BodyParser.json(), async (req, res) => {
+  app.post('/towns/:townID/spaces/:spaceID', BodyParser.json(), async (req, res) => {
     try {
       const result = await spaceCreateHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
         coveyTownID: req.params.townID,
         coveySpaceID: req.params.spaceID,
       });
-      res.status(StatusCodes.OK)
-        .json(result);
+      sendSpaceResponse(res, result);
     } catch (err) {
       logError(err);
       res.status(StatusCodes.INTERNAL_SERVER_ERROR)
@@ -127,13 +302,15 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
   });
   
   /**
-     * List all Spaces
+     * List all Spaces in a town
      */
-  app.get('/spaces/', BodyParser.json(), async (_req, res) => {
+  app.get('/towns/:townID/spaces', BodyParser.json(), async (req, res) => {
     try {
-      const result = await spaceListHandler();
-      res.status(StatusCodes.OK)
-        .json(result);
+      const result = await spaceListHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
+        coveyTownID: req.params.townID,
+      });
+      sendSpaceResponse(res, result);
     } catch (err) {
       logError(err);
       res.status(StatusCodes.INTERNAL_SERVER_ERROR)
@@ -146,13 +323,14 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
   /**
      * List the space for the given player
      */
-  app.get('/spaces/:playerID', BodyParser.json(), async (req, res) => {
+  app.get('/towns/:townID/players/:playerID/space', BodyParser.json(), async (req, res) => {
     try {
       const result = await spaceGetForPlayerHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
+        coveyTownID: req.params.townID,
         playerID: req.params.playerID,
       });
-      res.status(StatusCodes.OK)
-        .json(result);
+      sendSpaceResponse(res, result);
     } catch (err) {
       logError(err);
       res.status(StatusCodes.INTERNAL_SERVER_ERROR)
@@ -165,14 +343,15 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
   /**
      * Join a space
      */
-  app.put('/spaces/:spaceID/:playerID', BodyParser.json(), async (req, res) => {
+  app.put('/towns/:townID/spaces/:spaceID/:playerID', BodyParser.json(), async (req, res) => {
     try {
       const result = await spaceJoinHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
+        coveyTownID: req.params.townID,
         playerID: req.params.playerID,
         coveySpaceID: req.params.spaceID,
       });
-      res.status(StatusCodes.OK)
-        .json(result);
+      sendSpaceResponse(res, result);
     } catch (err) {
       logError(err);
       res.status(StatusCodes.INTERNAL_SERVER_ERROR)
@@ -185,14 +364,15 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
   /**
      * Leave a space
      */
-  app.delete('/spaces/:spaceID/:playerID', BodyParser.json(), async (req, res) => {
+  app.delete('/towns/:townID/spaces/:spaceID/:playerID', BodyParser.json(), async (req, res) => {
     try {
       const result = await spaceLeaveHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
+        coveyTownID: req.params.townID,
         playerID: req.params.playerID,
         coveySpaceID: req.params.spaceID,
       });
-      res.status(StatusCodes.OK)
-        .json(result);
+      sendSpaceResponse(res, result);
     } catch (err) {
       logError(err);
       res.status(StatusCodes.INTERNAL_SERVER_ERROR)
@@ -202,6 +382,137 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
     }
   });
   
+  /**
+     * Knock on a private space, asking its host to be let in
+     */
+  app.post('/towns/:townID/spaces/:spaceID/knocks', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await spaceKnockHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
+        coveyTownID: req.params.townID,
+        coveySpaceID: req.params.spaceID,
+        playerID: req.body.playerID,
+      });
+      sendSpaceResponse(res, result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+     * Answer a knock on a space (host only)
+     */
+  app.put('/towns/:townID/spaces/:spaceID/knocks/:knockerID', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await spaceKnockAnswerHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
+        coveyTownID: req.params.townID,
+        coveySpaceID: req.params.spaceID,
+        knockerID: req.params.knockerID,
+        playerID: req.body.playerID,
+        accept: req.body.accept,
+      });
+      sendSpaceResponse(res, result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+     * Reserve a space for a time window
+     */
+  app.post('/towns/:townID/reservations', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await spaceReserveHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
+        coveyTownID: req.params.townID,
+        coveySpaceID: req.body.coveySpaceID,
+        playerID: req.body.playerID,
+        start: req.body.start,
+        end: req.body.end,
+        whitelist: req.body.whitelist,
+        presenterIdentity: req.body.presenterIdentity,
+      });
+      sendSpaceResponse(res, result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+     * List the reservations of the spaces of a town
+     */
+  app.get('/towns/:townID/reservations', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await reservationListHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
+        coveyTownID: req.params.townID,
+      });
+      sendSpaceResponse(res, result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+     * Cancel a reservation (whoever made it, or a town moderator)
+     */
+  app.delete('/towns/:townID/reservations/:reservationID/:playerID', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await reservationCancelHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
+        coveyTownID: req.params.townID,
+        reservationID: req.params.reservationID,
+        playerID: req.params.playerID,
+      });
+      sendSpaceResponse(res, result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+     * Remove a player from a space (host only)
+     */
+  app.post('/towns/:townID/spaces/:spaceID/kicks', BodyParser.json(), async (req, res) => {
+    try {
+      const result = await spaceKickHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
+        coveyTownID: req.params.townID,
+        coveySpaceID: req.params.spaceID,
+        playerID: req.body.playerID,
+        kickedPlayerID: req.body.kickedPlayerID,
+      });
+      sendSpaceResponse(res, result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
   /**
      * Update a space, also called when we want to:
      * - claim a space
@@ -209,17 +520,22 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
      * - change hosts
      * - change presenters
      */
-  app.patch('/spaces/:spaceID', BodyParser.json(), async (req, res) => {
+  app.patch('/towns/:townID/spaces/:spaceID', BodyParser.json(), async (req, res) => {
     try {
       const result = await spaceUpdateHandler({
+        coveySessionToken: sessionTokenFromRequest(req),
+        coveyTownID: req.params.townID,
         coveySpaceID: req.params.spaceID,
         playerID: req.body.playerID,
         hostID: req.body.hostID,
         presenterID: req.body.presenterID,
         whitelist: req.body.whitelist,
+        capacity: req.body.capacity,
+        invitedNames: req.body.invitedNames,
+        coHosts: req.body.coHosts,
+        successionPolicy: req.body.successionPolicy,
       });
-      res.status(StatusCodes.OK)
-        .json(result);
+      sendSpaceResponse(res, result);
     } catch (err) {
       logError(err);
       res.status(StatusCodes.INTERNAL_SERVER_ERROR)
@@ -229,7 +545,7 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
     }
   });
 
-  const socketServer = new io.Server(http, { cors: { origin: '*' } });
+  const socketServer = new io.Server(http, { cors: { origin: '*' }, adapter });
   socketServer.on('connection', townSubscriptionHandler);
   return socketServer;
 }
@@ -4,6 +4,7 @@ import CORS from 'cors';
 import { AddressInfo } from 'net';
 import addTownRoutes from './router/towns';
 import CoveyTownsStore from './lib/CoveyTownsStore';
+import MapCatalog from './lib/MapCatalog';
 
 const app = Express();
 app.use(CORS());
@@ -11,13 +12,21 @@ const server = http.createServer(app);
 
 addTownRoutes(server, app);
 
+// Bring back the towns that existed before the server (re)started
+CoveyTownsStore.getInstance().loadTowns();
+
 server.listen(process.env.PORT || 8081, () => {
   const address = server.address() as AddressInfo;
   // eslint-disable-next-line no-console
   console.log(`Listening on ${address.port}`);
-  if (process.env.DEMO_TOWN_ID) {
-    // eslint-disable-next-line
+  if (process.env.DEMO_TOWN_ID
+    && !CoveyTownsStore.getInstance().getControllerForTown(process.env.DEMO_TOWN_ID)) {
     const newTown = CoveyTownsStore.getInstance()
       .createTown(process.env.DEMO_TOWN_ID, false);
+    // Creates the spaces drawn on the demo town's map, like for any other new town
+    const townMap = MapCatalog.getInstance().getTownMap(newTown.mapID);
+    if (townMap) {
+      newTown.privateSpaces.createSpacesFromMap(townMap);
+    }
   }
 });
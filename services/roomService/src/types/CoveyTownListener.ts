@@ -1,7 +1,11 @@
+import {
+  ChatMessage, CoveySpaceInfo, KnockOutcome, SpaceKnock, TownRole,
+} from '../CoveyTypes';
 import Player from './Player';
 
 /**
- * A listener for player-related events in each town
+ * A listener for player-related events in each town: each town sends its events to one listener,
+ * which emits them to the socket.io rooms of the town, of its spaces and of its players
  */
 export default interface CoveyTownListener {
   /**
@@ -11,10 +15,19 @@ export default interface CoveyTownListener {
   onPlayerJoined(newPlayer: Player): void;
 
   /**
-   * Called when a player's location changes
-   * @param movedPlayer the player that moved
+   * Called at each tick of the town in which players moved, with every player that moved since
+   * the previous tick (at their latest location)
+   * @param movements each player that moved, and the IDs of the players that are sent the
+   *                  movement (the players near the moved player, or every player once in a while)
    */
-  onPlayerMoved(movedPlayer: Player): void;
+  onPlayersMoved(movements: { movedPlayer: Player; recipientIDs: string[] }[]): void;
+
+  /**
+   * Called when a player asked to move somewhere that they cannot go (through a wall, or too
+   * fast), and were moved as far as they could go instead
+   * @param correctedPlayer the player, at the location they are at
+   */
+  onPlayerMovementCorrected(correctedPlayer: Player): void;
 
   /**
    * Called when a player disconnects from the town
@@ -22,6 +35,19 @@ export default interface CoveyTownListener {
    */
   onPlayerDisconnected(removedPlayer: Player): void;
 
+  /**
+   * Called when a player loses their connection to the town: they stay in the town (and in
+   * their space) for a grace period, and are disconnected if they do not come back by then
+   * @param player the player that lost their connection
+   */
+  onPlayerReconnecting(player: Player): void;
+
+  /**
+   * Called when a player that lost their connection comes back within the grace period
+   * @param player the player that came back
+   */
+  onPlayerReconnected(player: Player): void;
+
   /**
    * Called when a town is destroyed, causing all players to disconnect
    */
@@ -31,4 +57,105 @@ export default interface CoveyTownListener {
    * Called when space claimed
    */
   onSpaceClaimed(spaceID: string): void;
+
+  /**
+   * Called when the host, whitelist or privacy of a space changes (including when it is claimed)
+   * @param space the space, after the change
+   */
+  onSpaceUpdated(space: CoveySpaceInfo): void;
+
+  /**
+   * Called when a space is disbanded, returning it to how it was before being claimed
+   * @param space the space, after being disbanded
+   */
+  onSpaceDisbanded(space: CoveySpaceInfo): void;
+
+  /**
+   * Called when a player joins a space (by walking in, or through the REST API)
+   * @param player the player that joined the space
+   * @param space the space, including the new player
+   */
+  onPlayerJoinedSpace(player: Player, space: CoveySpaceInfo): void;
+
+  /**
+   * Called when a player leaves a space (by walking out, being removed, or disconnecting)
+   * @param player the player that left the space
+   * @param space the space, without the player
+   */
+  onPlayerLeftSpace(player: Player, space: CoveySpaceInfo): void;
+
+  /**
+   * Called when the host of a space picks a new presenter (or none)
+   * @param space the space, with its new presenter
+   */
+  onPresenterChanged(space: CoveySpaceInfo): void;
+
+  /**
+   * Called when a space is handed over to a new host, by its host or because its host left
+   * @param space the space, with its new host
+   */
+  onSpaceHostChanged(space: CoveySpaceInfo): void;
+
+  /**
+   * Called when a player is moved out of a space they are not allowed into
+   * @param bouncedPlayer the player, at the location they were moved to
+   */
+  onPlayerBounced(bouncedPlayer: Player): void;
+
+  /**
+   * Called when a player that was waiting in the line of a full space is let in
+   * @param admittedPlayer the player, at the location they were moved to (inside the space)
+   */
+  onPlayerAdmittedToSpace(admittedPlayer: Player): void;
+
+  /**
+   * Called when a player is not let into a private space, and may knock to ask its host
+   * @param deniedPlayer the player that was not let in
+   * @param space the space they tried to enter
+   */
+  onSpaceEntryDenied(deniedPlayer: Player, space: CoveySpaceInfo): void;
+
+  /**
+   * Called when the host of a space removes a player from it
+   * @param kickedPlayer the player, at the location they were moved to (outside of the space)
+   * @param space the space, without the player
+   */
+  onPlayerKickedFromSpace(kickedPlayer: Player, space: CoveySpaceInfo): void;
+
+  /**
+   * Called when a town admin removes a player from the town (after the player was disconnected
+   * from it, @see onPlayerDisconnected)
+   * @param kickedPlayer the player that was removed
+   * @param reason why they were removed
+   */
+  onPlayerKicked(kickedPlayer: Player, reason: string): void;
+
+  /**
+   * Called when the role of a player in the town changes
+   * @param identity the identity of the player (who may be away)
+   * @param role the new role
+   */
+  onRoleChanged(identity: string, role: TownRole): void;
+
+  /**
+   * Called when a player knocks on a private space
+   * @param knock the knock
+   * @param recipientIDs the IDs of the players that may answer it (the host and co-hosts of the space)
+   */
+  onSpaceKnock(knock: SpaceKnock, recipientIDs: string[]): void;
+
+  /**
+   * Called when a knock is answered, or expires
+   * @param knock the knock
+   * @param outcome how it ended
+   * @param recipientIDs the IDs of the players involved (the knocking player, the host and co-hosts)
+   */
+  onSpaceKnockAnswered(knock: SpaceKnock, outcome: KnockOutcome, recipientIDs: string[]): void;
+
+  /**
+   * Called when a player sends a chat message
+   * @param message the message
+   * @param recipientIDs the IDs of the players that may receive the message (including the sender)
+   */
+  onChatMessage(message: ChatMessage, recipientIDs: string[]): void;
 }
@@ -0,0 +1,21 @@
+/**
+ * A listener for the events of a player that is waiting in line to join a full town
+ */
+export default interface CoveyTownQueueListener {
+  /**
+   * Called when the player moves up the line (and when they start watching it)
+   * @param position the number of players ahead of them, plus one
+   */
+  onQueuePositionChanged(position: number): void;
+
+  /**
+   * Called when a slot is set aside for the player, who should now join the town with their
+   * waiting ticket
+   */
+  onSlotAvailable(): void;
+
+  /**
+   * Called when the town is destroyed while the player is waiting
+   */
+  onTownDestroyed(): void;
+}
@@ -14,15 +14,27 @@ export default class Player {
   /** The player's username, which is not guaranteed to be unique within the town * */
   private readonly _userName: string;
 
-  constructor(userName: string) {
+  /** The identity of the person playing, which stays the same when they join again * */
+  private readonly _identity: string;
+
+  /** Whether the player lost their connection, and may still come back to resume their session * */
+  private _isReconnecting = false;
+
+  /**
+   * @param userName the name the player chose
+   * @param identity the identity the player proved they have (a new one unless given)
+   */
+  constructor(userName: string, identity: string = nanoid()) {
     this.location = {
       x: 0,
       y: 0,
       moving: false,
       rotation: 'front',
+      space: 'World',
     };
     this._userName = userName;
     this._id = nanoid();
+    this._identity = identity;
   }
   // gets the username of a player
   get userName(): string {
@@ -32,6 +44,21 @@ export default class Player {
   get id(): string {
     return this._id;
   }
+
+  // gets the identity of the person playing
+  get identity(): string {
+    return this._identity;
+  }
+  // gets whether the player lost their connection and may still come back
+  get isReconnecting(): boolean {
+    return this._isReconnecting;
+  }
+
+  // marks the player as having lost their connection, or as being back
+  setReconnecting(isReconnecting: boolean): void {
+    this._isReconnecting = isReconnecting;
+  }
+
   // updates the location of a player
   updateLocation(location: UserLocation): void {
     this.location = location;